@@ -14,7 +14,9 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Pencil, Trash2, X } from "lucide-react";
+import { FactSheetEditor } from "@/components/brand/fact-sheet-editor";
+import { AccuracyPanel } from "@/components/brand/accuracy-panel";
+import { ClipboardCheck, Plus, Pencil, Trash2, X } from "lucide-react";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -23,6 +25,14 @@ import { Plus, Pencil, Trash2, X } from "lucide-react";
 interface Competitor {
   name: string;
   domain: string;
+  aliases?: string[];
+  products?: string[];
+  handles?: string[];
+  excludedPhrases?: string[];
+}
+
+interface CompetitorRow extends Competitor {
+  aliasesRaw: string;
 }
 
 interface Brand {
@@ -31,7 +41,13 @@ interface Brand {
   domain: string;
   description: string;
   keywords: string[];
+  aliases: string[];
+  products: string[];
+  handles: string[];
+  excludedPhrases: string[];
   competitors: Competitor[];
+  dailyBudget: number; // USD across all providers; 0 = no cap
+  monthlyBudget: number;
 }
 
 interface BrandFormData {
@@ -39,7 +55,13 @@ interface BrandFormData {
   domain: string;
   description: string;
   keywordsRaw: string;
-  competitors: Competitor[];
+  aliasesRaw: string;
+  productsRaw: string;
+  handlesRaw: string;
+  excludedPhrasesRaw: string;
+  competitors: CompetitorRow[];
+  dailyBudget: number;
+  monthlyBudget: number;
 }
 
 const emptyForm: BrandFormData = {
@@ -47,9 +69,55 @@ const emptyForm: BrandFormData = {
   domain: "",
   description: "",
   keywordsRaw: "",
+  aliasesRaw: "",
+  productsRaw: "",
+  handlesRaw: "",
+  excludedPhrasesRaw: "",
   competitors: [],
+  dailyBudget: 0,
+  monthlyBudget: 0,
 };
 
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// List columns are stored as JSON strings; accept either form from the API
+function parseList<T>(value: unknown): T[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== "string") return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function splitList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function normalizeBrand(raw: Record<string, unknown>): Brand {
+  return {
+    id: String(raw.id),
+    name: String(raw.name),
+    domain: String(raw.domain),
+    description: String(raw.description ?? ""),
+    keywords: parseList<string>(raw.keywords),
+    aliases: parseList<string>(raw.aliases),
+    products: parseList<string>(raw.products),
+    handles: parseList<string>(raw.handles),
+    excludedPhrases: parseList<string>(raw.excludedPhrases),
+    competitors: parseList<Competitor>(raw.competitors),
+    dailyBudget: Number(raw.dailyBudget ?? 0),
+    monthlyBudget: Number(raw.monthlyBudget ?? 0),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -62,6 +130,9 @@ export default function BrandPage() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [form, setForm] = useState<BrandFormData>(emptyForm);
   const [submitting, setSubmitting] = useState(false);
+  // The brand whose fact sheet and accuracy are open
+  const [factsBrandId, setFactsBrandId] = useState<string | null>(null);
+  const [factsSavedCount, setFactsSavedCount] = useState(0);
 
   // Fetch brands
   useEffect(() => {
@@ -73,8 +144,8 @@ export default function BrandPage() {
       setLoading(true);
       const res = await fetch("/api/brand");
       if (!res.ok) throw new Error("Failed to fetch brands");
-      const data: Brand[] = await res.json();
-      setBrands(data);
+      const data: Array<Record<string, unknown>> = await res.json();
+      setBrands(data.map(normalizeBrand));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
@@ -94,7 +165,16 @@ export default function BrandPage() {
       domain: brand.domain,
       description: brand.description,
       keywordsRaw: brand.keywords.join(", "),
-      competitors: [...brand.competitors],
+      aliasesRaw: brand.aliases.join(", "),
+      productsRaw: brand.products.join(", "),
+      handlesRaw: brand.handles.join(", "),
+      excludedPhrasesRaw: brand.excludedPhrases.join(", "),
+      competitors: brand.competitors.map((c) => ({
+        ...c,
+        aliasesRaw: (c.aliases ?? []).join(", "),
+      })),
+      dailyBudget: brand.dailyBudget,
+      monthlyBudget: brand.monthlyBudget,
     });
     setEditingId(brand.id);
     setShowForm(true);
@@ -109,7 +189,10 @@ export default function BrandPage() {
   function addCompetitor() {
     setForm((prev) => ({
       ...prev,
-      competitors: [...prev.competitors, { name: "", domain: "" }],
+      competitors: [
+        ...prev.competitors,
+        { name: "", domain: "", aliasesRaw: "" },
+      ],
     }));
   }
 
@@ -120,7 +203,11 @@ export default function BrandPage() {
     }));
   }
 
-  function updateCompetitor(index: number, field: keyof Competitor, value: string) {
+  function updateCompetitor(
+    index: number,
+    field: "name" | "domain" | "aliasesRaw",
+    value: string
+  ) {
     setForm((prev) => {
       const updated = [...prev.competitors];
       updated[index] = { ...updated[index], [field]: value };
@@ -132,17 +219,32 @@ export default function BrandPage() {
     e.preventDefault();
     setSubmitting(true);
 
-    const payload = {
+    const payload: Record<string, unknown> = {
       name: form.name,
       domain: form.domain,
       description: form.description,
-      keywords: form.keywordsRaw
-        .split(",")
-        .map((k) => k.trim())
-        .filter(Boolean),
-      competitors: form.competitors.filter((c) => c.name || c.domain),
+      keywords: splitList(form.keywordsRaw),
+      aliases: splitList(form.aliasesRaw),
+      products: splitList(form.productsRaw),
+      handles: splitList(form.handlesRaw),
+      excludedPhrases: splitList(form.excludedPhrasesRaw),
+      competitors: form.competitors
+        .filter((c) => c.name || c.domain)
+        .map(({ aliasesRaw, ...competitor }) => ({
+          ...competitor,
+          aliases: splitList(aliasesRaw),
+        })),
     };
 
+    // Budgets are owner-only, so they are sent only when actually changed
+    const original = brands.find((b) => b.id === editingId);
+    if (original && form.dailyBudget !== original.dailyBudget) {
+      payload.dailyBudget = form.dailyBudget;
+    }
+    if (original && form.monthlyBudget !== original.monthlyBudget) {
+      payload.monthlyBudget = form.monthlyBudget;
+    }
+
     try {
       const url = editingId ? `/api/brand/${editingId}` : "/api/brand";
       const method = editingId ? "PUT" : "POST";
@@ -153,7 +255,10 @@ export default function BrandPage() {
         body: JSON.stringify(payload),
       });
 
-      if (!res.ok) throw new Error("Failed to save brand");
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? "Failed to save brand");
+      }
 
       closeForm();
       await fetchBrands();
@@ -169,12 +274,15 @@ export default function BrandPage() {
     try {
       const res = await fetch(`/api/brand/${id}`, { method: "DELETE" });
       if (!res.ok) throw new Error("Failed to delete brand");
+      if (factsBrandId === id) setFactsBrandId(null);
       await fetchBrands();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     }
   }
 
+  const factsBrand = brands.find((b) => b.id === factsBrandId);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -263,6 +371,66 @@ export default function BrandPage() {
                 />
               </div>
 
+              {/* Citation detection */}
+              <div className="space-y-3">
+                <div>
+                  <Label>Citation detection</Label>
+                  <p className="text-xs text-gray-500">
+                    Other surface forms that count as a mention of this brand,
+                    and look-alike phrases that never do. Comma-separated.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="aliases">Aliases</Label>
+                    <Input
+                      id="aliases"
+                      value={form.aliasesRaw}
+                      onChange={(e) =>
+                        setForm((f) => ({ ...f, aliasesRaw: e.target.value }))
+                      }
+                      placeholder="Acme, Acme Corporation"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="products">Product names</Label>
+                    <Input
+                      id="products"
+                      value={form.productsRaw}
+                      onChange={(e) =>
+                        setForm((f) => ({ ...f, productsRaw: e.target.value }))
+                      }
+                      placeholder="Acme CRM, Acme Analytics"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="handles">Tickers &amp; handles</Label>
+                    <Input
+                      id="handles"
+                      value={form.handlesRaw}
+                      onChange={(e) =>
+                        setForm((f) => ({ ...f, handlesRaw: e.target.value }))
+                      }
+                      placeholder="$ACME, @acmeinc"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="excludedPhrases">Excluded phrases</Label>
+                    <Input
+                      id="excludedPhrases"
+                      value={form.excludedPhrasesRaw}
+                      onChange={(e) =>
+                        setForm((f) => ({
+                          ...f,
+                          excludedPhrasesRaw: e.target.value,
+                        }))
+                      }
+                      placeholder="Acme Bricks, Wile E. Coyote's Acme"
+                    />
+                  </div>
+                </div>
+              </div>
+
               {/* Competitors */}
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
@@ -295,6 +463,14 @@ export default function BrandPage() {
                       placeholder="domain.com"
                       className="flex-1"
                     />
+                    <Input
+                      value={comp.aliasesRaw}
+                      onChange={(e) =>
+                        updateCompetitor(idx, "aliasesRaw", e.target.value)
+                      }
+                      placeholder="Aliases (comma-separated)"
+                      className="flex-1"
+                    />
                     <Button
                       type="button"
                       variant="ghost"
@@ -312,6 +488,54 @@ export default function BrandPage() {
                 )}
               </div>
 
+              {/* Spend limits */}
+              {editingId && (
+                <div className="space-y-3">
+                  <div>
+                    <Label>Spend limits</Label>
+                    <p className="text-xs text-gray-500">
+                      Caps on LLM spend for this brand across all providers, in
+                      USD. Probes stop when one is reached. 0 means no cap.
+                      Owners only.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="dailyBudget">Daily budget</Label>
+                      <Input
+                        id="dailyBudget"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={form.dailyBudget}
+                        onChange={(e) =>
+                          setForm((f) => ({
+                            ...f,
+                            dailyBudget: parseFloat(e.target.value) || 0,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="monthlyBudget">Monthly budget</Label>
+                      <Input
+                        id="monthlyBudget"
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={form.monthlyBudget}
+                        onChange={(e) =>
+                          setForm((f) => ({
+                            ...f,
+                            monthlyBudget: parseFloat(e.target.value) || 0,
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="flex gap-2 pt-2">
                 <Button type="submit" disabled={submitting}>
                   {submitting ? "Saving..." : editingId ? "Update" : "Create"}
@@ -325,6 +549,28 @@ export default function BrandPage() {
         </Card>
       )}
 
+      {/* Fact sheet and accuracy */}
+      {factsBrand && (
+        <div className="space-y-4">
+          <div className="flex justify-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setFactsBrandId(null)}
+            >
+              <X className="mr-1 h-4 w-4" />
+              Close
+            </Button>
+          </div>
+          <FactSheetEditor
+            brandId={factsBrand.id}
+            brandName={factsBrand.name}
+            onSaved={() => setFactsSavedCount((n) => n + 1)}
+          />
+          <AccuracyPanel brandId={factsBrand.id} refreshKey={factsSavedCount} />
+        </div>
+      )}
+
       {/* Brand list */}
       {loading ? (
         <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
@@ -351,6 +597,14 @@ export default function BrandPage() {
                   <CardDescription>{brand.domain}</CardDescription>
                 </div>
                 <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Fact sheet & accuracy"
+                    onClick={() => setFactsBrandId(brand.id)}
+                  >
+                    <ClipboardCheck className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -382,6 +636,28 @@ export default function BrandPage() {
                   </div>
                 )}
 
+                {[...brand.aliases, ...brand.products, ...brand.handles]
+                  .length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Also detected as:{" "}
+                    {[...brand.aliases, ...brand.products, ...brand.handles].join(
+                      ", "
+                    )}
+                  </p>
+                )}
+
+                {(brand.dailyBudget > 0 || brand.monthlyBudget > 0) && (
+                  <p className="text-xs text-gray-500">
+                    Spend limit:{" "}
+                    {[
+                      brand.dailyBudget > 0 && `$${brand.dailyBudget.toFixed(2)}/day`,
+                      brand.monthlyBudget > 0 && `$${brand.monthlyBudget.toFixed(2)}/month`,
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </p>
+                )}
+
                 {brand.competitors.length > 0 && (
                   <div>
                     <p className="mb-1 text-xs font-medium text-gray-500">
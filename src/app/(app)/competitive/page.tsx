@@ -18,6 +18,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  JobProgressPanel,
+  applyJobEvent,
+  newJobView,
+} from "@/components/jobs/job-progress";
+import type { JobView } from "@/components/jobs/job-progress";
+import { cancelJob, runJob } from "@/lib/jobs/client";
 import {
   TrendingUp,
   AlertTriangle,
@@ -41,6 +48,7 @@ interface CompetitorProfile {
   name: string;
   domain: string;
   citationRate: number;
+  citationInterval?: RateEstimate;
   avgPosition: number | null;
   avgSentiment: "positive" | "neutral" | "negative";
   strongCategories: string[];
@@ -55,11 +63,18 @@ interface CompetitiveInsight {
   suggestedAction: string;
 }
 
+interface RateEstimate {
+  lower: number;
+  upper: number;
+}
+
 interface CompetitiveAnalysis {
   brandCitationRate: number;
+  brandCitationInterval?: RateEstimate;
   competitors: CompetitorProfile[];
   insights: CompetitiveInsight[];
   recommendations: string[];
+  errors?: Array<{ query: string; provider: string; kind: string; error: string }>;
 }
 
 // ---------------------------------------------------------------------------
@@ -112,6 +127,9 @@ export default function CompetitivePage() {
   const [loading, setLoading] = useState(true);
   const [running, setRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [estimatedCost, setEstimatedCost] = useState<number | null>(null);
+  const [job, setJob] = useState<JobView | null>(null);
+  const [cancelling, setCancelling] = useState(false);
 
   useEffect(() => {
     async function loadBrands() {
@@ -133,25 +151,54 @@ export default function CompetitivePage() {
     loadBrands();
   }, []);
 
+  // Show what a run would cost before it is started
+  useEffect(() => {
+    if (!selectedBrandId) return;
+    setEstimatedCost(null);
+    fetch("/api/dashboard/costs/estimate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind: "competitive", brandId: selectedBrandId }),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { cost: number } | null) => setEstimatedCost(data?.cost ?? null))
+      .catch(() => setEstimatedCost(null));
+  }, [selectedBrandId]);
+
   const runAnalysis = async () => {
     if (!selectedBrandId) return;
     setRunning(true);
     setError(null);
     setAnalysis(null);
+    setJob(null);
+    setCancelling(false);
 
     try {
-      const res = await fetch("/api/competitive/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ brandId: selectedBrandId }),
-      });
-      if (!res.ok) throw new Error("Analysis failed");
-      const data: CompetitiveAnalysis = await res.json();
+      // Runs as a background job; progress streams in as providers answer
+      const data = await runJob<CompetitiveAnalysis>(
+        "/api/competitive/analyze",
+        { brandId: selectedBrandId },
+        (event, started) =>
+          setJob((prev) => applyJobEvent(prev ?? newJobView(started.id), event))
+      );
       setAnalysis(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Analysis failed");
+      const message = err instanceof Error ? err.message : "Analysis failed";
+      setError(message === "Cancelled" ? "Analysis cancelled" : message);
     } finally {
       setRunning(false);
+      setJob(null);
+    }
+  };
+
+  const cancelAnalysis = async () => {
+    if (!job) return;
+    setCancelling(true);
+    try {
+      await cancelJob(job.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel");
+      setCancelling(false);
     }
   };
 
@@ -194,6 +241,11 @@ export default function CompetitivePage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {estimatedCost !== null && (
+            <span className="text-xs text-gray-500">
+              Est. ${estimatedCost.toFixed(estimatedCost < 0.01 ? 4 : 2)}
+            </span>
+          )}
           <div className="w-48">
             <Select value={selectedBrandId} onValueChange={setSelectedBrandId}>
               <SelectTrigger>
@@ -242,13 +294,12 @@ export default function CompetitivePage() {
       {running && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-16">
-            <Loader2 className="mb-4 h-12 w-12 animate-spin text-blue-400" />
-            <p className="text-lg font-medium text-gray-600">
-              Running competitive analysis...
-            </p>
-            <p className="mt-1 text-sm text-gray-400">
-              Querying AI providers and analyzing citation patterns
-            </p>
+            <JobProgressPanel
+              title="Running competitive analysis..."
+              view={job}
+              onCancel={job ? cancelAnalysis : undefined}
+              cancelling={cancelling}
+            />
           </CardContent>
         </Card>
       )}
@@ -268,6 +319,12 @@ export default function CompetitivePage() {
                 <p className={`text-3xl font-bold ${rateColor(analysis.brandCitationRate)}`}>
                   {analysis.brandCitationRate}%
                 </p>
+                {analysis.brandCitationInterval && (
+                  <p className="text-xs text-gray-500">
+                    95% CI {analysis.brandCitationInterval.lower}–
+                    {analysis.brandCitationInterval.upper}%
+                  </p>
+                )}
               </CardContent>
             </Card>
 
@@ -284,6 +341,12 @@ export default function CompetitivePage() {
                     <p className={`text-2xl font-bold ${rateColor(topCompetitor.citationRate)}`}>
                       {topCompetitor.citationRate}%
                     </p>
+                    {topCompetitor.citationInterval && (
+                      <p className="text-xs text-gray-500">
+                        95% CI {topCompetitor.citationInterval.lower}–
+                        {topCompetitor.citationInterval.upper}%
+                      </p>
+                    )}
                   </>
                 ) : (
                   <p className="text-sm text-gray-400">No competitors found</p>
@@ -327,6 +390,15 @@ export default function CompetitivePage() {
             </Card>
           </div>
 
+          {analysis.errors && analysis.errors.length > 0 && (
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+              {analysis.errors.length} query/provider{" "}
+              {analysis.errors.length === 1 ? "pair" : "pairs"} failed and{" "}
+              {analysis.errors.length === 1 ? "is" : "are"} left out of these results:{" "}
+              {[...new Set(analysis.errors.map((e) => e.error))].slice(0, 3).join("; ")}
+            </div>
+          )}
+
           {/* Competitor Profiles Table */}
           <Card>
             <CardHeader>
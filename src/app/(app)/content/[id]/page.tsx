@@ -25,7 +25,10 @@ import {
   ChevronRight,
   ArrowRight,
   TrendingUp,
+  Send,
+  ExternalLink,
 } from "lucide-react";
+import { runJob } from "@/lib/jobs/client";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -38,6 +41,24 @@ interface ContentItem {
   status: string;
   aeoScore: number | null;
   scoring: ScoringResult | null;
+  publishLogs?: PublishLogItem[];
+}
+
+interface PublishTargetItem {
+  id: string;
+  name: string;
+  type: string;
+  isActive: boolean;
+}
+
+interface PublishLogItem {
+  id: string;
+  targetId: string;
+  status: "pending" | "published" | "failed";
+  publishedAt: string | null;
+  externalUrl: string | null;
+  error: string | null;
+  createdAt: string;
 }
 
 interface ScoringResult {
@@ -114,6 +135,12 @@ function scoreRingColor(score: number): string {
   return "ring-red-400";
 }
 
+const publishStatusConfig: Record<string, string> = {
+  published: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
 const priorityConfig: Record<string, string> = {
   critical: "bg-red-100 text-red-800",
   high: "bg-orange-100 text-orange-800",
@@ -146,6 +173,12 @@ export default function ContentDetailPage() {
   const [optimization, setOptimization] = useState<OptimizationResult | null>(null);
   const [applyingChanges, setApplyingChanges] = useState(false);
 
+  // Publishing state
+  const [targets, setTargets] = useState<PublishTargetItem[]>([]);
+  const [selectedTargets, setSelectedTargets] = useState<string[]>([]);
+  const [publishing, setPublishing] = useState(false);
+  const [retryingLogId, setRetryingLogId] = useState<string | null>(null);
+
   const fetchContent = useCallback(async () => {
     try {
       const res = await fetch(`/api/content/${id}`);
@@ -164,6 +197,22 @@ export default function ContentDetailPage() {
     fetchContent();
   }, [fetchContent]);
 
+  useEffect(() => {
+    async function fetchTargets() {
+      try {
+        const res = await fetch("/api/publish-targets");
+        if (!res.ok) return;
+        const data: PublishTargetItem[] = await res.json();
+        const active = data.filter((t) => t.isActive);
+        setTargets(active);
+        setSelectedTargets(active.map((t) => t.id));
+      } catch {
+        // Publishing is optional; leave the tab empty if targets fail to load
+      }
+    }
+    fetchTargets();
+  }, []);
+
   const saveContent = async () => {
     setSavingContent(true);
     try {
@@ -187,16 +236,11 @@ export default function ContentDetailPage() {
     setScoring(true);
     setError(null);
     try {
-      const res = await fetch("/api/scoring/validate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contentId: id,
-          skipCitationTest: quickOnly,
-        }),
+      // Scoring runs as a background job; its result is the score
+      const result = await runJob<ScoringResult>("/api/scoring/validate", {
+        contentId: id,
+        skipCitationTest: quickOnly,
       });
-      if (!res.ok) throw new Error("Scoring failed");
-      const result = await res.json();
       setContent((prev) =>
         prev ? { ...prev, aeoScore: result.overallScore, scoring: result } : prev
       );
@@ -248,6 +292,55 @@ export default function ContentDetailPage() {
     }
   };
 
+  const toggleTarget = (targetId: string) => {
+    setSelectedTargets((prev) =>
+      prev.includes(targetId)
+        ? prev.filter((t) => t !== targetId)
+        : [...prev, targetId]
+    );
+  };
+
+  const publish = async () => {
+    if (selectedTargets.length === 0) return;
+    setPublishing(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/content/${id}/publish`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetIds: selectedTargets }),
+      });
+      const result = await res.json();
+      if (!res.ok && !result.logs) {
+        throw new Error(result.error ?? "Publishing failed");
+      }
+      if (result.failed > 0) {
+        setError(`${result.failed} target${result.failed !== 1 ? "s" : ""} failed to publish`);
+      }
+      await fetchContent();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Publishing failed");
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const retryPublish = async (logId: string) => {
+    setRetryingLogId(logId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/publish-logs/${logId}/retry`, {
+        method: "POST",
+      });
+      if (!res.ok) throw new Error("Retry failed");
+      await fetchContent();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Retry failed");
+    } finally {
+      setRetryingLogId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -268,6 +361,7 @@ export default function ContentDetailPage() {
 
   const scoring_ = content.scoring;
   const aeoScore = content.aeoScore ?? 0;
+  const publishable = content.status === "approved" || content.status === "published";
 
   return (
     <div className="space-y-6">
@@ -302,6 +396,7 @@ export default function ContentDetailPage() {
           <TabsTrigger value="content">Content</TabsTrigger>
           <TabsTrigger value="scoring">AEO Score Breakdown</TabsTrigger>
           <TabsTrigger value="optimize">Optimize</TabsTrigger>
+          <TabsTrigger value="publish">Publish</TabsTrigger>
         </TabsList>
 
         {/* Content Tab */}
@@ -638,6 +733,123 @@ export default function ContentDetailPage() {
             )}
           </div>
         </TabsContent>
+
+        {/* Publish Tab */}
+        <TabsContent value="publish">
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Publish Targets</CardTitle>
+                <CardDescription>
+                  Push this content and its JSON-LD to your CMS, static site repo, or webhook
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {targets.length > 0 ? (
+                  <ul className="space-y-2">
+                    {targets.map((target) => (
+                      <li key={target.id} className="flex items-center gap-3 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selectedTargets.includes(target.id)}
+                          onChange={() => toggleTarget(target.id)}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        <span className="font-medium text-gray-900">{target.name}</span>
+                        <Badge variant="outline">{target.type}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-400">
+                    No active publish targets. Create one via /api/publish-targets.
+                  </p>
+                )}
+                {!publishable && (
+                  <p className="text-sm text-gray-500">
+                    Move this content to Approved on the content board before publishing.
+                  </p>
+                )}
+                <Button
+                  onClick={publish}
+                  disabled={publishing || !publishable || selectedTargets.length === 0}
+                >
+                  {publishing ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                  {publishing ? "Publishing..." : "Publish"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Publish History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {content.publishLogs && content.publishLogs.length > 0 ? (
+                  <div className="space-y-3">
+                    {content.publishLogs.map((log) => {
+                      const target = targets.find((t) => t.id === log.targetId);
+                      return (
+                        <div key={log.id} className="flex items-start justify-between rounded-md border p-3">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <span
+                                className={`inline-flex rounded-full px-2 py-0.5 text-xs font-semibold ${publishStatusConfig[log.status] ?? publishStatusConfig.pending}`}
+                              >
+                                {log.status}
+                              </span>
+                              <span className="text-sm font-medium text-gray-900">
+                                {target?.name ?? log.targetId}
+                              </span>
+                              <span className="text-xs text-gray-400">
+                                {new Date(log.createdAt).toLocaleString()}
+                              </span>
+                            </div>
+                            {log.externalUrl && (
+                              <a
+                                href={log.externalUrl}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                              >
+                                {log.externalUrl}
+                                <ExternalLink className="h-3 w-3" />
+                              </a>
+                            )}
+                            {log.error && (
+                              <p className="text-xs text-red-600">{log.error}</p>
+                            )}
+                          </div>
+                          {log.status === "failed" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => retryPublish(log.id)}
+                              disabled={retryingLogId === log.id}
+                            >
+                              {retryingLogId === log.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <RefreshCw className="h-4 w-4" />
+                              )}
+                              Retry
+                            </Button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400">This content has not been published yet.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
       </Tabs>
 
       {/* Recommendations Section */}
@@ -36,6 +36,7 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import { runJob } from "@/lib/jobs/client";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -50,19 +51,20 @@ interface ContentItem {
   id: string;
   title: string;
   contentType: string;
-  status: "idea" | "draft" | "review" | "published";
+  status: "idea" | "draft" | "review" | "approved" | "published";
   aeoScore: number | null;
   brandId: string;
   brandName: string;
 }
 
-const STATUSES = ["idea", "draft", "review", "published"] as const;
+const STATUSES = ["idea", "draft", "review", "approved", "published"] as const;
 type Status = (typeof STATUSES)[number];
 
 const STATUS_LABELS: Record<Status, string> = {
   idea: "Idea",
   draft: "Draft",
   review: "Review",
+  approved: "Approved",
   published: "Published",
 };
 
@@ -70,6 +72,7 @@ const STATUS_COLORS: Record<Status, string> = {
   idea: "bg-gray-100 border-gray-300",
   draft: "bg-blue-50 border-blue-300",
   review: "bg-yellow-50 border-yellow-300",
+  approved: "bg-teal-50 border-teal-300",
   published: "bg-green-50 border-green-300",
 };
 
@@ -224,17 +227,13 @@ export default function ContentPage() {
     e.preventDefault();
     setSubmitting(true);
     try {
-      const res = await fetch("/api/content/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          brandId: formBrand,
-          topic: formTopic,
-          contentType: formType,
-          provider: formProvider,
-        }),
+      // Generation runs as a background job; wait for the saved draft
+      await runJob<ContentItem>("/api/content/generate", {
+        brandId: formBrand,
+        topic: formTopic,
+        contentType: formType,
+        provider: formProvider,
       });
-      if (!res.ok) throw new Error("Failed to generate content");
       setShowForm(false);
       setFormBrand("");
       setFormTopic("");
@@ -304,6 +303,7 @@ export default function ContentPage() {
     idea: items.filter((i) => i.status === "idea"),
     draft: items.filter((i) => i.status === "draft"),
     review: items.filter((i) => i.status === "review"),
+    approved: items.filter((i) => i.status === "approved"),
     published: items.filter((i) => i.status === "published"),
   };
 
@@ -430,7 +430,7 @@ export default function ContentPage() {
               onDragStart={handleDragStart}
               onDragEnd={handleDragEnd}
             >
-              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
                 {STATUSES.map((status) => (
                   <DroppableColumn
                     key={status}
@@ -497,6 +497,8 @@ export default function ContentPage() {
                             className={
                               item.status === "published"
                                 ? "bg-green-100 text-green-800"
+                                : item.status === "approved"
+                                ? "bg-teal-100 text-teal-800"
                                 : item.status === "review"
                                 ? "bg-yellow-100 text-yellow-800"
                                 : item.status === "draft"
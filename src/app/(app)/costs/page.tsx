@@ -0,0 +1,691 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Calculator, CalendarClock, DollarSign, TrendingUp } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface CostBreakdown {
+  key: string;
+  label: string;
+  calls: number;
+  cost: number;
+  tokensIn: number;
+  tokensOut: number;
+  share: number;
+}
+
+interface CitationCost {
+  key: string;
+  label: string;
+  results: number;
+  citedResults: number;
+  cost: number;
+  costPerCitation: number | null;
+}
+
+interface CostReport {
+  totals: {
+    calls: number;
+    cost: number;
+    tokensIn: number;
+    tokensOut: number;
+    avgCostPerCall: number;
+    avgLatencyMs: number;
+  };
+  byProvider: CostBreakdown[];
+  byModel: CostBreakdown[];
+  byBrand: CostBreakdown[];
+  byEndpoint: CostBreakdown[];
+  trend: Array<{
+    period: string;
+    calls: number;
+    cost: number;
+    byProvider: Record<string, number>;
+  }>;
+  costPerCitation: {
+    overall: CitationCost;
+    byProvider: CitationCost[];
+    byBrand: CitationCost[];
+  };
+}
+
+interface ProviderEstimate {
+  provider: string;
+  costPerCall: number;
+  cacheHitRate: number;
+  basis: "history" | "list-price";
+  sampleSize: number;
+  calls: number;
+  billableCalls: number;
+  cost: number;
+}
+
+interface CostEstimate {
+  calls: number;
+  billableCalls: number;
+  cost: number;
+  byProvider: ProviderEstimate[];
+  probes?: number;
+  samples?: number;
+}
+
+interface SpendForecast {
+  spentToday: number;
+  monthToDate: number;
+  projectedMonthEnd: number;
+  scheduledMonthlyCost: number;
+  schedules: Array<{
+    scheduleId: string;
+    name: string;
+    cron: string;
+    isActive: boolean;
+    runsPerMonth: number;
+    callsPerRun: number;
+    costPerRun: number;
+    monthlyCost: number;
+  }>;
+}
+
+interface Brand {
+  id: string;
+  name: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const PROVIDER_COLORS: Record<string, string> = {
+  openai: "#22c55e",
+  anthropic: "#f97316",
+  google: "#3b82f6",
+  perplexity: "#a855f7",
+  tavily: "#eab308",
+};
+
+const FALLBACK_COLOR = "#9ca3af";
+
+const ALL = "all";
+
+const PERIODS = [
+  { days: "7", label: "Last 7 days", interval: "day" },
+  { days: "30", label: "Last 30 days", interval: "day" },
+  { days: "90", label: "Last 90 days", interval: "week" },
+];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function usd(value: number): string {
+  // Single calls cost fractions of a cent, so show more precision there
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+// ---------------------------------------------------------------------------
+// What-if estimator
+// ---------------------------------------------------------------------------
+
+function EstimateSection({ brands }: { brands: Brand[] }) {
+  const [kind, setKind] = useState<"batch" | "competitive">("batch");
+  const [brandId, setBrandId] = useState(ALL);
+  const [samples, setSamples] = useState("1");
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runEstimate = async () => {
+    setEstimating(true);
+    setError(null);
+    try {
+      const body =
+        kind === "batch"
+          ? {
+              kind,
+              brandId: brandId === ALL ? undefined : brandId,
+              samples: Number(samples) || 1,
+              forceRefresh,
+            }
+          : { kind, brandId, forceRefresh };
+      const res = await fetch("/api/dashboard/costs/estimate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Failed to estimate cost");
+      }
+      setEstimate(await res.json());
+    } catch (err) {
+      setEstimate(null);
+      setError(err instanceof Error ? err.message : "Failed to estimate cost");
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  // A competitive analysis is always for one brand
+  const needsBrand = kind === "competitive" && brandId === ALL;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>What-if Estimate</CardTitle>
+        <CardDescription>
+          What a batch run or competitive analysis would cost before you start
+          it, from recent per-call costs and cache hit rates
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Run</Label>
+            <Select
+              value={kind}
+              onValueChange={(value) => setKind(value as "batch" | "competitive")}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="batch">Batch probe run</SelectItem>
+                <SelectItem value="competitive">Competitive analysis</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Brand</Label>
+            <Select value={brandId} onValueChange={setBrandId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All brands</SelectItem>
+                {brands.map((brand) => (
+                  <SelectItem key={brand.id} value={brand.id}>
+                    {brand.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {kind === "batch" && (
+            <div className="space-y-2">
+              <Label>Samples per probe and provider</Label>
+              <Input
+                type="number"
+                min={1}
+                value={samples}
+                onChange={(e) => setSamples(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="flex items-end gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={forceRefresh}
+                onChange={(e) => setForceRefresh(e.target.checked)}
+              />
+              Bypass cache
+            </label>
+            <Button onClick={runEstimate} disabled={estimating || needsBrand}>
+              <Calculator className="mr-2 h-4 w-4" />
+              {estimating ? "Estimating..." : "Estimate"}
+            </Button>
+          </div>
+        </div>
+
+        {needsBrand && (
+          <p className="text-xs text-gray-500">
+            Pick a brand to estimate a competitive analysis.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {estimate && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700">
+              <span className="text-lg font-bold text-gray-900">
+                {usd(estimate.cost)}
+              </span>{" "}
+              for {estimate.calls} calls, {estimate.billableCalls} expected to
+              miss the cache
+              {estimate.probes !== undefined &&
+                ` (${estimate.probes} probes × ${estimate.samples} samples)`}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-gray-500">
+                  <th className="py-2 font-medium">Provider</th>
+                  <th className="py-2 text-right font-medium">Calls</th>
+                  <th className="py-2 text-right font-medium">Billable</th>
+                  <th className="py-2 text-right font-medium">Per call</th>
+                  <th className="py-2 text-right font-medium">Cost</th>
+                  <th className="py-2 text-right font-medium">Priced from</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.byProvider.map((row) => (
+                  <tr key={row.provider} className="border-b last:border-0">
+                    <td className="py-2 font-medium text-gray-900">{row.provider}</td>
+                    <td className="py-2 text-right">{row.calls}</td>
+                    <td className="py-2 text-right">{row.billableCalls}</td>
+                    <td className="py-2 text-right">{usd(row.costPerCall)}</td>
+                    <td className="py-2 text-right">{usd(row.cost)}</td>
+                    <td className="py-2 text-right">
+                      <Badge variant="outline">
+                        {row.basis === "history"
+                          ? `${row.sampleSize} recent calls`
+                          : "list price"}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Breakdown tables
+// ---------------------------------------------------------------------------
+
+function BreakdownTable({ title, rows }: { title: string; rows: CostBreakdown[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-xs text-gray-500">
+          <th className="py-2 font-medium">{title}</th>
+          <th className="py-2 text-right font-medium">Calls</th>
+          <th className="py-2 text-right font-medium">Cost</th>
+          <th className="py-2 text-right font-medium">Share</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.length === 0 ? (
+          <tr>
+            <td colSpan={4} className="py-4 text-center text-gray-400">
+              No calls in this period
+            </td>
+          </tr>
+        ) : (
+          rows.map((row) => (
+            <tr key={row.key} className="border-b last:border-0">
+              <td className="py-2 font-medium text-gray-900">{row.label}</td>
+              <td className="py-2 text-right">{row.calls}</td>
+              <td className="py-2 text-right">{usd(row.cost)}</td>
+              <td className="py-2 text-right text-gray-500">{row.share}%</td>
+            </tr>
+          ))
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+function CitationCostTable({ title, rows }: { title: string; rows: CitationCost[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-xs text-gray-500">
+          <th className="py-2 font-medium">{title}</th>
+          <th className="py-2 text-right font-medium">Cited / answers</th>
+          <th className="py-2 text-right font-medium">Cost</th>
+          <th className="py-2 text-right font-medium">Per citation</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-b last:border-0">
+            <td className="py-2 font-medium text-gray-900">{row.label}</td>
+            <td className="py-2 text-right">
+              {row.citedResults} / {row.results}
+            </td>
+            <td className="py-2 text-right">{usd(row.cost)}</td>
+            <td className="py-2 text-right">
+              {row.costPerCitation === null ? "—" : usd(row.costPerCitation)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function CostsPage() {
+  const [report, setReport] = useState<CostReport | null>(null);
+  const [forecast, setForecast] = useState<SpendForecast | null>(null);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [days, setDays] = useState("30");
+  const [brandId, setBrandId] = useState(ALL);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/brand")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setBrands(Array.isArray(data) ? data : data.brands ?? []))
+      .catch(() => setBrands([]));
+    fetch("/api/dashboard/costs/forecast")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setForecast)
+      .catch(() => setForecast(null));
+  }, []);
+
+  useEffect(() => {
+    const period = PERIODS.find((p) => p.days === days) ?? PERIODS[1];
+    const params = new URLSearchParams({ days, interval: period.interval });
+    if (brandId !== ALL) params.set("brandId", brandId);
+
+    setLoading(true);
+    fetch(`/api/dashboard/costs?${params}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load cost report");
+        return res.json();
+      })
+      .then((data: CostReport) => {
+        setReport(data);
+        setError(null);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load cost report")
+      )
+      .finally(() => setLoading(false));
+  }, [days, brandId]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <p className="text-red-600">Error: {error}</p>
+      </div>
+    );
+  }
+
+  const providers = report?.byProvider.map((row) => row.key) ?? [];
+  const trendData =
+    report?.trend.map((point) => ({ period: point.period, ...point.byProvider })) ??
+    [];
+
+  const statCards = [
+    {
+      title: "Spent Today",
+      value: forecast ? usd(forecast.spentToday) : "—",
+      icon: DollarSign,
+    },
+    {
+      title: "Month to Date",
+      value: forecast ? usd(forecast.monthToDate) : "—",
+      icon: CalendarClock,
+    },
+    {
+      title: "Projected Month End",
+      value: forecast ? usd(forecast.projectedMonthEnd) : "—",
+      icon: TrendingUp,
+      detail: forecast
+        ? `Schedules add ${usd(forecast.scheduledMonthlyCost)} per 30 days`
+        : undefined,
+    },
+    {
+      title: "Cost per Citation",
+      value:
+        report?.costPerCitation.overall.costPerCitation != null
+          ? usd(report.costPerCitation.overall.costPerCitation)
+          : "—",
+      icon: Calculator,
+      detail: report
+        ? `${report.costPerCitation.overall.citedResults} cited answers this period`
+        : undefined,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Costs</h1>
+          <p className="text-sm text-gray-500">
+            API spend, what it bought, and where it is heading
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div className="w-36">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map((p) => (
+                  <SelectItem key={p.days} value={p.days}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-44">
+            <Select value={brandId} onValueChange={setBrandId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All brands</SelectItem>
+                {brands.map((brand) => (
+                  <SelectItem key={brand.id} value={brand.id}>
+                    {brand.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {/* Stats row */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {statCards.map((card) => (
+          <Card key={card.title}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-gray-500">
+                {card.title}
+              </CardTitle>
+              <card.icon className="h-4 w-4 text-gray-400" />
+            </CardHeader>
+            <CardContent>
+              {loading && !report ? (
+                <Skeleton className="h-8 w-24" />
+              ) : (
+                <>
+                  <p className="text-2xl font-bold">{card.value}</p>
+                  {card.detail && (
+                    <p className="text-xs text-gray-500">{card.detail}</p>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Spend trend */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend Over Time</CardTitle>
+          <CardDescription>
+            {report
+              ? `${usd(report.totals.cost)} across ${report.totals.calls} calls, ${usd(
+                  report.totals.avgCostPerCall
+                )} per call on average`
+              : "API spend by provider"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : trendData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} unit="$" />
+                <Tooltip formatter={(value: number) => usd(value)} />
+                <Legend />
+                {providers.map((provider) => (
+                  <Bar
+                    key={provider}
+                    dataKey={provider}
+                    stackId="spend"
+                    fill={PROVIDER_COLORS[provider] ?? FALLBACK_COLOR}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="py-12 text-center text-sm text-gray-400">
+              No API calls in this period.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Breakdowns */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Where the Money Went</CardTitle>
+          <CardDescription>Spend by provider, model, brand and endpoint</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading || !report ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+              <BreakdownTable title="Provider" rows={report.byProvider} />
+              <BreakdownTable title="Model" rows={report.byModel} />
+              <BreakdownTable title="Brand" rows={report.byBrand} />
+              <BreakdownTable title="Endpoint" rows={report.byEndpoint} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Cost per citation */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost per Citation</CardTitle>
+          <CardDescription>
+            Probe spend divided by the answers that cited your brand
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading || !report ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+              <CitationCostTable
+                title="Provider"
+                rows={report.costPerCitation.byProvider}
+              />
+              <CitationCostTable title="Brand" rows={report.costPerCitation.byBrand} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Schedule forecast */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Scheduled Spend</CardTitle>
+          <CardDescription>
+            What each schedule will cost over the next 30 days at current prices
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!forecast ? (
+            <Skeleton className="h-24 w-full" />
+          ) : forecast.schedules.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-400">
+              No schedules. Batch runs you start by hand are not forecast.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-gray-500">
+                  <th className="py-2 font-medium">Schedule</th>
+                  <th className="py-2 font-medium">Cron</th>
+                  <th className="py-2 text-right font-medium">Runs</th>
+                  <th className="py-2 text-right font-medium">Calls / run</th>
+                  <th className="py-2 text-right font-medium">Cost / run</th>
+                  <th className="py-2 text-right font-medium">30 days</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.schedules.map((s) => (
+                  <tr key={s.scheduleId} className="border-b last:border-0">
+                    <td className="py-2 font-medium text-gray-900">
+                      {s.name}
+                      {!s.isActive && (
+                        <Badge variant="outline" className="ml-2">
+                          paused
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="py-2 font-mono text-xs text-gray-500">{s.cron}</td>
+                    <td className="py-2 text-right">{s.runsPerMonth}</td>
+                    <td className="py-2 text-right">{s.callsPerRun}</td>
+                    <td className="py-2 text-right">{usd(s.costPerRun)}</td>
+                    <td className="py-2 text-right">{usd(s.monthlyCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <EstimateSection brands={brands} />
+    </div>
+  );
+}
@@ -9,7 +9,17 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
 import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BarChart,
+  Bar,
   LineChart,
   Line,
   XAxis,
@@ -21,6 +31,8 @@ import {
   PieChart,
   Pie,
   Cell,
+  AreaChart,
+  Area,
 } from "recharts";
 import { Activity, BarChart3, DollarSign, Search } from "lucide-react";
 
@@ -28,10 +40,27 @@ import { Activity, BarChart3, DollarSign, Search } from "lucide-react";
 // Types
 // ---------------------------------------------------------------------------
 
+interface RateEstimate {
+  rate: number;
+  lower: number;
+  upper: number;
+  trials: number;
+}
+
+interface RateComparison {
+  baseline: RateEstimate;
+  current: RateEstimate;
+  difference: number;
+  pValue: number;
+  significant: boolean;
+}
+
 interface DashboardStats {
   totalProbes: number;
   citationRuns: number;
   citationRate: number;
+  citationRateInterval?: RateEstimate;
+  periodComparison?: { days: number; overall: RateComparison };
   totalCost: number;
 }
 
@@ -43,11 +72,6 @@ interface TrendPoint {
   perplexity: number;
 }
 
-interface ShareOfVoice {
-  name: string;
-  value: number;
-}
-
 interface ProviderHeatmapEntry {
   provider: string;
   rate: number;
@@ -55,10 +79,68 @@ interface ProviderHeatmapEntry {
 
 interface DashboardTrends {
   citationTrend: TrendPoint[];
-  shareOfVoice: ShareOfVoice[];
   providerHeatmap: ProviderHeatmapEntry[];
 }
 
+type SourceKind =
+  | "own"
+  | "competitor"
+  | "review-site"
+  | "forum"
+  | "news"
+  | "wiki"
+  | "third-party";
+
+interface DomainInfluence {
+  domain: string;
+  kind: SourceKind;
+  competitor: string | null;
+  results: number;
+  share: number;
+  brandCitedRate: number;
+  brandCitedRateWithout: number;
+  lift: number;
+}
+
+interface SourceInfluenceReport {
+  resultsAnalyzed: number;
+  truncated: boolean;
+  resultsWithSources: number;
+  brandCitationRate: number;
+  domains: DomainInfluence[];
+  trend: Array<{ period: string; kinds: Record<SourceKind, number> }>;
+}
+
+interface Brand {
+  id: string;
+  name: string;
+}
+
+interface EntityVoice {
+  name: string;
+  isBrand: boolean;
+  mentions: number;
+  share: number;
+  mentionShare: number;
+}
+
+interface ShareOfVoiceBreakdown {
+  key: string;
+  results: number;
+  brandShare: number;
+}
+
+interface ShareOfVoiceReport {
+  resultsAnalyzed: number;
+  truncated: boolean;
+  brandShare: number;
+  brandMentionShare: number;
+  entities: EntityVoice[];
+  byProvider: ShareOfVoiceBreakdown[];
+  byCategory: ShareOfVoiceBreakdown[];
+  trend: Array<{ period: string; shares: Record<string, number> }>;
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -70,7 +152,40 @@ const PROVIDER_COLORS: Record<string, string> = {
   perplexity: "#a855f7",
 };
 
-const PIE_COLORS = ["#22c55e", "#ef4444"];
+// Brand first, then competitors
+const PIE_COLORS = [
+  "#22c55e",
+  "#ef4444",
+  "#3b82f6",
+  "#f97316",
+  "#a855f7",
+  "#eab308",
+  "#14b8a6",
+  "#9ca3af",
+];
+
+const SOURCE_KINDS: Array<{ kind: SourceKind; label: string; color: string }> = [
+  { kind: "own", label: "Our domain", color: "#22c55e" },
+  { kind: "competitor", label: "Competitor", color: "#ef4444" },
+  { kind: "review-site", label: "Review site", color: "#3b82f6" },
+  { kind: "forum", label: "Forum", color: "#f97316" },
+  { kind: "news", label: "News", color: "#a855f7" },
+  { kind: "wiki", label: "Wiki", color: "#eab308" },
+  { kind: "third-party", label: "Other", color: "#9ca3af" },
+];
+
+const SOURCE_PROVIDERS = ["openai", "anthropic", "google", "perplexity", "tavily"];
+
+const PROBE_CATEGORIES = [
+  "best-of",
+  "top-list",
+  "comparison",
+  "how-to",
+  "recommendation",
+  "alternative",
+];
+
+const ALL = "all";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -82,6 +197,325 @@ function heatColor(rate: number): string {
   return "bg-red-100 text-red-800";
 }
 
+// Brand first so it keeps the first palette color across charts
+function brandFirst(entities: EntityVoice[]): EntityVoice[] {
+  return [...entities].sort((a, b) => Number(b.isBrand) - Number(a.isBrand));
+}
+
+function liftColor(lift: number): string {
+  if (lift >= 10) return "text-green-700";
+  if (lift <= -10) return "text-red-600";
+  return "text-gray-500";
+}
+
+// ---------------------------------------------------------------------------
+// Share of voice section
+// ---------------------------------------------------------------------------
+
+function ShareOfVoiceSection({ brandId }: { brandId: string | null }) {
+  const [report, setReport] = useState<ShareOfVoiceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [provider, setProvider] = useState(ALL);
+  const [category, setCategory] = useState(ALL);
+
+  useEffect(() => {
+    if (!brandId) {
+      setReport(null);
+      setLoading(false);
+      return;
+    }
+
+    const params = new URLSearchParams({ brandId, days: "90" });
+    if (provider !== ALL) params.set("provider", provider);
+    if (category !== ALL) params.set("category", category);
+
+    setLoading(true);
+    fetch(`/api/dashboard/share-of-voice?${params}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ShareOfVoiceReport | null) => setReport(data))
+      .catch(() => setReport(null))
+      .finally(() => setLoading(false));
+  }, [brandId, provider, category]);
+
+  const entities = brandFirst(report?.entities ?? []);
+  const trendData =
+    report?.trend.map((point) => ({ period: point.period, ...point.shares })) ??
+    [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Share of Voice Over Time</CardTitle>
+          <CardDescription>
+            Your share of brand mentions in AI answers, weighted by list
+            position and sentiment (last 90 days)
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <div className="w-36">
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All providers</SelectItem>
+                {SOURCE_PROVIDERS.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {p}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-40">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {PROBE_CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : !report || entities.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-400">
+            No brand mentions yet. Run probes to measure share of voice.
+          </p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={260}>
+              <AreaChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} domain={[0, 100]} unit="%" />
+                <Tooltip />
+                <Legend />
+                {entities.map((e, idx) => (
+                  <Area
+                    key={e.name}
+                    type="monotone"
+                    dataKey={e.name}
+                    stackId="voice"
+                    stroke={PIE_COLORS[idx % PIE_COLORS.length]}
+                    fill={PIE_COLORS[idx % PIE_COLORS.length]}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+              {[
+                { title: "By provider", rows: report.byProvider },
+                { title: "By category", rows: report.byCategory },
+              ].map((table) => (
+                <table key={table.title} className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-xs text-gray-500">
+                      <th className="py-2 font-medium">{table.title}</th>
+                      <th className="py-2 text-right font-medium">Responses</th>
+                      <th className="py-2 text-right font-medium">Your share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.map((row) => (
+                      <tr key={row.key} className="border-b last:border-0">
+                        <td className="py-2 font-medium text-gray-900">
+                          {row.key}
+                        </td>
+                        <td className="py-2 text-right">{row.results}</td>
+                        <td className="py-2 text-right">
+                          {row.brandShare.toFixed(1)}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">
+              {report.resultsAnalyzed}
+              {report.truncated ? " most recent" : ""} responses analyzed.
+              Unweighted, you hold {report.brandMentionShare.toFixed(1)}% of
+              mentions.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Source influence section
+// ---------------------------------------------------------------------------
+
+function SourceInfluenceSection() {
+  const [report, setReport] = useState<SourceInfluenceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [provider, setProvider] = useState(ALL);
+  const [category, setCategory] = useState(ALL);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ days: "90", limit: "15" });
+    if (provider !== ALL) params.set("provider", provider);
+    if (category !== ALL) params.set("category", category);
+
+    setLoading(true);
+    fetch(`/api/dashboard/sources?${params}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: SourceInfluenceReport | null) => setReport(data))
+      .catch(() => setReport(null))
+      .finally(() => setLoading(false));
+  }, [provider, category]);
+
+  const trendData =
+    report?.trend.map((point) => ({ period: point.period, ...point.kinds })) ?? [];
+  const kindMeta = Object.fromEntries(SOURCE_KINDS.map((k) => [k.kind, k]));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Source Influence</CardTitle>
+          <CardDescription>
+            Domains the engines cite in your category, and how often you are
+            cited alongside them (last 90 days)
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <div className="w-36">
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All providers</SelectItem>
+                {SOURCE_PROVIDERS.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {p}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-40">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {PROBE_CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : !report || report.domains.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-400">
+            No cited sources yet. Run probes against search-enabled providers
+            to see which domains drive AI answers.
+          </p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={240}>
+              <BarChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {SOURCE_KINDS.map((k) => (
+                  <Bar
+                    key={k.kind}
+                    dataKey={k.kind}
+                    name={k.label}
+                    stackId="kinds"
+                    fill={k.color}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-gray-500">
+                    <th className="py-2 font-medium">Domain</th>
+                    <th className="py-2 font-medium">Type</th>
+                    <th className="py-2 text-right font-medium">Cited in</th>
+                    <th className="py-2 text-right font-medium">
+                      You cited with
+                    </th>
+                    <th className="py-2 text-right font-medium">Without</th>
+                    <th className="py-2 text-right font-medium">Lift</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.domains.map((d) => (
+                    <tr key={d.domain} className="border-b last:border-0">
+                      <td className="py-2 font-medium text-gray-900">
+                        {d.domain}
+                      </td>
+                      <td className="py-2">
+                        <Badge variant="secondary">
+                          {d.competitor ?? kindMeta[d.kind]?.label ?? d.kind}
+                        </Badge>
+                      </td>
+                      <td className="py-2 text-right">
+                        {d.results}{" "}
+                        <span className="text-xs text-gray-400">
+                          ({d.share.toFixed(1)}%)
+                        </span>
+                      </td>
+                      <td className="py-2 text-right">
+                        {d.brandCitedRate.toFixed(1)}%
+                      </td>
+                      <td className="py-2 text-right text-gray-500">
+                        {d.brandCitedRateWithout.toFixed(1)}%
+                      </td>
+                      <td
+                        className={`py-2 text-right font-medium ${liftColor(d.lift)}`}
+                      >
+                        {d.lift > 0 ? "+" : ""}
+                        {d.lift.toFixed(1)} pts
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-400">
+              {report.resultsWithSources} of {report.resultsAnalyzed}
+              {report.truncated ? " most recent" : ""} responses cited at
+              least one source. Lift compares your citation rate in
+              responses that cite the domain with responses that don&apos;t.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -89,25 +523,37 @@ function heatColor(rate: number): string {
 export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [trends, setTrends] = useState<DashboardTrends | null>(null);
+  const [voice, setVoice] = useState<ShareOfVoiceReport | null>(null);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  // Share of voice is measured for one brand against its competitors
+  const [brandId, setBrandId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchData() {
       try {
-        const [statsRes, trendsRes] = await Promise.all([
+        const [statsRes, trendsRes, brandsRes] = await Promise.all([
           fetch("/api/dashboard/stats"),
           fetch("/api/dashboard/trends"),
+          fetch("/api/brand"),
         ]);
 
         if (!statsRes.ok) throw new Error("Failed to fetch dashboard stats");
         if (!trendsRes.ok) throw new Error("Failed to fetch dashboard trends");
+        if (!brandsRes.ok) throw new Error("Failed to fetch brands");
 
         const statsData: DashboardStats = await statsRes.json();
         const trendsData: DashboardTrends = await trendsRes.json();
+        const brandsData = await brandsRes.json();
+        const brandList: Brand[] = Array.isArray(brandsData)
+          ? brandsData
+          : brandsData.brands ?? [];
 
         setStats(statsData);
         setTrends(trendsData);
+        setBrands(brandList);
+        setBrandId(brandList[0]?.id ?? null);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Unknown error");
       } finally {
@@ -118,6 +564,18 @@ export default function DashboardPage() {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    if (!brandId) {
+      setVoice(null);
+      return;
+    }
+
+    fetch(`/api/dashboard/share-of-voice?${new URLSearchParams({ brandId })}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ShareOfVoiceReport | null) => setVoice(data))
+      .catch(() => setVoice(null));
+  }, [brandId]);
+
   if (error) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -126,7 +584,15 @@ export default function DashboardPage() {
     );
   }
 
-  const statCards = [
+  const rateInterval = stats?.citationRateInterval;
+  const period = stats?.periodComparison;
+
+  const statCards: Array<{
+    title: string;
+    value: string | number;
+    icon: typeof Search;
+    detail?: string[];
+  }> = [
     {
       title: "Total Probes",
       value: stats?.totalProbes ?? 0,
@@ -141,6 +607,18 @@ export default function DashboardPage() {
       title: "Citation Rate",
       value: `${(stats?.citationRate ?? 0).toFixed(1)}%`,
       icon: BarChart3,
+      detail: [
+        rateInterval && rateInterval.trials > 0
+          ? `95% CI ${rateInterval.lower}–${rateInterval.upper}%`
+          : "",
+        period && period.overall.baseline.trials > 0 && period.overall.current.trials > 0
+          ? `${period.overall.difference > 0 ? "+" : ""}${period.overall.difference} pts vs previous ${period.days}d — ${
+              period.overall.significant
+                ? `significant (p=${period.overall.pValue})`
+                : "within noise"
+            }`
+          : "",
+      ].filter(Boolean),
     },
     {
       title: "Total Cost",
@@ -152,9 +630,27 @@ export default function DashboardPage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-        <p className="text-sm text-gray-500">Citation tracking overview</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
+          <p className="text-sm text-gray-500">Citation tracking overview</p>
+        </div>
+        {brands.length > 1 && brandId && (
+          <div className="w-48">
+            <Select value={brandId} onValueChange={setBrandId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {brands.map((brand) => (
+                  <SelectItem key={brand.id} value={brand.id}>
+                    {brand.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
 
       {/* Stats row */}
@@ -171,7 +667,14 @@ export default function DashboardPage() {
               {loading ? (
                 <Skeleton className="h-8 w-24" />
               ) : (
-                <p className="text-2xl font-bold">{card.value}</p>
+                <>
+                  <p className="text-2xl font-bold">{card.value}</p>
+                  {card.detail?.map((line) => (
+                    <p key={line} className="text-xs text-gray-500">
+                      {line}
+                    </p>
+                  ))}
+                </>
               )}
             </CardContent>
           </Card>
@@ -243,16 +746,21 @@ export default function DashboardPage() {
         <Card>
           <CardHeader>
             <CardTitle>Share of Voice</CardTitle>
-            <CardDescription>Cited vs not-cited breakdown</CardDescription>
+            <CardDescription>
+              Weighted share of brand mentions, you vs competitors
+            </CardDescription>
           </CardHeader>
           <CardContent>
             {loading ? (
               <Skeleton className="h-64 w-full" />
-            ) : trends?.shareOfVoice && trends.shareOfVoice.length > 0 ? (
+            ) : voice && voice.entities.length > 0 ? (
               <ResponsiveContainer width="100%" height={280}>
                 <PieChart>
                   <Pie
-                    data={trends.shareOfVoice}
+                    data={brandFirst(voice.entities).map((e) => ({
+                      name: e.name,
+                      value: e.share,
+                    }))}
                     cx="50%"
                     cy="50%"
                     innerRadius={60}
@@ -263,7 +771,7 @@ export default function DashboardPage() {
                       `${name} ${(percent * 100).toFixed(0)}%`
                     }
                   >
-                    {trends.shareOfVoice.map((_, idx) => (
+                    {voice.entities.map((_, idx) => (
                       <Cell
                         key={`cell-${idx}`}
                         fill={PIE_COLORS[idx % PIE_COLORS.length]}
@@ -310,6 +818,12 @@ export default function DashboardPage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Share of voice over time */}
+      <ShareOfVoiceSection brandId={brandId} />
+
+      {/* Source influence */}
+      <SourceInfluenceSection />
     </div>
   );
 }
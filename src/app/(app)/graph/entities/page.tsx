@@ -0,0 +1,322 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, GitMerge, Loader2, Plus, Tags, X } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type EntityType = "brand" | "product" | "feature" | "category";
+
+interface GraphEntity {
+  id: string;
+  name: string;
+  type: EntityType;
+  domain: string | null;
+  aliases: Array<{ id: string; name: string; source: string }>;
+  citations: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const ENTITY_TYPES: EntityType[] = ["brand", "product", "feature", "category"];
+
+const NO_TARGET = "none";
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function GraphEntitiesPage() {
+  const [entities, setEntities] = useState<GraphEntity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+
+  const loadEntities = useCallback(async () => {
+    try {
+      const res = await fetch("/api/graph/entities");
+      if (!res.ok) throw new Error("Failed to load entities");
+      const data = await res.json();
+      setEntities(data.entities ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load entities");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntities();
+  }, [loadEntities]);
+
+  const mutate = async (
+    busyKey: string,
+    url: string,
+    method: string,
+    body?: unknown
+  ) => {
+    setBusyId(busyKey);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Request failed");
+      }
+      await loadEntities();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const addAlias = async (entity: GraphEntity) => {
+    const alias = aliasDrafts[entity.id]?.trim();
+    if (!alias) return;
+    await mutate(entity.id, `/api/graph/entities/${entity.id}/aliases`, "POST", {
+      alias,
+    });
+    setAliasDrafts((prev) => ({ ...prev, [entity.id]: "" }));
+  };
+
+  const splitAlias = (aliasId: string) =>
+    mutate(aliasId, `/api/graph/entities/${aliasId}/split`, "POST");
+
+  const setType = (entity: GraphEntity, type: string) =>
+    mutate(entity.id, `/api/graph/entities/${entity.id}`, "PUT", { type });
+
+  const merge = async (entity: GraphEntity) => {
+    const targetId = mergeTargets[entity.id];
+    if (!targetId || targetId === NO_TARGET) return;
+    const target = entities.find((e) => e.id === targetId);
+    if (
+      !window.confirm(
+        `Merge "${entity.name}" into "${target?.name}"? Its citations and aliases move to "${target?.name}".`
+      )
+    ) {
+      return;
+    }
+    await mutate(entity.id, "/api/graph/entities/merge", "POST", {
+      sourceId: entity.id,
+      targetId,
+    });
+    setMergeTargets((prev) => ({ ...prev, [entity.id]: NO_TARGET }));
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-32 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/graph"
+          className="mb-2 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Knowledge Graph
+        </Link>
+        <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+          <Tags className="h-6 w-6" />
+          Entities &amp; Aliases
+        </h1>
+        <p className="text-sm text-gray-500">
+          Declare aliases, merge duplicates and split wrongly merged names.
+          Aliases are also used by citation detection.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {entities.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-gray-400">
+            No entities in the graph yet. Run probes to populate it.
+          </CardContent>
+        </Card>
+      ) : (
+        entities.map((entity) => {
+          const busy = busyId === entity.id;
+          return (
+            <Card key={entity.id}>
+              <CardHeader className="flex flex-row items-start justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    {entity.name}
+                    {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                  </CardTitle>
+                  <CardDescription>
+                    {entity.domain ? `${entity.domain} · ` : ""}
+                    {entity.citations} citation events
+                  </CardDescription>
+                </div>
+                <div className="w-36">
+                  <Select
+                    value={entity.type}
+                    onValueChange={(type) => setType(entity, type)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENTITY_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {/* Aliases */}
+                <div className="flex flex-wrap items-center gap-2">
+                  {entity.aliases.length === 0 && (
+                    <span className="text-sm text-gray-400">No aliases</span>
+                  )}
+                  {entity.aliases.map((alias) => (
+                    <Badge
+                      key={alias.id}
+                      variant="secondary"
+                      className="gap-1 pr-1"
+                      title={`Source: ${alias.source}`}
+                    >
+                      {alias.name}
+                      <button
+                        type="button"
+                        className="rounded p-0.5 hover:bg-gray-300 disabled:opacity-50"
+                        onClick={() => splitAlias(alias.id)}
+                        disabled={busyId !== null}
+                        aria-label={`Split ${alias.name} into its own entity`}
+                      >
+                        {busyId === alias.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <X className="h-3 w-3" />
+                        )}
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  {/* Add alias */}
+                  <div className="flex items-center gap-2">
+                    <Input
+                      className="w-56"
+                      placeholder={`e.g. ${entity.name} CRM`}
+                      value={aliasDrafts[entity.id] ?? ""}
+                      onChange={(e) =>
+                        setAliasDrafts((prev) => ({
+                          ...prev,
+                          [entity.id]: e.target.value,
+                        }))
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") addAlias(entity);
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => addAlias(entity)}
+                      disabled={busyId !== null || !aliasDrafts[entity.id]?.trim()}
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add alias
+                    </Button>
+                  </div>
+
+                  {/* Merge */}
+                  <div className="flex items-center gap-2">
+                    <div className="w-48">
+                      <Select
+                        value={mergeTargets[entity.id] ?? NO_TARGET}
+                        onValueChange={(targetId) =>
+                          setMergeTargets((prev) => ({
+                            ...prev,
+                            [entity.id]: targetId,
+                          }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Merge into…" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TARGET}>Merge into…</SelectItem>
+                          {entities
+                            .filter((e) => e.id !== entity.id)
+                            .map((e) => (
+                              <SelectItem key={e.id} value={e.id}>
+                                {e.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => merge(entity)}
+                      disabled={
+                        busyId !== null ||
+                        !mergeTargets[entity.id] ||
+                        mergeTargets[entity.id] === NO_TARGET
+                      }
+                    >
+                      <GitMerge className="h-4 w-4" />
+                      Merge
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,753 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Network, Boxes, Quote, Search, GitMerge, Tags } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Brand {
+  id: string;
+  name: string;
+  domain: string;
+}
+
+interface GraphStats {
+  entities: number;
+  citations: number;
+  queries: number;
+  aliases: number;
+}
+
+interface CompetitiveEdge {
+  brand: string;
+  competitor: string;
+  category: string;
+  brandRate: number;
+  competitorRate: number;
+}
+
+interface CitationTrajectory {
+  entityName: string;
+  provider: string;
+  dataPoints: Array<{
+    date: string;
+    citationRate: number;
+    avgSentiment: string;
+    avgPosition: number;
+  }>;
+}
+
+interface QueryCoverage {
+  query: string;
+  category: string;
+  providers: Array<{
+    provider: string;
+    cited: number;
+    total: number;
+    citationRate: number;
+  }>;
+}
+
+interface BackendAnalysis {
+  backend: string;
+  provider: string;
+  citationRate: number;
+  totalProbes: number;
+}
+
+interface EntityVariant {
+  variant: string;
+  provider: string;
+  frequency: number;
+}
+
+interface GraphNode {
+  name: string;
+  citations: number;
+  x: number;
+  y: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const PROVIDERS = ["openai", "anthropic", "google", "perplexity", "tavily"];
+
+const PROVIDER_COLORS: Record<string, string> = {
+  openai: "#22c55e",
+  anthropic: "#f97316",
+  google: "#3b82f6",
+  perplexity: "#a855f7",
+  tavily: "#0ea5e9",
+};
+
+const ANY_PROVIDER = "any";
+const ALL_CATEGORIES = "all";
+
+const DIAGRAM_WIDTH = 720;
+const DIAGRAM_HEIGHT = 420;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function rateColor(rate: number): string {
+  if (rate >= 60) return "bg-green-100 text-green-800";
+  if (rate >= 30) return "bg-yellow-100 text-yellow-800";
+  return "bg-red-100 text-red-800";
+}
+
+// Focused entity in the centre, everything else on a ring around it
+function layoutNodes(edges: CompetitiveEdge[], focus: string): GraphNode[] {
+  const citations = new Map<string, number>();
+  for (const edge of edges) {
+    citations.set(edge.brand, Math.max(citations.get(edge.brand) ?? 0, edge.brandRate));
+    citations.set(
+      edge.competitor,
+      Math.max(citations.get(edge.competitor) ?? 0, edge.competitorRate)
+    );
+  }
+
+  const names = [...citations.keys()];
+  const centerX = DIAGRAM_WIDTH / 2;
+  const centerY = DIAGRAM_HEIGHT / 2;
+  const ring = names.filter((n) => n.toLowerCase() !== focus.toLowerCase());
+  const radius = Math.min(DIAGRAM_WIDTH, DIAGRAM_HEIGHT) / 2 - 50;
+
+  const nodes: GraphNode[] = [];
+  if (ring.length < names.length) {
+    const center = names.find((n) => n.toLowerCase() === focus.toLowerCase())!;
+    nodes.push({ name: center, citations: citations.get(center) ?? 0, x: centerX, y: centerY });
+  }
+  ring.forEach((name, i) => {
+    const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2;
+    nodes.push({
+      name,
+      citations: citations.get(name) ?? 0,
+      x: centerX + radius * Math.cos(angle),
+      y: centerY + radius * Math.sin(angle),
+    });
+  });
+  return nodes;
+}
+
+// Merge per-provider trajectories into one row per date for recharts
+function mergeTrajectories(
+  trajectories: CitationTrajectory[]
+): Array<Record<string, string | number>> {
+  const byDate = new Map<string, Record<string, string | number>>();
+  for (const trajectory of trajectories) {
+    for (const point of trajectory.dataPoints) {
+      const row = byDate.get(point.date) ?? { date: point.date };
+      row[trajectory.provider] = point.citationRate;
+      byDate.set(point.date, row);
+    }
+  }
+  return [...byDate.values()].sort((a, b) =>
+    String(a.date).localeCompare(String(b.date))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Competitive graph diagram
+// ---------------------------------------------------------------------------
+
+function CompetitiveGraphDiagram({
+  edges,
+  focus,
+  onSelect,
+}: {
+  edges: CompetitiveEdge[];
+  focus: string;
+  onSelect: (name: string) => void;
+}) {
+  const [nodes, setNodes] = useState<GraphNode[]>([]);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const dragging = useRef<{ name: string; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    setNodes(layoutNodes(edges, focus));
+  }, [edges, focus]);
+
+  const maxCitations = Math.max(1, ...nodes.map((n) => n.citations));
+  const nodeByName = new Map(nodes.map((n) => [n.name, n]));
+
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const svg = svgRef.current!;
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * DIAGRAM_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * DIAGRAM_HEIGHT,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging.current) return;
+    const { x, y } = toSvgPoint(e);
+    const name = dragging.current.name;
+    dragging.current.moved = true;
+    setNodes((prev) => prev.map((n) => (n.name === name ? { ...n, x, y } : n)));
+  };
+
+  const handlePointerUp = () => {
+    if (dragging.current && !dragging.current.moved) {
+      onSelect(dragging.current.name);
+    }
+    dragging.current = null;
+  };
+
+  const isHighlighted = (edge: CompetitiveEdge) =>
+    hovered === null || edge.brand === hovered || edge.competitor === hovered;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${DIAGRAM_WIDTH} ${DIAGRAM_HEIGHT}`}
+      className="h-[420px] w-full touch-none select-none rounded-md border bg-gray-50"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    >
+      {edges.map((edge) => {
+        const from = nodeByName.get(edge.brand);
+        const to = nodeByName.get(edge.competitor);
+        if (!from || !to) return null;
+        return (
+          <g key={`${edge.brand}-${edge.competitor}-${edge.category}`}>
+            <line
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke={isHighlighted(edge) ? "#6b7280" : "#e5e7eb"}
+              strokeWidth={isHighlighted(edge) && hovered ? 2 : 1}
+            />
+            {hovered && isHighlighted(edge) && (
+              <text
+                x={(from.x + to.x) / 2}
+                y={(from.y + to.y) / 2 - 4}
+                textAnchor="middle"
+                className="fill-gray-500 text-[10px]"
+              >
+                {edge.category}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {nodes.map((node) => {
+        const r = 12 + (node.citations / maxCitations) * 18;
+        const isFocus = node.name.toLowerCase() === focus.toLowerCase();
+        return (
+          <g
+            key={node.name}
+            transform={`translate(${node.x}, ${node.y})`}
+            className="cursor-pointer"
+            onPointerDown={(e) => {
+              (e.target as Element).setPointerCapture?.(e.pointerId);
+              dragging.current = { name: node.name, moved: false };
+            }}
+            onPointerEnter={() => setHovered(node.name)}
+            onPointerLeave={() => setHovered(null)}
+          >
+            <circle
+              r={r}
+              fill={isFocus ? "#111827" : "#ffffff"}
+              stroke={isFocus ? "#111827" : "#6b7280"}
+              strokeWidth={2}
+            />
+            <text
+              y={r + 14}
+              textAnchor="middle"
+              className="fill-gray-800 text-xs font-medium"
+            >
+              {node.name}
+            </text>
+            <title>{`${node.name}: ${node.citations} citation events`}</title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function GraphPage() {
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [entity, setEntity] = useState("");
+  const [stats, setStats] = useState<GraphStats | null>(null);
+  const [edges, setEdges] = useState<CompetitiveEdge[]>([]);
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [trajectories, setTrajectories] = useState<CitationTrajectory[]>([]);
+  const [coverage, setCoverage] = useState<QueryCoverage[]>([]);
+  const [backends, setBackends] = useState<BackendAnalysis[]>([]);
+  const [variants, setVariants] = useState<EntityVariant[]>([]);
+  const [citedBy, setCitedBy] = useState(ANY_PROVIDER);
+  const [notCitedBy, setNotCitedBy] = useState(ANY_PROVIDER);
+  const [loading, setLoading] = useState(true);
+  const [entityLoading, setEntityLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadOverview() {
+      try {
+        const [brandsRes, statsRes, competitiveRes] = await Promise.all([
+          fetch("/api/brand"),
+          fetch("/api/graph/stats"),
+          fetch("/api/graph/competitive"),
+        ]);
+        if (!brandsRes.ok) throw new Error("Failed to load brands");
+        if (!statsRes.ok) throw new Error("Failed to load graph stats");
+        if (!competitiveRes.ok) throw new Error("Failed to load competitive graph");
+
+        const brandData = await brandsRes.json();
+        const brandList: Brand[] = Array.isArray(brandData)
+          ? brandData
+          : brandData.brands ?? [];
+        setBrands(brandList);
+        if (brandList.length > 0) setEntity(brandList[0].name);
+
+        setStats(await statsRes.json());
+        setEdges((await competitiveRes.json()).edges ?? []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load graph");
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadOverview();
+  }, []);
+
+  useEffect(() => {
+    if (!entity) return;
+    const param = encodeURIComponent(entity);
+
+    async function loadEntity() {
+      setEntityLoading(true);
+      try {
+        const [trajectoryRes, backendsRes, variantsRes] = await Promise.all([
+          fetch(`/api/graph/trajectory?entity=${param}&days=90`),
+          fetch(`/api/graph/backends?entity=${param}`),
+          fetch(`/api/graph/variants?entity=${param}`),
+        ]);
+        if (!trajectoryRes.ok || !backendsRes.ok || !variantsRes.ok) {
+          throw new Error("Failed to load entity data");
+        }
+        setTrajectories((await trajectoryRes.json()).trajectories ?? []);
+        setBackends((await backendsRes.json()).backends ?? []);
+        setVariants((await variantsRes.json()).variants ?? []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load entity data");
+      } finally {
+        setEntityLoading(false);
+      }
+    }
+    loadEntity();
+  }, [entity]);
+
+  useEffect(() => {
+    if (!entity) return;
+    const params = new URLSearchParams({ entity });
+    if (citedBy !== ANY_PROVIDER) params.set("citedBy", citedBy);
+    if (notCitedBy !== ANY_PROVIDER) params.set("notCitedBy", notCitedBy);
+
+    fetch(`/api/graph/coverage?${params}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load query coverage");
+        return res.json();
+      })
+      .then((data) => setCoverage(data.queries ?? []))
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load query coverage")
+      );
+  }, [entity, citedBy, notCitedBy]);
+
+  const categories = useMemo(
+    () => [...new Set(edges.map((e) => e.category))].sort(),
+    [edges]
+  );
+
+  const visibleEdges = useMemo(
+    () =>
+      category === ALL_CATEGORIES
+        ? edges
+        : edges.filter((e) => e.category === category),
+    [edges, category]
+  );
+
+  const trendData = useMemo(() => mergeTrajectories(trajectories), [trajectories]);
+
+  const entityOptions = useMemo(() => {
+    const names = new Set(brands.map((b) => b.name));
+    for (const edge of edges) {
+      names.add(edge.brand);
+      names.add(edge.competitor);
+    }
+    return [...names];
+  }, [brands, edges]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-28 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  const statCards = [
+    { title: "Entities", value: stats?.entities ?? 0, icon: Boxes },
+    { title: "Citation Events", value: stats?.citations ?? 0, icon: Quote },
+    { title: "Queries", value: stats?.queries ?? 0, icon: Search },
+    { title: "Aliases", value: stats?.aliases ?? 0, icon: GitMerge },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+            <Network className="h-6 w-6" />
+            Knowledge Graph
+          </h1>
+          <p className="text-sm text-gray-500">
+            Explore entities, competitors and citation paths across providers
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link href="/graph/entities">
+            <Button variant="outline">
+              <Tags className="h-4 w-4" />
+              Manage entities
+            </Button>
+          </Link>
+          <div className="w-56">
+            <Select value={entity} onValueChange={setEntity}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select entity" />
+              </SelectTrigger>
+              <SelectContent>
+                {entityOptions.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Stats row */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {statCards.map((card) => (
+          <Card key={card.title}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-gray-500">
+                {card.title}
+              </CardTitle>
+              <card.icon className="h-4 w-4 text-gray-400" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{card.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Competitive graph */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Competitive Graph</CardTitle>
+            <CardDescription>
+              Who competes with whom. Node size reflects citation events; click a
+              node to explore it, drag to rearrange.
+            </CardDescription>
+          </div>
+          <div className="w-48">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visibleEdges.length > 0 ? (
+            <CompetitiveGraphDiagram
+              edges={visibleEdges}
+              focus={entity}
+              onSelect={setEntity}
+            />
+          ) : (
+            <p className="py-12 text-center text-sm text-gray-400">
+              No competitive relationships in the graph yet. Run probes or a
+              competitive analysis to populate it.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Trajectories */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Citation Trajectory</CardTitle>
+          <CardDescription>
+            Daily citation rate for {entity || "the selected entity"} by provider
+            (last 90 days)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entityLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : trendData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} domain={[0, 100]} unit="%" />
+                <Tooltip />
+                <Legend />
+                {trajectories.map((t) => (
+                  <Line
+                    key={t.provider}
+                    type="monotone"
+                    dataKey={t.provider}
+                    name={t.provider}
+                    stroke={PROVIDER_COLORS[t.provider] ?? "#6b7280"}
+                    strokeWidth={2}
+                    connectNulls
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="py-12 text-center text-sm text-gray-400">
+              No citation history for this entity yet.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Query coverage */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Query Coverage</CardTitle>
+            <CardDescription>
+              Which queries cite {entity || "this entity"} via one provider but
+              not another
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <span>Cited by</span>
+            <div className="w-36">
+              <Select value={citedBy} onValueChange={setCitedBy}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_PROVIDER}>Any</SelectItem>
+                  {PROVIDERS.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {p}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <span>not by</span>
+            <div className="w-36">
+              <Select value={notCitedBy} onValueChange={setNotCitedBy}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_PROVIDER}>Any</SelectItem>
+                  {PROVIDERS.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {p}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {coverage.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="pb-2 pr-4 font-medium">Query</th>
+                    <th className="pb-2 pr-4 font-medium">Category</th>
+                    {PROVIDERS.map((p) => (
+                      <th key={p} className="pb-2 pr-4 text-center font-medium">
+                        {p}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {coverage.map((row) => (
+                    <tr key={row.query} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-gray-900">{row.query}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="secondary">{row.category}</Badge>
+                      </td>
+                      {PROVIDERS.map((p) => {
+                        const cell = row.providers.find((c) => c.provider === p);
+                        return (
+                          <td key={p} className="py-2 pr-4 text-center">
+                            {cell ? (
+                              <span
+                                className={`rounded px-2 py-0.5 text-xs font-medium ${rateColor(cell.citationRate)}`}
+                                title={`${cell.cited}/${cell.total} cited`}
+                              >
+                                {cell.citationRate}%
+                              </span>
+                            ) : (
+                              <span className="text-gray-300">—</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="py-8 text-center text-sm text-gray-400">
+              No queries match this filter.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Backends + variants */}
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Search Backends</CardTitle>
+            <CardDescription>Citation rate by the index behind each provider</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {backends.length > 0 ? (
+              <div className="space-y-2">
+                {backends.map((b) => (
+                  <div
+                    key={b.provider}
+                    className="flex items-center justify-between rounded-md border p-3 text-sm"
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900">{b.backend}</p>
+                      <p className="text-xs text-gray-500">
+                        via {b.provider} · {b.totalProbes} probes
+                      </p>
+                    </div>
+                    <span
+                      className={`rounded px-2 py-0.5 text-xs font-medium ${rateColor(b.citationRate)}`}
+                    >
+                      {b.citationRate}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="py-8 text-center text-sm text-gray-400">
+                No backend data for this entity yet.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Naming Variants</CardTitle>
+            <CardDescription>How each AI engine refers to this entity</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {variants.length > 0 ? (
+              <div className="space-y-2">
+                {variants.map((v) => (
+                  <div
+                    key={`${v.variant}-${v.provider}`}
+                    className="flex items-center justify-between rounded-md border p-3 text-sm"
+                  >
+                    <span className="font-medium text-gray-900">{v.variant}</span>
+                    <span className="text-xs text-gray-500">
+                      {v.provider} · {v.frequency}×
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="py-8 text-center text-sm text-gray-400">
+                No naming variants recorded.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ListChecks, RotateCcw, XCircle } from "lucide-react";
+import { cancelJob, retryJob } from "@/lib/jobs/client";
+import type { JobSummary } from "@/lib/jobs/client";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Queued and running jobs are refreshed this often
+const POLL_MS = 3000;
+
+const TYPE_LABELS: Record<JobSummary["type"], string> = {
+  "competitive-analysis": "Competitive analysis",
+  "probe-run": "Probe run",
+  "first-run": "First run",
+  "batch-run": "Batch run",
+  "scheduled-run": "Scheduled run",
+  "content-generation": "Content generation",
+  "content-scoring": "AEO scoring",
+  "content-brief": "Content brief",
+  "entity-consistency": "Entity consistency",
+  "continuity-check": "Landing page check",
+  "continuity-monitor": "Continuity monitoring",
+  "accuracy-check": "Accuracy check",
+};
+
+const statusVariant: Record<
+  JobSummary["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  queued: "outline",
+  running: "default",
+  completed: "secondary",
+  cancelled: "outline",
+  dead: "destructive",
+};
+
+const isActive = (job: JobSummary) => job.status === "queued" || job.status === "running";
+
+function usd(value: number): string {
+  return `$${value.toFixed(value < 0.01 && value > 0 ? 4 : 2)}`;
+}
+
+function duration(job: JobSummary): string {
+  if (!job.startedAt) return "waiting";
+  const end = job.finishedAt ? new Date(job.finishedAt).getTime() : Date.now();
+  const seconds = Math.round((end - new Date(job.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// "attempt 2 of 3, next at 14:05" for a job waiting out its retry backoff
+function attemptNote(job: JobSummary): string | null {
+  if (job.attempts === 0 || (job.attempts === 1 && job.status !== "queued")) return null;
+  const note = `attempt ${job.attempts} of ${job.maxAttempts}`;
+  return job.status === "queued"
+    ? `${note} failed, next at ${new Date(job.runAt).toLocaleTimeString()}`
+    : note;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [deadLetters, setDeadLetters] = useState<JobSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const [jobsRes, deadRes] = await Promise.all([
+        fetch("/api/jobs"),
+        fetch("/api/jobs?status=dead"),
+      ]);
+      if (!jobsRes.ok || !deadRes.ok) throw new Error("Failed to load jobs");
+      setJobs(await jobsRes.json());
+      setDeadLetters(await deadRes.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const anyActive = jobs.some(isActive);
+  useEffect(() => {
+    if (!anyActive) return;
+    const timer = setInterval(fetchJobs, POLL_MS);
+    return () => clearInterval(timer);
+  }, [anyActive, fetchJobs]);
+
+  async function cancel(jobId: string) {
+    setBusy(jobId);
+    try {
+      await cancelJob(jobId);
+      await fetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel job");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function retry(jobId: string) {
+    setBusy(jobId);
+    try {
+      await retryJob(jobId);
+      await fetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry job");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+          <ListChecks className="h-6 w-6" />
+          Jobs
+        </h1>
+        <p className="text-sm text-gray-500">
+          Probe runs, analyses, scheduled runs and content jobs in the job queue
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Jobs</CardTitle>
+          <CardDescription>
+            Failed attempts are retried with a growing delay. Cancelling stops new
+            provider calls; calls already sent finish and are kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">No jobs yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-gray-500">
+                  <th className="py-2 font-medium">Job</th>
+                  <th className="py-2 font-medium">Status</th>
+                  <th className="py-2 text-right font-medium">Progress</th>
+                  <th className="py-2 text-right font-medium">Cost</th>
+                  <th className="py-2 text-right font-medium">Errors</th>
+                  <th className="py-2 text-right font-medium">Time</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => (
+                  <tr key={job.id} className="border-b align-top last:border-0">
+                    <td className="py-2">
+                      <p className="font-medium text-gray-900">{job.label}</p>
+                      <p className="text-xs text-gray-500">
+                        {TYPE_LABELS[job.type]}
+                        {attemptNote(job) && ` · ${attemptNote(job)}`}
+                      </p>
+                      {job.error && <p className="text-xs text-red-700">{job.error}</p>}
+                    </td>
+                    <td className="py-2">
+                      <Badge variant={statusVariant[job.status]}>{job.status}</Badge>
+                    </td>
+                    <td className="py-2 text-right">
+                      {job.progress.total > 0
+                        ? `${job.progress.completed} / ${job.progress.total}`
+                        : job.progress.completed}
+                    </td>
+                    <td className="py-2 text-right">{usd(job.progress.cost)}</td>
+                    <td className="py-2 text-right" title={job.errors.map((e) => `${e.provider} (${e.kind}): ${e.message}`).join("\n")}>
+                      {job.errors.length}
+                    </td>
+                    <td className="py-2 text-right text-gray-500">{duration(job)}</td>
+                    <td className="py-2 text-right">
+                      {isActive(job) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => cancel(job.id)}
+                          disabled={busy === job.id}
+                        >
+                          <XCircle className="h-4 w-4" />
+                          Cancel
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Dead letters */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Dead Letters</CardTitle>
+          <CardDescription>
+            Jobs that failed every attempt. Retrying queues one again with a fresh set of attempts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : deadLetters.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">No dead letters</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-gray-500">
+                  <th className="py-2 font-medium">Job</th>
+                  <th className="py-2 font-medium">Last error</th>
+                  <th className="py-2 text-right font-medium">Attempts</th>
+                  <th className="py-2 text-right font-medium">Failed</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {deadLetters.map((job) => (
+                  <tr key={job.id} className="border-b align-top last:border-0">
+                    <td className="py-2">
+                      <p className="font-medium text-gray-900">{job.label}</p>
+                      <p className="text-xs text-gray-500">{TYPE_LABELS[job.type]}</p>
+                    </td>
+                    <td className="py-2 text-xs text-red-700">{job.error}</td>
+                    <td className="py-2 text-right">{job.attempts}</td>
+                    <td className="py-2 text-right text-gray-500">
+                      {job.finishedAt ? new Date(job.finishedAt).toLocaleString() : "—"}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retry(job.id)}
+                        disabled={busy === job.id}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        Retry
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
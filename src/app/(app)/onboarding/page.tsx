@@ -21,6 +21,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  JobProgressPanel,
+  applyJobEvent,
+  newJobView,
+} from "@/components/jobs/job-progress";
+import type { JobView } from "@/components/jobs/job-progress";
+import { cancelJob, runJob } from "@/lib/jobs/client";
 import {
   Building2,
   Key,
@@ -114,10 +121,14 @@ export default function OnboardingPage() {
   const [probes, setProbes] = useState<ProbeItem[]>([]);
   const [probesGenerated, setProbesGenerated] = useState(false);
 
+  // Step 1 creates the brand the later steps attach to
+  const [brandId, setBrandId] = useState<string | null>(null);
+
   // Step 4: First Run
   const [firstRunRunning, setFirstRunRunning] = useState(false);
   const [firstRunResult, setFirstRunResult] = useState<FirstRunResult | null>(null);
-  const [runProgress, setRunProgress] = useState<string[]>([]);
+  const [firstRunJob, setFirstRunJob] = useState<JobView | null>(null);
+  const [cancelling, setCancelling] = useState(false);
 
   // -------------------------------------------------------------------------
   // Competitors Management
@@ -212,10 +223,10 @@ export default function OnboardingPage() {
     setSaving(true);
     setError(null);
     try {
-      const body: Record<string, unknown> = { step };
+      let data: Record<string, unknown> = {};
 
       if (step === "brand") {
-        body.brand = {
+        data = {
           name: brandName,
           domain: brandDomain,
           description: brandDescription,
@@ -223,32 +234,30 @@ export default function OnboardingPage() {
           competitors: competitors.filter((c) => c.name && c.domain),
         };
       } else if (step === "providers") {
-        body.providers = providerKeys
+        data = providerKeys
           .filter((p) => p.apiKey.length > 0)
           .reduce(
             (acc, p) => {
-              acc[p.provider] = p.apiKey;
+              acc[`${p.provider}ApiKey`] = p.apiKey;
               return acc;
             },
             {} as Record<string, string>
           );
       } else if (step === "probes") {
-        body.probes = probes.filter((p) => p.query.length > 0);
-      } else if (step === "first-run") {
-        body.completed = true;
+        data = { brandId, probes: probes.filter((p) => p.query.length > 0) };
       }
 
       const res = await fetch("/api/onboarding", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
+        body: JSON.stringify({ step, data }),
       });
 
       if (!res.ok) throw new Error("Failed to save step");
 
-      if (step === "first-run") {
-        router.replace("/dashboard");
-        return;
+      if (step === "brand") {
+        const { brand } = await res.json();
+        setBrandId(brand.id);
       }
 
       setCurrentStep((prev) => prev + 1);
@@ -262,37 +271,18 @@ export default function OnboardingPage() {
   const runFirstCheck = async () => {
     setFirstRunRunning(true);
     setError(null);
-    setRunProgress([]);
-
-    const enabledProviders = providerKeys
-      .filter((p) => p.apiKey.length > 5)
-      .map((p) => p.provider);
-
-    for (const provider of enabledProviders) {
-      setRunProgress((prev) => [...prev, `Querying ${provider}...`]);
-      await new Promise((resolve) => setTimeout(resolve, 800));
-    }
+    setFirstRunJob(null);
+    setCancelling(false);
 
     try {
-      const res = await fetch("/api/onboarding", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          step: "first-run",
-          run: true,
-        }),
-      });
-
-      if (!res.ok) throw new Error("First run failed");
-
-      const data = await res.json();
-      setFirstRunResult(
-        data.result ?? {
-          probesRun: probes.length,
-          citationsFound: 0,
-          citationRate: 0,
-        }
+      // Runs as a background job; each provider answer streams in as it lands
+      const data = await runJob<{ result: FirstRunResult }>(
+        "/api/onboarding",
+        { step: "first-run", data: { brandId } },
+        (event, job) =>
+          setFirstRunJob((prev) => applyJobEvent(prev ?? newJobView(job.id), event))
       );
+      setFirstRunResult(data.result);
     } catch (err) {
       setError(err instanceof Error ? err.message : "First run failed");
       setFirstRunResult({
@@ -302,7 +292,18 @@ export default function OnboardingPage() {
       });
     } finally {
       setFirstRunRunning(false);
-      setRunProgress([]);
+      setFirstRunJob(null);
+    }
+  };
+
+  const cancelFirstRun = async () => {
+    if (!firstRunJob) return;
+    setCancelling(true);
+    try {
+      await cancelJob(firstRunJob.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel");
+      setCancelling(false);
     }
   };
 
@@ -623,15 +624,12 @@ export default function OnboardingPage() {
 
             {firstRunRunning && (
               <div className="flex flex-col items-center py-8">
-                <Loader2 className="mb-4 h-12 w-12 animate-spin text-blue-400" />
-                <p className="mb-4 text-lg font-medium text-gray-600">Running citation check...</p>
-                <div className="space-y-1">
-                  {runProgress.map((msg, idx) => (
-                    <p key={idx} className="text-sm text-gray-500">
-                      {msg}
-                    </p>
-                  ))}
-                </div>
+                <JobProgressPanel
+                  title="Running citation check..."
+                  view={firstRunJob}
+                  onCancel={firstRunJob ? cancelFirstRun : undefined}
+                  cancelling={cancelling}
+                />
               </div>
             )}
 
@@ -659,8 +657,7 @@ export default function OnboardingPage() {
                 </div>
 
                 <div className="flex justify-center">
-                  <Button size="lg" onClick={() => saveStep("first-run")}>
-                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                  <Button size="lg" onClick={() => router.replace("/dashboard")}>
                     Go to Dashboard
                     <ChevronRight className="h-4 w-4" />
                   </Button>
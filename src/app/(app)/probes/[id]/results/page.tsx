@@ -12,7 +12,15 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Play, Check, X, ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Play,
+  Check,
+  X,
+  ChevronDown,
+  ChevronRight,
+  FileSearch,
+} from "lucide-react";
+import { runJob } from "@/lib/jobs/client";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -26,21 +34,70 @@ interface Probe {
 }
 
 interface ProviderResult {
+  id: string;
   provider: string;
   cited: boolean;
   citationType: string;
   sentiment: string;
   position: number | null;
   confidence: number;
+  matchedSurfaceForm: string | null;
+}
+
+type SourceKind =
+  | "own"
+  | "competitor"
+  | "review-site"
+  | "forum"
+  | "news"
+  | "wiki"
+  | "third-party";
+
+interface CitedDomain {
+  domain: string;
+  kind: SourceKind;
+  competitor: string | null;
+  citations: number;
+  providers: string[];
+  avgRank: number;
+}
+
+interface CitedDomainsReport {
+  resultsAnalyzed: number;
+  resultsWithSources: number;
+  byKind: Record<SourceKind, number>;
+  domains: CitedDomain[];
 }
 
 interface CitationRun {
   id: string;
-  createdAt: string;
+  startedAt: string;
   status: string;
   results: ProviderResult[];
 }
 
+// GET /api/probes/:id answers with the probe, its brand and its latest runs
+interface ProbeResponse {
+  id: string;
+  query: string;
+  category: string;
+  brand: { name: string };
+  citationRuns: CitationRun[];
+}
+
+// The parts of a continuity check this page shows
+interface ContinuityCheck {
+  overallScore: number;
+  claimAlignment: { claimsContradicted: string[]; claimsMissing: string[] };
+  recommendations: string[];
+  page: { finalUrl: string; title: string; cached: boolean };
+}
+
+type ContinuityState =
+  | { status: "running" }
+  | { status: "done"; check: ContinuityCheck }
+  | { status: "failed"; error: string };
+
 const providerBadgeColors: Record<string, string> = {
   openai: "bg-green-100 text-green-800",
   anthropic: "bg-orange-100 text-orange-800",
@@ -48,6 +105,26 @@ const providerBadgeColors: Record<string, string> = {
   perplexity: "bg-purple-100 text-purple-800",
 };
 
+const sourceKindLabels: Record<SourceKind, string> = {
+  own: "Our domain",
+  competitor: "Competitor",
+  "review-site": "Review site",
+  forum: "Forum",
+  news: "News",
+  wiki: "Wiki",
+  "third-party": "Third party",
+};
+
+const sourceKindColors: Record<SourceKind, string> = {
+  own: "bg-green-100 text-green-800",
+  competitor: "bg-red-100 text-red-800",
+  "review-site": "bg-blue-100 text-blue-800",
+  forum: "bg-orange-100 text-orange-800",
+  news: "bg-purple-100 text-purple-800",
+  wiki: "bg-yellow-100 text-yellow-800",
+  "third-party": "bg-gray-100 text-gray-800",
+};
+
 const sentimentColors: Record<string, string> = {
   positive: "bg-green-100 text-green-800",
   neutral: "bg-gray-100 text-gray-800",
@@ -55,6 +132,67 @@ const sentimentColors: Record<string, string> = {
   mixed: "bg-yellow-100 text-yellow-800",
 };
 
+function renderContinuity(state: ContinuityState | undefined) {
+  if (!state || state.status === "running") return null;
+  if (state.status === "failed") {
+    return <p className="w-full text-xs text-red-600">{state.error}</p>;
+  }
+
+  const { check } = state;
+  return (
+    <div className="w-full space-y-2 rounded-md bg-gray-50 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge
+          className={
+            check.overallScore >= 70
+              ? "bg-green-100 text-green-800"
+              : check.overallScore >= 50
+              ? "bg-yellow-100 text-yellow-800"
+              : "bg-red-100 text-red-800"
+          }
+        >
+          Continuity {check.overallScore}/100
+        </Badge>
+        <a
+          href={check.page.finalUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="truncate text-xs text-blue-600 hover:underline"
+        >
+          {check.page.title || check.page.finalUrl}
+        </a>
+        {check.page.cached && (
+          <span className="text-xs text-gray-400">stored snapshot</span>
+        )}
+      </div>
+      {check.claimAlignment.claimsContradicted.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-red-700">
+            Claims the page contradicts
+          </p>
+          <ul className="list-disc pl-5 text-xs text-red-700">
+            {check.claimAlignment.claimsContradicted.map((claim) => (
+              <li key={claim}>{claim}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {check.claimAlignment.claimsMissing.length > 0 && (
+        <p className="text-xs text-gray-600">
+          Not on the page: {check.claimAlignment.claimsMissing.join(", ")}
+        </p>
+      )}
+      {check.recommendations.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-gray-700">
+          {check.recommendations.map((recommendation) => (
+            <li key={recommendation}>{recommendation}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -65,10 +203,16 @@ export default function ProbeResultsPage() {
 
   const [probe, setProbe] = useState<Probe | null>(null);
   const [runs, setRuns] = useState<CitationRun[]>([]);
+  const [citedDomains, setCitedDomains] = useState<CitedDomainsReport | null>(
+    null
+  );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [running, setRunning] = useState(false);
   const [expandedRuns, setExpandedRuns] = useState<Set<string>>(new Set());
+  const [continuity, setContinuity] = useState<Record<string, ContinuityState>>(
+    {}
+  );
 
   useEffect(() => {
     fetchResults();
@@ -79,9 +223,18 @@ export default function ProbeResultsPage() {
       setLoading(true);
       const res = await fetch(`/api/probes/${probeId}`);
       if (!res.ok) throw new Error("Failed to fetch probe results");
-      const data = await res.json();
-      setProbe(data.probe);
-      setRuns(data.runs ?? []);
+      const data: ProbeResponse = await res.json();
+      setProbe({
+        id: data.id,
+        query: data.query,
+        category: data.category,
+        brandName: data.brand.name,
+      });
+      setRuns(data.citationRuns ?? []);
+
+      // Source report is secondary; the page still works without it
+      const sourcesRes = await fetch(`/api/probes/${probeId}/sources`);
+      if (sourcesRes.ok) setCitedDomains(await sourcesRes.json());
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
@@ -92,12 +245,8 @@ export default function ProbeResultsPage() {
   async function runAgain() {
     setRunning(true);
     try {
-      const res = await fetch("/api/citations/probe", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ probeId }),
-      });
-      if (!res.ok) throw new Error("Failed to run probe");
+      // Runs as a background job; wait for it to finish before refreshing
+      await runJob("/api/citations/probe", { probeId });
       await fetchResults();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
@@ -106,6 +255,26 @@ export default function ProbeResultsPage() {
     }
   }
 
+  // Fetch the page the response linked to and score it against the response
+  async function checkLandingPage(resultId: string) {
+    setContinuity((prev) => ({ ...prev, [resultId]: { status: "running" } }));
+    try {
+      const check = await runJob<ContinuityCheck>(
+        `/api/citations/results/${resultId}/continuity`,
+        {}
+      );
+      setContinuity((prev) => ({ ...prev, [resultId]: { status: "done", check } }));
+    } catch (err) {
+      setContinuity((prev) => ({
+        ...prev,
+        [resultId]: {
+          status: "failed",
+          error: err instanceof Error ? err.message : "Unknown error",
+        },
+      }));
+    }
+  }
+
   function toggleExpand(runId: string) {
     setExpandedRuns((prev) => {
       const next = new Set(prev);
@@ -157,6 +326,59 @@ export default function ProbeResultsPage() {
         </Card>
       ) : null}
 
+      {/* Cited domains */}
+      {!loading && citedDomains && citedDomains.domains.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Cited Domains</CardTitle>
+            <CardDescription>
+              Pages the engines cited as sources in{" "}
+              {citedDomains.resultsWithSources} of{" "}
+              {citedDomains.resultsAnalyzed} recent responses
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(sourceKindLabels) as SourceKind[]).map((kind) => (
+                <Badge key={kind} className={sourceKindColors[kind]}>
+                  {sourceKindLabels[kind]}: {citedDomains.byKind[kind]}
+                </Badge>
+              ))}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-gray-500">
+                  <th className="py-2 font-medium">Domain</th>
+                  <th className="py-2 font-medium">Source</th>
+                  <th className="py-2 text-right font-medium">Citations</th>
+                  <th className="py-2 text-right font-medium">Avg rank</th>
+                  <th className="py-2 pl-4 font-medium">Providers</th>
+                </tr>
+              </thead>
+              <tbody>
+                {citedDomains.domains.map((d) => (
+                  <tr key={d.domain} className="border-b last:border-0">
+                    <td className="py-2 font-medium text-gray-900">
+                      {d.domain}
+                    </td>
+                    <td className="py-2">
+                      <Badge className={sourceKindColors[d.kind]}>
+                        {d.competitor ?? sourceKindLabels[d.kind]}
+                      </Badge>
+                    </td>
+                    <td className="py-2 text-right">{d.citations}</td>
+                    <td className="py-2 text-right">#{d.avgRank}</td>
+                    <td className="py-2 pl-4 text-gray-500">
+                      {d.providers.join(", ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Runs */}
       {loading ? (
         <div className="space-y-3">
@@ -189,7 +411,7 @@ export default function ProbeResultsPage() {
                       <ChevronRight className="h-4 w-4 text-gray-400" />
                     )}
                     <span className="text-sm font-medium text-gray-900">
-                      {new Date(run.createdAt).toLocaleString()}
+                      {new Date(run.startedAt).toLocaleString()}
                     </span>
                     <Badge
                       className={
@@ -257,6 +479,13 @@ export default function ProbeResultsPage() {
                               </span>
                             )}
 
+                            {/* Matched surface form */}
+                            {result.matchedSurfaceForm && (
+                              <span className="text-xs text-gray-500">
+                                Matched: &ldquo;{result.matchedSurfaceForm}&rdquo;
+                              </span>
+                            )}
+
                             {/* Sentiment */}
                             <Badge
                               className={
@@ -291,6 +520,23 @@ export default function ProbeResultsPage() {
                                 {Math.round(result.confidence * 100)}%
                               </span>
                             </div>
+
+                            {/* Landing page continuity */}
+                            {result.cited && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="ml-auto"
+                                onClick={() => checkLandingPage(result.id)}
+                                disabled={continuity[result.id]?.status === "running"}
+                              >
+                                <FileSearch className="h-4 w-4" />
+                                {continuity[result.id]?.status === "running"
+                                  ? "Checking..."
+                                  : "Check landing page"}
+                              </Button>
+                            )}
+                            {renderContinuity(continuity[result.id])}
                           </div>
                         ))}
                       </div>
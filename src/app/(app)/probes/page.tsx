@@ -22,6 +22,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Plus, Play, ExternalLink } from "lucide-react";
+import { runJob } from "@/lib/jobs/client";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -134,12 +135,8 @@ export default function ProbesPage() {
   async function runProbe(probeId: string) {
     setRunningProbeId(probeId);
     try {
-      const res = await fetch("/api/citations/probe", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ probeId }),
-      });
-      if (!res.ok) throw new Error("Failed to run probe");
+      // Runs as a background job; wait for it to finish before refreshing
+      await runJob("/api/citations/probe", { probeId });
       await fetchData();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
@@ -13,7 +13,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { Eye, EyeOff, Save, Loader2 } from "lucide-react";
+import { Eye, EyeOff, Save, Loader2, Plus, Trash2, PlugZap, UserPlus } from "lucide-react";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -21,16 +21,66 @@ import { Eye, EyeOff, Save, Loader2 } from "lucide-react";
 
 interface ProviderConfig {
   enabled: boolean;
-  apiKey: string;
+  // Write-only: a newly typed key. Saved keys are never sent back, only
+  // where the key comes from.
+  apiKey?: string;
+  apiKeySource?: "settings" | "environment" | null;
   dailyBudget: number;
+  monthlyBudget?: number;
+  requestsPerMinute?: number; // 0 = unlimited
+  tokensPerMinute?: number;
+  timeoutSeconds?: number; // per attempt; 0 = no timeout
+  maxConcurrent?: number; // 0 = only the global limit
+  cacheTtlHours: number;
+  // Set only on custom OpenAI-compatible providers
+  type?: "openai-compatible";
+  baseUrl?: string;
+  model?: string;
+  authHeader?: string;
+  costPer1kInput?: number;
+  costPer1kOutput?: number;
+}
+
+interface NewProviderDraft {
+  name: string;
+  baseUrl: string;
+  model: string;
+}
+
+interface ProviderTestResult {
+  ok: boolean;
+  message: string;
+}
+
+interface ProviderUsage {
+  provider: string;
+  lastMinute: { requests: number; tokens: number };
+  spentToday: number;
+  spentThisMonth: number;
+  blockedBy: string | null;
+}
+
+interface SecretStoreStatus {
+  configured: boolean;
+  keyId: string | null;
+  secrets: number;
+  needingRotation: number;
+  unreadable: number;
 }
 
 interface MonitoringConfig {
   defaultSchedule: string;
   batchSize: number;
+  concurrency: number;
   alertsEnabled: boolean;
   emailNotifications: boolean;
   notificationEmail: string;
+  rateLimitMode: "wait" | "skip";
+  maxRateLimitWaitSeconds: number;
+  maxRetries: number;
+  circuitBreakerThreshold: number;
+  continuityMonitoring: boolean;
+  continuityChecksPerRun: number;
 }
 
 interface ScoringConfig {
@@ -41,19 +91,63 @@ interface ScoringConfig {
   validationProviders: string[];
 }
 
+interface WorkspaceMember {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+interface WorkspaceProvider {
+  provider: string;
+  apiKeySet: boolean;
+  dailyBudget: number;
+  spentToday: number;
+}
+
+interface WorkspaceInfo {
+  id: string;
+  name: string;
+  role: string;
+  providers: WorkspaceProvider[];
+}
+
+interface MemberDraft {
+  email: string;
+  name: string;
+  password: string;
+  role: string;
+}
+
 interface Settings {
   providers: Record<string, ProviderConfig>;
   monitoring: MonitoringConfig;
   scoring: ScoringConfig;
 }
 
-const PROVIDERS = ["openai", "anthropic", "google", "perplexity"] as const;
+const PROVIDERS = ["openai", "anthropic", "google", "perplexity", "tavily"] as const;
 
 const PROVIDER_LABELS: Record<string, string> = {
   openai: "OpenAI",
   anthropic: "Anthropic",
   google: "Google",
   perplexity: "Perplexity",
+  tavily: "Tavily",
+};
+
+const ROLES = ["viewer", "editor", "owner"] as const;
+
+const EMPTY_MEMBER_DRAFT: MemberDraft = {
+  email: "",
+  name: "",
+  password: "",
+  role: "viewer",
+};
+
+const EMPTY_PROVIDER_DRAFT: NewProviderDraft = {
+  name: "",
+  baseUrl: "http://localhost:11434/v1",
+  model: "",
 };
 
 // ---------------------------------------------------------------------------
@@ -91,19 +185,41 @@ function cronToHuman(cron: string): string {
   return desc;
 }
 
+function keyPlaceholder(config: ProviderConfig, label: string): string {
+  if (config.apiKeySource === "settings") return "Saved (encrypted) — type a new key to replace it";
+  if (config.apiKeySource === "environment") return "Using the environment variable — type a key to override it";
+  return `Enter ${label} API key`;
+}
+
 function defaultSettings(): Settings {
   const providers: Record<string, ProviderConfig> = {};
   for (const p of PROVIDERS) {
-    providers[p] = { enabled: false, apiKey: "", dailyBudget: 10 };
+    providers[p] = {
+      enabled: false,
+      dailyBudget: 5,
+      monthlyBudget: 0,
+      requestsPerMinute: 60,
+      tokensPerMinute: 100000,
+      timeoutSeconds: 60,
+      maxConcurrent: 2,
+      cacheTtlHours: 24,
+    };
   }
   return {
     providers,
     monitoring: {
       defaultSchedule: "0 9 * * 1",
       batchSize: 10,
+      concurrency: 4,
       alertsEnabled: true,
       emailNotifications: false,
       notificationEmail: "",
+      rateLimitMode: "wait",
+      maxRateLimitWaitSeconds: 120,
+      maxRetries: 3,
+      circuitBreakerThreshold: 3,
+      continuityMonitoring: false,
+      continuityChecksPerRun: 20,
     },
     scoring: {
       structuralWeight: 0.4,
@@ -126,34 +242,65 @@ export default function SettingsPage() {
   const [error, setError] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
   const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
+  const [providerDraft, setProviderDraft] = useState<NewProviderDraft>(EMPTY_PROVIDER_DRAFT);
+  const [providerBusy, setProviderBusy] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, ProviderTestResult>>({});
+  const [secretStatus, setSecretStatus] = useState<SecretStoreStatus | null>(null);
+  const [rotating, setRotating] = useState(false);
+  const [usage, setUsage] = useState<Record<string, ProviderUsage>>({});
 
-  useEffect(() => {
-    async function load() {
-      try {
-        const res = await fetch("/api/settings");
-        if (!res.ok) throw new Error("Failed to load settings");
-        const data = await res.json();
-        setSettings({ ...defaultSettings(), ...data });
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to load settings");
-      } finally {
-        setLoading(false);
+  const loadSettings = useCallback(async () => {
+    try {
+      const [res, secretsRes, usageRes] = await Promise.all([
+        fetch("/api/settings"),
+        fetch("/api/settings/secrets"),
+        fetch("/api/settings/usage"),
+      ]);
+      if (!res.ok) throw new Error("Failed to load settings");
+      const data = await res.json();
+      setSettings({ ...defaultSettings(), ...data });
+      if (secretsRes.ok) setSecretStatus(await secretsRes.json());
+      if (usageRes.ok) {
+        const { providers } = (await usageRes.json()) as { providers: ProviderUsage[] };
+        setUsage(Object.fromEntries(providers.map((u) => [u.provider, u])));
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load settings");
+    } finally {
+      setLoading(false);
     }
-    load();
   }, []);
 
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const customProviders = Object.entries(settings.providers).filter(
+    ([, config]) => config.type === "openai-compatible"
+  );
+
   const handleSave = useCallback(async () => {
     setSaving(true);
     setError(null);
     setSuccessMsg(null);
     try {
+      // Only newly typed keys are sent; apiKeySource is read-only
+      const providers: Record<string, Omit<ProviderConfig, "apiKeySource">> = {};
+      for (const [name, config] of Object.entries(settings.providers)) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { apiKeySource, apiKey, ...rest } = config;
+        providers[name] = apiKey ? { ...rest, apiKey } : rest;
+      }
       const res = await fetch("/api/settings", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(settings),
+        body: JSON.stringify({ ...settings, providers }),
       });
-      if (!res.ok) throw new Error("Failed to save settings");
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Failed to save settings");
+      }
+      await loadSettings();
       setSuccessMsg("Settings saved successfully.");
       setTimeout(() => setSuccessMsg(null), 3000);
     } catch (err) {
@@ -161,7 +308,47 @@ export default function SettingsPage() {
     } finally {
       setSaving(false);
     }
-  }, [settings]);
+  }, [settings, loadSettings]);
+
+  const clearProviderKey = async (name: string) => {
+    if (!window.confirm(`Remove the saved ${PROVIDER_LABELS[name] ?? name} API key?`)) return;
+    setProviderBusy(name);
+    setError(null);
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ providers: { [name]: { apiKey: null } } }),
+      });
+      if (!res.ok) throw new Error("Failed to remove key");
+      await loadSettings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove key");
+    } finally {
+      setProviderBusy(null);
+    }
+  };
+
+  const rotateMasterKey = async () => {
+    setRotating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/settings/secrets/rotate", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to rotate keys");
+      setSecretStatus(data.status);
+      setSuccessMsg(
+        data.failed.length > 0
+          ? `Re-encrypted ${data.rotated} key(s); ${data.failed.length} could not be read.`
+          : `Re-encrypted ${data.rotated} key(s) under the current master key.`
+      );
+      setTimeout(() => setSuccessMsg(null), 5000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rotate keys");
+    } finally {
+      setRotating(false);
+    }
+  };
 
   const toggleKeyVisibility = (provider: string) => {
     setVisibleKeys((prev) => ({ ...prev, [provider]: !prev[provider] }));
@@ -177,6 +364,79 @@ export default function SettingsPage() {
     }));
   };
 
+  const addCustomProvider = async () => {
+    setProviderBusy("new");
+    setError(null);
+    try {
+      const res = await fetch("/api/settings/providers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: providerDraft.name.trim(),
+          baseUrl: providerDraft.baseUrl.trim(),
+          model: providerDraft.model.trim(),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Failed to add provider");
+      }
+      setProviderDraft(EMPTY_PROVIDER_DRAFT);
+      await loadSettings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add provider");
+    } finally {
+      setProviderBusy(null);
+    }
+  };
+
+  const deleteCustomProvider = async (name: string) => {
+    if (!window.confirm(`Remove provider "${name}"?`)) return;
+    setProviderBusy(name);
+    setError(null);
+    try {
+      const res = await fetch(`/api/settings/providers/${name}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to remove provider");
+      // Drop it locally too so the next Save doesn't write it back
+      setSettings((prev) => {
+        const providers = { ...prev.providers };
+        delete providers[name];
+        return { ...prev, providers };
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove provider");
+    } finally {
+      setProviderBusy(null);
+    }
+  };
+
+  // Tests the key typed into the form if there is one, otherwise the saved one
+  const testProvider = async (name: string) => {
+    setProviderBusy(name);
+    try {
+      const apiKey = settings.providers[name]?.apiKey;
+      const res = await fetch(`/api/settings/providers/${name}/test`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(apiKey ? { apiKey } : {}),
+      });
+      const data = await res.json();
+      setTestResults((prev) => ({
+        ...prev,
+        [name]: data.ok
+          ? { ok: true, message: `Connected to ${data.model} in ${data.latencyMs}ms` }
+          : { ok: false, message: data.error ?? "Connection failed" },
+      }));
+    } catch (err) {
+      setTestResults((prev) => ({
+        ...prev,
+        [name]: { ok: false, message: err instanceof Error ? err.message : "Connection failed" },
+      }));
+    } finally {
+      setProviderBusy(null);
+    }
+  };
+
   const updateMonitoring = (field: keyof MonitoringConfig, value: string | number | boolean) => {
     setSettings((prev) => ({
       ...prev,
@@ -253,11 +513,47 @@ export default function SettingsPage() {
           <TabsTrigger value="providers">Providers</TabsTrigger>
           <TabsTrigger value="monitoring">Monitoring</TabsTrigger>
           <TabsTrigger value="scoring">Scoring</TabsTrigger>
+          <TabsTrigger value="workspace">Workspace</TabsTrigger>
+          <TabsTrigger value="pricing">Pricing</TabsTrigger>
         </TabsList>
 
         {/* Providers Tab */}
         <TabsContent value="providers">
           <div className="space-y-4">
+            {secretStatus && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Key Encryption</CardTitle>
+                  <CardDescription>
+                    {secretStatus.configured
+                      ? `API keys saved here are encrypted at rest with master key ${secretStatus.keyId} and are never shown again.`
+                      : "SECRETS_MASTER_KEY is not set, so API keys cannot be saved here. Set it (openssl rand -base64 32) or use provider environment variables."}
+                  </CardDescription>
+                </CardHeader>
+                {secretStatus.configured && (
+                  <CardContent className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-gray-600">
+                      {secretStatus.secrets} stored key(s)
+                      {secretStatus.needingRotation > 0 &&
+                        `, ${secretStatus.needingRotation} still under a previous master key`}
+                      {secretStatus.unreadable > 0 &&
+                        `, ${secretStatus.unreadable} under a master key that is no longer configured`}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={rotateMasterKey}
+                      disabled={rotating || secretStatus.needingRotation === 0}
+                      title="Re-encrypt keys sealed under SECRETS_MASTER_KEY_PREVIOUS"
+                    >
+                      {rotating && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Re-encrypt Keys
+                    </Button>
+                  </CardContent>
+                )}
+              </Card>
+            )}
+
             {PROVIDERS.map((provider) => {
               const config = settings.providers[provider];
               return (
@@ -265,26 +561,59 @@ export default function SettingsPage() {
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <CardTitle>{PROVIDER_LABELS[provider]}</CardTitle>
-                      <label className="relative inline-flex cursor-pointer items-center">
-                        <input
-                          type="checkbox"
-                          className="peer sr-only"
-                          checked={config.enabled}
-                          onChange={(e) => updateProvider(provider, "enabled", e.target.checked)}
-                        />
-                        <div className="h-6 w-11 rounded-full bg-gray-200 after:absolute after:left-[2px] after:top-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:ring-4 peer-focus:ring-blue-300" />
-                      </label>
+                      <div className="flex items-center gap-3">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => testProvider(provider)}
+                          disabled={providerBusy !== null}
+                          title="Uses the newly typed key, or the saved one"
+                        >
+                          {providerBusy === provider ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <PlugZap className="h-4 w-4" />
+                          )}
+                          Test connection
+                        </Button>
+                        <label className="relative inline-flex cursor-pointer items-center">
+                          <input
+                            type="checkbox"
+                            className="peer sr-only"
+                            checked={config.enabled}
+                            onChange={(e) => updateProvider(provider, "enabled", e.target.checked)}
+                          />
+                          <div className="h-6 w-11 rounded-full bg-gray-200 after:absolute after:left-[2px] after:top-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:ring-4 peer-focus:ring-blue-300" />
+                        </label>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    {testResults[provider] && (
+                      <p className={`text-xs ${testResults[provider].ok ? "text-green-700" : "text-red-700"}`}>
+                        {testResults[provider].message}
+                      </p>
+                    )}
                     <div className="space-y-2">
-                      <Label htmlFor={`${provider}-key`}>API Key</Label>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={`${provider}-key`}>API Key</Label>
+                        {config.apiKeySource === "settings" && (
+                          <button
+                            type="button"
+                            className="text-xs text-gray-500 hover:text-red-600"
+                            onClick={() => clearProviderKey(provider)}
+                            disabled={providerBusy !== null}
+                          >
+                            Remove saved key
+                          </button>
+                        )}
+                      </div>
                       <div className="relative">
                         <Input
                           id={`${provider}-key`}
                           type={visibleKeys[provider] ? "text" : "password"}
-                          placeholder={`Enter ${PROVIDER_LABELS[provider]} API key`}
-                          value={config.apiKey}
+                          placeholder={keyPlaceholder(config, PROVIDER_LABELS[provider])}
+                          value={config.apiKey ?? ""}
                           onChange={(e) => updateProvider(provider, "apiKey", e.target.value)}
                         />
                         <button
@@ -300,22 +629,232 @@ export default function SettingsPage() {
                         </button>
                       </div>
                     </div>
+                    <LimitFields
+                      name={provider}
+                      config={config}
+                      usage={usage[provider]}
+                      onChange={(field, value) => updateProvider(provider, field, value)}
+                    />
                     <div className="space-y-2">
-                      <Label htmlFor={`${provider}-budget`}>Daily Budget ($)</Label>
+                      <Label htmlFor={`${provider}-cache-ttl`}>Response Cache TTL (hours)</Label>
                       <Input
-                        id={`${provider}-budget`}
+                        id={`${provider}-cache-ttl`}
                         type="number"
                         min={0}
                         step={1}
-                        value={config.dailyBudget}
-                        onChange={(e) => updateProvider(provider, "dailyBudget", parseFloat(e.target.value) || 0)}
+                        value={config.cacheTtlHours ?? 24}
+                        onChange={(e) => updateProvider(provider, "cacheTtlHours", parseFloat(e.target.value) || 0)}
                         className="w-32"
                       />
+                      <p className="text-xs text-gray-500">
+                        Identical probe prompts within this window reuse the cached response at no cost. 0 disables caching.
+                      </p>
                     </div>
                   </CardContent>
                 </Card>
               );
             })}
+
+            {/* Custom OpenAI-compatible providers */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Custom Providers</CardTitle>
+                <CardDescription>
+                  Any OpenAI-compatible endpoint (Ollama, vLLM, LM Studio, a gateway). Probes can run against these by name.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {customProviders.map(([name, config]) => (
+                  <div key={name} className="space-y-4 rounded-md border border-gray-200 p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <span className="font-medium text-gray-900">{name}</span>
+                        <label className="relative inline-flex cursor-pointer items-center">
+                          <input
+                            type="checkbox"
+                            className="peer sr-only"
+                            checked={config.enabled}
+                            onChange={(e) => updateProvider(name, "enabled", e.target.checked)}
+                          />
+                          <div className="h-6 w-11 rounded-full bg-gray-200 after:absolute after:left-[2px] after:top-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:ring-4 peer-focus:ring-blue-300" />
+                        </label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => testProvider(name)}
+                          disabled={providerBusy !== null}
+                          title="Uses the saved configuration and any newly typed key"
+                        >
+                          {providerBusy === name ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <PlugZap className="h-4 w-4" />
+                          )}
+                          Test
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteCustomProvider(name)}
+                          disabled={providerBusy !== null}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                    {testResults[name] && (
+                      <p className={`text-xs ${testResults[name].ok ? "text-green-700" : "text-red-700"}`}>
+                        {testResults[name].message}
+                      </p>
+                    )}
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor={`${name}-base-url`}>Base URL</Label>
+                        <Input
+                          id={`${name}-base-url`}
+                          value={config.baseUrl ?? ""}
+                          onChange={(e) => updateProvider(name, "baseUrl", e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`${name}-model`}>Model</Label>
+                        <Input
+                          id={`${name}-model`}
+                          value={config.model ?? ""}
+                          onChange={(e) => updateProvider(name, "model", e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`${name}-auth-header`}>Auth Header</Label>
+                        <Input
+                          id={`${name}-auth-header`}
+                          value={config.authHeader ?? "Authorization"}
+                          onChange={(e) => updateProvider(name, "authHeader", e.target.value)}
+                        />
+                        <p className="text-xs text-gray-500">
+                          Authorization sends &quot;Bearer &lt;key&gt;&quot;; any other header sends the key as-is.
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`${name}-key`}>API Key (optional)</Label>
+                        <div className="relative">
+                          <Input
+                            id={`${name}-key`}
+                            type={visibleKeys[name] ? "text" : "password"}
+                            placeholder={keyPlaceholder(config, name)}
+                            value={config.apiKey ?? ""}
+                            onChange={(e) => updateProvider(name, "apiKey", e.target.value)}
+                          />
+                          <button
+                            type="button"
+                            className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                            onClick={() => toggleKeyVisibility(name)}
+                          >
+                            {visibleKeys[name] ? (
+                              <EyeOff className="h-4 w-4" />
+                            ) : (
+                              <Eye className="h-4 w-4" />
+                            )}
+                          </button>
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`${name}-cost-in`}>Cost per 1K input tokens ($)</Label>
+                        <Input
+                          id={`${name}-cost-in`}
+                          type="number"
+                          min={0}
+                          step={0.0001}
+                          value={config.costPer1kInput ?? 0}
+                          onChange={(e) => updateProvider(name, "costPer1kInput", parseFloat(e.target.value) || 0)}
+                          className="w-32"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`${name}-cost-out`}>Cost per 1K output tokens ($)</Label>
+                        <Input
+                          id={`${name}-cost-out`}
+                          type="number"
+                          min={0}
+                          step={0.0001}
+                          value={config.costPer1kOutput ?? 0}
+                          onChange={(e) => updateProvider(name, "costPer1kOutput", parseFloat(e.target.value) || 0)}
+                          className="w-32"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`${name}-cache-ttl`}>Response Cache TTL (hours)</Label>
+                        <Input
+                          id={`${name}-cache-ttl`}
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={config.cacheTtlHours ?? 24}
+                          onChange={(e) => updateProvider(name, "cacheTtlHours", parseFloat(e.target.value) || 0)}
+                          className="w-32"
+                        />
+                      </div>
+                    </div>
+                    <LimitFields
+                      name={name}
+                      config={config}
+                      usage={usage[name]}
+                      onChange={(field, value) => updateProvider(name, field, value)}
+                    />
+                  </div>
+                ))}
+
+                {/* Add provider */}
+                <div className="grid grid-cols-1 items-end gap-4 md:grid-cols-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="new-provider-name">Name</Label>
+                    <Input
+                      id="new-provider-name"
+                      placeholder="ollama"
+                      value={providerDraft.name}
+                      onChange={(e) => setProviderDraft((prev) => ({ ...prev, name: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="new-provider-base-url">Base URL</Label>
+                    <Input
+                      id="new-provider-base-url"
+                      value={providerDraft.baseUrl}
+                      onChange={(e) => setProviderDraft((prev) => ({ ...prev, baseUrl: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="new-provider-model">Model</Label>
+                    <Input
+                      id="new-provider-model"
+                      placeholder="llama3.1"
+                      value={providerDraft.model}
+                      onChange={(e) => setProviderDraft((prev) => ({ ...prev, model: e.target.value }))}
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={addCustomProvider}
+                    disabled={
+                      providerBusy !== null ||
+                      !providerDraft.name.trim() ||
+                      !providerDraft.baseUrl.trim() ||
+                      !providerDraft.model.trim()
+                    }
+                  >
+                    {providerBusy === "new" ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Plus className="h-4 w-4" />
+                    )}
+                    Add Provider
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
           </div>
         </TabsContent>
 
@@ -341,17 +880,107 @@ export default function SettingsPage() {
                 </p>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="batchSize">Batch Size</Label>
+                  <Input
+                    id="batchSize"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={settings.monitoring.batchSize}
+                    onChange={(e) => updateMonitoring("batchSize", parseInt(e.target.value, 10) || 1)}
+                    className="w-32"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="concurrency">Concurrent calls</Label>
+                  <Input
+                    id="concurrency"
+                    type="number"
+                    min={1}
+                    max={32}
+                    value={settings.monitoring.concurrency}
+                    onChange={(e) => updateMonitoring("concurrency", parseInt(e.target.value, 10) || 1)}
+                    className="w-32"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Provider calls a batch run or competitive analysis keeps open at once. Each provider&apos;s own limit is set under Providers.
+                  </p>
+                </div>
+              </div>
+
               <div className="space-y-2">
-                <Label htmlFor="batchSize">Batch Size</Label>
-                <Input
-                  id="batchSize"
-                  type="number"
-                  min={1}
-                  max={100}
-                  value={settings.monitoring.batchSize}
-                  onChange={(e) => updateMonitoring("batchSize", parseInt(e.target.value, 10) || 1)}
-                  className="w-32"
-                />
+                <Label htmlFor="rateLimitMode">When a provider&apos;s rate limit is reached</Label>
+                <div className="flex items-center gap-3">
+                  <select
+                    id="rateLimitMode"
+                    value={settings.monitoring.rateLimitMode}
+                    onChange={(e) => updateMonitoring("rateLimitMode", e.target.value)}
+                    className="h-9 rounded-md border border-gray-200 px-2 text-sm"
+                  >
+                    <option value="wait">Wait for the limit to clear</option>
+                    <option value="skip">Skip the call</option>
+                  </select>
+                  {settings.monitoring.rateLimitMode === "wait" && (
+                    <>
+                      <Label htmlFor="maxWait" className="font-normal text-gray-500">
+                        for at most
+                      </Label>
+                      <Input
+                        id="maxWait"
+                        type="number"
+                        min={1}
+                        value={settings.monitoring.maxRateLimitWaitSeconds}
+                        onChange={(e) =>
+                          updateMonitoring("maxRateLimitWaitSeconds", parseInt(e.target.value, 10) || 1)
+                        }
+                        className="w-24"
+                      />
+                      <span className="text-sm text-gray-500">seconds</span>
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Limits are shared by every server process and scheduled run. A spent budget always skips the call and is reported in the run results.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="maxRetries">Retries per call</Label>
+                  <Input
+                    id="maxRetries"
+                    type="number"
+                    min={0}
+                    max={10}
+                    value={settings.monitoring.maxRetries}
+                    onChange={(e) => updateMonitoring("maxRetries", parseInt(e.target.value, 10) || 0)}
+                    className="w-32"
+                  />
+                  <p className="text-xs text-gray-500">
+                    After a timeout, network error, 429 or 5xx, with exponential backoff or the provider&apos;s Retry-After.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="circuitBreakerThreshold">Pause a provider after</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="circuitBreakerThreshold"
+                      type="number"
+                      min={0}
+                      value={settings.monitoring.circuitBreakerThreshold}
+                      onChange={(e) =>
+                        updateMonitoring("circuitBreakerThreshold", parseInt(e.target.value, 10) || 0)
+                      }
+                      className="w-24"
+                    />
+                    <span className="text-sm text-gray-500">failures in a row</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    The provider is skipped for the rest of the batch run. Auth and quota errors pause it at once; 0 never pauses on other errors.
+                  </p>
+                </div>
               </div>
 
               <div className="flex items-center justify-between">
@@ -370,6 +999,44 @@ export default function SettingsPage() {
                 </label>
               </div>
 
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Continuity Monitoring</Label>
+                    <p className="text-xs text-gray-500">
+                      After each batch run, fetch the pages responses linked to and alert on claims they contradict
+                    </p>
+                  </div>
+                  <label className="relative inline-flex cursor-pointer items-center">
+                    <input
+                      type="checkbox"
+                      className="peer sr-only"
+                      checked={settings.monitoring.continuityMonitoring}
+                      onChange={(e) => updateMonitoring("continuityMonitoring", e.target.checked)}
+                    />
+                    <div className="h-6 w-11 rounded-full bg-gray-200 after:absolute after:left-[2px] after:top-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:ring-4 peer-focus:ring-blue-300" />
+                  </label>
+                </div>
+                {settings.monitoring.continuityMonitoring && (
+                  <div className="space-y-2">
+                    <Label htmlFor="continuityChecksPerRun">Checks per run</Label>
+                    <Input
+                      id="continuityChecksPerRun"
+                      type="number"
+                      min={1}
+                      value={settings.monitoring.continuityChecksPerRun}
+                      onChange={(e) =>
+                        updateMonitoring("continuityChecksPerRun", parseInt(e.target.value, 10) || 1)
+                      }
+                      className="w-32"
+                    />
+                    <p className="text-xs text-gray-500">
+                      Each check makes four OpenAI calls. Responses already checked are skipped.
+                    </p>
+                  </div>
+                )}
+              </div>
+
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <div>
@@ -496,7 +1163,668 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Workspace Tab */}
+        <TabsContent value="workspace">
+          <WorkspaceTab />
+        </TabsContent>
+
+        <TabsContent value="pricing">
+          <PricingTab />
+        </TabsContent>
       </Tabs>
     </div>
   );
 }
+
+// ---------------------------------------------------------------------------
+// Workspace tab: members and per-workspace provider keys/budgets. Saved
+// through the workspace API, separately from the instance settings above.
+// ---------------------------------------------------------------------------
+
+// Budgets and per-minute limits for one provider, with what it has used so far
+function LimitFields({
+  name,
+  config,
+  usage,
+  onChange,
+}: {
+  name: string;
+  config: ProviderConfig;
+  usage?: ProviderUsage;
+  onChange: (field: keyof ProviderConfig, value: number) => void;
+}) {
+  const fields: Array<{ field: keyof ProviderConfig; label: string; step: number }> = [
+    { field: "dailyBudget", label: "Daily Budget ($)", step: 1 },
+    { field: "monthlyBudget", label: "Monthly Budget ($)", step: 10 },
+    { field: "requestsPerMinute", label: "Requests / minute", step: 1 },
+    { field: "tokensPerMinute", label: "Tokens / minute", step: 1000 },
+    { field: "timeoutSeconds", label: "Timeout (seconds)", step: 10 },
+    { field: "maxConcurrent", label: "Concurrent calls", step: 1 },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {fields.map(({ field, label, step }) => (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={`${name}-${field}`}>{label}</Label>
+            <Input
+              id={`${name}-${field}`}
+              type="number"
+              min={0}
+              step={step}
+              value={(config[field] as number | undefined) ?? 0}
+              onChange={(e) => onChange(field, parseFloat(e.target.value) || 0)}
+              className="w-32"
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        0 means no cap.
+        {usage &&
+          ` Spent $${usage.spentToday.toFixed(2)} today and $${usage.spentThisMonth.toFixed(2)} this month; ${usage.lastMinute.requests} request(s) in the last minute.`}
+      </p>
+      {usage?.blockedBy && <p className="text-xs text-red-700">{usage.blockedBy}</p>}
+    </div>
+  );
+}
+
+function WorkspaceTab() {
+  const [workspace, setWorkspace] = useState<WorkspaceInfo | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [keyDrafts, setKeyDrafts] = useState<Record<string, { apiKey: string; dailyBudget: number }>>({});
+  const [memberDraft, setMemberDraft] = useState<MemberDraft>(EMPTY_MEMBER_DRAFT);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const sessionRes = await fetch("/api/auth/session");
+      if (!sessionRes.ok) throw new Error("Failed to load workspace");
+      const session = await sessionRes.json();
+      const id = session.workspace.id as string;
+
+      const [workspaceRes, membersRes] = await Promise.all([
+        fetch(`/api/workspaces/${id}`),
+        fetch(`/api/workspaces/${id}/members`),
+      ]);
+      if (!workspaceRes.ok || !membersRes.ok) throw new Error("Failed to load workspace");
+
+      const info: WorkspaceInfo = await workspaceRes.json();
+      setWorkspace(info);
+      setMembers(await membersRes.json());
+
+      const drafts: Record<string, { apiKey: string; dailyBudget: number }> = {};
+      for (const p of PROVIDERS) {
+        const existing = info.providers.find((wp) => wp.provider === p);
+        drafts[p] = { apiKey: "", dailyBudget: existing?.dailyBudget ?? 0 };
+      }
+      setKeyDrafts(drafts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load workspace");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const isOwner = workspace?.role === "owner";
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Request failed");
+      }
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveProviders = () => {
+    if (!workspace) return;
+    // Blank key fields leave the stored key alone
+    const providers: Record<string, { apiKey?: string; dailyBudget: number }> = {};
+    for (const [name, draft] of Object.entries(keyDrafts)) {
+      providers[name] = {
+        dailyBudget: draft.dailyBudget,
+        ...(draft.apiKey ? { apiKey: draft.apiKey } : {}),
+      };
+    }
+    request(`/api/workspaces/${workspace.id}`, "PUT", { providers });
+  };
+
+  const clearKey = (provider: string) => {
+    if (!workspace) return;
+    request(`/api/workspaces/${workspace.id}`, "PUT", {
+      providers: { [provider]: { apiKey: "" } },
+    });
+  };
+
+  const addMember = async () => {
+    if (!workspace) return;
+    const ok = await request(`/api/workspaces/${workspace.id}/members`, "POST", {
+      email: memberDraft.email.trim(),
+      role: memberDraft.role,
+      ...(memberDraft.name ? { name: memberDraft.name.trim() } : {}),
+      ...(memberDraft.password ? { password: memberDraft.password } : {}),
+    });
+    if (ok) setMemberDraft(EMPTY_MEMBER_DRAFT);
+  };
+
+  if (!workspace) {
+    return error ? (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+        {error}
+      </div>
+    ) : (
+      <Skeleton className="h-48 w-full" />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members of {workspace.name}</CardTitle>
+          <CardDescription>
+            Viewers can read everything; editors can also change brands, probes, content and schedules; owners also manage members and the workspace's keys and budgets. Instance-wide settings need an instance admin.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="divide-y divide-gray-100 rounded-md border border-gray-200">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center gap-3 px-4 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-gray-900">{member.name}</p>
+                  <p className="truncate text-xs text-gray-500">{member.email}</p>
+                </div>
+                {isOwner ? (
+                  <>
+                    <select
+                      value={member.role}
+                      disabled={busy}
+                      onChange={(e) =>
+                        request(`/api/workspaces/${workspace.id}/members/${member.id}`, "PUT", {
+                          role: e.target.value,
+                        })
+                      }
+                      className="rounded-md border border-gray-200 px-2 py-1 text-sm capitalize"
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => {
+                        if (window.confirm(`Remove ${member.email} from this workspace?`)) {
+                          request(`/api/workspaces/${workspace.id}/members/${member.id}`, "DELETE");
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-sm capitalize text-gray-500">{member.role}</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isOwner && (
+            <div className="space-y-3 rounded-md border border-dashed border-gray-300 p-4">
+              <p className="text-sm font-medium text-gray-900">Add a member</p>
+              <p className="text-xs text-gray-500">
+                Existing accounts are added by email. For a new person, also set their name and an initial password.
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Input
+                  placeholder="Email"
+                  type="email"
+                  value={memberDraft.email}
+                  onChange={(e) => setMemberDraft((d) => ({ ...d, email: e.target.value }))}
+                />
+                <Input
+                  placeholder="Name (new accounts)"
+                  value={memberDraft.name}
+                  onChange={(e) => setMemberDraft((d) => ({ ...d, name: e.target.value }))}
+                />
+                <Input
+                  placeholder="Initial password (new accounts)"
+                  type="password"
+                  value={memberDraft.password}
+                  onChange={(e) => setMemberDraft((d) => ({ ...d, password: e.target.value }))}
+                />
+                <select
+                  value={memberDraft.role}
+                  onChange={(e) => setMemberDraft((d) => ({ ...d, role: e.target.value }))}
+                  className="h-9 rounded-md border border-gray-200 px-2 text-sm capitalize"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Button onClick={addMember} disabled={busy || !memberDraft.email.trim()}>
+                <UserPlus className="h-4 w-4" />
+                Add Member
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspace Provider Keys</CardTitle>
+          <CardDescription>
+            Keys set here are used for this workspace&apos;s calls instead of the instance keys on the Providers tab. A daily budget above 0 stops calls once the workspace has spent it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {PROVIDERS.map((provider) => {
+            const current = workspace.providers.find((wp) => wp.provider === provider);
+            const draft = keyDrafts[provider] ?? { apiKey: "", dailyBudget: 0 };
+            return (
+              <div key={provider} className="grid items-end gap-3 sm:grid-cols-[1fr_8rem_auto]">
+                <div className="space-y-2">
+                  <Label htmlFor={`ws-${provider}-key`}>{PROVIDER_LABELS[provider]} API Key</Label>
+                  <Input
+                    id={`ws-${provider}-key`}
+                    type="password"
+                    disabled={!isOwner}
+                    placeholder={current?.apiKeySet ? "Saved (encrypted) — type a new key to replace it" : "Using instance key"}
+                    value={draft.apiKey}
+                    onChange={(e) =>
+                      setKeyDrafts((prev) => ({ ...prev, [provider]: { ...draft, apiKey: e.target.value } }))
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`ws-${provider}-budget`}>Daily Budget ($)</Label>
+                  <Input
+                    id={`ws-${provider}-budget`}
+                    type="number"
+                    min={0}
+                    step={1}
+                    disabled={!isOwner}
+                    value={draft.dailyBudget}
+                    onChange={(e) =>
+                      setKeyDrafts((prev) => ({
+                        ...prev,
+                        [provider]: { ...draft, dailyBudget: parseFloat(e.target.value) || 0 },
+                      }))
+                    }
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-1.5">
+                  <span className="text-xs text-gray-500">
+                    ${(current?.spentToday ?? 0).toFixed(2)} today
+                  </span>
+                  {isOwner && current?.apiKeySet && (
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => clearKey(provider)}>
+                      Clear key
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {isOwner && (
+            <Button onClick={saveProviders} disabled={busy}>
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save Workspace Keys
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Pricing tab: the versioned model price list every logged cost comes from
+// ---------------------------------------------------------------------------
+
+interface PriceEntry {
+  id: string | null; // null for built-in list prices
+  model: string;
+  inputPer1k: number;
+  outputPer1k: number;
+  perRequest: number;
+  perSearch: number;
+  effectiveFrom: string;
+  note: string | null;
+  builtIn: boolean;
+}
+
+interface UnpricedModel {
+  model: string;
+  provider: string;
+  calls: number;
+  lastSeen: string;
+}
+
+interface PriceDraft {
+  model: string;
+  inputPer1k: number;
+  outputPer1k: number;
+  perRequest: number;
+  perSearch: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  note: string;
+}
+
+const PRICE_FIELDS: Array<{ field: keyof PriceDraft; label: string }> = [
+  { field: "inputPer1k", label: "Input / 1K tokens ($)" },
+  { field: "outputPer1k", label: "Output / 1K tokens ($)" },
+  { field: "perRequest", label: "Per request ($)" },
+  { field: "perSearch", label: "Per web search ($)" },
+];
+
+function emptyPriceDraft(model = ""): PriceDraft {
+  return {
+    model,
+    inputPer1k: 0,
+    outputPer1k: 0,
+    perRequest: 0,
+    perSearch: 0,
+    effectiveFrom: new Date().toISOString().slice(0, 10),
+    note: "",
+  };
+}
+
+function PricingTab() {
+  const [entries, setEntries] = useState<PriceEntry[]>([]);
+  const [unpriced, setUnpriced] = useState<UnpricedModel[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [draft, setDraft] = useState<PriceDraft>(emptyPriceDraft());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [pricingRes, sessionRes] = await Promise.all([
+        fetch("/api/settings/pricing"),
+        fetch("/api/auth/session"),
+      ]);
+      if (!pricingRes.ok) throw new Error("Failed to load pricing");
+      const data = await pricingRes.json();
+      setEntries(data.entries);
+      setUnpriced(data.unpriced);
+      if (sessionRes.ok) setIsAdmin(Boolean((await sessionRes.json()).user?.isAdmin));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load pricing");
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Built-in entries are corrected by saving a price for the same model and date
+  const startEdit = (entry: PriceEntry) => {
+    setEditingId(entry.builtIn ? null : entry.id);
+    setDraft({
+      model: entry.model,
+      inputPer1k: entry.inputPer1k,
+      outputPer1k: entry.outputPer1k,
+      perRequest: entry.perRequest,
+      perSearch: entry.perSearch,
+      effectiveFrom: entry.effectiveFrom.slice(0, 10),
+      note: entry.note ?? "",
+    });
+  };
+
+  const resetDraft = (model = "") => {
+    setEditingId(null);
+    setDraft(emptyPriceDraft(model));
+  };
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? "Request failed");
+      if (data.recomputed) {
+        setNotice(
+          `Re-priced ${data.recomputed.usageLogs} logged call(s) and ${data.recomputed.citationResults} probe result(s).`
+        );
+      }
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const savePrice = async () => {
+    const { model, ...fields } = draft;
+    const body = {
+      ...fields,
+      effectiveFrom: `${draft.effectiveFrom}T00:00:00Z`,
+      note: draft.note.trim() || null,
+    };
+    const ok = editingId
+      ? await send(`/api/settings/pricing/${editingId}`, "PUT", body)
+      : await send("/api/settings/pricing", "POST", { ...body, model: model.trim() });
+    if (ok) resetDraft();
+  };
+
+  if (!loaded) return <Skeleton className="h-48 w-full" />;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="rounded-md border border-green-200 bg-green-50 p-4 text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      {unpriced.length > 0 && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+          <p className="font-medium">These models have no price, so their calls were logged at $0:</p>
+          <ul className="mt-2 space-y-1">
+            {unpriced.map((m) => (
+              <li key={`${m.provider}/${m.model}`} className="flex items-center gap-2">
+                <span className="font-mono">{m.model}</span>
+                <span className="text-xs">
+                  ({m.provider}, {m.calls} call(s), last {new Date(m.lastSeen).toLocaleDateString()})
+                </span>
+                {isAdmin && (
+                  <Button variant="outline" size="sm" onClick={() => resetDraft(m.model)}>
+                    Add price
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Model Prices</CardTitle>
+          <CardDescription>
+            Each price applies from its date until the model&apos;s next one. Saving, correcting or removing a price re-prices the model&apos;s logged calls. Custom providers are priced in their own settings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-xs text-gray-500">
+                <th className="py-2 font-medium">Model</th>
+                <th className="py-2 font-medium">From</th>
+                <th className="py-2 text-right font-medium">In / 1K</th>
+                <th className="py-2 text-right font-medium">Out / 1K</th>
+                <th className="py-2 text-right font-medium">Per request</th>
+                <th className="py-2 text-right font-medium">Per search</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={`${entry.model}@${entry.effectiveFrom}`} className="border-b last:border-0">
+                  <td className="py-2">
+                    <span className="font-mono text-gray-900">{entry.model}</span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {entry.builtIn ? "list price" : entry.note}
+                    </span>
+                  </td>
+                  <td className="py-2 text-gray-500">{entry.effectiveFrom.slice(0, 10)}</td>
+                  <td className="py-2 text-right">${entry.inputPer1k}</td>
+                  <td className="py-2 text-right">${entry.outputPer1k}</td>
+                  <td className="py-2 text-right">${entry.perRequest}</td>
+                  <td className="py-2 text-right">${entry.perSearch}</td>
+                  <td className="py-2 text-right">
+                    {isAdmin && (
+                      <div className="flex justify-end gap-1">
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => startEdit(entry)}>
+                          {entry.builtIn ? "Correct" : "Edit"}
+                        </Button>
+                        {!entry.builtIn && entry.id && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => {
+                              if (window.confirm(`Remove this price for ${entry.model}?`)) {
+                                send(`/api/settings/pricing/${entry.id}`, "DELETE");
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? `Edit price for ${draft.model}` : "Add a price"}</CardTitle>
+            <CardDescription>
+              For a price change, add an entry from the date it took effect. To fix a wrong price, correct the existing entry.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="price-model">Model</Label>
+                <Input
+                  id="price-model"
+                  value={draft.model}
+                  disabled={!!editingId}
+                  placeholder="e.g. gpt-4o"
+                  onChange={(e) => setDraft((d) => ({ ...d, model: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-from">Effective from</Label>
+                <Input
+                  id="price-from"
+                  type="date"
+                  value={draft.effectiveFrom}
+                  onChange={(e) => setDraft((d) => ({ ...d, effectiveFrom: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-note">Note</Label>
+                <Input
+                  id="price-note"
+                  value={draft.note}
+                  placeholder="e.g. April price cut"
+                  onChange={(e) => setDraft((d) => ({ ...d, note: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {PRICE_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`price-${field}`}>{label}</Label>
+                  <Input
+                    id={`price-${field}`}
+                    type="number"
+                    min={0}
+                    step="0.0001"
+                    value={draft[field]}
+                    onChange={(e) =>
+                      setDraft((d) => ({ ...d, [field]: parseFloat(e.target.value) || 0 }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={savePrice} disabled={busy || !draft.model.trim() || !draft.effectiveFrom}>
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save Price
+              </Button>
+              {(editingId || draft.model) && (
+                <Button variant="outline" onClick={() => resetDraft()} disabled={busy}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 
@@ -10,6 +11,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -22,7 +26,9 @@ export async function PUT(
       );
     }
 
-    const alert = await prisma.alert.findUnique({ where: { id } });
+    const alert = await prisma.alert.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+    });
 
     if (!alert) {
       return NextResponse.json(
@@ -47,13 +53,18 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
 
-    const alert = await prisma.alert.findUnique({ where: { id } });
+    const alert = await prisma.alert.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+    });
 
     if (!alert) {
       return NextResponse.json(
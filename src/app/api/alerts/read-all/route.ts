@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
 import { z } from "zod";
 import { markAllAlertsRead } from "@/lib/monitoring/alert-engine";
 
@@ -7,6 +9,9 @@ const readAllSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = readAllSchema.safeParse(body);
@@ -20,6 +25,10 @@ export async function POST(request: NextRequest) {
 
     const { brandId } = parsed.data;
 
+    if (!(await brandInWorkspace(brandId, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
     await markAllAlertsRead(brandId);
 
     return NextResponse.json({
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
 import { z } from "zod";
 import { getAlerts, runAlertChecks } from "@/lib/monitoring/alert-engine";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { searchParams } = new URL(request.url);
     const brandId = searchParams.get("brandId");
@@ -16,6 +21,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!(await brandInWorkspace(brandId, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
     const alerts = await getAlerts(brandId, {
       unreadOnly: unread === "true" ? true : undefined,
       limit: limit ? parseInt(limit, 10) : 20,
@@ -36,6 +45,9 @@ const triggerSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = triggerSchema.safeParse(body);
@@ -48,6 +60,11 @@ export async function POST(request: NextRequest) {
     }
 
     const { brandId } = parsed.data;
+
+    if (!(await brandInWorkspace(brandId, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
     await runAlertChecks(brandId);
 
     const newAlerts = await getAlerts(brandId, { unreadOnly: true, limit: 5 });
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { verifyPassword } from "@/lib/auth/passwords";
+import { createSession } from "@/lib/auth/sessions";
+import { setSessionCookie } from "@/lib/auth/require";
+import { listUserWorkspaces } from "@/lib/auth/workspaces";
+
+const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Email must be valid"),
+  password: z.string().min(1, "Password is required"),
+  workspaceId: z.string().min(1).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = loginSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { email, password, workspaceId } = parsed.data;
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    // Same answer for unknown email and wrong password
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const workspaces = await listUserWorkspaces(user.id);
+    const workspace = workspaceId
+      ? workspaces.find((w) => w.id === workspaceId)
+      : workspaces[0];
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: "You are not a member of any workspace" },
+        { status: 403 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(user.id, workspace.id);
+
+    const response = NextResponse.json({
+      user: { id: user.id, email: user.email, name: user.name },
+      workspace: { id: workspace.id, name: workspace.name, slug: workspace.slug },
+      role: workspace.role,
+    });
+    return setSessionCookie(response, token, expiresAt);
+  } catch (error) {
+    console.error("Failed to log in:", error);
+    return NextResponse.json(
+      { error: "Failed to log in" },
+      { status: 500 }
+    );
+  }
+}
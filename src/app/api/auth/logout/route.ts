@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession, SESSION_COOKIE } from "@/lib/auth/sessions";
+import { clearSessionCookie } from "@/lib/auth/require";
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) await deleteSession(token);
+
+    return clearSessionCookie(NextResponse.json({ message: "Signed out" }));
+  } catch (error) {
+    console.error("Failed to log out:", error);
+    return NextResponse.json(
+      { error: "Failed to log out" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { hashPassword, MIN_PASSWORD_LENGTH } from "@/lib/auth/passwords";
+import { createSession } from "@/lib/auth/sessions";
+import { setSessionCookie } from "@/lib/auth/require";
+import { createWorkspace } from "@/lib/auth/workspaces";
+
+// Self-registration is only open until the first account exists; after that
+// owners add people from the workspace members API. The first account is
+// the instance admin.
+async function registrationOpen(): Promise<boolean> {
+  return (await prisma.user.count()) === 0;
+}
+
+const REGISTRATION_CLOSED = "Registration is closed; ask a workspace owner to add you";
+
+/**
+ * Create the first account as instance admin, or return null when another
+ * account already exists. The InstanceSetup row is created in the same
+ * transaction, so of two registrations racing past registrationOpen only
+ * one commits; the other fails on its primary key.
+ */
+async function createFirstUser(data: {
+  name: string;
+  email: string;
+  passwordHash: string;
+}) {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.instanceSetup.create({ data: {} });
+      if ((await tx.user.count()) > 0) return null;
+      return tx.user.create({ data: { ...data, isAdmin: true } });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ open: await registrationOpen() });
+  } catch (error) {
+    console.error("Failed to check registration:", error);
+    return NextResponse.json(
+      { error: "Failed to check registration" },
+      { status: 500 }
+    );
+  }
+}
+
+const registerSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().toLowerCase().email("Email must be valid"),
+  password: z
+    .string()
+    .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+  workspaceName: z.string().trim().min(1).default("My Workspace"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = registerSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (!(await registrationOpen())) {
+      return NextResponse.json({ error: REGISTRATION_CLOSED }, { status: 403 });
+    }
+
+    const { name, email, password, workspaceName } = parsed.data;
+
+    const user = await createFirstUser({
+      name,
+      email,
+      passwordHash: await hashPassword(password),
+    });
+    if (!user) {
+      return NextResponse.json({ error: REGISTRATION_CLOSED }, { status: 403 });
+    }
+    const workspace = await createWorkspace(workspaceName, user.id);
+    const { token, expiresAt } = await createSession(user.id, workspace.id);
+
+    const response = NextResponse.json(
+      {
+        user: { id: user.id, email: user.email, name: user.name, isAdmin: user.isAdmin },
+        workspace: { id: workspace.id, name: workspace.name, slug: workspace.slug },
+        role: "owner",
+      },
+      { status: 201 }
+    );
+    return setSessionCookie(response, token, expiresAt);
+  } catch (error) {
+    console.error("Failed to register:", error);
+    return NextResponse.json(
+      { error: "Failed to register" },
+      { status: 500 }
+    );
+  }
+}
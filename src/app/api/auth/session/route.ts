@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { listUserWorkspaces } from "@/lib/auth/workspaces";
+
+// GET /api/auth/session — the signed-in user, active workspace and role
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const workspaces = await listUserWorkspaces(auth.user.id);
+
+    return NextResponse.json({
+      user: auth.user,
+      workspace: auth.workspace,
+      role: auth.role,
+      workspaces,
+    });
+  } catch (error) {
+    console.error("Failed to fetch session:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch session" },
+      { status: 500 }
+    );
+  }
+}
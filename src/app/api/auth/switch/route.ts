@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth/require";
+import { switchSessionWorkspace } from "@/lib/auth/sessions";
+
+const switchSchema = z.object({
+  workspaceId: z.string().min(1, "Workspace ID is required"),
+});
+
+// POST /api/auth/switch — make another of the user's workspaces the active one
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = switchSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { workspaceId } = parsed.data;
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_workspaceId: { userId: auth.user.id, workspaceId } },
+      include: { workspace: { select: { id: true, name: true, slug: true } } },
+    });
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    await switchSessionWorkspace(auth.sessionId, workspaceId);
+
+    return NextResponse.json({
+      workspace: membership.workspace,
+      role: membership.role,
+    });
+  } catch (error) {
+    console.error("Failed to switch workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to switch workspace" },
+      { status: 500 }
+    );
+  }
+}
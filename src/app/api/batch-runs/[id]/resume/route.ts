@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { prisma } from "@/lib/db";
+import { isBatchRunResumable } from "@/lib/monitoring/batch-runner";
+import { enqueueJob } from "@/lib/jobs";
+
+// POST /api/batch-runs/:id/resume — queue a job that continues an interrupted
+// batch run from its unfinished probe/provider pairs; answers 202 with the job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.batchRun.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Batch run not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!isBatchRunResumable(existing)) {
+      return NextResponse.json(
+        { error: `Batch run is ${existing.status === "running" ? "still running" : existing.status}` },
+        { status: 409 }
+      );
+    }
+
+    const job = await enqueueJob(
+      "batch-run",
+      { batchRunId: id },
+      {
+        workspaceId: auth.workspace.id,
+        label: "Resume batch run",
+        total: existing.totalPairs,
+        key: `batch-run:${id}`,
+      }
+    );
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error("Failed to resume batch run:", error);
+    return NextResponse.json(
+      { error: "Failed to resume batch run" },
+      { status: 500 }
+    );
+  }
+}
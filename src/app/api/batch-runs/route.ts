@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { listBatchRuns } from "@/lib/monitoring/batch-runner";
+
+// GET /api/batch-runs — recent batch runs with their progress
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const batchRuns = await listBatchRuns(auth.workspace.id);
+    return NextResponse.json(batchRuns);
+  } catch (error) {
+    console.error("Failed to list batch runs:", error);
+    return NextResponse.json(
+      { error: "Failed to list batch runs" },
+      { status: 500 }
+    );
+  }
+}
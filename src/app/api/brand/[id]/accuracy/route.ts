@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
+import { enqueueJob } from "@/lib/jobs";
+import { getAccuracyReport } from "@/lib/scoring/accuracy";
+import { getFactSheet, isFactSheetEmpty } from "@/lib/scoring/fact-sheet";
+
+// GET /api/brand/:id/accuracy?days=30 — per-provider accuracy of the claims
+// checked in responses from the last `days` days
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const days = Number(request.nextUrl.searchParams.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return NextResponse.json(
+      { error: "days must be an integer between 1 and 365" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!(await brandInWorkspace(id, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getAccuracyReport(id, { days }));
+  } catch (error) {
+    console.error("Failed to fetch accuracy report:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch accuracy report" },
+      { status: 500 }
+    );
+  }
+}
+
+const accuracyCheckSchema = z.object({
+  days: z.number().int().min(1).max(365).default(30),
+  limit: z.number().int().min(1).max(200).default(50), // two LLM calls each
+});
+
+// POST /api/brand/:id/accuracy — queue a job that checks the claims in the
+// brand's recent responses against its fact sheet; answers 202 with the job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = accuracyCheckSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const brand = await prisma.brand.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
+    if (!brand) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    if (isFactSheetEmpty(await getFactSheet(id))) {
+      return NextResponse.json(
+        { error: `Fill in ${brand.name}'s fact sheet before checking accuracy` },
+        { status: 400 }
+      );
+    }
+
+    const job = await enqueueJob(
+      "accuracy-check",
+      { brandId: id, ...parsed.data },
+      {
+        workspaceId: auth.workspace.id,
+        label: `Accuracy check: ${brand.name}`,
+        key: `accuracy-check:${id}`,
+      }
+    );
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error("Failed to start accuracy check:", error);
+    return NextResponse.json(
+      { error: "Failed to start accuracy check" },
+      { status: 500 }
+    );
+  }
+}
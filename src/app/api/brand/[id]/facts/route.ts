@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
+import { getFactSheet, saveFactSheet } from "@/lib/scoring/fact-sheet";
+
+// GET /api/brand/:id/facts — the brand's fact sheet; empty until saved
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    if (!(await brandInWorkspace(id, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getFactSheet(id));
+  } catch (error) {
+    console.error("Failed to fetch fact sheet:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch fact sheet" },
+      { status: 500 }
+    );
+  }
+}
+
+const entries = z.array(z.string().trim().min(1));
+
+const factSheetSchema = z.object({
+  foundedYear: z.number().int().min(1800).max(2100).nullable().default(null),
+  headquarters: z.string().trim().default(""),
+  pricingTiers: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        price: z.string().trim().min(1),
+        period: z.string().trim().optional(),
+        notes: z.string().trim().optional(),
+      })
+    )
+    .default([]),
+  integrations: entries.default([]),
+  features: entries.default([]),
+  otherFacts: z
+    .array(
+      z.object({
+        label: z.string().trim().min(1),
+        value: z.string().trim().min(1),
+      })
+    )
+    .default([]),
+  formerFacts: entries.default([]),
+});
+
+// PUT /api/brand/:id/facts — replace the fact sheet. Responses checked
+// against the previous one are checked again by the next accuracy check.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = factSheetSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (!(await brandInWorkspace(id, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await saveFactSheet(id, parsed.data));
+  } catch (error) {
+    console.error("Failed to save fact sheet:", error);
+    return NextResponse.json(
+      { error: "Failed to save fact sheet" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
+import { listHallucinations } from "@/lib/scoring/accuracy";
+
+// GET /api/brand/:id/hallucinations?provider=&limit= — wrong and outdated
+// claims AI engines made about the brand, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+    const provider = searchParams.get("provider");
+    const limit = searchParams.get("limit");
+
+    if (!(await brandInWorkspace(id, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    const hallucinations = await listHallucinations(id, {
+      provider: provider ?? undefined,
+      limit: limit ? Math.min(parseInt(limit, 10) || 50, 500) : 50,
+    });
+
+    return NextResponse.json(hallucinations);
+  } catch (error) {
+    console.error("Failed to fetch hallucinations:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch hallucinations" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
+import { hasRole } from "@/lib/auth/roles";
+import { getBrandSpend } from "@/lib/monitoring/rate-limiter";
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
 
-    const brand = await prisma.brand.findUnique({
-      where: { id },
+    const brand = await prisma.brand.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
       include: {
         probes: true,
       },
@@ -20,7 +26,7 @@ export async function GET(
       return NextResponse.json({ error: "Brand not found" }, { status: 404 });
     }
 
-    return NextResponse.json(brand);
+    return NextResponse.json({ ...brand, spend: await getBrandSpend(id) });
   } catch (error) {
     console.error("Failed to fetch brand:", error);
     return NextResponse.json(
@@ -30,20 +36,48 @@ export async function GET(
   }
 }
 
+const surfaceForms = z.array(z.string().trim().min(1));
+
 const updateBrandSchema = z.object({
   name: z.string().min(1).optional(),
   domain: z.string().url().optional(),
   description: z.string().optional(),
   keywords: z.array(z.string()).optional(),
+  aliases: surfaceForms.optional(),
+  products: surfaceForms.optional(),
+  handles: surfaceForms.optional(),
+  excludedPhrases: surfaceForms.optional(),
   competitors: z
-    .array(z.object({ name: z.string(), domain: z.string() }))
+    .array(
+      z.object({
+        name: z.string(),
+        domain: z.string(),
+        aliases: surfaceForms.optional(),
+        products: surfaceForms.optional(),
+        handles: surfaceForms.optional(),
+        excludedPhrases: surfaceForms.optional(),
+      })
+    )
     .optional(),
+  // USD across all providers; 0 = no cap. Owners only.
+  dailyBudget: z.number().min(0).optional(),
+  monthlyBudget: z.number().min(0).optional(),
 });
 
+const SURFACE_FORM_FIELDS = [
+  "aliases",
+  "products",
+  "handles",
+  "excludedPhrases",
+] as const;
+
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -56,11 +90,22 @@ export async function PUT(
       );
     }
 
-    const existing = await prisma.brand.findUnique({ where: { id } });
+    const existing = await prisma.brand.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
     if (!existing) {
       return NextResponse.json({ error: "Brand not found" }, { status: 404 });
     }
 
+    const changesBudget =
+      parsed.data.dailyBudget !== undefined || parsed.data.monthlyBudget !== undefined;
+    if (changesBudget && !hasRole(auth.role, "owner")) {
+      return NextResponse.json(
+        { error: "Requires the owner role in this workspace" },
+        { status: 403 }
+      );
+    }
+
     const data: Record<string, unknown> = {};
     if (parsed.data.name !== undefined) data.name = parsed.data.name;
     if (parsed.data.domain !== undefined) data.domain = parsed.data.domain;
@@ -68,8 +113,16 @@ export async function PUT(
       data.description = parsed.data.description;
     if (parsed.data.keywords !== undefined)
       data.keywords = JSON.stringify(parsed.data.keywords);
+    for (const field of SURFACE_FORM_FIELDS) {
+      if (parsed.data[field] !== undefined)
+        data[field] = JSON.stringify(parsed.data[field]);
+    }
     if (parsed.data.competitors !== undefined)
       data.competitors = JSON.stringify(parsed.data.competitors);
+    if (parsed.data.dailyBudget !== undefined)
+      data.dailyBudget = parsed.data.dailyBudget;
+    if (parsed.data.monthlyBudget !== undefined)
+      data.monthlyBudget = parsed.data.monthlyBudget;
 
     const brand = await prisma.brand.update({
       where: { id },
@@ -87,13 +140,18 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
 
-    const existing = await prisma.brand.findUnique({ where: { id } });
+    const existing = await prisma.brand.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
     if (!existing) {
       return NextResponse.json({ error: "Brand not found" }, { status: 404 });
     }
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const brands = await prisma.brand.findMany({
+      where: { workspaceId: auth.workspace.id },
       include: {
         _count: {
           select: {
@@ -26,22 +31,35 @@ export async function GET() {
   }
 }
 
+const surfaceForms = z.array(z.string().trim().min(1));
+
 const createBrandSchema = z.object({
   name: z.string().min(1, "Name is required"),
   domain: z.string().url("Domain must be a valid URL"),
   description: z.string().default(""),
   keywords: z.array(z.string()).default([]),
+  aliases: surfaceForms.default([]),
+  products: surfaceForms.default([]),
+  handles: surfaceForms.default([]),
+  excludedPhrases: surfaceForms.default([]),
   competitors: z
     .array(
       z.object({
         name: z.string().min(1),
         domain: z.string().url(),
+        aliases: surfaceForms.optional(),
+        products: surfaceForms.optional(),
+        handles: surfaceForms.optional(),
+        excludedPhrases: surfaceForms.optional(),
       })
     )
     .default([]),
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = createBrandSchema.safeParse(body);
@@ -53,14 +71,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { name, domain, description, keywords, competitors } = parsed.data;
+    const {
+      name,
+      domain,
+      description,
+      keywords,
+      aliases,
+      products,
+      handles,
+      excludedPhrases,
+      competitors,
+    } = parsed.data;
 
     const brand = await prisma.brand.create({
       data: {
+        workspaceId: auth.workspace.id,
         name,
         domain,
         description,
         keywords: JSON.stringify(keywords),
+        aliases: JSON.stringify(aliases),
+        products: JSON.stringify(products),
+        handles: JSON.stringify(handles),
+        excludedPhrases: JSON.stringify(excludedPhrases),
         competitors: JSON.stringify(competitors),
       },
     });
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { enqueueJob } from "@/lib/jobs";
+import { citedLandingUrl } from "@/lib/scoring/continuity";
+
+const continuitySchema = z.object({
+  url: z.string().url().optional(), // defaults to the brand page the response linked to
+  forceRefresh: z.boolean().optional(),
+});
+
+// POST /api/citations/results/:id/continuity — queue a job that fetches the
+// landing page this result cited and scores its continuity with the response;
+// answers 202 with the job, whose result is the continuity check
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = continuitySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.citationResult.findFirst({
+      where: { id, run: { brand: { workspaceId: auth.workspace.id } } },
+      include: { sources: true, run: { include: { brand: true } } },
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Citation result not found" },
+        { status: 404 }
+      );
+    }
+
+    const { brand } = result.run;
+    const url =
+      parsed.data.url ?? citedLandingUrl(result.response, result.sources, brand.domain);
+
+    if (!url) {
+      return NextResponse.json(
+        { error: `The response does not link to ${brand.domain}; pass the page's url` },
+        { status: 400 }
+      );
+    }
+
+    const job = await enqueueJob(
+      "continuity-check",
+      { citationResultId: id, url, forceRefresh: parsed.data.forceRefresh },
+      {
+        workspaceId: auth.workspace.id,
+        label: `Landing page check: ${url}`,
+        total: 1,
+      }
+    );
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error("Failed to start continuity check:", error);
+    return NextResponse.json(
+      { error: "Failed to start continuity check" },
+      { status: 500 }
+    );
+  }
+}
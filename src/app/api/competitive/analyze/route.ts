@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { runCompetitiveAnalysis } from "@/lib/citation/competitive";
+import { defaultCompetitiveQueries } from "@/lib/citation/competitive";
 import type { ProbeCategory } from "@/lib/citation/prompt-builder";
+import { getEnabledProviders } from "@/lib/llm";
+import { enqueueJob } from "@/lib/jobs";
 
 const analyzeSchema = z.object({
   brandId: z.string().min(1, "Brand ID is required"),
@@ -14,9 +17,15 @@ const analyzeSchema = z.object({
       })
     )
     .optional(),
+  forceRefresh: z.boolean().optional(),
 });
 
+// POST /api/competitive/analyze — queues the analysis as a background job and
+// answers 202 with it; follow it at /api/jobs/:id/events
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = analyzeSchema.safeParse(body);
@@ -28,10 +37,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { brandId, queries: providedQueries } = parsed.data;
+    const { brandId, queries: providedQueries, forceRefresh } = parsed.data;
 
-    const brand = await prisma.brand.findUnique({
-      where: { id: brandId },
+    const brand = await prisma.brand.findFirst({
+      where: { id: brandId, workspaceId: auth.workspace.id },
     });
 
     if (!brand) {
@@ -44,16 +53,10 @@ export async function POST(request: NextRequest) {
     const keywords: string[] = brand.keywords
       ? JSON.parse(brand.keywords)
       : [];
-    const competitors: Array<{ name: string; domain: string }> =
-      brand.competitors ? JSON.parse(brand.competitors) : [];
 
     const queries: Array<{ query: string; category: ProbeCategory }> =
       (providedQueries as Array<{ query: string; category: ProbeCategory }>) ??
-      keywords.flatMap((keyword) => [
-        { query: `best ${keyword}`, category: "best-of" as const },
-        { query: `${keyword} vs alternatives`, category: "comparison" as const },
-        { query: `recommended ${keyword}`, category: "recommendation" as const },
-      ]);
+      defaultCompetitiveQueries(keywords);
 
     if (queries.length === 0) {
       return NextResponse.json(
@@ -62,14 +65,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await runCompetitiveAnalysis(
-      brand.name,
-      brand.domain,
-      competitors,
-      queries
+    const job = await enqueueJob(
+      "competitive-analysis",
+      { brandId, queries, forceRefresh },
+      {
+        workspaceId: auth.workspace.id,
+        label: `Competitive analysis for ${brand.name}`,
+        total: queries.length * getEnabledProviders(auth.workspace.id).length,
+      }
     );
 
-    return NextResponse.json(result);
+    return NextResponse.json(job, { status: 202 });
   } catch (error) {
     console.error("Failed to run competitive analysis:", error);
     return NextResponse.json(
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { publishContent, PUBLISHABLE_STATUSES } from "@/lib/publishing";
+
+const publishSchema = z.object({
+  targetIds: z.array(z.string().min(1)).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = publishSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const content = await prisma.content.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+    });
+    if (!content) {
+      return NextResponse.json(
+        { error: "Content not found" },
+        { status: 404 }
+      );
+    }
+    if (!PUBLISHABLE_STATUSES.includes(content.status)) {
+      return NextResponse.json(
+        { error: `Only approved content can be published (status: ${content.status})` },
+        { status: 409 }
+      );
+    }
+
+    // Default to every active target when none are specified
+    const { targetIds } = parsed.data;
+    const targets = await prisma.publishTarget.findMany({
+      where: {
+        workspaceId: auth.workspace.id,
+        isActive: true,
+        ...(targetIds ? { id: { in: targetIds } } : {}),
+      },
+      select: { id: true },
+    });
+
+    if (targetIds) {
+      const found = new Set(targets.map((target) => target.id));
+      const unavailable = [...new Set(targetIds)].filter((targetId) => !found.has(targetId));
+      if (unavailable.length > 0) {
+        return NextResponse.json(
+          { error: "Unknown or inactive publish targets", targetIds: unavailable },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (targets.length === 0) {
+      return NextResponse.json(
+        { error: "No active publish targets found" },
+        { status: 400 }
+      );
+    }
+
+    const logs = [];
+    for (const target of targets) {
+      logs.push(await publishContent(id, target.id));
+    }
+
+    const published = logs.filter((log) => log.status === "published").length;
+
+    return NextResponse.json(
+      {
+        published,
+        failed: logs.length - published,
+        logs,
+      },
+      { status: published > 0 ? 201 : 502 }
+    );
+  } catch (error) {
+    console.error("Failed to publish content:", error);
+    return NextResponse.json(
+      { error: "Failed to publish content" },
+      { status: 500 }
+    );
+  }
+}
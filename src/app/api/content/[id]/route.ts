@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
 
-    const content = await prisma.content.findUnique({
-      where: { id },
+    const content = await prisma.content.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
       include: {
         brand: true,
         publishLogs: {
@@ -48,6 +52,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -60,7 +67,9 @@ export async function PUT(
       );
     }
 
-    const existing = await prisma.content.findUnique({ where: { id } });
+    const existing = await prisma.content.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+    });
     if (!existing) {
       return NextResponse.json(
         { error: "Content not found" },
@@ -84,13 +93,18 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
 
-    const existing = await prisma.content.findUnique({ where: { id } });
+    const existing = await prisma.content.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+    });
     if (!existing) {
       return NextResponse.json(
         { error: "Content not found" },
@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { generateContent } from "@/lib/content/generator";
-import type { LLMProvider } from "@/lib/llm";
+import { enqueueJob } from "@/lib/jobs";
+import { providerNameSchema } from "@/lib/llm";
 
 const generateContentSchema = z.object({
   brandId: z.string().min(1, "Brand ID is required"),
   topic: z.string().min(1, "Topic is required"),
   contentType: z.enum(["article", "faq", "how-to", "comparison"]),
-  provider: z.string().optional(),
+  provider: providerNameSchema.optional(),
 });
 
+// POST /api/content/generate — queues generation as a background job and
+// answers 202 with it; the job's result is the saved draft
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = generateContentSchema.safeParse(body);
@@ -25,38 +31,24 @@ export async function POST(request: NextRequest) {
 
     const { brandId, topic, contentType, provider } = parsed.data;
 
-    const brand = await prisma.brand.findUnique({ where: { id: brandId } });
+    const brand = await prisma.brand.findFirst({
+      where: { id: brandId, workspaceId: auth.workspace.id },
+    });
     if (!brand) {
       return NextResponse.json({ error: "Brand not found" }, { status: 404 });
     }
 
-    const keywords: string[] = JSON.parse(brand.keywords);
-
-    const generated = await generateContent(
+    const job = await enqueueJob(
+      "content-generation",
+      { brandId, topic, contentType, provider: provider ?? "openai" },
       {
-        brandName: brand.name,
-        brandDomain: brand.domain,
-        keywords,
-        contentType,
-        topic,
-      },
-      (provider as LLMProvider) ?? "openai"
+        workspaceId: auth.workspace.id,
+        label: `Generate ${contentType}: ${topic}`,
+        total: 1,
+      }
     );
 
-    const content = await prisma.content.create({
-      data: {
-        brandId,
-        title: generated.title,
-        body: generated.body,
-        contentType,
-        status: "draft",
-        targetKeywords: brand.keywords,
-        schemaMarkup: generated.schemaMarkup,
-        aeoScore: generated.aeoScore,
-      },
-    });
-
-    return NextResponse.json(content, { status: 201 });
+    return NextResponse.json(job, { status: 202 });
   } catch (error) {
     console.error("Failed to generate content:", error);
     return NextResponse.json(
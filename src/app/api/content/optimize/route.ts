@@ -1,16 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { runForBrand } from "@/lib/auth/context";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import { optimizeContent } from "@/lib/content/optimizer";
 import type { CitationContext, CompetitorInsight } from "@/lib/content/optimizer";
-import type { LLMProvider } from "@/lib/llm";
+import { providerNameSchema } from "@/lib/llm";
 
 const optimizeSchema = z.object({
   contentId: z.string().min(1, "Content ID is required"),
-  provider: z.string().optional(),
+  provider: providerNameSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = optimizeSchema.safeParse(body);
@@ -24,8 +29,8 @@ export async function POST(request: NextRequest) {
 
     const { contentId, provider } = parsed.data;
 
-    const content = await prisma.content.findUnique({
-      where: { id: contentId },
+    const content = await prisma.content.findFirst({
+      where: { id: contentId, brand: { workspaceId: auth.workspace.id } },
       include: { brand: true },
     });
 
@@ -90,21 +95,23 @@ export async function POST(request: NextRequest) {
       };
     });
 
-    const result = await optimizeContent(
-      {
-        content: content.body,
-        brandName: content.brand.name,
-        brandDomain: content.brand.domain,
-        keywords,
-        competitorAnalysis: competitorInsights,
-        citationResults,
-        contentType: content.contentType as
-          | "article"
-          | "faq"
-          | "how-to"
-          | "comparison",
-      },
-      (provider as LLMProvider) ?? "openai"
+    const result = await runForBrand(content.brand, () =>
+      optimizeContent(
+        {
+          content: content.body,
+          brandName: content.brand.name,
+          brandDomain: content.brand.domain,
+          keywords,
+          competitorAnalysis: competitorInsights,
+          citationResults,
+          contentType: content.contentType as
+            | "article"
+            | "faq"
+            | "how-to"
+            | "comparison",
+        },
+        provider ?? "openai"
+      )
     );
 
     await prisma.content.update({
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { searchParams } = new URL(request.url);
     const brandId = searchParams.get("brandId");
     const status = searchParams.get("status");
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = {
+      brand: { workspaceId: auth.workspace.id },
+    };
     if (brandId) where.brandId = brandId;
     if (status) where.status = status;
 
@@ -40,6 +46,9 @@ const createContentSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = createContentSchema.safeParse(body);
@@ -53,7 +62,9 @@ export async function POST(request: NextRequest) {
 
     const { brandId, title, body: contentBody, contentType, status, targetKeywords } = parsed.data;
 
-    const brand = await prisma.brand.findUnique({ where: { id: brandId } });
+    const brand = await prisma.brand.findFirst({
+      where: { id: brandId, workspaceId: auth.workspace.id },
+    });
     if (!brand) {
       return NextResponse.json({ error: "Brand not found" }, { status: 404 });
     }
@@ -3,36 +3,80 @@
  *
  * POST /api/continuity
  * Scores how well a landing page "continues the answer" from an AI citation.
+ * Pass the page as `landingPageContent`, or its `url` to fetch it (or use its
+ * stored snapshot; `offline` never fetches).
  *
  * POST /api/continuity/quick
  * Quick score without detailed analysis.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { runInWorkspace } from "@/lib/auth/context";
 import { z } from "zod";
 import {
   scoreFunnelContinuity,
   quickContinuityScore,
 } from "@/lib/scoring/continuity";
+import { getLandingPage } from "@/lib/pages";
 
 // ─── Validation Schemas ───
 
+const landingPageFields = {
+  landingPageContent: z.string().min(100, "Landing page content must be at least 100 characters").optional(),
+  url: z.string().url().optional(),
+  forceRefresh: z.boolean().optional(),
+  offline: z.boolean().optional(),
+};
+
+const hasLandingPage = (data: { landingPageContent?: string; url?: string }) =>
+  !!data.landingPageContent || !!data.url;
+const landingPageRequired = {
+  message: "Either landingPageContent or url is required",
+  path: ["landingPageContent"],
+};
+
 const fullAnalysisSchema = z.object({
   aiResponse: z.string().min(50, "AI response must be at least 50 characters"),
-  landingPageContent: z.string().min(100, "Landing page content must be at least 100 characters"),
   originalQuery: z.string().min(5, "Original query must be at least 5 characters"),
   brandName: z.string().min(1, "Brand name is required"),
-});
+  ...landingPageFields,
+}).refine(hasLandingPage, landingPageRequired);
 
 const quickScoreSchema = z.object({
   aiResponse: z.string().min(50),
-  landingPageContent: z.string().min(100),
   brandName: z.string().min(1),
-});
+  ...landingPageFields,
+}).refine(hasLandingPage, landingPageRequired);
+
+// The pasted content, or the page fetched from its URL (a 400 when it can't be)
+async function landingPageContent(
+  input: { landingPageContent?: string; url?: string; forceRefresh?: boolean; offline?: boolean },
+  workspaceId: string
+): Promise<string | NextResponse> {
+  if (input.landingPageContent) return input.landingPageContent;
+  try {
+    const page = await getLandingPage(input.url!, {
+      workspaceId,
+      forceRefresh: input.forceRefresh,
+      offline: input.offline,
+    });
+    return page.markdown;
+  } catch (error) {
+    // Unreachable, private or not HTML: say which
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch page" },
+      { status: 400 }
+    );
+  }
+}
 
 // ─── POST Handler ───
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const url = new URL(request.url);
@@ -41,21 +85,27 @@ export async function POST(request: NextRequest) {
     if (isQuick) {
       // Quick score endpoint
       const validated = quickScoreSchema.parse(body);
-      const score = await quickContinuityScore(
-        validated.aiResponse,
-        validated.landingPageContent,
-        validated.brandName
+      const content = await landingPageContent(validated, auth.workspace.id);
+      if (content instanceof NextResponse) return content;
+
+      const score = await runInWorkspace(auth.workspace.id, () =>
+        quickContinuityScore(validated.aiResponse, content, validated.brandName)
       );
       return NextResponse.json({ score });
     }
 
     // Full analysis endpoint
     const validated = fullAnalysisSchema.parse(body);
-    const result = await scoreFunnelContinuity(
-      validated.aiResponse,
-      validated.landingPageContent,
-      validated.originalQuery,
-      validated.brandName
+    const content = await landingPageContent(validated, auth.workspace.id);
+    if (content instanceof NextResponse) return content;
+
+    const result = await runInWorkspace(auth.workspace.id, () =>
+      scoreFunnelContinuity(
+        validated.aiResponse,
+        content,
+        validated.originalQuery,
+        validated.brandName
+      )
     );
 
     return NextResponse.json(result);
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
+import { listContinuityScores } from "@/lib/monitoring/continuity-monitor";
+
+// GET /api/continuity/scores?brandId=&url=&limit= — a brand's landing page
+// continuity scores, newest first, from monitoring and one-off checks
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const brandId = searchParams.get("brandId");
+    const url = searchParams.get("url");
+    const limit = searchParams.get("limit");
+
+    if (!brandId) {
+      return NextResponse.json(
+        { error: "brandId query parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await brandInWorkspace(brandId, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    const scores = await listContinuityScores(brandId, {
+      url: url ?? undefined,
+      limit: limit ? Math.min(parseInt(limit, 10) || 50, 500) : 50,
+    });
+
+    return NextResponse.json(scores);
+  } catch (error) {
+    console.error("Failed to fetch continuity scores:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch continuity scores" },
+      { status: 500 }
+    );
+  }
+}
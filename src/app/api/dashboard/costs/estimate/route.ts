@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  estimateBatchCost,
+  estimateCompetitiveCost,
+} from "@/lib/monitoring/cost-analytics";
+import { defaultCompetitiveQueries } from "@/lib/citation/competitive";
+import { providerNameSchema } from "@/lib/llm";
+import { MAX_SAMPLES_PER_PAIR } from "@/lib/monitoring/batch-runner";
+
+const estimateSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("batch"),
+    brandId: z.string().optional(),
+    probeIds: z.array(z.string()).optional(),
+    providers: z.array(providerNameSchema).optional(),
+    samples: z.number().int().min(1).max(MAX_SAMPLES_PER_PAIR).default(1),
+    forceRefresh: z.boolean().optional(),
+  }),
+  z.object({
+    kind: z.literal("competitive"),
+    brandId: z.string().min(1, "Brand ID is required"),
+    queries: z.number().int().min(1).optional(), // defaults to 3 per brand keyword
+    providers: z.array(providerNameSchema).optional(),
+    forceRefresh: z.boolean().optional(),
+  }),
+]);
+
+// POST /api/dashboard/costs/estimate — what a batch run or competitive
+// analysis would cost, before starting it. Nothing is run.
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = estimateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const input = parsed.data;
+
+    const brand = input.brandId
+      ? await prisma.brand.findFirst({
+          where: { id: input.brandId, workspaceId: auth.workspace.id },
+          select: { keywords: true },
+        })
+      : null;
+    if (input.brandId && !brand) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    if (input.kind === "batch") {
+      const estimate = await estimateBatchCost({
+        workspaceId: auth.workspace.id,
+        brandId: input.brandId,
+        probeIds: input.probeIds,
+        providers: input.providers,
+        samples: input.samples,
+        forceRefresh: input.forceRefresh,
+      });
+      return NextResponse.json(estimate);
+    }
+
+    const keywords: string[] = brand?.keywords ? JSON.parse(brand.keywords) : [];
+    const estimate = await estimateCompetitiveCost({
+      workspaceId: auth.workspace.id,
+      queries: input.queries ?? defaultCompetitiveQueries(keywords).length,
+      providers: input.providers,
+      forceRefresh: input.forceRefresh,
+    });
+    return NextResponse.json(estimate);
+  } catch (error) {
+    console.error("Failed to estimate cost:", error);
+    return NextResponse.json(
+      { error: "Failed to estimate cost" },
+      { status: 500 }
+    );
+  }
+}
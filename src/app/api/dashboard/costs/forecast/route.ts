@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { forecastMonthlySpend } from "@/lib/monitoring/cost-analytics";
+
+// GET /api/dashboard/costs/forecast — spend so far this month and what the
+// workspace's schedules will add, priced from recent per-call costs
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const forecast = await forecastMonthlySpend(auth.workspace.id);
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error("Failed to forecast spend:", error);
+    return NextResponse.json(
+      { error: "Failed to forecast spend" },
+      { status: 500 }
+    );
+  }
+}
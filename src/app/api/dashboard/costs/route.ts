@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getCostReport } from "@/lib/monitoring/cost-analytics";
+import type { TrendInterval } from "@/lib/citation/source-influence";
+
+// GET /api/dashboard/costs?brandId=&provider=&days=30&interval=day
+// API spend by provider, model, brand and endpoint over time, and what each
+// citation cost
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { searchParams } = request.nextUrl;
+
+  const days = Number(searchParams.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return NextResponse.json(
+      { error: "days must be an integer between 1 and 365" },
+      { status: 400 }
+    );
+  }
+
+  const interval = searchParams.get("interval") ?? "day";
+  if (interval !== "day" && interval !== "week") {
+    return NextResponse.json(
+      { error: "interval must be 'day' or 'week'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await getCostReport({
+      workspaceId: auth.workspace.id,
+      brandId: searchParams.get("brandId") ?? undefined,
+      provider: searchParams.get("provider") ?? undefined,
+      days,
+      interval: interval as TrendInterval,
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Failed to build cost report:", error);
+    return NextResponse.json(
+      { error: "Failed to build cost report" },
+      { status: 500 }
+    );
+  }
+}
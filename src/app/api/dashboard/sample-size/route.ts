@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { planSampleSize } from "@/lib/citation/statistics";
+
+// GET /api/dashboard/sample-size?baseline=20&lift=10&alpha=0.05&power=0.8&probes=&providers=&samples=
+// How many responses (and runs, given a probe set) each period needs before a
+// change of `lift` points from `baseline`% can be told apart from noise
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { searchParams } = request.nextUrl;
+
+  const number = (name: string, fallback?: number) => {
+    const raw = searchParams.get(name);
+    return raw === null || raw === "" ? fallback : Number(raw);
+  };
+
+  const baseline = number("baseline");
+  if (baseline === undefined || !Number.isFinite(baseline) || baseline < 0 || baseline > 100) {
+    return NextResponse.json(
+      { error: "baseline must be a citation rate between 0 and 100" },
+      { status: 400 }
+    );
+  }
+
+  const lift = number("lift");
+  if (lift === undefined || !Number.isFinite(lift) || lift === 0 || Math.abs(lift) > 100) {
+    return NextResponse.json(
+      { error: "lift must be a non-zero number of percentage points" },
+      { status: 400 }
+    );
+  }
+
+  const alpha = number("alpha", 0.05)!;
+  if (!(alpha > 0 && alpha < 1)) {
+    return NextResponse.json(
+      { error: "alpha must be between 0 and 1" },
+      { status: 400 }
+    );
+  }
+
+  const power = number("power", 0.8)!;
+  if (!(power > 0 && power < 1)) {
+    return NextResponse.json(
+      { error: "power must be between 0 and 1" },
+      { status: 400 }
+    );
+  }
+
+  const counts: Record<string, number | undefined> = {};
+  for (const name of ["probes", "providers", "samples"]) {
+    const value = number(name);
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      return NextResponse.json(
+        { error: `${name} must be a positive integer` },
+        { status: 400 }
+      );
+    }
+    counts[name] = value;
+  }
+
+  try {
+    const plan = planSampleSize({
+      baselineRate: baseline,
+      minDetectableLift: lift,
+      alpha,
+      power,
+      probes: counts.probes,
+      providers: counts.providers,
+      samplesPerPair: counts.samples,
+    });
+    return NextResponse.json(plan);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid sample size input" },
+      { status: 400 }
+    );
+  }
+}
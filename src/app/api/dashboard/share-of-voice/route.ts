@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
+import { getShareOfVoiceReport } from "@/lib/citation/share-of-voice";
+import { MAX_REPORT_DAYS } from "@/lib/citation/source-influence";
+import type { TrendInterval } from "@/lib/citation/source-influence";
+
+// GET /api/dashboard/share-of-voice?brandId=&category=&provider=&days=90&interval=week
+// One brand's position- and sentiment-weighted share of mentions against its
+// competitors, by provider, probe category and over time
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { searchParams } = request.nextUrl;
+
+  const brandId = searchParams.get("brandId");
+  if (!brandId) {
+    return NextResponse.json(
+      { error: "brandId query parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const days = Number(searchParams.get("days") ?? 90);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    return NextResponse.json(
+      { error: `days must be an integer between 1 and ${MAX_REPORT_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  const interval = searchParams.get("interval") ?? "week";
+  if (interval !== "day" && interval !== "week") {
+    return NextResponse.json(
+      { error: "interval must be 'day' or 'week'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await brandInWorkspace(brandId, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    const report = await getShareOfVoiceReport({
+      workspaceId: auth.workspace.id,
+      brandId,
+      category: searchParams.get("category") ?? undefined,
+      provider: searchParams.get("provider") ?? undefined,
+      days,
+      interval: interval as TrendInterval,
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Failed to build share of voice report:", error);
+    return NextResponse.json(
+      { error: "Failed to build share of voice report" },
+      { status: 500 }
+    );
+  }
+}
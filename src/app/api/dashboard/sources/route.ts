@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import {
+  getSourceInfluenceReport,
+  MAX_REPORT_DAYS,
+} from "@/lib/citation/source-influence";
+import type { TrendInterval } from "@/lib/citation/source-influence";
+
+// GET /api/dashboard/sources?brandId=&category=&provider=&days=90&interval=week&limit=50
+// Domains cited across all citation results, classified and trended over time
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { searchParams } = request.nextUrl;
+
+  const days = Number(searchParams.get("days") ?? 90);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    return NextResponse.json(
+      { error: `days must be an integer between 1 and ${MAX_REPORT_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(searchParams.get("limit") ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return NextResponse.json(
+      { error: "limit must be an integer between 1 and 500" },
+      { status: 400 }
+    );
+  }
+
+  const interval = searchParams.get("interval") ?? "week";
+  if (interval !== "day" && interval !== "week") {
+    return NextResponse.json(
+      { error: "interval must be 'day' or 'week'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await getSourceInfluenceReport({
+      workspaceId: auth.workspace.id,
+      brandId: searchParams.get("brandId") ?? undefined,
+      category: searchParams.get("category") ?? undefined,
+      provider: searchParams.get("provider") ?? undefined,
+      days,
+      interval: interval as TrendInterval,
+      limit,
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Failed to build source influence report:", error);
+    return NextResponse.json(
+      { error: "Failed to build source influence report" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,33 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { prisma } from "@/lib/db";
+import { compareRates, estimateRate } from "@/lib/citation/statistics";
+import type { RateCounts } from "@/lib/citation/statistics";
+
+function daysAgo(days: number): Date {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d;
+}
+
+// GET /api/dashboard/stats?days=7
+// `days` sets the window for the period-over-period comparison: the last N
+// days against the N days before them
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const days = Number(request.nextUrl.searchParams.get("days") ?? 7);
+  if (!Number.isInteger(days) || days < 1 || days > 90) {
+    return NextResponse.json(
+      { error: "days must be an integer between 1 and 90" },
+      { status: 400 }
+    );
+  }
+
+  const inWorkspace = { brand: { workspaceId: auth.workspace.id } };
+  const resultInWorkspace = { run: inWorkspace };
 
-export async function GET() {
   try {
     const [
       totalProbes,
@@ -12,24 +38,26 @@ export async function GET() {
       providerStats,
       costSum,
       recentAlerts,
+      periodResults,
     ] = await Promise.all([
       // Total probes
-      prisma.probe.count(),
+      prisma.probe.count({ where: inWorkspace }),
 
       // Total runs
-      prisma.citationRun.count(),
+      prisma.citationRun.count({ where: inWorkspace }),
 
       // Total results
-      prisma.citationResult.count(),
+      prisma.citationResult.count({ where: resultInWorkspace }),
 
       // Cited results
       prisma.citationResult.count({
-        where: { cited: true },
+        where: { cited: true, ...resultInWorkspace },
       }),
 
       // Sentiment breakdown
       prisma.citationResult.groupBy({
         by: ["sentiment"],
+        where: resultInWorkspace,
         _count: { sentiment: true },
       }),
 
@@ -37,19 +65,31 @@ export async function GET() {
       prisma.citationResult.groupBy({
         by: ["provider"],
         _count: { id: true },
-        where: {},
+        where: resultInWorkspace,
       }),
 
       // Total cost
       prisma.citationResult.aggregate({
+        where: resultInWorkspace,
         _sum: { cost: true },
       }),
 
       // Recent alerts
       prisma.alert.findMany({
+        where: inWorkspace,
         orderBy: { createdAt: "desc" },
         take: 5,
       }),
+
+      // Results in the current and previous comparison windows
+      prisma.citationResult.findMany({
+        where: {
+          createdAt: { gte: daysAgo(days * 2) },
+          model: { not: "unknown" }, // provider failures are not samples
+          ...resultInWorkspace,
+        },
+        select: { provider: true, cited: true, createdAt: true },
+      }),
     ]);
 
     // Calculate citation rate
@@ -72,7 +112,7 @@ export async function GET() {
     // Build per-provider citation rates
     const citedByProvider = await prisma.citationResult.groupBy({
       by: ["provider"],
-      where: { cited: true },
+      where: { cited: true, ...resultInWorkspace },
       _count: { id: true },
     });
 
@@ -88,12 +128,47 @@ export async function GET() {
         p._count.id > 0
           ? ((citedMap.get(p.provider) ?? 0) / p._count.id) * 100
           : 0,
+      interval: estimateRate(citedMap.get(p.provider) ?? 0, p._count.id),
     }));
 
+    // Period over period: is the change more than sampling noise?
+    const boundary = daysAgo(days);
+    const periods = new Map<string, { previous: RateCounts; current: RateCounts }>();
+    const overall = {
+      previous: { successes: 0, trials: 0 },
+      current: { successes: 0, trials: 0 },
+    };
+    for (const result of periodResults) {
+      let entry = periods.get(result.provider);
+      if (!entry) {
+        entry = {
+          previous: { successes: 0, trials: 0 },
+          current: { successes: 0, trials: 0 },
+        };
+        periods.set(result.provider, entry);
+      }
+      const key = result.createdAt >= boundary ? "current" : "previous";
+      for (const counts of [entry[key], overall[key]]) {
+        counts.trials++;
+        if (result.cited) counts.successes++;
+      }
+    }
+
+    const periodComparison = {
+      days,
+      overall: compareRates(overall.previous, overall.current),
+      byProvider: [...periods.entries()].map(([provider, entry]) => ({
+        provider,
+        ...compareRates(entry.previous, entry.current),
+      })),
+    };
+
     return NextResponse.json({
       totalProbes,
       totalRuns,
       citationRate: Math.round(citationRate * 100) / 100,
+      citationRateInterval: estimateRate(citedResults, totalResults),
+      periodComparison,
       avgSentiment,
       topProviders,
       totalCost: costSum._sum.cost ?? 0,
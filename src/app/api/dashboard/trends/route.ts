@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { prisma } from "@/lib/db";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { searchParams } = new URL(request.url);
     const days = parseInt(searchParams.get("days") ?? "30", 10);
@@ -15,6 +19,7 @@ export async function GET(request: NextRequest) {
       where: {
         startedAt: { gte: startDate },
         status: "completed",
+        brand: { workspaceId: auth.workspace.id },
       },
       include: {
         results: {
@@ -2,7 +2,8 @@
  * Entity Consistency API
  *
  * POST /api/entity-consistency
- * Run full entity consistency check for a brand.
+ * Queue a full entity consistency check for a brand as a background job
+ * (202 with the job; its result is the report).
  *
  * GET /api/entity-consistency/quick?brand=X
  * Quick consistency score using only knowledge graph data.
@@ -12,12 +13,14 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { runInWorkspace } from "@/lib/auth/context";
 import { z } from "zod";
 import {
-  checkEntityConsistency,
   quickConsistencyScore,
   getEntityResolutionTips,
 } from "@/lib/graph/entity-consistency";
+import { enqueueJob } from "@/lib/jobs";
 
 // ─── Validation Schemas ───
 
@@ -38,6 +41,9 @@ const fullCheckSchema = z.object({
 // ─── GET Handler ───
 
 export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   const url = new URL(request.url);
 
   // Tips endpoint
@@ -57,7 +63,9 @@ export async function GET(request: NextRequest) {
     }
 
     try {
-      const result = await quickConsistencyScore(brandName);
+      const result = await runInWorkspace(auth.workspace.id, () =>
+        quickConsistencyScore(brandName)
+      );
       return NextResponse.json(result);
     } catch (error) {
       console.error("Quick consistency check error:", error);
@@ -77,17 +85,28 @@ export async function GET(request: NextRequest) {
 // ─── POST Handler ───
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const validated = fullCheckSchema.parse(body);
 
-    const result = await checkEntityConsistency(
-      validated.brandName,
-      validated.probeResponses,
-      validated.productNames
+    const job = await enqueueJob(
+      "entity-consistency",
+      {
+        brandName: validated.brandName,
+        probeResponses: validated.probeResponses,
+        productNames: validated.productNames,
+      },
+      {
+        workspaceId: auth.workspace.id,
+        label: `Entity consistency: ${validated.brandName}`,
+        total: 1,
+      }
     );
 
-    return NextResponse.json(result);
+    return NextResponse.json(job, { status: 202 });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/backends?entity=X — citation rate per search backend
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const entity = request.nextUrl.searchParams.get("entity");
+  if (!entity) {
+    return NextResponse.json(
+      { error: "entity query parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const backends = await getKnowledgeGraph(auth.workspace.id).getSearchBackendAnalysis(entity);
+    return NextResponse.json({ entity, backends });
+  } catch (error) {
+    console.error("Failed to load search backend analysis:", error);
+    return NextResponse.json(
+      { error: "Failed to load search backend analysis" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
+import { backfillCitationResults } from "@/lib/graph/ingest";
+
+const backfillSchema = z.object({
+  brandId: z.string().min(1).optional(),
+  since: z.string().datetime().optional(),
+});
+
+// POST /api/graph/backfill — replay the workspace's stored citation results into its graph
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = backfillSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { brandId } = parsed.data;
+    if (brandId && !(await brandInWorkspace(brandId, auth.workspace.id))) {
+      return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+    }
+
+    const result = await backfillCitationResults({
+      workspaceId: auth.workspace.id,
+      brandId,
+      since: parsed.data.since ? new Date(parsed.data.since) : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to backfill knowledge graph:", error);
+    return NextResponse.json(
+      { error: "Failed to backfill knowledge graph" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/competitive?category=X — COMPETES_WITH edges with citation counts
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const category = request.nextUrl.searchParams.get("category");
+
+  try {
+    const edges = await getKnowledgeGraph(auth.workspace.id).getCompetitiveGraph();
+    return NextResponse.json({
+      edges: category ? edges.filter((e) => e.category === category) : edges,
+    });
+  } catch (error) {
+    console.error("Failed to load competitive graph:", error);
+    return NextResponse.json(
+      { error: "Failed to load competitive graph" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/coverage?entity=X&citedBy=perplexity&notCitedBy=openai
+// Per-query citation coverage by provider, optionally filtered to queries one
+// provider cites the entity for and another does not.
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const entity = request.nextUrl.searchParams.get("entity");
+  if (!entity) {
+    return NextResponse.json(
+      { error: "entity query parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const citedBy = request.nextUrl.searchParams.get("citedBy") ?? undefined;
+  const notCitedBy = request.nextUrl.searchParams.get("notCitedBy") ?? undefined;
+
+  try {
+    const queries = await getKnowledgeGraph(auth.workspace.id).getQueryCoverage(entity, {
+      citedBy,
+      notCitedBy,
+    });
+    return NextResponse.json({ entity, queries });
+  } catch (error) {
+    console.error("Failed to load query coverage:", error);
+    return NextResponse.json(
+      { error: "Failed to load query coverage" },
+      { status: 500 }
+    );
+  }
+}
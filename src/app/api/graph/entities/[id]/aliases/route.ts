@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+const addAliasSchema = z.object({
+  alias: z.string().trim().min(1, "Alias is required"),
+});
+
+// POST /api/graph/entities/[id]/aliases — declare another name for an entity.
+// An alias that already exists as its own entity is merged in.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = addAliasSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const graph = getKnowledgeGraph(auth.workspace.id);
+    if (!(await graph.getEntity(id))) {
+      return NextResponse.json({ error: "Entity not found" }, { status: 404 });
+    }
+
+    await graph.addAlias(id, parsed.data.alias);
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to add alias:", error);
+    return NextResponse.json(
+      { error: "Failed to add alias" },
+      { status: 500 }
+    );
+  }
+}
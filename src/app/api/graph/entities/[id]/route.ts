@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { getKnowledgeGraph, ENTITY_TYPES } from "@/lib/graph/knowledge-graph";
+
+const updateEntitySchema = z.object({
+  type: z.enum(ENTITY_TYPES),
+});
+
+// PUT /api/graph/entities/[id] — set the entity type (applies to its aliases too)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updateEntitySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const graph = getKnowledgeGraph(auth.workspace.id);
+    if (!(await graph.getEntity(id))) {
+      return NextResponse.json({ error: "Entity not found" }, { status: 404 });
+    }
+
+    await graph.setEntityType(id, parsed.data.type);
+
+    return NextResponse.json(await graph.getEntity(id));
+  } catch (error) {
+    console.error("Failed to update graph entity:", error);
+    return NextResponse.json(
+      { error: "Failed to update graph entity" },
+      { status: 500 }
+    );
+  }
+}
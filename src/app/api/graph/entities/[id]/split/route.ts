@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// POST /api/graph/entities/[id]/split — detach an alias into its own entity
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const graph = getKnowledgeGraph(auth.workspace.id);
+
+    const alias = await graph.getEntity(id);
+    if (!alias) {
+      return NextResponse.json({ error: "Entity not found" }, { status: 404 });
+    }
+    if (!alias.aliasOf) {
+      return NextResponse.json(
+        { error: `${alias.name} is not an alias` },
+        { status: 409 }
+      );
+    }
+
+    await graph.splitAlias(id);
+
+    return NextResponse.json(await graph.getEntity(id));
+  } catch (error) {
+    console.error("Failed to split alias:", error);
+    return NextResponse.json(
+      { error: "Failed to split alias" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+const mergeSchema = z.object({
+  sourceId: z.string().min(1, "Source entity is required"),
+  targetId: z.string().min(1, "Target entity is required"),
+});
+
+// POST /api/graph/entities/merge — fold sourceId into targetId
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = mergeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { sourceId, targetId } = parsed.data;
+    const graph = getKnowledgeGraph(auth.workspace.id);
+
+    const source = await graph.getEntity(sourceId);
+    const target = await graph.getEntity(targetId);
+    if (!source || !target) {
+      return NextResponse.json({ error: "Entity not found" }, { status: 404 });
+    }
+    if (source.id === target.id) {
+      return NextResponse.json(
+        { error: "Cannot merge an entity into itself" },
+        { status: 409 }
+      );
+    }
+    if (source.aliasOf || target.aliasOf) {
+      return NextResponse.json(
+        { error: "Only canonical entities can be merged; split the alias first" },
+        { status: 409 }
+      );
+    }
+
+    await graph.mergeEntities(sourceId, targetId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to merge entities:", error);
+    return NextResponse.json(
+      { error: "Failed to merge entities" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/entities — canonical entities with their aliases
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const entities = await getKnowledgeGraph(auth.workspace.id).listEntities();
+    return NextResponse.json({ entities });
+  } catch (error) {
+    console.error("Failed to list graph entities:", error);
+    return NextResponse.json(
+      { error: "Failed to list graph entities" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/paths?entity=X — every citation event for an entity
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const entity = request.nextUrl.searchParams.get("entity");
+  if (!entity) {
+    return NextResponse.json(
+      { error: "entity query parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const paths = await getKnowledgeGraph(auth.workspace.id).getCitationPaths(entity);
+    return NextResponse.json({ entity, paths });
+  } catch (error) {
+    console.error("Failed to load citation paths:", error);
+    return NextResponse.json(
+      { error: "Failed to load citation paths" },
+      { status: 500 }
+    );
+  }
+}
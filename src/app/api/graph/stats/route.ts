@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/stats — node and edge counts for the workspace's graph
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const stats = await getKnowledgeGraph(auth.workspace.id).getStats();
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error("Failed to load graph stats:", error);
+    return NextResponse.json(
+      { error: "Failed to load graph stats" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/trajectory?entity=X&days=30 — daily citation rate per provider
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const entity = request.nextUrl.searchParams.get("entity");
+  if (!entity) {
+    return NextResponse.json(
+      { error: "entity query parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const days = Number(request.nextUrl.searchParams.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return NextResponse.json(
+      { error: "days must be an integer between 1 and 365" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const trajectories = await getKnowledgeGraph(auth.workspace.id).getCitationTrajectory(entity, days);
+    return NextResponse.json({ entity, trajectories });
+  } catch (error) {
+    console.error("Failed to load citation trajectory:", error);
+    return NextResponse.json(
+      { error: "Failed to load citation trajectory" },
+      { status: 500 }
+    );
+  }
+}
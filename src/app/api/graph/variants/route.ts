@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getKnowledgeGraph } from "@/lib/graph/knowledge-graph";
+
+// GET /api/graph/variants?entity=X — naming variants per provider
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const entity = request.nextUrl.searchParams.get("entity");
+  if (!entity) {
+    return NextResponse.json(
+      { error: "entity query parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const variants = await getKnowledgeGraph(auth.workspace.id).getEntityVariants(entity);
+    return NextResponse.json({ entity, variants });
+  } catch (error) {
+    console.error("Failed to load entity variants:", error);
+    return NextResponse.json(
+      { error: "Failed to load entity variants" },
+      { status: 500 }
+    );
+  }
+}
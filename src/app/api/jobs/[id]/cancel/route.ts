@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { cancelJob, getJob } from "@/lib/jobs";
+
+// POST /api/jobs/:id/cancel — drop a queued job, or stop a running one; calls
+// already sent finish
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job || job.workspaceId !== auth.workspace.id) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (!(await cancelJob(id))) {
+      return NextResponse.json(
+        { error: `Job is already ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ message: "Job cancellation requested" });
+  } catch (error) {
+    console.error("Failed to cancel job:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel job" },
+      { status: 500 }
+    );
+  }
+}
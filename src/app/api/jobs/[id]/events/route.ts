@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getJob, watchJob } from "@/lib/jobs";
+import type { JobEvent } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing a quiet stream
+const KEEP_ALIVE_MS = 15_000;
+const FINAL_EVENTS: JobEvent["type"][] = ["completed", "failed", "cancelled"];
+
+// GET /api/jobs/:id/events — Server-Sent Events: the job's events so far,
+// then each new one until it completes, is dead-lettered or is cancelled. A
+// reconnecting EventSource sends Last-Event-ID and only gets the events it
+// missed. Retries of a failed attempt show up as progress messages.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+  const job = await getJob(id);
+
+  if (!job || job.workspaceId !== auth.workspace.id) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const lastEventId = Number(request.headers.get("last-event-id")) || 0;
+  const encoder = new TextEncoder();
+  let closed = false;
+  let unsubscribe = () => {};
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // The client already went away
+        }
+      };
+
+      const send = (event: JobEvent, sequence: number) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(
+            `id: ${sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+          )
+        );
+        if (FINAL_EVENTS.includes(event.type)) close();
+      };
+
+      unsubscribe = watchJob(id, send, lastEventId);
+      if (closed) return;
+
+      keepAlive = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": keep-alive\n\n"));
+      }, KEEP_ALIVE_MS);
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      closed = true;
+      clearInterval(keepAlive);
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getJob, retryJob } from "@/lib/jobs";
+
+// POST /api/jobs/:id/retry — queue a dead-lettered job again with fresh attempts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job || job.workspaceId !== auth.workspace.id) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const retried = await retryJob(id);
+    if (!retried) {
+      return NextResponse.json(
+        { error: `Only dead-lettered jobs can be retried; this one is ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(retried, { status: 202 });
+  } catch (error) {
+    console.error("Failed to retry job:", error);
+    return NextResponse.json(
+      { error: "Failed to retry job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getJob } from "@/lib/jobs";
+
+// GET /api/jobs/:id — a job's status and progress, with its result once completed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job || job.workspaceId !== auth.workspace.id) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Failed to fetch job:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job" },
+      { status: 500 }
+    );
+  }
+}
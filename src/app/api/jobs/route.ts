@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { listJobs } from "@/lib/jobs";
+import type { JobStatus } from "@/lib/jobs";
+
+const STATUSES: JobStatus[] = ["queued", "running", "completed", "cancelled", "dead"];
+
+// GET /api/jobs — this workspace's latest jobs; ?status=dead lists the dead letters
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const status = request.nextUrl.searchParams.get("status");
+    if (status && !STATUSES.includes(status as JobStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      await listJobs(auth.workspace.id, {
+        status: (status as JobStatus | null) ?? undefined,
+      })
+    );
+  } catch (error) {
+    console.error("Failed to list jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to list jobs" },
+      { status: 500 }
+    );
+  }
+}
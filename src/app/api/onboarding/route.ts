@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { brandInWorkspace } from "@/lib/auth/workspaces";
+import { hasRole } from "@/lib/auth/roles";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { getSettings, updateSettings } from "@/lib/settings/config";
-import type { AppSettings } from "@/lib/settings/config";
-import { runBatchProbes } from "@/lib/monitoring/batch-runner";
+import { hasOnboardingProviderKey, updateSettings } from "@/lib/settings/config";
+import type { SettingsUpdate } from "@/lib/settings/config";
+import { isSecretStoreConfigured, MASTER_KEY_MISSING } from "@/lib/secrets";
+import { enqueueJob } from "@/lib/jobs";
 
 interface OnboardingStep {
   id: string;
@@ -11,22 +15,19 @@ interface OnboardingStep {
   complete: boolean;
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
-    const [brandCount, providerKeys, probeCount, citationCount] =
-      await Promise.all([
-        prisma.brand.count(),
-        getSettings(),
-        prisma.probe.count(),
-        prisma.citationResult.count(),
-      ]);
-
-    const settings = providerKeys as unknown as Record<string, unknown>;
-    const hasProviderKey =
-      !!settings.openaiApiKey ||
-      !!settings.anthropicApiKey ||
-      !!settings.googleApiKey ||
-      !!settings.perplexityApiKey;
+    const workspaceId = auth.workspace.id;
+    const [brandCount, probeCount, citationCount] = await Promise.all([
+      prisma.brand.count({ where: { workspaceId } }),
+      prisma.probe.count({ where: { brand: { workspaceId } } }),
+      prisma.citationResult.count({
+        where: { run: { brand: { workspaceId } } },
+      }),
+    ]);
 
     const steps: OnboardingStep[] = [
       {
@@ -37,7 +38,7 @@ export async function GET() {
       {
         id: "providers",
         label: "Configure at least one AI provider API key",
-        complete: hasProviderKey,
+        complete: hasOnboardingProviderKey(),
       },
       {
         id: "probes",
@@ -100,6 +101,9 @@ const onboardingSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = onboardingSchema.safeParse(body);
@@ -130,6 +134,7 @@ export async function POST(request: NextRequest) {
             description: brandData.data.description,
             keywords: JSON.stringify(brandData.data.keywords),
             competitors: JSON.stringify(brandData.data.competitors),
+            workspaceId: auth.workspace.id,
           },
         });
 
@@ -137,6 +142,14 @@ export async function POST(request: NextRequest) {
       }
 
       case "providers": {
+        // Provider keys saved here are instance-wide
+        if (!hasRole(auth.role, "owner")) {
+          return NextResponse.json(
+            { error: "Requires the owner role in this workspace" },
+            { status: 403 }
+          );
+        }
+
         const providerData = providersStepSchema.safeParse(data);
         if (!providerData.success) {
           return NextResponse.json(
@@ -148,7 +161,12 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const providerSettings: Record<string, { enabled: boolean; apiKey: string; dailyBudget: number }> = {};
+        const keys = Object.values(providerData.data).filter(Boolean);
+        if (keys.length > 0 && !isSecretStoreConfigured()) {
+          return NextResponse.json({ error: MASTER_KEY_MISSING }, { status: 409 });
+        }
+
+        const providerSettings: NonNullable<SettingsUpdate["providers"]> = {};
         if (providerData.data.openaiApiKey) {
           providerSettings.openai = { enabled: true, apiKey: providerData.data.openaiApiKey, dailyBudget: 5 };
         }
@@ -161,7 +179,7 @@ export async function POST(request: NextRequest) {
         if (providerData.data.perplexityApiKey) {
           providerSettings.perplexity = { enabled: true, apiKey: providerData.data.perplexityApiKey, dailyBudget: 5 };
         }
-        await updateSettings({ providers: providerSettings } as Partial<AppSettings>);
+        await updateSettings({ providers: providerSettings });
 
         return NextResponse.json({ message: "Provider keys saved" });
       }
@@ -175,8 +193,8 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const brand = await prisma.brand.findUnique({
-          where: { id: probeData.data.brandId },
+        const brand = await prisma.brand.findFirst({
+          where: { id: probeData.data.brandId, workspaceId: auth.workspace.id },
         });
 
         if (!brand) {
@@ -211,6 +229,14 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        const workspaceId = auth.workspace.id;
+        if (!(await brandInWorkspace(runData.data.brandId, workspaceId))) {
+          return NextResponse.json(
+            { error: "Brand not found" },
+            { status: 404 }
+          );
+        }
+
         const probes = await prisma.probe.findMany({
           where: { brandId: runData.data.brandId, isActive: true },
           select: { id: true },
@@ -218,35 +244,14 @@ export async function POST(request: NextRequest) {
 
         const probeIds = probes.map((p) => p.id);
 
-        await runBatchProbes(runData.data.brandId, probeIds);
-
-        // Check if all steps are now complete
-        const [brandCount, settings, probeCount, citationCount] =
-          await Promise.all([
-            prisma.brand.count(),
-            getSettings(),
-            prisma.probe.count(),
-            prisma.citationResult.count(),
-          ]);
-
-        const settingsObj = settings as unknown as Record<string, unknown>;
-        const hasProviderKey =
-          !!settingsObj.openaiApiKey ||
-          !!settingsObj.anthropicApiKey ||
-          !!settingsObj.googleApiKey ||
-          !!settingsObj.perplexityApiKey;
-
-        const allComplete =
-          brandCount > 0 && hasProviderKey && probeCount > 0 && citationCount > 0;
-
-        if (allComplete) {
-          await updateSettings({ general: { brandName: "", brandDomain: "", setupComplete: true, timezone: "UTC" } });
-        }
+        // Runs as a background job; the client follows it at /api/jobs/:id/events
+        const job = await enqueueJob(
+          "first-run",
+          { brandId: runData.data.brandId, probeIds },
+          { workspaceId, label: "First citation run" }
+        );
 
-        return NextResponse.json({
-          message: "First citation run completed",
-          setupComplete: allComplete,
-        });
+        return NextResponse.json(job, { status: 202 });
       }
 
       default: {
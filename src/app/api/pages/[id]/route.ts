@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { prisma } from "@/lib/db";
+import { getPageSnapshot } from "@/lib/pages";
+
+// GET /api/pages/:id — a stored snapshot with its markdown and JSON-LD
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const page = await getPageSnapshot(auth.workspace.id, id);
+
+    if (!page) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error("Failed to fetch page snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch page snapshot" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/pages/:id — forget a snapshot; the page is fetched again next time
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.pageSnapshot.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    await prisma.pageSnapshot.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete page snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to delete page snapshot" },
+      { status: 500 }
+    );
+  }
+}
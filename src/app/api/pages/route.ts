@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import {
+  getLandingPage,
+  listPageSnapshots,
+  saveUploadedPage,
+} from "@/lib/pages";
+
+// GET /api/pages — stored landing page snapshots, newest first
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const snapshots = await listPageSnapshots(auth.workspace.id);
+    return NextResponse.json(snapshots);
+  } catch (error) {
+    console.error("Failed to fetch page snapshots:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch page snapshots" },
+      { status: 500 }
+    );
+  }
+}
+
+const pageSchema = z.object({
+  url: z.string().url("A page URL is required"),
+  // The page's HTML, for pages that cannot be fetched from the server
+  html: z.string().min(1).optional(),
+  forceRefresh: z.boolean().optional(),
+});
+
+// POST /api/pages — fetch a page (or store uploaded HTML for it) and return
+// its extracted content
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = pageSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { url, html, forceRefresh } = parsed.data;
+    const workspaceId = auth.workspace.id;
+
+    try {
+      const page = html
+        ? await saveUploadedPage(workspaceId, url, html)
+        : await getLandingPage(url, { workspaceId, forceRefresh });
+      return NextResponse.json(page, { status: page.cached ? 200 : 201 });
+    } catch (fetchError) {
+      // Unreachable, private or not HTML: say which
+      return NextResponse.json(
+        { error: fetchError instanceof Error ? fetchError.message : "Failed to fetch page" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Failed to save page snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to save page snapshot" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
 
-    const probe = await prisma.probe.findUnique({
-      where: { id },
+    const probe = await prisma.probe.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
       include: {
         brand: true,
         citationRuns: {
           orderBy: { startedAt: "desc" },
           take: 10,
           include: {
-            results: true,
+            results: {
+              include: { sources: { orderBy: { rank: "asc" } } },
+            },
           },
         },
       },
@@ -56,6 +62,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -68,7 +77,9 @@ export async function PUT(
       );
     }
 
-    const existing = await prisma.probe.findUnique({ where: { id } });
+    const existing = await prisma.probe.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+    });
     if (!existing) {
       return NextResponse.json({ error: "Probe not found" }, { status: 404 });
     }
@@ -89,13 +100,18 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { id } = await params;
 
-    const existing = await prisma.probe.findUnique({ where: { id } });
+    const existing = await prisma.probe.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+    });
     if (!existing) {
       return NextResponse.json({ error: "Probe not found" }, { status: 404 });
     }
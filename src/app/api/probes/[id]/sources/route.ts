@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { prisma } from "@/lib/db";
+import { getCitedDomainsReport } from "@/lib/citation/sources";
+
+// GET /api/probes/:id/sources?runs=10 — domains cited across the probe's recent runs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const runs = Number(request.nextUrl.searchParams.get("runs") ?? 10);
+  if (!Number.isInteger(runs) || runs < 1 || runs > 100) {
+    return NextResponse.json(
+      { error: "runs must be an integer between 1 and 100" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+
+    const probe = await prisma.probe.findFirst({
+      where: { id, brand: { workspaceId: auth.workspace.id } },
+      select: { id: true },
+    });
+    if (!probe) {
+      return NextResponse.json({ error: "Probe not found" }, { status: 404 });
+    }
+
+    const report = await getCitedDomainsReport(id, { runs });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Failed to build cited domains report:", error);
+    return NextResponse.json(
+      { error: "Failed to build cited domains report" },
+      { status: 500 }
+    );
+  }
+}
@@ -10,6 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import {
@@ -27,7 +28,10 @@ const generateProbesSchema = z.object({
 
 // ─── GET Handler: List available probe categories ───
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   const categories = getProbeCategories();
   return NextResponse.json({
     categories,
@@ -39,13 +43,16 @@ export async function GET() {
 // ─── POST Handler: Generate validation probes ───
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const validated = generateProbesSchema.parse(body);
 
     // Fetch brand with competitors
-    const brand = await prisma.brand.findUnique({
-      where: { id: validated.brandId },
+    const brand = await prisma.brand.findFirst({
+      where: { id: validated.brandId, workspaceId: auth.workspace.id },
       include: {
         competitors: true,
       },
@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { searchParams } = new URL(request.url);
     const brandId = searchParams.get("brandId");
 
-    const where = brandId ? { brandId } : {};
+    const where = {
+      brand: { workspaceId: auth.workspace.id },
+      ...(brandId ? { brandId } : {}),
+    };
 
     const probes = await prisma.probe.findMany({
       where,
@@ -48,6 +55,9 @@ const createProbeSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = createProbeSchema.safeParse(body);
@@ -61,7 +71,9 @@ export async function POST(request: NextRequest) {
 
     const { brandId, query, category } = parsed.data;
 
-    const brand = await prisma.brand.findUnique({ where: { id: brandId } });
+    const brand = await prisma.brand.findFirst({
+      where: { id: brandId, workspaceId: auth.workspace.id },
+    });
     if (!brand) {
       return NextResponse.json({ error: "Brand not found" }, { status: 404 });
     }
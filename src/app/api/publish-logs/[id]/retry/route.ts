@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { prisma } from "@/lib/db";
+import { PUBLISHABLE_STATUSES, retryPublishLog } from "@/lib/publishing";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.publishLog.findFirst({
+      where: { id, content: { brand: { workspaceId: auth.workspace.id } } },
+      include: {
+        content: { select: { status: true } },
+        target: { select: { isActive: true } },
+      },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Publish log not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== "failed") {
+      return NextResponse.json(
+        { error: `Only failed publishes can be retried (status: ${existing.status})` },
+        { status: 409 }
+      );
+    }
+
+    if (!PUBLISHABLE_STATUSES.includes(existing.content.status)) {
+      return NextResponse.json(
+        { error: `Only approved content can be published (status: ${existing.content.status})` },
+        { status: 409 }
+      );
+    }
+
+    if (!existing.target.isActive) {
+      return NextResponse.json(
+        { error: "Publish target is inactive" },
+        { status: 400 }
+      );
+    }
+
+    const log = await retryPublishLog(id);
+
+    return NextResponse.json(log);
+  } catch (error) {
+    console.error("Failed to retry publish:", error);
+    return NextResponse.json(
+      { error: "Failed to retry publish" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { PUBLISHABLE_STATUSES, retryFailedPublishes } from "@/lib/publishing";
+
+const retryFailedSchema = z.object({
+  contentId: z.string().min(1).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = retryFailedSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { contentId } = parsed.data;
+    if (contentId) {
+      const content = await prisma.content.findFirst({
+        where: { id: contentId, brand: { workspaceId: auth.workspace.id } },
+        select: { status: true },
+      });
+      if (!content) {
+        return NextResponse.json(
+          { error: "Content not found" },
+          { status: 404 }
+        );
+      }
+      if (!PUBLISHABLE_STATUSES.includes(content.status)) {
+        return NextResponse.json(
+          { error: `Only approved content can be published (status: ${content.status})` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const logs = await retryFailedPublishes(
+      contentId,
+      auth.workspace.id
+    );
+    const published = logs.filter((log) => log.status === "published").length;
+
+    return NextResponse.json({
+      retried: logs.length,
+      published,
+      failed: logs.length - published,
+      logs,
+    });
+  } catch (error) {
+    console.error("Failed to retry failed publishes:", error);
+    return NextResponse.json(
+      { error: "Failed to retry failed publishes" },
+      { status: 500 }
+    );
+  }
+}
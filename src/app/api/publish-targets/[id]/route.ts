@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  dropMaskedSecrets,
+  parseTargetConfig,
+  maskTargetConfig,
+  type PublishTargetType,
+} from "@/lib/publishing";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const target = await prisma.publishTarget.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+      include: {
+        publishLogs: {
+          orderBy: { createdAt: "desc" },
+          take: 20,
+        },
+      },
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        { error: "Publish target not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...target,
+      config: maskTargetConfig(target.config),
+    });
+  } catch (error) {
+    console.error("Failed to fetch publish target:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch publish target" },
+      { status: 500 }
+    );
+  }
+}
+
+const updateTargetSchema = z.object({
+  name: z.string().min(1).optional(),
+  config: z.record(z.unknown()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updateTargetSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.publishTarget.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Publish target not found" },
+        { status: 404 }
+      );
+    }
+
+    const data: Record<string, unknown> = {};
+    if (parsed.data.name !== undefined) data.name = parsed.data.name;
+    if (parsed.data.isActive !== undefined) data.isActive = parsed.data.isActive;
+
+    if (parsed.data.config !== undefined) {
+      // Merge onto the stored config so secrets can be left out of updates,
+      // or sent back masked as GET returned them
+      const merged = {
+        ...JSON.parse(existing.config),
+        ...dropMaskedSecrets(parsed.data.config),
+      };
+      const parsedConfig = parseTargetConfig(
+        existing.type as PublishTargetType,
+        merged
+      );
+      if (!parsedConfig.success) {
+        return NextResponse.json(
+          { error: "Invalid target config", details: parsedConfig.error.flatten() },
+          { status: 400 }
+        );
+      }
+      data.config = JSON.stringify(parsedConfig.data);
+    }
+
+    const target = await prisma.publishTarget.update({
+      where: { id },
+      data,
+    });
+
+    return NextResponse.json({
+      ...target,
+      config: maskTargetConfig(target.config),
+    });
+  } catch (error) {
+    console.error("Failed to update publish target:", error);
+    return NextResponse.json(
+      { error: "Failed to update publish target" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.publishTarget.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Publish target not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.publishTarget.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete publish target:", error);
+    return NextResponse.json(
+      { error: "Failed to delete publish target" },
+      { status: 500 }
+    );
+  }
+}
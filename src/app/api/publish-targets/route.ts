@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  PUBLISH_TARGET_TYPES,
+  parseTargetConfig,
+  maskTargetConfig,
+} from "@/lib/publishing";
+
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const targets = await prisma.publishTarget.findMany({
+      where: { workspaceId: auth.workspace.id },
+      include: {
+        _count: {
+          select: { publishLogs: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(
+      targets.map((target) => ({
+        ...target,
+        config: maskTargetConfig(target.config),
+      }))
+    );
+  } catch (error) {
+    console.error("Failed to fetch publish targets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch publish targets" },
+      { status: 500 }
+    );
+  }
+}
+
+const createTargetSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  type: z.enum(PUBLISH_TARGET_TYPES),
+  config: z.record(z.unknown()),
+  isActive: z.boolean().default(true),
+});
+
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = createTargetSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, type, config, isActive } = parsed.data;
+
+    const parsedConfig = parseTargetConfig(type, config);
+    if (!parsedConfig.success) {
+      return NextResponse.json(
+        { error: "Invalid target config", details: parsedConfig.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const target = await prisma.publishTarget.create({
+      data: {
+        name,
+        type,
+        config: JSON.stringify(parsedConfig.data),
+        isActive,
+        workspaceId: auth.workspace.id,
+      },
+    });
+
+    return NextResponse.json(
+      { ...target, config: maskTargetConfig(target.config) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create publish target:", error);
+    return NextResponse.json(
+      { error: "Failed to create publish target" },
+      { status: 500 }
+    );
+  }
+}
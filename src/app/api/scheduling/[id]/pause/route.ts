@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { prisma } from "@/lib/db";
+import { pauseSchedule } from "@/lib/monitoring/schedules";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.monitoringSchedule.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Scheduled job not found" },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await pauseSchedule(id);
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Failed to pause scheduled job:", error);
+    return NextResponse.json(
+      { error: "Failed to pause scheduled job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { prisma } from "@/lib/db";
+import { runScheduleNow } from "@/lib/monitoring/schedules";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.monitoringSchedule.findFirst({
+      where: { id, workspaceId: auth.workspace.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Scheduled job not found" },
+        { status: 404 }
+      );
+    }
+
+    const started = await runScheduleNow(id);
+
+    if (!started) {
+      return NextResponse.json(
+        { error: "Scheduled job is already running" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Scheduled job started" },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Failed to run scheduled job:", error);
+    return NextResponse.json(
+      { error: "Failed to run scheduled job" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
+import nodeCron from "node-cron";
 import { prisma } from "@/lib/db";
-import { scheduleJob, listJobs, stopJob } from "@/lib/monitoring/scheduler";
-import { runBatchProbes } from "@/lib/monitoring/batch-runner";
+import { providerNameSchema } from "@/lib/llm";
+import { MAX_SAMPLES_PER_PAIR } from "@/lib/monitoring/batch-runner";
+import {
+  listSchedules,
+  createSchedule,
+  deleteSchedule,
+} from "@/lib/monitoring/schedules";
+
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
 
-export async function GET() {
   try {
-    const jobs = listJobs();
+    const schedules = await listSchedules(auth.workspace.id);
 
-    return NextResponse.json(jobs);
+    return NextResponse.json(schedules);
   } catch (error) {
     console.error("Failed to list scheduled jobs:", error);
     return NextResponse.json(
@@ -23,9 +33,15 @@ const createJobSchema = z.object({
   cron: z.string().min(1, "Cron expression is required"),
   brandId: z.string().optional(),
   probeIds: z.array(z.string()).optional(),
+  providers: z.array(providerNameSchema).optional(),
+  forceRefresh: z.boolean().optional(),
+  samples: z.number().int().min(1).max(MAX_SAMPLES_PER_PAIR).optional(),
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = createJobSchema.safeParse(body);
@@ -37,34 +53,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { name, cron, brandId, probeIds } = parsed.data;
+    const { name, cron, brandId, probeIds, providers, forceRefresh, samples } =
+      parsed.data;
 
-    const schedule = await prisma.monitoringSchedule.create({
-      data: {
-        name,
-        cron,
-        probeIds: JSON.stringify(probeIds ?? []),
-        isActive: true,
-      },
-    });
+    if (!nodeCron.validate(cron)) {
+      return NextResponse.json(
+        { error: `Invalid cron expression: ${cron}` },
+        { status: 400 }
+      );
+    }
 
-    scheduleJob(schedule.id, name, cron, async () => {
-      await runBatchProbes(brandId, probeIds);
-      await prisma.monitoringSchedule.update({
-        where: { id: schedule.id },
-        data: { lastRunAt: new Date() },
+    if (brandId) {
+      const brand = await prisma.brand.findFirst({
+        where: { id: brandId, workspaceId: auth.workspace.id },
       });
+      if (!brand) {
+        return NextResponse.json({ error: "Brand not found" }, { status: 404 });
+      }
+    }
+
+    const schedule = await createSchedule({
+      workspaceId: auth.workspace.id,
+      name,
+      cron,
+      brandId,
+      probeIds,
+      providers,
+      forceRefresh,
+      samples,
     });
 
-    return NextResponse.json(
-      {
-        id: schedule.id,
-        name: schedule.name,
-        cron: schedule.cron,
-        isActive: schedule.isActive,
-      },
-      { status: 201 }
-    );
+    return NextResponse.json(schedule, { status: 201 });
   } catch (error) {
     console.error("Failed to create scheduled job:", error);
     return NextResponse.json(
@@ -79,6 +98,9 @@ const deleteJobSchema = z.object({
 });
 
 export async function DELETE(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = deleteJobSchema.safeParse(body);
@@ -92,8 +114,8 @@ export async function DELETE(request: NextRequest) {
 
     const { jobId } = parsed.data;
 
-    const schedule = await prisma.monitoringSchedule.findUnique({
-      where: { id: jobId },
+    const schedule = await prisma.monitoringSchedule.findFirst({
+      where: { id: jobId, workspaceId: auth.workspace.id },
     });
 
     if (!schedule) {
@@ -103,11 +125,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    stopJob(jobId);
-
-    await prisma.monitoringSchedule.delete({
-      where: { id: jobId },
-    });
+    await deleteSchedule(jobId);
 
     return NextResponse.json({ message: "Scheduled job deleted" });
   } catch (error) {
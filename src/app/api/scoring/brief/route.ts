@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { runCompetitiveAnalysis } from "@/lib/citation/competitive";
-import { generateContentBrief } from "@/lib/content/content-brief";
+import { getEnabledProviders } from "@/lib/llm";
+import { briefProbeQueries } from "@/lib/content/content-brief";
+import { enqueueJob } from "@/lib/jobs";
 
 const briefSchema = z.object({
   brandId: z.string().min(1, "Brand ID is required"),
@@ -10,7 +12,12 @@ const briefSchema = z.object({
   keywords: z.array(z.string()).optional().default([]),
 });
 
+// POST /api/scoring/brief — queues the brief as a background job and answers
+// 202 with it; the job's result is the brief
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = briefSchema.safeParse(body);
@@ -24,8 +31,8 @@ export async function POST(request: NextRequest) {
 
     const { brandId, topic, keywords } = parsed.data;
 
-    const brand = await prisma.brand.findUnique({
-      where: { id: brandId },
+    const brand = await prisma.brand.findFirst({
+      where: { id: brandId, workspaceId: auth.workspace.id },
     });
 
     if (!brand) {
@@ -35,33 +42,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const competitors: Array<{ name: string; domain: string }> = brand.competitors
-      ? JSON.parse(brand.competitors)
-      : [];
-
-    const probeQueries = [
-      { query: `best ${topic}`, category: "best-of" },
-      { query: `${topic} vs alternatives comparison`, category: "comparison" },
-      { query: `recommended ${topic} solutions`, category: "recommendation" },
-      { query: `how to choose ${topic}`, category: "how-to" },
-    ];
-
-    const competitiveData = await runCompetitiveAnalysis(
-      brand.name,
-      brand.domain,
-      competitors,
-      probeQueries as Array<{ query: string; category: import("@/lib/citation/prompt-builder").ProbeCategory }>
-    );
-
-    const brief = await generateContentBrief(
-      brand.name,
-      brand.domain,
-      topic,
-      competitiveData,
-      keywords
+    const job = await enqueueJob(
+      "content-brief",
+      { brandId, topic, keywords },
+      {
+        workspaceId: auth.workspace.id,
+        label: `Content brief: ${topic}`,
+        total: briefProbeQueries(topic).length * getEnabledProviders(auth.workspace.id).length,
+      }
     );
 
-    return NextResponse.json(brief);
+    return NextResponse.json(job, { status: 202 });
   } catch (error) {
     console.error("Failed to generate content brief:", error);
     return NextResponse.json(
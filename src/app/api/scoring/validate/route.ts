@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { scoreContent } from "@/lib/scoring/aeo-scorer";
+import { enqueueJob } from "@/lib/jobs";
 
 const validateSchema = z.object({
   contentId: z.string().min(1, "Content ID is required"),
   skipCitationTest: z.boolean().optional().default(false),
 });
 
+// POST /api/scoring/validate — queues scoring as a background job and answers
+// 202 with it; the job's result is the AEO score
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, "editor");
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
     const parsed = validateSchema.safeParse(body);
@@ -22,9 +28,8 @@ export async function POST(request: NextRequest) {
 
     const { contentId, skipCitationTest } = parsed.data;
 
-    const content = await prisma.content.findUnique({
-      where: { id: contentId },
-      include: { brand: true },
+    const content = await prisma.content.findFirst({
+      where: { id: contentId, brand: { workspaceId: auth.workspace.id } },
     });
 
     if (!content) {
@@ -34,30 +39,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const keywords: string[] = content.brand.keywords
-      ? JSON.parse(content.brand.keywords)
-      : [];
-    const competitors: Array<{ name: string; domain: string }> =
-      content.brand.competitors
-        ? JSON.parse(content.brand.competitors)
-        : [];
-
-    const aeoScore = await scoreContent(
-      content.body,
-      content.schemaMarkup ?? "",
-      content.brand.name,
-      content.brand.domain,
-      keywords,
-      competitors,
-      skipCitationTest
+    const job = await enqueueJob(
+      "content-scoring",
+      { contentId, skipCitationTest },
+      {
+        workspaceId: auth.workspace.id,
+        label: `AEO score: ${content.title}`,
+        total: 1,
+      }
     );
 
-    await prisma.content.update({
-      where: { id: contentId },
-      data: { aeoScore: aeoScore.overall },
-    });
-
-    return NextResponse.json(aeoScore);
+    return NextResponse.json(job, { status: 202 });
   } catch (error) {
     console.error("Failed to validate AEO score:", error);
     return NextResponse.json(
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/require";
+import { BUILT_IN_PROVIDERS } from "@/lib/llm";
+import {
+  deletePrice,
+  findStoredPrice,
+  getStoredPrice,
+  priceSchema,
+  recomputeCosts,
+  updatePrice,
+} from "@/lib/llm/pricing";
+
+// The model is what the entry prices; to price another model, add an entry
+const updatePriceSchema = priceSchema.omit({ model: true }).partial();
+
+// PUT /api/settings/pricing/:id — correct a saved price and re-price the
+// model's logged calls
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updatePriceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getStoredPrice(id);
+    if (!existing) {
+      return NextResponse.json({ error: "Price not found" }, { status: 404 });
+    }
+
+    const { effectiveFrom } = parsed.data;
+    if (effectiveFrom && effectiveFrom.getTime() !== existing.effectiveFrom.getTime()) {
+      const clash = await findStoredPrice(existing.model, effectiveFrom);
+      if (clash) {
+        return NextResponse.json(
+          { error: `A price for "${existing.model}" from that date already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const entry = await updatePrice(id, parsed.data);
+    const recomputed = await recomputeCosts(entry.model, BUILT_IN_PROVIDERS);
+    return NextResponse.json({ entry, recomputed });
+  } catch (error) {
+    console.error("Failed to update price:", error);
+    return NextResponse.json(
+      { error: "Failed to update price" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/settings/pricing/:id — remove a saved price (a corrected
+// built-in price reverts to the list price)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+
+    const existing = await getStoredPrice(id);
+    if (!existing) {
+      return NextResponse.json({ error: "Price not found" }, { status: 404 });
+    }
+
+    await deletePrice(id);
+    const recomputed = await recomputeCosts(existing.model, BUILT_IN_PROVIDERS);
+    return NextResponse.json({ success: true, recomputed });
+  } catch (error) {
+    console.error("Failed to delete price:", error);
+    return NextResponse.json(
+      { error: "Failed to delete price" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, requireAuth } from "@/lib/auth/require";
+import { BUILT_IN_PROVIDERS } from "@/lib/llm";
+import {
+  createPrice,
+  findStoredPrice,
+  getPriceCatalog,
+  getUnpricedModels,
+  loadPricingCatalog,
+  priceSchema,
+  recomputeCosts,
+} from "@/lib/llm/pricing";
+
+// GET /api/settings/pricing — the price catalog, and models that were called
+// without a price (logged at $0)
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    await loadPricingCatalog(true);
+    const unpriced = await getUnpricedModels(BUILT_IN_PROVIDERS);
+    return NextResponse.json({ entries: getPriceCatalog(), unpriced });
+  } catch (error) {
+    console.error("Failed to load pricing:", error);
+    return NextResponse.json(
+      { error: "Failed to load pricing" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/settings/pricing — add a price from a date on. Using a built-in
+// entry's model and date corrects that entry. Logged costs are recomputed.
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = priceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { model, effectiveFrom } = parsed.data;
+    if (await findStoredPrice(model, effectiveFrom)) {
+      return NextResponse.json(
+        { error: `A price for "${model}" from that date already exists` },
+        { status: 409 }
+      );
+    }
+
+    const entry = await createPrice(parsed.data);
+    const recomputed = await recomputeCosts(model, BUILT_IN_PROVIDERS);
+    return NextResponse.json({ entry, recomputed }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to save price:", error);
+    return NextResponse.json(
+      { error: "Failed to save price" },
+      { status: 500 }
+    );
+  }
+}
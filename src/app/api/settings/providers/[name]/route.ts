@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/require";
+import { deleteCustomProvider, getCustomProvider } from "@/lib/settings/config";
+
+// DELETE /api/settings/providers/:name — remove a custom provider
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { name } = await params;
+
+    if (!getCustomProvider(name)) {
+      return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+    }
+
+    deleteCustomProvider(name);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete custom provider:", error);
+    return NextResponse.json(
+      { error: "Failed to delete custom provider" },
+      { status: 500 }
+    );
+  }
+}
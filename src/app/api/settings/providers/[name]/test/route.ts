@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { runInWorkspace } from "@/lib/auth/context";
+import { z } from "zod";
+import { testProviderConnection, toProviderName } from "@/lib/llm";
+
+const testSchema = z.object({
+  // Try this key instead of the stored one, e.g. before saving it
+  apiKey: z.string().min(1).optional(),
+});
+
+// POST /api/settings/providers/:name/test — send a one-line prompt to check connectivity
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  const { name } = await params;
+  const provider = toProviderName(name);
+
+  if (!provider) {
+    return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = testSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const response = await runInWorkspace(auth.workspace.id, () =>
+      testProviderConnection(provider, parsed.data.apiKey)
+    );
+
+    return NextResponse.json({
+      ok: true,
+      model: response.model,
+      latencyMs: response.latencyMs,
+      text: response.text.slice(0, 200),
+    });
+  } catch (error) {
+    // Connection failures are the expected outcome of a bad config, not a server error
+    return NextResponse.json({
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
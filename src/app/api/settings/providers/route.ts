@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import {
+  getApiKeySource,
+  getCustomProvider,
+  getCustomProviders,
+  saveCustomProvider,
+  validateProviderName,
+} from "@/lib/settings/config";
+import { isSecretStoreConfigured, MASTER_KEY_MISSING } from "@/lib/secrets";
+
+const createProviderSchema = z.object({
+  name: z.string().min(1),
+  baseUrl: z.string().url(),
+  model: z.string().min(1),
+  apiKey: z.string().default(""),
+  authHeader: z.string().min(1).default("Authorization"),
+  enabled: z.boolean().default(true),
+  dailyBudget: z.number().min(0).default(0),
+  monthlyBudget: z.number().min(0).default(0),
+  requestsPerMinute: z.number().int().min(0).default(0), // 0 = unlimited
+  tokensPerMinute: z.number().int().min(0).default(0),
+  timeoutSeconds: z.number().min(0).default(120), // local models can be slow
+  maxConcurrent: z.number().int().min(0).default(1), // one GPU answers one prompt at a time
+  cacheTtlHours: z.number().min(0).default(24),
+  costPer1kInput: z.number().min(0).default(0),
+  costPer1kOutput: z.number().min(0).default(0),
+});
+
+// GET /api/settings/providers — custom OpenAI-compatible providers
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const providers = getCustomProviders().map((provider) => ({
+      ...provider,
+      apiKeySet: getApiKeySource(provider.name) !== null,
+    }));
+    return NextResponse.json({ providers });
+  } catch (error) {
+    console.error("Failed to list custom providers:", error);
+    return NextResponse.json(
+      { error: "Failed to list custom providers" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/settings/providers — register a named OpenAI-compatible provider
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = createProviderSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, apiKey, ...config } = parsed.data;
+
+    const nameError = validateProviderName(name);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+    if (getCustomProvider(name)) {
+      return NextResponse.json(
+        { error: `Provider "${name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    if (apiKey && !isSecretStoreConfigured()) {
+      return NextResponse.json({ error: MASTER_KEY_MISSING }, { status: 409 });
+    }
+
+    const saved = saveCustomProvider(name, config, apiKey);
+    return NextResponse.json(
+      { provider: { ...saved, name, apiKeySet: !!apiKey } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create custom provider:", error);
+    return NextResponse.json(
+      { error: "Failed to create custom provider" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,40 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getSettings, updateSettings } from "@/lib/settings/config";
+import { requireAdmin, requireAuth } from "@/lib/auth/require";
+import { getApiKeySource, getSettings, updateSettings } from "@/lib/settings/config";
+import type { AppSettings } from "@/lib/settings/config";
+import { isSecretStoreConfigured, MASTER_KEY_MISSING } from "@/lib/secrets";
+import { reloadSchedules } from "@/lib/monitoring/schedules";
 
-function maskApiKey(key: string | undefined): string | undefined {
-  if (!key || key.length < 8) return undefined;
-  return `${"*".repeat(key.length - 4)}${key.slice(-4)}`;
-}
-
-function maskSettingsKeys(
-  settings: Record<string, unknown>
-): Record<string, unknown> {
-  const masked = { ...settings };
-
-  const apiKeyFields = [
-    "openaiApiKey",
-    "anthropicApiKey",
-    "googleApiKey",
-    "perplexityApiKey",
-  ];
-
-  for (const field of apiKeyFields) {
-    if (typeof masked[field] === "string") {
-      masked[field] = maskApiKey(masked[field] as string);
-    }
+// Keys never leave the server: each provider only reports where its key
+// comes from ("settings", "environment" or null)
+function withKeyStatus(settings: AppSettings) {
+  const providers: Record<string, unknown> = {};
+  for (const [name, config] of Object.entries(settings.providers)) {
+    providers[name] = { ...config, apiKeySource: getApiKeySource(name) };
   }
+  return { ...settings, providers };
+}
 
-  return masked;
+function includesApiKeys(body: Record<string, unknown>): boolean {
+  const providers = body.providers;
+  if (!providers || typeof providers !== "object") return false;
+  return Object.values(providers).some(
+    (config) =>
+      !!config && typeof config === "object" && !!(config as { apiKey?: unknown }).apiKey
+  );
 }
 
-export async function GET() {
-  try {
-    const settings = await getSettings();
-    const masked = maskSettingsKeys(
-      settings as unknown as Record<string, unknown>
-    );
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
 
-    return NextResponse.json(masked);
+  try {
+    const settings = getSettings();
+    return NextResponse.json(withKeyStatus(settings));
   } catch (error) {
     console.error("Failed to fetch settings:", error);
     return NextResponse.json(
@@ -45,6 +41,9 @@ export async function GET() {
 }
 
 export async function PUT(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
 
@@ -55,12 +54,19 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (includesApiKeys(body) && !isSecretStoreConfigured()) {
+      return NextResponse.json({ error: MASTER_KEY_MISSING }, { status: 409 });
+    }
+
+    const previousTimezone = getSettings().general.timezone;
     const updated = await updateSettings(body);
-    const masked = maskSettingsKeys(
-      updated as unknown as Record<string, unknown>
-    );
 
-    return NextResponse.json(masked);
+    // Cron jobs are registered in the configured timezone
+    if (updated.general.timezone !== previousTimezone) {
+      await reloadSchedules();
+    }
+
+    return NextResponse.json(withKeyStatus(updated));
   } catch (error) {
     console.error("Failed to update settings:", error);
     return NextResponse.json(
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/require";
+import {
+  getSecretStoreStatus,
+  isSecretStoreConfigured,
+  MASTER_KEY_MISSING,
+  rotateSecrets,
+} from "@/lib/secrets";
+
+// POST /api/settings/secrets/rotate — re-encrypt every stored key under the
+// current SECRETS_MASTER_KEY (old keys stay readable via SECRETS_MASTER_KEY_PREVIOUS)
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  if (!isSecretStoreConfigured()) {
+    return NextResponse.json({ error: MASTER_KEY_MISSING }, { status: 409 });
+  }
+
+  try {
+    const result = rotateSecrets();
+    return NextResponse.json({ ...result, status: getSecretStoreStatus() });
+  } catch (error) {
+    console.error("Failed to rotate secrets:", error);
+    return NextResponse.json(
+      { error: "Failed to rotate secrets" },
+      { status: 500 }
+    );
+  }
+}
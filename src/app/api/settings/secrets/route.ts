@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getSecretStoreStatus } from "@/lib/secrets";
+
+// GET /api/settings/secrets — whether keys can be stored and which master key
+// seals them; never the secrets themselves
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json(getSecretStoreStatus());
+  } catch (error) {
+    console.error("Failed to read secret store status:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read secret store status" },
+      { status: 500 }
+    );
+  }
+}
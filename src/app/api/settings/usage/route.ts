@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { getSettings } from "@/lib/settings/config";
+import { getProviderUsage } from "@/lib/monitoring/rate-limiter";
+
+// GET /api/settings/usage — each provider's limits, what it has used this
+// minute, today and this month, and whether a budget is currently blocking it
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const scope = { workspaceId: auth.workspace.id, brandId: null };
+    const providers = await Promise.all(
+      Object.keys(getSettings().providers).map((provider) =>
+        getProviderUsage(provider, scope)
+      )
+    );
+    return NextResponse.json({ providers });
+  } catch (error) {
+    console.error("Failed to read provider usage:", error);
+    return NextResponse.json(
+      { error: "Failed to read provider usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { ROLES } from "@/lib/auth/roles";
+
+// True if removing or demoting this membership would leave no owner
+async function isLastOwner(workspaceId: string, role: string): Promise<boolean> {
+  if (role !== "owner") return false;
+  const owners = await prisma.membership.count({
+    where: { workspaceId, role: "owner" },
+  });
+  return owners <= 1;
+}
+
+const updateMemberSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id, userId } = await params;
+    const body = await request.json();
+    const parsed = updateMemberSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing =
+      id === auth.workspace.id
+        ? await prisma.membership.findUnique({
+            where: { userId_workspaceId: { userId, workspaceId: id } },
+          })
+        : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.role !== "owner" && (await isLastOwner(id, existing.role))) {
+      return NextResponse.json(
+        { error: "A workspace needs at least one owner" },
+        { status: 409 }
+      );
+    }
+
+    const membership = await prisma.membership.update({
+      where: { id: existing.id },
+      data: { role: parsed.data.role },
+    });
+
+    return NextResponse.json({ userId, role: membership.role });
+  } catch (error) {
+    console.error("Failed to update member:", error);
+    return NextResponse.json(
+      { error: "Failed to update member" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id, userId } = await params;
+
+    const existing =
+      id === auth.workspace.id
+        ? await prisma.membership.findUnique({
+            where: { userId_workspaceId: { userId, workspaceId: id } },
+          })
+        : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    if (await isLastOwner(id, existing.role)) {
+      return NextResponse.json(
+        { error: "A workspace needs at least one owner" },
+        { status: 409 }
+      );
+    }
+
+    // Their sessions in this workspace stop resolving once the membership is gone
+    await prisma.$transaction([
+      prisma.membership.delete({ where: { id: existing.id } }),
+      prisma.session.deleteMany({ where: { userId, workspaceId: id } }),
+    ]);
+
+    return NextResponse.json({ message: "Member removed" });
+  } catch (error) {
+    console.error("Failed to remove member:", error);
+    return NextResponse.json(
+      { error: "Failed to remove member" },
+      { status: 500 }
+    );
+  }
+}
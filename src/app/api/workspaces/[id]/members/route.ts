@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { hashPassword, MIN_PASSWORD_LENGTH } from "@/lib/auth/passwords";
+import { ROLES } from "@/lib/auth/roles";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    if (id !== auth.workspace.id) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    const memberships = await prisma.membership.findMany({
+      where: { workspaceId: id },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(
+      memberships.map((m) => ({ ...m.user, role: m.role, joinedAt: m.createdAt }))
+    );
+  } catch (error) {
+    console.error("Failed to fetch members:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch members" },
+      { status: 500 }
+    );
+  }
+}
+
+// Adds an existing account by email, or creates the account when name and
+// password are given for an email that has none yet
+const addMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Email must be valid"),
+  role: z.enum(ROLES).default("viewer"),
+  name: z.string().trim().min(1).optional(),
+  password: z
+    .string()
+    .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    .optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    if (id !== auth.workspace.id) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = addMemberSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { email, role, name, password } = parsed.data;
+
+    let user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user) {
+      if (!name || !password) {
+        return NextResponse.json(
+          { error: "No account with that email; provide name and password to create one" },
+          { status: 400 }
+        );
+      }
+      user = await prisma.user.create({
+        data: { email, name, passwordHash: await hashPassword(password) },
+      });
+    } else {
+      const existing = await prisma.membership.findUnique({
+        where: { userId_workspaceId: { userId: user.id, workspaceId: id } },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { error: "User is already a member of this workspace" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const membership = await prisma.membership.create({
+      data: { userId: user.id, workspaceId: id, role },
+    });
+
+    return NextResponse.json(
+      {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to add member:", error);
+    return NextResponse.json(
+      { error: "Failed to add member" },
+      { status: 500 }
+    );
+  }
+}
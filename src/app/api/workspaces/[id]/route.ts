@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  getWorkspaceSpendToday,
+  hasWorkspaceApiKey,
+  parseWorkspaceSettings,
+  updateWorkspaceProviders,
+} from "@/lib/auth/workspaces";
+import type { WorkspaceSettings } from "@/lib/auth/workspaces";
+import { isSecretStoreConfigured, MASTER_KEY_MISSING } from "@/lib/secrets";
+
+async function describeProviders(
+  workspaceId: string,
+  settings: WorkspaceSettings
+) {
+  return Promise.all(
+    Object.entries(settings.providers).map(async ([provider, config]) => ({
+      provider,
+      apiKeySet: hasWorkspaceApiKey(workspaceId, provider),
+      dailyBudget: config.dailyBudget ?? 0,
+      spentToday: await getWorkspaceSpendToday(workspaceId, provider),
+    }))
+  );
+}
+
+// Workspace routes act on the session's active workspace; any other id is
+// answered as not found so membership elsewhere is not revealed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    if (id !== auth.workspace.id) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id },
+      include: { _count: { select: { memberships: true, brands: true } } },
+    });
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    const settings = parseWorkspaceSettings(workspace.settings);
+
+    return NextResponse.json({
+      id: workspace.id,
+      name: workspace.name,
+      slug: workspace.slug,
+      createdAt: workspace.createdAt,
+      members: workspace._count.memberships,
+      brands: workspace._count.brands,
+      role: auth.role,
+      providers: await describeProviders(id, settings),
+    });
+  } catch (error) {
+    console.error("Failed to fetch workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workspace" },
+      { status: 500 }
+    );
+  }
+}
+
+const updateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  providers: z
+    .record(
+      z.object({
+        apiKey: z.string().optional(), // "" clears the workspace key
+        dailyBudget: z.number().min(0).optional(), // 0 = no cap
+      })
+    )
+    .optional(),
+});
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, "owner");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await params;
+    if (id !== auth.workspace.id) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateWorkspaceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, providers } = parsed.data;
+
+    const settingKeys = Object.values(providers ?? {}).some((p) => !!p.apiKey);
+    if (settingKeys && !isSecretStoreConfigured()) {
+      return NextResponse.json({ error: MASTER_KEY_MISSING }, { status: 409 });
+    }
+
+    const workspace = name
+      ? await prisma.workspace.update({ where: { id }, data: { name } })
+      : await prisma.workspace.findUniqueOrThrow({ where: { id } });
+
+    const settings = providers
+      ? await updateWorkspaceProviders(id, providers)
+      : parseWorkspaceSettings(workspace.settings);
+
+    return NextResponse.json({
+      id: workspace.id,
+      name: workspace.name,
+      slug: workspace.slug,
+      providers: await describeProviders(id, settings),
+    });
+  } catch (error) {
+    console.error("Failed to update workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to update workspace" },
+      { status: 500 }
+    );
+  }
+}
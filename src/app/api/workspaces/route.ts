@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/require";
+import { z } from "zod";
+import { createWorkspace, listUserWorkspaces } from "@/lib/auth/workspaces";
+
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const workspaces = await listUserWorkspaces(auth.user.id);
+    return NextResponse.json(workspaces);
+  } catch (error) {
+    console.error("Failed to fetch workspaces:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workspaces" },
+      { status: 500 }
+    );
+  }
+}
+
+const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+// Any signed-in user may start a workspace; they become its owner
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = createWorkspaceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await createWorkspace(parsed.data.name, auth.user.id);
+
+    return NextResponse.json(
+      { id: workspace.id, name: workspace.name, slug: workspace.slug, role: "owner" },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to create workspace" },
+      { status: 500 }
+    );
+  }
+}
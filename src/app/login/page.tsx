@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Radar } from "lucide-react";
+
+export default function LoginPage() {
+  const router = useRouter();
+  // null while we ask whether this is a fresh instance with no accounts
+  const [registering, setRegistering] = useState<boolean | null>(null);
+  const [name, setName] = useState("");
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/register")
+      .then((r) => r.json())
+      .then((data) => setRegistering(!!data.open))
+      .catch(() => setRegistering(false));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        registering ? "/api/auth/register" : "/api/auth/login",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            registering
+              ? {
+                  name,
+                  email,
+                  password,
+                  workspaceName: workspaceName || undefined,
+                }
+              : { email, password }
+          ),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        const fieldErrors = data.details?.fieldErrors as
+          | Record<string, string[]>
+          | undefined;
+        const firstFieldError = fieldErrors
+          ? Object.values(fieldErrors).flat()[0]
+          : undefined;
+        setError(firstFieldError ?? data.error ?? "Sign in failed");
+        return;
+      }
+
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.replace(next && next.startsWith("/") ? next : "/");
+    } catch {
+      setError("Network error, please try again");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="mb-2 flex items-center gap-2">
+            <Radar className="h-6 w-6 text-blue-500" />
+            <span className="text-lg font-bold tracking-tight">Citability</span>
+          </div>
+          <CardTitle>
+            {registering ? "Create the first account" : "Sign in"}
+          </CardTitle>
+          <CardDescription>
+            {registering
+              ? "You will own the first workspace, including any brands created before accounts existed."
+              : "Sign in with the account a workspace owner created for you."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {registering === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {registering && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input
+                      id="name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="workspace">Workspace name</Label>
+                    <Input
+                      id="workspace"
+                      placeholder="My Workspace"
+                      value={workspaceName}
+                      onChange={(e) => setWorkspaceName(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete={registering ? "new-password" : "current-password"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {registering ? "Create account" : "Sign in"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
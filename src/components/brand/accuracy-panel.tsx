@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { runJob } from "@/lib/jobs/client";
+import type {
+  AccuracyCheckResult,
+  AccuracyReport,
+  Hallucination,
+  ProviderAccuracy,
+} from "@/lib/scoring/accuracy";
+
+const providerBadgeColors: Record<string, string> = {
+  openai: "bg-green-100 text-green-800",
+  anthropic: "bg-orange-100 text-orange-800",
+  google: "bg-blue-100 text-blue-800",
+  perplexity: "bg-purple-100 text-purple-800",
+};
+
+function scoreColor(score: number | null): string {
+  if (score === null) return "bg-gray-100 text-gray-600";
+  if (score >= 90) return "bg-green-100 text-green-800";
+  if (score >= 70) return "bg-yellow-100 text-yellow-800";
+  return "bg-red-100 text-red-800";
+}
+
+function AccuracyRow({ row }: { row: ProviderAccuracy }) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-2 pr-4">
+        {row.provider === "all" ? (
+          <span className="font-medium">All providers</span>
+        ) : (
+          <Badge className={providerBadgeColors[row.provider] ?? "bg-gray-100 text-gray-800"}>
+            {row.provider}
+          </Badge>
+        )}
+      </td>
+      <td className="py-2 pr-4">
+        <Badge className={scoreColor(row.score)}>
+          {row.score !== null ? `${row.score}%` : "n/a"}
+        </Badge>
+      </td>
+      <td className="py-2 pr-4 text-right">{row.responses}</td>
+      <td className="py-2 pr-4 text-right text-green-700">{row.correct}</td>
+      <td className="py-2 pr-4 text-right text-yellow-700">{row.outdated}</td>
+      <td className="py-2 pr-4 text-right text-red-700">{row.wrong}</td>
+      <td className="py-2 text-right text-gray-500">{row.unverifiable}</td>
+    </tr>
+  );
+}
+
+/**
+ * Per-provider accuracy of what AI engines say about a brand, measured
+ * against its fact sheet, and the feed of wrong and outdated claims.
+ * `refreshKey` changes when the fact sheet is saved.
+ */
+export function AccuracyPanel({
+  brandId,
+  refreshKey,
+}: {
+  brandId: string;
+  refreshKey?: number;
+}) {
+  const [report, setReport] = useState<AccuracyReport | null>(null);
+  const [hallucinations, setHallucinations] = useState<Hallucination[]>([]);
+  const [provider, setProvider] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAccuracy = useCallback(async () => {
+    try {
+      setLoading(true);
+      const feedUrl = `/api/brand/${brandId}/hallucinations${
+        provider ? `?provider=${encodeURIComponent(provider)}` : ""
+      }`;
+      const [reportRes, feedRes] = await Promise.all([
+        fetch(`/api/brand/${brandId}/accuracy`),
+        fetch(feedUrl),
+      ]);
+      if (!reportRes.ok || !feedRes.ok) throw new Error("Failed to fetch accuracy");
+      setReport(await reportRes.json());
+      setHallucinations(await feedRes.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [brandId, provider]);
+
+  useEffect(() => {
+    fetchAccuracy();
+  }, [fetchAccuracy, refreshKey]);
+
+  async function checkAccuracy() {
+    setRunning(true);
+    setError(null);
+    setMessage("Queued...");
+    try {
+      const result = await runJob<AccuracyCheckResult>(
+        `/api/brand/${brandId}/accuracy`,
+        {},
+        (event) => {
+          if (event.type === "progress" && event.message) setMessage(event.message);
+        }
+      );
+      setMessage(
+        result.checked + result.failed === 0
+          ? "Every recent response is already checked against the current fact sheet."
+          : `Checked ${result.checked} responses: ${result.wrong} wrong and ${result.outdated} outdated claims` +
+              (result.failed > 0 ? `, ${result.failed} failed` : "") +
+              (result.skipped > 0 ? `; ${result.skipped} left for the next check` : "")
+      );
+      await fetchAccuracy();
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Factual accuracy</CardTitle>
+          <CardDescription>
+            Claims in AI answers from the last {report?.days ?? 30} days,
+            checked against the fact sheet. The score is the share of
+            verifiable claims that are correct.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={checkAccuracy} disabled={running}>
+          {running ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <ShieldCheck className="mr-2 h-4 w-4" />
+          )}
+          Check Accuracy
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+        {message && <p className="text-xs text-gray-500">{message}</p>}
+
+        {loading && !report ? (
+          <Skeleton className="h-32 w-full" />
+        ) : report && report.providers.length > 0 ? (
+          <>
+            {report.staleChecks > 0 && (
+              <p className="rounded-md bg-yellow-50 p-2 text-xs text-yellow-800">
+                {report.staleChecks} response(s) were checked against an older
+                fact sheet; check accuracy again to update them.
+              </p>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-gray-500">
+                  <th className="pb-2 pr-4 font-medium">Provider</th>
+                  <th className="pb-2 pr-4 font-medium">Accuracy</th>
+                  <th className="pb-2 pr-4 text-right font-medium">Responses</th>
+                  <th className="pb-2 pr-4 text-right font-medium">Correct</th>
+                  <th className="pb-2 pr-4 text-right font-medium">Outdated</th>
+                  <th className="pb-2 pr-4 text-right font-medium">Wrong</th>
+                  <th className="pb-2 text-right font-medium">Unverifiable</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.providers.map((row) => (
+                  <AccuracyRow key={row.provider} row={row} />
+                ))}
+                {report.providers.length > 1 && <AccuracyRow row={report.overall} />}
+              </tbody>
+            </table>
+          </>
+        ) : (
+          <p className="text-sm text-gray-400">
+            No responses checked yet. Save the fact sheet, then check accuracy.
+          </p>
+        )}
+
+        {/* Hallucination feed */}
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-xs font-medium text-gray-500">
+              Wrong and outdated claims
+            </p>
+            {report && report.providers.length > 1 && (
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant={provider === null ? "default" : "outline"}
+                  onClick={() => setProvider(null)}
+                >
+                  All
+                </Button>
+                {report.providers.map((row) => (
+                  <Button
+                    key={row.provider}
+                    size="sm"
+                    variant={provider === row.provider ? "default" : "outline"}
+                    onClick={() => setProvider(row.provider)}
+                  >
+                    {row.provider}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+          {hallucinations.length === 0 ? (
+            <p className="text-sm text-gray-400">None found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {hallucinations.map((item) => (
+                <li key={item.id} className="rounded-md bg-gray-50 p-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={item.verdict === "wrong" ? "destructive" : "outline"}>
+                      {item.verdict}
+                    </Badge>
+                    <Badge className={providerBadgeColors[item.provider] ?? "bg-gray-100 text-gray-800"}>
+                      {item.provider}
+                    </Badge>
+                    <span className="text-xs text-gray-400">
+                      {new Date(item.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="mt-1 font-medium text-gray-900">{item.claim}</p>
+                  {item.explanation && (
+                    <p className="text-gray-600">{item.explanation}</p>
+                  )}
+                  {item.fact && (
+                    <p className="text-xs text-gray-500">Fact sheet: {item.fact}</p>
+                  )}
+                  <p className="text-xs text-gray-400">Asked: {item.query}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useState, useEffect, FormEvent } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, X } from "lucide-react";
+import type {
+  FactSheet,
+  OtherFact,
+  PricingTier,
+} from "@/lib/scoring/fact-sheet";
+
+// The fact sheet as edited: list fields as raw text, optional parts as ""
+interface FactSheetForm {
+  foundedYearRaw: string;
+  headquarters: string;
+  pricingTiers: Required<PricingTier>[];
+  integrationsRaw: string; // comma-separated
+  featuresRaw: string; // one per line
+  otherFacts: OtherFact[];
+  formerFactsRaw: string; // one per line
+}
+
+const emptyForm: FactSheetForm = {
+  foundedYearRaw: "",
+  headquarters: "",
+  pricingTiers: [],
+  integrationsRaw: "",
+  featuresRaw: "",
+  otherFacts: [],
+  formerFactsRaw: "",
+};
+
+function toForm(sheet: FactSheet): FactSheetForm {
+  return {
+    foundedYearRaw: sheet.foundedYear !== null ? String(sheet.foundedYear) : "",
+    headquarters: sheet.headquarters,
+    pricingTiers: sheet.pricingTiers.map((tier) => ({
+      name: tier.name,
+      price: tier.price,
+      period: tier.period ?? "",
+      notes: tier.notes ?? "",
+    })),
+    integrationsRaw: sheet.integrations.join(", "),
+    featuresRaw: sheet.features.join("\n"),
+    otherFacts: sheet.otherFacts,
+    formerFactsRaw: sheet.formerFacts.join("\n"),
+  };
+}
+
+function splitLines(raw: string, separator: string | RegExp): string[] {
+  return raw
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function FactSheetEditor({
+  brandId,
+  brandName,
+  onSaved,
+}: {
+  brandId: string;
+  brandName: string;
+  onSaved?: (sheet: FactSheet) => void;
+}) {
+  const [form, setForm] = useState<FactSheetForm>(emptyForm);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/brand/${brandId}/facts`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to fetch fact sheet");
+        const sheet: FactSheet = await res.json();
+        if (cancelled) return;
+        setForm(toForm(sheet));
+        setUpdatedAt(sheet.updatedAt ? String(sheet.updatedAt) : null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [brandId]);
+
+  function updateTier(index: number, field: keyof PricingTier, value: string) {
+    setForm((prev) => {
+      const pricingTiers = [...prev.pricingTiers];
+      pricingTiers[index] = { ...pricingTiers[index], [field]: value };
+      return { ...prev, pricingTiers };
+    });
+  }
+
+  function updateOtherFact(index: number, field: keyof OtherFact, value: string) {
+    setForm((prev) => {
+      const otherFacts = [...prev.otherFacts];
+      otherFacts[index] = { ...otherFacts[index], [field]: value };
+      return { ...prev, otherFacts };
+    });
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const foundedYear = form.foundedYearRaw.trim()
+      ? parseInt(form.foundedYearRaw, 10)
+      : null;
+
+    const payload = {
+      foundedYear,
+      headquarters: form.headquarters,
+      pricingTiers: form.pricingTiers
+        .filter((tier) => tier.name.trim() && tier.price.trim())
+        .map((tier) => ({
+          name: tier.name,
+          price: tier.price,
+          ...(tier.period.trim() ? { period: tier.period } : {}),
+          ...(tier.notes.trim() ? { notes: tier.notes } : {}),
+        })),
+      integrations: splitLines(form.integrationsRaw, ","),
+      features: splitLines(form.featuresRaw, "\n"),
+      otherFacts: form.otherFacts.filter(
+        (fact) => fact.label.trim() && fact.value.trim()
+      ),
+      formerFacts: splitLines(form.formerFactsRaw, "\n"),
+    };
+
+    try {
+      const res = await fetch(`/api/brand/${brandId}/facts`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? "Failed to save fact sheet");
+      }
+      const sheet: FactSheet = await res.json();
+      setForm(toForm(sheet));
+      setUpdatedAt(String(sheet.updatedAt));
+      onSaved?.(sheet);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fact sheet — {brandName}</CardTitle>
+        <CardDescription>
+          What is true about {brandName}. AI answers are checked against it, so
+          keep pricing current and move old prices to &quot;No longer
+          true&quot;.
+          {updatedAt && ` Last updated ${new Date(updatedAt).toLocaleString()}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="foundedYear">Founded</Label>
+                <Input
+                  id="foundedYear"
+                  type="number"
+                  min={1800}
+                  max={2100}
+                  value={form.foundedYearRaw}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, foundedYearRaw: e.target.value }))
+                  }
+                  placeholder="2019"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="headquarters">Headquarters</Label>
+                <Input
+                  id="headquarters"
+                  value={form.headquarters}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, headquarters: e.target.value }))
+                  }
+                  placeholder="Berlin, Germany"
+                />
+              </div>
+            </div>
+
+            {/* Pricing */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Pricing tiers</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setForm((f) => ({
+                      ...f,
+                      pricingTiers: [
+                        ...f.pricingTiers,
+                        { name: "", price: "", period: "", notes: "" },
+                      ],
+                    }))
+                  }
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  Add Tier
+                </Button>
+              </div>
+              {form.pricingTiers.map((tier, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  <Input
+                    value={tier.name}
+                    onChange={(e) => updateTier(idx, "name", e.target.value)}
+                    placeholder="Pro"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={tier.price}
+                    onChange={(e) => updateTier(idx, "price", e.target.value)}
+                    placeholder="$12"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={tier.period}
+                    onChange={(e) => updateTier(idx, "period", e.target.value)}
+                    placeholder="per seat / month"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={tier.notes}
+                    onChange={(e) => updateTier(idx, "notes", e.target.value)}
+                    placeholder="Notes"
+                    className="flex-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setForm((f) => ({
+                        ...f,
+                        pricingTiers: f.pricingTiers.filter((_, i) => i !== idx),
+                      }))
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {form.pricingTiers.length === 0 && (
+                <p className="text-sm text-gray-400">No pricing tiers added yet.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="integrations">
+                Integrations (comma-separated, complete list)
+              </Label>
+              <Input
+                id="integrations"
+                value={form.integrationsRaw}
+                onChange={(e) =>
+                  setForm((f) => ({ ...f, integrationsRaw: e.target.value }))
+                }
+                placeholder="Slack, HubSpot, Zapier"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="features">Features (one per line)</Label>
+              <Textarea
+                id="features"
+                value={form.featuresRaw}
+                onChange={(e) =>
+                  setForm((f) => ({ ...f, featuresRaw: e.target.value }))
+                }
+                placeholder={"SSO on every plan\nSOC 2 Type II certified"}
+                rows={4}
+              />
+            </div>
+
+            {/* Other facts */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Other facts</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setForm((f) => ({
+                      ...f,
+                      otherFacts: [...f.otherFacts, { label: "", value: "" }],
+                    }))
+                  }
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  Add Fact
+                </Button>
+              </div>
+              {form.otherFacts.map((fact, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  <Input
+                    value={fact.label}
+                    onChange={(e) => updateOtherFact(idx, "label", e.target.value)}
+                    placeholder="Free trial"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={fact.value}
+                    onChange={(e) => updateOtherFact(idx, "value", e.target.value)}
+                    placeholder="14 days, no credit card"
+                    className="flex-[2]"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setForm((f) => ({
+                        ...f,
+                        otherFacts: f.otherFacts.filter((_, i) => i !== idx),
+                      }))
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="formerFacts">No longer true (one per line)</Label>
+              <Textarea
+                id="formerFacts"
+                value={form.formerFactsRaw}
+                onChange={(e) =>
+                  setForm((f) => ({ ...f, formerFactsRaw: e.target.value }))
+                }
+                placeholder={"Pro cost $20 per seat / month until March 2024\nStarter plan was retired in 2023"}
+                rows={3}
+              />
+              <p className="text-xs text-gray-500">
+                Claims matching these are reported as outdated rather than
+                wrong.
+              </p>
+            </div>
+
+            <div className="pt-2">
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save Fact Sheet"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { JobEvent, JobProgress } from "@/lib/jobs/client";
+
+// What a page shows of a running job, built up from its events
+export interface JobView {
+  id: string;
+  progress: JobProgress;
+  messages: string[]; // latest last
+  errors: Array<{ provider: string; kind: string; message: string }>;
+}
+
+const MAX_MESSAGES = 8;
+
+export function newJobView(id: string): JobView {
+  return { id, progress: { completed: 0, total: 0, cost: 0 }, messages: [], errors: [] };
+}
+
+export function applyJobEvent(view: JobView, event: JobEvent): JobView {
+  if (event.type === "progress") {
+    return {
+      ...view,
+      progress: event.progress,
+      messages: event.message
+        ? [...view.messages, event.message].slice(-MAX_MESSAGES)
+        : view.messages,
+    };
+  }
+  if (event.type === "error") {
+    return { ...view, errors: [...view.errors, event.error] };
+  }
+  return view;
+}
+
+function usd(value: number): string {
+  return `$${value.toFixed(value < 0.01 && value > 0 ? 4 : 2)}`;
+}
+
+export function JobProgressPanel({
+  title,
+  view,
+  onCancel,
+  cancelling,
+}: {
+  title: string;
+  view: JobView | null;
+  onCancel?: () => void;
+  cancelling?: boolean;
+}) {
+  const progress = view?.progress;
+  const percent =
+    progress && progress.total > 0
+      ? Math.min(100, Math.round((progress.completed / progress.total) * 100))
+      : 0;
+
+  return (
+    <div className="flex w-full max-w-xl flex-col items-center">
+      <Loader2 className="mb-4 h-12 w-12 animate-spin text-blue-400" />
+      <p className="text-lg font-medium text-gray-600">{title}</p>
+
+      {progress && progress.total > 0 && (
+        <div className="mt-4 w-full space-y-1">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+            <div className="h-full rounded-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>
+              {progress.completed} of {progress.total} calls
+            </span>
+            <span>{usd(progress.cost)} so far</span>
+          </div>
+        </div>
+      )}
+
+      {view && view.messages.length > 0 && (
+        <div className="mt-4 w-full space-y-1">
+          {view.messages.map((message, idx) => (
+            <p key={idx} className="truncate text-sm text-gray-500">
+              {message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {view && view.errors.length > 0 && (
+        <div className="mt-4 w-full space-y-1 rounded-md border border-red-200 bg-red-50 p-3">
+          {view.errors.slice(-3).map((error, idx) => (
+            <p key={idx} className="text-xs text-red-700">
+              {error.provider} ({error.kind}): {error.message}
+            </p>
+          ))}
+          {view.errors.length > 3 && (
+            <p className="text-xs text-red-600">and {view.errors.length - 3} more error(s)</p>
+          )}
+        </div>
+      )}
+
+      {onCancel && (
+        <Button variant="outline" size="sm" className="mt-4" onClick={onCancel} disabled={cancelling}>
+          <XCircle className="h-4 w-4" />
+          {cancelling ? "Cancelling..." : "Cancel"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import {
   Radar,
   LayoutDashboard,
@@ -12,6 +12,10 @@ import {
   Swords,
   Settings,
   Bell,
+  Network,
+  LogOut,
+  DollarSign,
+  ListChecks,
 } from "lucide-react";
 
 const mainNavItems = [
@@ -23,12 +27,47 @@ const mainNavItems = [
 
 const secondaryNavItems = [
   { label: "Competitive", icon: Swords, href: "/competitive" },
+  { label: "Knowledge Graph", icon: Network, href: "/graph" },
+  { label: "Costs", icon: DollarSign, href: "/costs" },
+  { label: "Jobs", icon: ListChecks, href: "/jobs" },
   { label: "Settings", icon: Settings, href: "/settings" },
 ];
 
+interface SessionInfo {
+  user: { id: string; email: string; name: string };
+  workspace: { id: string; name: string };
+  role: string;
+  workspaces: Array<{ id: string; name: string; role: string }>;
+}
+
 export function Sidebar() {
   const pathname = usePathname();
+  const router = useRouter();
   const [alertCount, setAlertCount] = useState(0);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [spentToday, setSpentToday] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setSession)
+      .catch(() => setSession(null));
+  }, []);
+
+  const switchWorkspace = async (workspaceId: string) => {
+    const res = await fetch("/api/auth/switch", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ workspaceId }),
+    });
+    // Every page's data belongs to the old workspace, so start over
+    if (res.ok) window.location.assign("/dashboard");
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    router.replace("/login");
+  };
 
   useEffect(() => {
     async function fetchAlerts() {
@@ -46,6 +85,13 @@ export function Sidebar() {
     fetchAlerts();
   }, []);
 
+  useEffect(() => {
+    fetch("/api/dashboard/costs/forecast")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setSpentToday(data?.spentToday ?? null))
+      .catch(() => setSpentToday(null));
+  }, [pathname]);
+
   const renderNavItem = (item: (typeof mainNavItems)[number]) => {
     const isActive =
       pathname === item.href || pathname.startsWith(item.href + "/");
@@ -73,6 +119,30 @@ export function Sidebar() {
         <span className="text-lg font-bold tracking-tight">Citability</span>
       </div>
 
+      {/* Workspace switcher */}
+      {session && (
+        <div className="border-b border-gray-800 px-6 py-3">
+          <p className="mb-1 text-xs text-gray-500">Workspace</p>
+          {session.workspaces.length > 1 ? (
+            <select
+              value={session.workspace.id}
+              onChange={(e) => switchWorkspace(e.target.value)}
+              className="w-full rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-sm text-gray-200"
+            >
+              {session.workspaces.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p className="truncate text-sm font-medium text-gray-200">
+              {session.workspace.name}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Navigation */}
       <nav className="flex-1 space-y-1 px-3 py-4">
         {mainNavItems.map(renderNavItem)}
@@ -97,8 +167,30 @@ export function Sidebar() {
       {/* Cost footer */}
       <div className="border-t border-gray-800 px-6 py-4">
         <p className="text-xs text-gray-500">Today&apos;s usage</p>
-        <p className="text-sm font-semibold text-gray-300">Cost: $0.00 today</p>
+        <Link
+          href="/costs"
+          className="text-sm font-semibold text-gray-300 hover:text-white"
+        >
+          Cost: {spentToday === null ? "—" : `$${spentToday.toFixed(2)}`} today
+        </Link>
       </div>
+
+      {/* Signed-in user */}
+      {session && (
+        <div className="flex items-center gap-2 border-t border-gray-800 px-6 py-3">
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm text-gray-300">{session.user.name}</p>
+            <p className="text-xs capitalize text-gray-500">{session.role}</p>
+          </div>
+          <button
+            onClick={signOut}
+            title="Sign out"
+            className="rounded-md p-1.5 text-gray-400 hover:bg-gray-800 hover:text-gray-200"
+          >
+            <LogOut className="h-4 w-4" />
+          </button>
+        </div>
+      )}
     </aside>
   );
 }
@@ -0,0 +1,72 @@
+/**
+ * Next.js server boot hook. Rehydrates persisted monitoring schedules so
+ * cron jobs survive restarts and deploys, marks batch runs the last process
+ * left unfinished, starts the job worker and the cache sweep, moves any
+ * plaintext API keys left in the settings file or in workspace settings
+ * into the secret store, makes sure the instance has an admin, and assigns
+ * knowledge graph nodes from before workspaces to the first workspace.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { loadSchedules } = await import("@/lib/monitoring/schedules");
+  const { scheduleCacheSweep } = await import("@/lib/monitoring/cache");
+
+  scheduleCacheSweep();
+
+  const { migratePlaintextApiKeys } = await import("@/lib/settings/config");
+  const { isSecretStoreConfigured } = await import("@/lib/secrets");
+  const { migrateWorkspaceApiKeys } = await import("@/lib/auth/workspaces");
+
+  try {
+    if (isSecretStoreConfigured()) {
+      const moved = migratePlaintextApiKeys();
+      if (moved > 0) console.log(`Encrypted ${moved} API key(s) from the settings file`);
+      const movedFromWorkspaces = await migrateWorkspaceApiKeys();
+      if (movedFromWorkspaces > 0) {
+        console.log(`Encrypted ${movedFromWorkspaces} API key(s) from workspace settings`);
+      }
+    } else {
+      console.warn(
+        "SECRETS_MASTER_KEY is not set: API keys can only come from environment variables"
+      );
+    }
+  } catch (error) {
+    console.error("Failed to migrate plaintext API keys:", error);
+  }
+
+  try {
+    const loaded = await loadSchedules();
+    console.log(`Loaded ${loaded} monitoring schedule(s)`);
+  } catch (error) {
+    console.error("Failed to load monitoring schedules:", error);
+  }
+
+  const { ensureInstanceAdmin } = await import("@/lib/auth/admins");
+  try {
+    const promoted = await ensureInstanceAdmin();
+    if (promoted) console.log(`Made ${promoted} the instance admin`);
+  } catch (error) {
+    console.error("Failed to assign an instance admin:", error);
+  }
+
+  const { claimUnscopedGraph } = await import("@/lib/graph/ingest");
+  try {
+    const claimed = await claimUnscopedGraph();
+    if (claimed > 0) console.log(`Assigned ${claimed} graph entities to the first workspace`);
+  } catch (error) {
+    console.error("Failed to assign graph entities to a workspace:", error);
+  }
+
+  const { markInterruptedBatchRuns } = await import("@/lib/monitoring/batch-runner");
+  try {
+    const interrupted = await markInterruptedBatchRuns({ recheck: true });
+    if (interrupted > 0) console.log(`Marked ${interrupted} batch run(s) interrupted`);
+  } catch (error) {
+    console.error("Failed to mark interrupted batch runs:", error);
+  }
+
+  // Picks up queued jobs, and jobs whose worker died once their lease runs out
+  const { startJobWorker } = await import("@/lib/jobs/worker");
+  startJobWorker();
+}
@@ -0,0 +1,20 @@
+import { prisma } from "@/lib/db";
+
+/**
+ * Instances set up before instance admins existed have none, which would
+ * lock everyone out of the instance-wide settings. The first registered
+ * account, the one that set the instance up, becomes the admin. Run at
+ * boot; returns the promoted user's email, or null when nothing changed.
+ */
+export async function ensureInstanceAdmin(): Promise<string | null> {
+  if ((await prisma.user.count({ where: { isAdmin: true } })) > 0) return null;
+
+  const first = await prisma.user.findFirst({
+    orderBy: { createdAt: "asc" },
+    select: { id: true, email: true },
+  });
+  if (!first) return null;
+
+  await prisma.user.update({ where: { id: first.id }, data: { isAdmin: true } });
+  return first.email;
+}
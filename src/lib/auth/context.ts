@@ -0,0 +1,35 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * The workspace (and, where known, the brand) an operation runs on behalf
+ * of. Route handlers and scheduled jobs wrap long-running work in
+ * runInWorkspace / runForBrand so that code far below them (queryLLM
+ * resolving provider keys, budget checks, usage logging) acts for the right
+ * tenant without every library function taking ids.
+ */
+interface OperationScope {
+  workspaceId: string | null;
+  brandId: string | null;
+}
+
+const storage = new AsyncLocalStorage<OperationScope>();
+
+export function runInWorkspace<T>(workspaceId: string, fn: () => T): T {
+  return storage.run({ workspaceId, brandId: null }, fn);
+}
+
+// Work for one brand runs in the brand's workspace and is billed to both
+export function runForBrand<T>(
+  brand: { id: string; workspaceId: string | null },
+  fn: () => T
+): T {
+  return storage.run({ workspaceId: brand.workspaceId, brandId: brand.id }, fn);
+}
+
+export function currentWorkspaceId(): string | null {
+  return storage.getStore()?.workspaceId ?? null;
+}
+
+export function currentBrandId(): string | null {
+  return storage.getStore()?.brandId ?? null;
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, SESSION_COOKIE } from "@/lib/auth/sessions";
+import type { SessionContext } from "@/lib/auth/sessions";
+import { hasRole } from "@/lib/auth/roles";
+import type { Role } from "@/lib/auth/roles";
+
+/**
+ * Authenticate a route request and check the caller's role in their active
+ * workspace. Returns the session, or the 401/403 response to send back:
+ *
+ *   const auth = await requireAuth(request, "editor");
+ *   if (auth instanceof NextResponse) return auth;
+ */
+export async function requireAuth(
+  request: NextRequest,
+  role: Role = "viewer"
+): Promise<SessionContext | NextResponse> {
+  const session = await getSession(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  if (!hasRole(session.role, role)) {
+    return NextResponse.json(
+      { error: `Requires the ${role} role in this workspace` },
+      { status: 403 }
+    );
+  }
+  return session;
+}
+
+/**
+ * Authenticate a request for instance-wide settings (provider keys in the
+ * settings file, model prices, secret rotation). Those apply to every
+ * workspace, so owning one is not enough; the caller must be an instance
+ * admin.
+ */
+export async function requireAdmin(
+  request: NextRequest
+): Promise<SessionContext | NextResponse> {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!auth.user.isAdmin) {
+    return NextResponse.json(
+      { error: "Requires an instance admin" },
+      { status: 403 }
+    );
+  }
+  return auth;
+}
+
+export function setSessionCookie(
+  response: NextResponse,
+  token: string,
+  expiresAt: Date
+): NextResponse {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+  return response;
+}
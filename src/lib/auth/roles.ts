@@ -0,0 +1,21 @@
+/**
+ * Workspace roles, from least to most privileged:
+ * - viewer: read everything in the workspace
+ * - editor: also create, run and change brands, probes, content and schedules
+ * - owner: also manage members, provider keys, budgets and publish targets
+ *
+ * Settings shared by every workspace (the settings file, model prices,
+ * secret rotation) are not covered by a workspace role; they need an
+ * instance admin (User.isAdmin, see requireAdmin).
+ */
+export const ROLES = ["viewer", "editor", "owner"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
@@ -0,0 +1,89 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/lib/db";
+import { isRole } from "@/lib/auth/roles";
+import type { Role } from "@/lib/auth/roles";
+
+export const SESSION_COOKIE = "aeo_session";
+export const SESSION_TTL_DAYS = 30;
+
+export interface SessionContext {
+  sessionId: string;
+  user: { id: string; email: string; name: string; isAdmin: boolean };
+  workspace: { id: string; name: string; slug: string };
+  role: Role;
+}
+
+// Only the hash is stored, so a leaked database does not leak live sessions
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function createSession(
+  userId: string,
+  workspaceId: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 86_400_000);
+
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, workspaceId, expiresAt },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Resolve a session cookie to the user, their active workspace and their role
+ * in it. Expired sessions and sessions whose membership has been revoked
+ * resolve to null.
+ */
+export async function getSession(
+  token: string | undefined
+): Promise<SessionContext | null> {
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: { select: { id: true, email: true, name: true, isAdmin: true } },
+      workspace: { select: { id: true, name: true, slug: true } },
+    },
+  });
+  if (!session) return null;
+
+  if (session.expiresAt < new Date()) {
+    await prisma.session.delete({ where: { id: session.id } }).catch(() => {});
+    return null;
+  }
+
+  const membership = await prisma.membership.findUnique({
+    where: {
+      userId_workspaceId: {
+        userId: session.userId,
+        workspaceId: session.workspaceId,
+      },
+    },
+  });
+  if (!membership || !isRole(membership.role)) return null;
+
+  return {
+    sessionId: session.id,
+    user: session.user,
+    workspace: session.workspace,
+    role: membership.role,
+  };
+}
+
+export async function switchSessionWorkspace(
+  sessionId: string,
+  workspaceId: string
+): Promise<void> {
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { workspaceId },
+  });
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
@@ -0,0 +1,225 @@
+import { prisma } from "@/lib/db";
+import type { Workspace } from "@prisma/client";
+import {
+  deleteSecret,
+  getSecret,
+  hasSecret,
+  providerSecretName,
+  setSecret,
+} from "@/lib/secrets";
+
+/**
+ * Per-workspace overrides of the instance-wide provider settings. A key set
+ * for the workspace (kept in the secret store, not here) is used instead of
+ * the instance key for every LLM call made on its behalf, and the budget
+ * caps its daily spend.
+ */
+export interface WorkspaceProviderSettings {
+  dailyBudget?: number; // USD
+}
+
+export interface WorkspaceProviderUpdate extends WorkspaceProviderSettings {
+  apiKey?: string; // "" removes the workspace key
+}
+
+export interface WorkspaceSettings {
+  providers: Record<string, WorkspaceProviderSettings>;
+}
+
+export function parseWorkspaceSettings(json: string | null | undefined): WorkspaceSettings {
+  try {
+    const parsed = JSON.parse(json || "{}");
+    const providers: Record<string, WorkspaceProviderSettings> = {};
+    if (parsed && typeof parsed.providers === "object" && parsed.providers !== null) {
+      for (const [name, config] of Object.entries(parsed.providers)) {
+        const { dailyBudget } = (config ?? {}) as WorkspaceProviderSettings;
+        providers[name] = dailyBudget === undefined ? {} : { dailyBudget };
+      }
+    }
+    return { providers };
+  } catch {
+    return { providers: {} };
+  }
+}
+
+export async function getWorkspaceSettings(
+  workspaceId: string
+): Promise<WorkspaceSettings> {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { settings: true },
+  });
+  return parseWorkspaceSettings(workspace?.settings);
+}
+
+export function getWorkspaceApiKey(
+  workspaceId: string,
+  provider: string
+): string | null {
+  return getSecret(providerSecretName(provider, workspaceId));
+}
+
+export function hasWorkspaceApiKey(workspaceId: string, provider: string): boolean {
+  return hasSecret(providerSecretName(provider, workspaceId));
+}
+
+/**
+ * Merge provider overrides into a workspace's settings. Keys go to the
+ * secret store; an empty apiKey removes the key so the instance default
+ * applies again.
+ */
+export async function updateWorkspaceProviders(
+  workspaceId: string,
+  providers: Record<string, WorkspaceProviderUpdate>
+): Promise<WorkspaceSettings> {
+  const settings = await getWorkspaceSettings(workspaceId);
+
+  for (const [name, { apiKey, ...update }] of Object.entries(providers)) {
+    const secretName = providerSecretName(name, workspaceId);
+    if (apiKey === "") deleteSecret(secretName);
+    else if (apiKey) setSecret(secretName, apiKey);
+
+    settings.providers[name] = { ...settings.providers[name], ...update };
+  }
+
+  await prisma.workspace.update({
+    where: { id: workspaceId },
+    data: { settings: JSON.stringify(settings) },
+  });
+  return settings;
+}
+
+/**
+ * Move workspace API keys that earlier versions kept in plaintext in
+ * Workspace.settings into the secret store and scrub them from the JSON,
+ * as migratePlaintextApiKeys does for the settings file. Needs the master
+ * key; returns the number of keys moved.
+ */
+export async function migrateWorkspaceApiKeys(): Promise<number> {
+  const workspaces = await prisma.workspace.findMany({
+    select: { id: true, settings: true },
+  });
+
+  let moved = 0;
+  for (const workspace of workspaces) {
+    let raw: { providers?: Record<string, { apiKey?: unknown } | null> };
+    try {
+      raw = JSON.parse(workspace.settings || "{}");
+    } catch {
+      continue;
+    }
+    if (!raw?.providers || typeof raw.providers !== "object") continue;
+
+    let scrubbed = false;
+    for (const [name, config] of Object.entries(raw.providers)) {
+      if (!config || !("apiKey" in config)) continue;
+      const secretName = providerSecretName(name, workspace.id);
+      // A key saved through the secret store since is newer than the plaintext one
+      if (typeof config.apiKey === "string" && config.apiKey && !hasSecret(secretName)) {
+        setSecret(secretName, config.apiKey);
+        moved++;
+      }
+      delete config.apiKey;
+      scrubbed = true;
+    }
+
+    if (scrubbed) {
+      await prisma.workspace.update({
+        where: { id: workspace.id },
+        data: { settings: JSON.stringify(raw) },
+      });
+    }
+  }
+  return moved;
+}
+
+/**
+ * Spend recorded today (since local midnight) by a workspace on a provider.
+ */
+export async function getWorkspaceSpendToday(
+  workspaceId: string,
+  provider: string
+): Promise<number> {
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  const usage = await prisma.apiUsageLog.aggregate({
+    where: { workspaceId, provider, createdAt: { gte: since } },
+    _sum: { cost: true },
+  });
+  return usage._sum.cost ?? 0;
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "workspace"
+  );
+}
+
+async function uniqueSlug(name: string): Promise<string> {
+  const base = slugify(name);
+  let slug = base;
+  for (let i = 2; await prisma.workspace.findUnique({ where: { slug } }); i++) {
+    slug = `${base}-${i}`;
+  }
+  return slug;
+}
+
+/**
+ * Create a workspace owned by `ownerId`. The first workspace on an instance
+ * also takes over every brand, publish target and schedule created before
+ * workspaces existed.
+ */
+export async function createWorkspace(
+  name: string,
+  ownerId: string
+): Promise<Workspace> {
+  const isFirst = (await prisma.workspace.count()) === 0;
+
+  const workspace = await prisma.workspace.create({
+    data: {
+      name,
+      slug: await uniqueSlug(name),
+      memberships: { create: { userId: ownerId, role: "owner" } },
+    },
+  });
+
+  if (isFirst) {
+    const where = { workspaceId: null };
+    const data = { workspaceId: workspace.id };
+    await prisma.$transaction([
+      prisma.brand.updateMany({ where, data }),
+      prisma.publishTarget.updateMany({ where, data }),
+      prisma.monitoringSchedule.updateMany({ where, data }),
+    ]);
+  }
+
+  return workspace;
+}
+
+export async function listUserWorkspaces(userId: string) {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    include: { workspace: { select: { id: true, name: true, slug: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  return memberships.map((m) => ({ ...m.workspace, role: m.role }));
+}
+
+/**
+ * True if the brand exists and belongs to the workspace. Routes use this to
+ * answer 404 for another tenant's brand rather than revealing it exists.
+ */
+export async function brandInWorkspace(
+  brandId: string,
+  workspaceId: string
+): Promise<boolean> {
+  const brand = await prisma.brand.findFirst({
+    where: { id: brandId, workspaceId },
+    select: { id: true },
+  });
+  return brand !== null;
+}
@@ -1,21 +1,52 @@
 import { queryLLM, getEnabledProviders } from "@/lib/llm";
-import type { LLMProvider } from "@/lib/llm";
-import { detectCitation } from "@/lib/citation/detector";
+import type { ProviderName } from "@/lib/llm";
+import {
+  detectCitation,
+  detectCompetitorCitations,
+} from "@/lib/citation/detector";
 import { buildProbePrompt } from "@/lib/citation/prompt-builder";
 import type { ProbeCategory } from "@/lib/citation/prompt-builder";
-import type { CitationAnalysis } from "@/lib/citation/detector";
+import type {
+  BrandEntity,
+  CitationAnalysis,
+  Competitor,
+} from "@/lib/citation/detector";
+import { queryLLMCached } from "@/lib/monitoring/cache";
+import type { CachedLLMResponse } from "@/lib/monitoring/cache";
+import { ingestCompetitiveAnalysis } from "@/lib/graph/ingest";
+import { loadDetectionAliases } from "@/lib/graph/aliases";
+import { compareRates, estimateRate } from "@/lib/citation/statistics";
+import { providerPoolOptions, runPool } from "@/lib/monitoring/worker-pool";
+import {
+  CircuitBreaker,
+  classifyError,
+  withCircuitBreaker,
+} from "@/lib/llm/resilience";
+import type { RateEstimate } from "@/lib/citation/statistics";
+import type { LLMErrorKind } from "@/lib/llm/resilience";
 
 export interface CompetitiveAnalysis {
   brandCitationRate: number;
+  brandCitationInterval: RateEstimate;
   competitors: CompetitorProfile[];
   insights: CompetitiveInsight[];
   recommendations: string[];
+  // Query/provider pairs that failed; the analysis covers the rest
+  errors: CompetitiveError[];
+}
+
+export interface CompetitiveError {
+  query: string;
+  provider: ProviderName;
+  kind: LLMErrorKind;
+  error: string;
 }
 
 export interface CompetitorProfile {
   name: string;
   domain: string;
   citationRate: number;
+  citationInterval: RateEstimate;
   avgPosition: number | null;
   avgSentiment: "positive" | "neutral" | "negative";
   strongCategories: string[];
@@ -33,17 +64,12 @@ export interface CompetitiveInsight {
 interface ProbeResult {
   query: string;
   category: ProbeCategory;
-  provider: LLMProvider;
+  provider: ProviderName;
   responseText: string;
   brandCitation: CitationAnalysis;
   competitorCitations: Map<string, CitationAnalysis>;
 }
 
-interface CompetitorInput {
-  name: string;
-  domain: string;
-}
-
 function computeAvgSentiment(
   sentiments: Array<"positive" | "neutral" | "negative">
 ): "positive" | "neutral" | "negative" {
@@ -72,7 +98,7 @@ function computeAvgPosition(positions: number[]): number | null {
 }
 
 function buildCompetitorProfile(
-  competitor: CompetitorInput,
+  competitor: Competitor,
   results: ProbeResult[],
   allCategories: ProbeCategory[]
 ): CompetitorProfile {
@@ -130,6 +156,7 @@ function buildCompetitorProfile(
     name: competitor.name,
     domain: competitor.domain,
     citationRate,
+    citationInterval: estimateRate(citedResults.length, totalProbes),
     avgPosition: computeAvgPosition(positions),
     avgSentiment: computeAvgSentiment(sentiments),
     strongCategories,
@@ -139,6 +166,7 @@ function buildCompetitorProfile(
 
 function generateInsights(
   brandCitationRate: number,
+  brandCitationInterval: RateEstimate,
   brandResults: ProbeResult[],
   competitorProfiles: CompetitorProfile[]
 ): CompetitiveInsight[] {
@@ -161,9 +189,11 @@ function generateInsights(
     }
   }
 
-  // Find threats (competitors dominate, brand absent)
+  // Find threats (competitors dominate, brand absent). Both rates come from
+  // the same responses, so a gap that small samples could produce is skipped
   for (const profile of competitorProfiles) {
-    if (profile.citationRate > brandCitationRate + 20) {
+    const gap = compareRates(brandCitationInterval, profile.citationInterval);
+    if (profile.citationRate > brandCitationRate + 20 && gap.significant) {
       insights.push({
         type: "threat",
         title: `${profile.name} dominates with ${profile.citationRate}% citation rate`,
@@ -279,12 +309,41 @@ function generateRecommendations(
   return recommendations;
 }
 
+/**
+ * The queries an analysis runs when none are given: three per brand keyword.
+ */
+export function defaultCompetitiveQueries(
+  keywords: string[]
+): Array<{ query: string; category: ProbeCategory }> {
+  return keywords.flatMap((keyword) => [
+    { query: `best ${keyword}`, category: "best-of" as const },
+    { query: `${keyword} vs alternatives`, category: "comparison" as const },
+    { query: `recommended ${keyword}`, category: "recommendation" as const },
+  ]);
+}
+
+export interface CompetitiveRunOptions {
+  forceRefresh?: boolean;
+  // Aborting stops the analysis before its next provider call
+  signal?: AbortSignal;
+  // Called as each query/provider pair is answered or fails
+  onProgress?: (update: {
+    query: string;
+    provider: ProviderName;
+    cited: boolean;
+    error?: string; // set when the pair failed
+    cost: number; // 0 for cached answers
+    completed: number;
+    total: number;
+  }) => void;
+}
+
 export async function runCompetitiveAnalysis(
-  brandName: string,
-  brandDomain: string,
-  competitors: CompetitorInput[],
+  brand: BrandEntity,
+  competitors: Competitor[],
   probeQueries: Array<{ query: string; category: ProbeCategory }>,
-  providers?: LLMProvider[]
+  providers?: ProviderName[],
+  options?: CompetitiveRunOptions
 ): Promise<CompetitiveAnalysis> {
   const activeProviders = providers ?? getEnabledProviders();
   if (activeProviders.length === 0) {
@@ -293,58 +352,108 @@ export async function runCompetitiveAnalysis(
     );
   }
 
-  const allCompetitors = competitors.map((c) => ({
-    name: c.name,
-    domain: c.domain,
-  }));
-
-  const allResults: ProbeResult[] = [];
+  const detection = await loadDetectionAliases(brand, competitors);
 
-  // Run all probes across all providers
-  for (const probe of probeQueries) {
-    const prompt = buildProbePrompt(probe.query, probe.category);
-
-    for (const provider of activeProviders) {
-      const response = await queryLLM({
-        provider,
-        prompt,
-        temperature: 0.3,
-        maxTokens: 2000,
-      });
+  // Run all probes across all providers through the worker pool; results
+  // keep query-then-provider order however the calls finish
+  const pairs = probeQueries.flatMap((probe) =>
+    activeProviders.map((provider) => ({ probe, provider }))
+  );
+  const slots: Array<ProbeResult | undefined> = new Array(pairs.length);
+  const errors: CompetitiveError[] = [];
+  // A provider that keeps failing is skipped for the rest of the analysis
+  const breaker = new CircuitBreaker();
+  let completed = 0;
+
+  await runPool(
+    pairs.map((pair, index) => ({ ...pair, index })),
+    async ({ probe, provider, index }) => {
+      const prompt = buildProbePrompt(probe.query, probe.category);
+
+      // Shares cache entries with batch runs for the same provider + prompt
+      let response: CachedLLMResponse;
+      try {
+        response = await withCircuitBreaker(breaker, () =>
+          queryLLMCached(
+            {
+              provider,
+              prompt,
+              temperature: 0.3,
+              maxTokens: 2000,
+            },
+            { forceRefresh: options?.forceRefresh }
+          )
+        );
+      } catch (error) {
+        const failure = classifyError(provider, error);
+        errors.push({
+          query: probe.query,
+          provider,
+          kind: failure.kind,
+          error: `${provider}: ${failure.message}`,
+        });
+        completed++;
+        options?.onProgress?.({
+          query: probe.query,
+          provider,
+          cited: false,
+          error: failure.message,
+          cost: 0,
+          completed,
+          total: pairs.length,
+        });
+        return;
+      }
 
       const brandCitation = detectCitation(
         response.text,
-        brandName,
-        brandDomain,
-        allCompetitors
+        detection.brand,
+        detection.competitors
       );
 
-      const competitorCitations = new Map<string, CitationAnalysis>();
-      for (const competitor of competitors) {
-        const otherCompetitors = allCompetitors.filter(
-          (c) => c.name !== competitor.name
-        );
-        const brandAsCompetitor = { name: brandName, domain: brandDomain };
-        const citation = detectCitation(
-          response.text,
-          competitor.name,
-          competitor.domain,
-          [...otherCompetitors, brandAsCompetitor]
-        );
-        competitorCitations.set(competitor.name, citation);
-      }
+      const competitorCitations = detectCompetitorCitations(
+        response.text,
+        detection.brand,
+        detection.competitors
+      );
 
-      allResults.push({
+      slots[index] = {
         query: probe.query,
         category: probe.category,
         provider,
         responseText: response.text,
         brandCitation,
         competitorCitations,
+      };
+      completed++;
+      options?.onProgress?.({
+        query: probe.query,
+        provider,
+        cited: brandCitation.cited,
+        cost: response.cached ? 0 : response.cost,
+        completed,
+        total: pairs.length,
       });
-    }
+    },
+    providerPoolOptions((pair) => pair.provider, options?.signal)
+  );
+  const allResults = slots.filter((result): result is ProbeResult => result !== undefined);
+  if (allResults.length === 0 && errors.length > 0) {
+    throw new Error(`Every provider call failed, e.g. ${errors[0].error}`);
   }
 
+  // Feed the knowledge graph; a graph failure should not lose the analysis
+  const analysisId = `competitive-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  await ingestCompetitiveAnalysis(
+    brand.name,
+    brand.domain,
+    detection.competitors,
+    allResults,
+    { analysisId }
+  ).catch((error) => {
+    console.error("Graph ingestion failed for competitive analysis:", error);
+  });
+
   // Calculate brand citation rate
   const brandCitedCount = allResults.filter(
     (r) => r.brandCitation.cited
@@ -364,9 +473,12 @@ export async function runCompetitiveAnalysis(
     buildCompetitorProfile(c, allResults, allCategories)
   );
 
+  const brandCitationInterval = estimateRate(brandCitedCount, allResults.length);
+
   // Generate insights and recommendations
   const insights = generateInsights(
     brandCitationRate,
+    brandCitationInterval,
     allResults,
     competitorProfiles
   );
@@ -374,9 +486,11 @@ export async function runCompetitiveAnalysis(
 
   return {
     brandCitationRate,
+    brandCitationInterval,
     competitors: competitorProfiles,
     insights,
     recommendations,
+    errors,
   };
 }
 
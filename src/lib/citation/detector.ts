@@ -10,13 +10,24 @@ export interface CitationAnalysis {
   position: number | null;
   competitorsMentioned: string[];
   confidence: number;
+  matchedSurfaceForm: string | null; // which name, alias, product, handle or domain matched
 }
 
-interface Competitor {
+/**
+ * Everything a response may call a brand. Only name and domain are required;
+ * the rest widen (aliases, products, handles) or narrow (excludedPhrases) matching.
+ */
+export interface BrandEntity {
   name: string;
   domain: string;
+  aliases?: string[];
+  products?: string[]; // product names that count as a mention of the brand
+  handles?: string[]; // ticker symbols and social handles, e.g. "$HUBS", "@HubSpot"
+  excludedPhrases?: string[]; // look-alikes that must never count, e.g. "Notion Capital"
 }
 
+export type Competitor = BrandEntity;
+
 // --- Layer 3: Sentiment keywords ---
 
 const POSITIVE_KEYWORDS = [
@@ -72,6 +83,132 @@ function extractSurroundingText(
   return text.slice(start, end).toLowerCase();
 }
 
+function uniqueForms(forms: Array<string | undefined>): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const form of forms) {
+    const trimmed = form?.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    result.push(trimmed);
+  }
+  // Longest first so "HubSpot CRM" wins over "HubSpot" in an alternation
+  return result.sort((a, b) => b.length - a.length);
+}
+
+// A letter or digit directly before/after a match means it sits inside a
+// longer word, e.g. "Notion" inside "notional"
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+
+function boundedPattern(forms: string[], flags: string = "iu"): RegExp | null {
+  if (forms.length === 0) return null;
+  return new RegExp(
+    `(?<!${WORD_CHAR})(?:${forms.map(escapeRegex).join("|")})(?!${WORD_CHAR})`,
+    flags
+  );
+}
+
+// Tolerates spacing/punctuation drift: "HubSpot" also matches "Hub Spot", "hub-spot"
+function separatorTolerantPattern(forms: string[]): RegExp | null {
+  const compact = forms
+    .map((form) => form.replace(/[\s\-.]+/g, ""))
+    .filter((form) => form.length >= 4);
+  if (compact.length === 0) return null;
+  const alternation = compact
+    .map((form) => [...form].map(escapeRegex).join("[\\s\\-.]?"))
+    .join("|");
+  return new RegExp(`(?<!${WORD_CHAR})(?:${alternation})(?!${WORD_CHAR})`, "iu");
+}
+
+// "https://www.acme.com/pricing" → "acme.com"
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[/?#].*$/, "");
+}
+
+const URL_PATTERN = /https?:\/\/[^\s)<>\]]+/gi;
+
+/**
+ * Every http(s) URL in a response, bare or markdown-wrapped, with trailing
+ * sentence punctuation removed.
+ */
+export function extractUrls(text: string): Array<{ url: string; index: number }> {
+  const urls: Array<{ url: string; index: number }> = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    urls.push({
+      url: match[0].replace(/[.,;:!?'"]+$/, ""),
+      index: match.index ?? 0,
+    });
+  }
+  return urls;
+}
+
+function hostMatchesDomain(url: string, domain: string): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Blank out excluded look-alike phrases so they can't match. Replacing with
+ * spaces of equal length keeps every other match index valid.
+ */
+function maskExcludedPhrases(text: string, phrases: string[] = []): string {
+  const pattern = boundedPattern(uniqueForms(phrases), "giu");
+  if (!pattern) return text;
+  return text.replace(pattern, (match) => " ".repeat(match.length));
+}
+
+interface EntityMatcher {
+  entity: BrandEntity;
+  domain: string;
+  nameForms: string[];
+  names: RegExp | null; // name, aliases and product names
+  handles: RegExp | null;
+  separatorTolerant: RegExp | null;
+  domainText: RegExp | null;
+  any: RegExp | null; // union of the above, for position detection
+}
+
+function buildMatcher(entity: BrandEntity): EntityMatcher {
+  const domain = normalizeDomain(entity.domain);
+  const nameForms = uniqueForms([
+    entity.name,
+    ...(entity.aliases ?? []),
+    ...(entity.products ?? []),
+  ]);
+  const handleForms = uniqueForms(entity.handles ?? []);
+  const domainForms = domain ? [domain] : [];
+
+  return {
+    entity,
+    domain,
+    nameForms,
+    names: boundedPattern(nameForms),
+    handles: boundedPattern(handleForms),
+    separatorTolerant: separatorTolerantPattern(nameForms),
+    domainText: boundedPattern(domainForms),
+    any: boundedPattern(uniqueForms([...nameForms, ...handleForms, ...domainForms])),
+  };
+}
+
+// Map matched text back to the configured spelling it came from
+function resolveSurfaceForm(matched: string, forms: string[]): string {
+  const compact = (s: string) => s.toLowerCase().replace(/[\s\-.]+/g, "");
+  return (
+    forms.find((form) => form.toLowerCase() === matched.toLowerCase()) ??
+    forms.find((form) => compact(form) === compact(matched)) ??
+    matched
+  );
+}
+
 function detectSentiment(
   text: string,
   matchIndex: number,
@@ -99,7 +236,9 @@ function detectSentiment(
   return "neutral";
 }
 
-function detectPosition(response: string, brandPattern: RegExp): number | null {
+function detectPosition(response: string, brandPattern: RegExp | null): number | null {
+  if (!brandPattern) return null;
+
   // Match numbered list items like "1. ", "2) ", "1 - ", etc.
   const numberedListRegex = /^[ \t]*(\d{1,2})[.):\-]\s+(.+)/gm;
   let match: RegExpExecArray | null;
@@ -114,33 +253,124 @@ function detectPosition(response: string, brandPattern: RegExp): number | null {
   return null;
 }
 
+function detectCitationType(
+  response: string,
+  matchIndex: number,
+  matchLength: number
+): CitationAnalysis["citationType"] {
+  const surrounding = extractSurroundingText(response, matchIndex, matchLength, 200);
+
+  if (
+    surrounding.includes("compare") ||
+    surrounding.includes("vs") ||
+    surrounding.includes("versus") ||
+    surrounding.includes("compared to")
+  ) {
+    return "comparison";
+  }
+  if (
+    surrounding.includes("recommend") ||
+    surrounding.includes("suggest") ||
+    surrounding.includes("try")
+  ) {
+    return "recommendation";
+  }
+  return "direct-mention";
+}
+
+function mentionsEntity(text: string, matcher: EntityMatcher): boolean {
+  const masked = maskExcludedPhrases(text, matcher.entity.excludedPhrases);
+  return (
+    (matcher.names?.test(masked) ?? false) ||
+    (matcher.handles?.test(masked) ?? false) ||
+    (matcher.domainText?.test(masked) ?? false)
+  );
+}
+
 function detectCompetitors(
   response: string,
   competitors: Competitor[]
 ): string[] {
-  const mentioned: string[] = [];
-  const lowerResponse = response.toLowerCase();
+  return competitors
+    .filter((competitor) => mentionsEntity(response, buildMatcher(competitor)))
+    .map((competitor) => competitor.name);
+}
 
-  for (const competitor of competitors) {
-    const nameFound = lowerResponse.includes(competitor.name.toLowerCase());
-    const domainFound = lowerResponse.includes(
-      competitor.domain.toLowerCase()
-    );
+// --- Parsing ---
 
-    if (nameFound || domainFound) {
-      mentioned.push(competitor.name);
+function parseStringArray(value: unknown): string[] {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
     }
   }
+  return Array.isArray(parsed)
+    ? parsed.filter((item): item is string => typeof item === "string")
+    : [];
+}
 
-  return mentioned;
+/**
+ * Build a BrandEntity from a Brand row, whose alias/product/handle/excluded
+ * columns are stored as JSON string arrays.
+ */
+export function toBrandEntity(brand: {
+  name: string;
+  domain: string;
+  aliases?: string | null;
+  products?: string | null;
+  handles?: string | null;
+  excludedPhrases?: string | null;
+}): BrandEntity {
+  return {
+    name: brand.name,
+    domain: brand.domain,
+    aliases: parseStringArray(brand.aliases),
+    products: parseStringArray(brand.products),
+    handles: parseStringArray(brand.handles),
+    excludedPhrases: parseStringArray(brand.excludedPhrases),
+  };
+}
+
+/**
+ * Parse the Brand.competitors JSON column. Entries missing a name or domain
+ * are dropped.
+ */
+export function parseCompetitors(json: string | null | undefined): Competitor[] {
+  if (!json) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed
+    .filter(
+      (c): c is Record<string, unknown> =>
+        typeof c === "object" &&
+        c !== null &&
+        typeof c.name === "string" &&
+        typeof c.domain === "string"
+    )
+    .map((c) => ({
+      name: c.name as string,
+      domain: c.domain as string,
+      aliases: parseStringArray(c.aliases),
+      products: parseStringArray(c.products),
+      handles: parseStringArray(c.handles),
+      excludedPhrases: parseStringArray(c.excludedPhrases),
+    }));
 }
 
 // --- Main detection ---
 
 export function detectCitation(
   response: string,
-  brandName: string,
-  brandDomain: string,
+  brand: BrandEntity,
   competitors: Competitor[]
 ): CitationAnalysis {
   const result: CitationAnalysis = {
@@ -148,127 +378,120 @@ export function detectCitation(
     citationType: null,
     sentiment: null,
     position: null,
-    competitorsMentioned: [],
+    competitorsMentioned: detectCompetitors(response, competitors),
     confidence: 0,
+    matchedSurfaceForm: null,
   };
 
-  const lowerResponse = response.toLowerCase();
-  const lowerBrandName = brandName.toLowerCase();
-  const lowerBrandDomain = brandDomain.toLowerCase();
-
-  // Reusable brand pattern for position detection
-  const brandPattern = new RegExp(
-    `${escapeRegex(brandName)}|${escapeRegex(brandDomain)}`,
-    "i"
-  );
+  const matcher = buildMatcher(brand);
+  // Look-alikes are blanked out before any text layer runs
+  const text = maskExcludedPhrases(response, brand.excludedPhrases);
+
+  const cite = (
+    citationType: CitationAnalysis["citationType"],
+    confidence: number,
+    matchIndex: number,
+    matchLength: number,
+    surfaceForm: string
+  ): CitationAnalysis => {
+    result.cited = true;
+    result.citationType = citationType;
+    result.confidence = confidence;
+    result.matchedSurfaceForm = surfaceForm;
+    result.sentiment = detectSentiment(text, matchIndex, matchLength);
+    result.position = detectPosition(text, matcher.any);
+    return result;
+  };
 
   // --- Layer 2: URL/link parsing ---
-  const urlRegex = /https?:\/\/[^\s)<>]+/gi;
-  const urls = response.match(urlRegex) ?? [];
-  const urlMatch = urls.some((url) =>
-    url.toLowerCase().includes(lowerBrandDomain)
-  );
-
-  if (urlMatch) {
-    result.cited = true;
-    result.citationType = "url-link";
-    result.confidence = 1.0;
-
-    const urlIndex = lowerResponse.indexOf(lowerBrandDomain);
-    if (urlIndex !== -1) {
-      result.sentiment = detectSentiment(
-        response,
-        urlIndex,
-        brandDomain.length
+  if (matcher.domain) {
+    const urlMatch = extractUrls(text).find(({ url }) =>
+      hostMatchesDomain(url, matcher.domain)
+    );
+    if (urlMatch) {
+      return cite(
+        "url-link",
+        1.0,
+        urlMatch.index,
+        urlMatch.url.length,
+        matcher.domain
       );
     }
-
-    result.position = detectPosition(response, brandPattern);
-    result.competitorsMentioned = detectCompetitors(response, competitors);
-    return result;
   }
 
   // --- Layer 1: String matching ---
 
-  // Exact brand name match (word boundary)
-  const exactNameRegex = new RegExp(
-    `\\b${escapeRegex(brandName)}\\b`,
-    "i"
-  );
-  const exactNameMatch = exactNameRegex.exec(response);
-
-  if (exactNameMatch) {
-    result.cited = true;
-    result.confidence = 0.9;
-
-    // Determine citation type from context
-    const surrounding = extractSurroundingText(
-      response,
-      exactNameMatch.index,
-      brandName.length,
-      200
+  // Name, alias or product name on word boundaries
+  const nameMatch = matcher.names?.exec(text);
+  if (nameMatch) {
+    return cite(
+      detectCitationType(text, nameMatch.index, nameMatch[0].length),
+      0.9,
+      nameMatch.index,
+      nameMatch[0].length,
+      resolveSurfaceForm(nameMatch[0], matcher.nameForms)
     );
+  }
 
-    if (
-      surrounding.includes("compare") ||
-      surrounding.includes("vs") ||
-      surrounding.includes("versus") ||
-      surrounding.includes("compared to")
-    ) {
-      result.citationType = "comparison";
-    } else if (
-      surrounding.includes("recommend") ||
-      surrounding.includes("suggest") ||
-      surrounding.includes("try")
-    ) {
-      result.citationType = "recommendation";
-    } else {
-      result.citationType = "direct-mention";
-    }
-
-    result.sentiment = detectSentiment(
-      response,
-      exactNameMatch.index,
-      brandName.length
+  // Ticker symbol or social handle
+  const handleMatch = matcher.handles?.exec(text);
+  if (handleMatch) {
+    return cite(
+      "direct-mention",
+      0.85,
+      handleMatch.index,
+      handleMatch[0].length,
+      resolveSurfaceForm(handleMatch[0], brand.handles ?? [])
     );
-    result.position = detectPosition(response, brandPattern);
-    result.competitorsMentioned = detectCompetitors(response, competitors);
-    return result;
   }
 
-  // Partial / case-insensitive name match (substring, not word-bounded)
-  const partialNameIndex = lowerResponse.indexOf(lowerBrandName);
-  if (partialNameIndex !== -1) {
-    result.cited = true;
-    result.citationType = "direct-mention";
-    result.confidence = 0.7;
-    result.sentiment = detectSentiment(
-      response,
-      partialNameIndex,
-      brandName.length
+  // Same name with different spacing or hyphenation ("Hub Spot", "hub-spot")
+  const looseMatch = matcher.separatorTolerant?.exec(text);
+  if (looseMatch) {
+    return cite(
+      "direct-mention",
+      0.7,
+      looseMatch.index,
+      looseMatch[0].length,
+      resolveSurfaceForm(looseMatch[0], matcher.nameForms)
     );
-    result.position = detectPosition(response, brandPattern);
-    result.competitorsMentioned = detectCompetitors(response, competitors);
-    return result;
   }
 
   // Domain-only match (no URL context)
-  const domainIndex = lowerResponse.indexOf(lowerBrandDomain);
-  if (domainIndex !== -1) {
-    result.cited = true;
-    result.citationType = "direct-mention";
-    result.confidence = 0.5;
-    result.sentiment = detectSentiment(
-      response,
-      domainIndex,
-      brandDomain.length
+  const domainMatch = matcher.domainText?.exec(text);
+  if (domainMatch) {
+    return cite(
+      "direct-mention",
+      0.5,
+      domainMatch.index,
+      domainMatch[0].length,
+      matcher.domain
     );
-    result.position = detectPosition(response, brandPattern);
-    result.competitorsMentioned = detectCompetitors(response, competitors);
-    return result;
   }
 
-  // No citation found — still detect competitors
-  result.competitorsMentioned = detectCompetitors(response, competitors);
   return result;
 }
+
+/**
+ * Run full citation detection for each competitor, treating the brand and the
+ * other competitors as that competitor's own rivals.
+ */
+export function detectCompetitorCitations(
+  response: string,
+  brand: BrandEntity,
+  competitors: Competitor[]
+): Map<string, CitationAnalysis> {
+  const citations = new Map<string, CitationAnalysis>();
+
+  for (const competitor of competitors) {
+    const otherCompetitors = competitors.filter(
+      (c) => c.name !== competitor.name
+    );
+    citations.set(
+      competitor.name,
+      detectCitation(response, competitor, [...otherCompetitors, brand])
+    );
+  }
+
+  return citations;
+}
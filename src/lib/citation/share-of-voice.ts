@@ -0,0 +1,350 @@
+/**
+ * Share of Voice — the fraction of all brand mentions in AI answers that
+ * belong to one brand, against the competitors tracked for it. Reports are
+ * per brand: in a workspace with several brands, each has its own
+ * competitors and its own share.
+ *
+ * Every stored CitationResult contributes one mention for the brand when it
+ * was cited and one for each name in `competitorsMentioned`. Mentions are
+ * weighted by list position (first place counts most) and sentiment, so a
+ * negative aside at the bottom of a list is worth less than a top-ranked
+ * recommendation. The brand's position and sentiment are read from the row;
+ * competitors' are re-detected from the stored response text.
+ */
+
+import { prisma } from "@/lib/db";
+import { detectCitation } from "@/lib/citation/detector";
+import type { BrandEntity, Competitor } from "@/lib/citation/detector";
+import {
+  forEachResponse,
+  loadReportEntities,
+  MAX_REPORT_DAYS,
+  MAX_REPORT_RESULTS,
+  periodKey,
+} from "@/lib/citation/source-influence";
+import type { TrendInterval } from "@/lib/citation/source-influence";
+
+export interface ShareOfVoiceFilter {
+  workspaceId?: string;
+  brandId: string;
+  category?: string;
+  provider?: string;
+  days?: number;
+  interval?: TrendInterval;
+}
+
+export interface EntityVoice {
+  name: string;
+  isBrand: boolean;
+  mentions: number; // responses mentioning the entity
+  weight: number; // sum of position- and sentiment-weighted mentions
+  share: number; // % of all weighted mentions
+  mentionShare: number; // % of all unweighted mentions
+}
+
+export interface ShareOfVoiceBreakdown {
+  key: string; // provider or probe category
+  results: number;
+  brandShare: number;
+  shares: Record<string, number>; // entity name -> weighted %
+}
+
+export interface ShareOfVoiceTrendPoint {
+  period: string; // YYYY-MM-DD (start of the week for weekly buckets)
+  results: number;
+  shares: Record<string, number>;
+}
+
+export interface ShareOfVoiceReport {
+  filter: Required<Pick<ShareOfVoiceFilter, "days" | "interval">> &
+    Pick<ShareOfVoiceFilter, "brandId" | "category" | "provider">;
+  resultsAnalyzed: number;
+  truncated: boolean; // the window held more than MAX_REPORT_RESULTS; the newest were analyzed
+  brandShare: number; // weighted
+  brandMentionShare: number; // unweighted
+  entities: EntityVoice[];
+  byProvider: ShareOfVoiceBreakdown[];
+  byCategory: ShareOfVoiceBreakdown[];
+  trend: ShareOfVoiceTrendPoint[];
+}
+
+type Sentiment = "positive" | "neutral" | "negative";
+
+interface Mention {
+  name: string;
+  brandId: string | null; // null for competitors
+  weight: number;
+}
+
+// Mentions outside a numbered list rank below second place
+const UNRANKED_WEIGHT = 0.4;
+
+const SENTIMENT_WEIGHTS: Record<Sentiment, number> = {
+  positive: 1,
+  neutral: 0.75,
+  negative: 0.25,
+};
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function percent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Weight of one mention: 1 / list position (1, 0.5, 0.33, ...) or
+ * UNRANKED_WEIGHT when the entity is not in a numbered list, scaled by
+ * sentiment.
+ */
+export function mentionWeight(
+  position: number | null,
+  sentiment: string | null
+): number {
+  const positionWeight = position && position > 0 ? 1 / position : UNRANKED_WEIGHT;
+  const sentimentWeight =
+    SENTIMENT_WEIGHTS[(sentiment ?? "neutral") as Sentiment] ??
+    SENTIMENT_WEIGHTS.neutral;
+  return positionWeight * sentimentWeight;
+}
+
+function parseNames(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed)
+      ? parsed.filter((n): n is string => typeof n === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+interface Tally {
+  results: number;
+  // Keyed by brand id plus name, so a competitor sharing the brand's name
+  // is still counted as a competitor
+  mentions: Map<
+    string,
+    { name: string; isBrand: boolean; count: number; weight: number }
+  >;
+}
+
+function emptyTally(): Tally {
+  return { results: 0, mentions: new Map() };
+}
+
+function addMentions(tally: Tally, mentions: Mention[]) {
+  tally.results++;
+  for (const mention of mentions) {
+    const key = `${mention.brandId ?? ""}:${mention.name}`;
+    const entry = tally.mentions.get(key) ?? {
+      name: mention.name,
+      isBrand: mention.brandId !== null,
+      count: 0,
+      weight: 0,
+    };
+    entry.count++;
+    entry.weight += mention.weight;
+    tally.mentions.set(key, entry);
+  }
+}
+
+function entityVoices(tally: Tally): EntityVoice[] {
+  let totalWeight = 0;
+  let totalCount = 0;
+  for (const entry of tally.mentions.values()) {
+    totalWeight += entry.weight;
+    totalCount += entry.count;
+  }
+
+  return [...tally.mentions.values()]
+    .map((entry) => ({
+      name: entry.name,
+      isBrand: entry.isBrand,
+      mentions: entry.count,
+      weight: Math.round(entry.weight * 100) / 100,
+      share: percent(entry.weight, totalWeight),
+      mentionShare: percent(entry.count, totalCount),
+    }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+function brandShare(entities: EntityVoice[], weighted: boolean): number {
+  const total = entities
+    .filter((e) => e.isBrand)
+    .reduce((sum, e) => sum + (weighted ? e.share : e.mentionShare), 0);
+  return Math.round(total * 10) / 10;
+}
+
+function shareMap(entities: EntityVoice[]): Record<string, number> {
+  return Object.fromEntries(entities.map((e) => [e.name, e.share]));
+}
+
+function breakdown(tallies: Map<string, Tally>): ShareOfVoiceBreakdown[] {
+  return [...tallies.entries()]
+    .map(([key, tally]) => {
+      const entities = entityVoices(tally);
+      return {
+        key,
+        results: tally.results,
+        brandShare: brandShare(entities, true),
+        shares: shareMap(entities),
+      };
+    })
+    .sort((a, b) => b.results - a.results);
+}
+
+function tallyFor(map: Map<string, Tally>, key: string): Tally {
+  let tally = map.get(key);
+  if (!tally) {
+    tally = emptyTally();
+    map.set(key, tally);
+  }
+  return tally;
+}
+
+// ── Report ───────────────────────────────────────────────────────────────
+
+export async function getShareOfVoiceReport(
+  filter: ShareOfVoiceFilter
+): Promise<ShareOfVoiceReport> {
+  const days = Math.min(filter.days ?? 90, MAX_REPORT_DAYS);
+  const interval = filter.interval ?? "week";
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const rows = await prisma.citationResult.findMany({
+    where: {
+      // Provider failures are stored with model "unknown"
+      model: { not: "unknown" },
+      createdAt: { gte: since },
+      ...(filter.provider ? { provider: filter.provider } : {}),
+      run: {
+        brandId: filter.brandId,
+        ...(filter.workspaceId
+          ? { brand: { workspaceId: filter.workspaceId } }
+          : {}),
+        ...(filter.category ? { probe: { category: filter.category } } : {}),
+      },
+    },
+    select: {
+      id: true,
+      provider: true,
+      cited: true,
+      position: true,
+      sentiment: true,
+      competitorsMentioned: true,
+      createdAt: true,
+      run: {
+        select: {
+          brandId: true,
+          probe: { select: { category: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_REPORT_RESULTS + 1,
+  });
+  const truncated = rows.length > MAX_REPORT_RESULTS;
+  if (truncated) rows.length = MAX_REPORT_RESULTS;
+  rows.reverse();
+
+  const entitiesByBrand = new Map<
+    string,
+    { brand: BrandEntity; competitors: Map<string, Competitor> }
+  >();
+  const loaded = await loadReportEntities([
+    ...new Set(rows.map((row) => row.run.brandId)),
+  ]);
+  for (const [brandId, { brand, competitors }] of loaded) {
+    entitiesByBrand.set(brandId, {
+      brand,
+      competitors: new Map(competitors.map((c) => [c.name, c])),
+    });
+  }
+
+  // Competitors' positions come from the response text, so it is read only
+  // for results that mention a competitor the brand still tracks
+  const competitorNames = new Map(
+    rows.map((row) => [row.id, [...new Set(parseNames(row.competitorsMentioned))]])
+  );
+  const responses = new Map<string, string>();
+  await forEachResponse(
+    rows
+      .filter((row) =>
+        competitorNames
+          .get(row.id)!
+          .some((name) => entitiesByBrand.get(row.run.brandId)?.competitors.has(name))
+      )
+      .map((row) => row.id),
+    (id, response) => responses.set(id, response)
+  );
+
+  const overall = emptyTally();
+  const byProvider = new Map<string, Tally>();
+  const byCategory = new Map<string, Tally>();
+  const byPeriod = new Map<string, Tally>();
+
+  for (const row of rows) {
+    // Every result's run belongs to a brand, so its entities were loaded
+    const entities = entitiesByBrand.get(row.run.brandId)!;
+
+    const mentions: Mention[] = [];
+    if (row.cited) {
+      mentions.push({
+        name: entities.brand.name,
+        brandId: row.run.brandId,
+        weight: mentionWeight(row.position, row.sentiment),
+      });
+    }
+
+    const others = [...entities.competitors.values()];
+    for (const name of competitorNames.get(row.id)!) {
+      const competitor = entities.competitors.get(name);
+      // A competitor since removed from the brand still counts, unranked
+      const citation = competitor
+        ? detectCitation(responses.get(row.id) ?? "", competitor, [
+            ...others.filter((c) => c.name !== name),
+            entities.brand,
+          ])
+        : null;
+      mentions.push({
+        name,
+        brandId: null,
+        weight: citation?.cited
+          ? mentionWeight(citation.position, citation.sentiment)
+          : mentionWeight(null, null),
+      });
+    }
+
+    addMentions(overall, mentions);
+    addMentions(tallyFor(byProvider, row.provider), mentions);
+    addMentions(tallyFor(byCategory, row.run.probe.category), mentions);
+    addMentions(tallyFor(byPeriod, periodKey(row.createdAt, interval)), mentions);
+  }
+
+  const entities = entityVoices(overall);
+
+  return {
+    filter: {
+      brandId: filter.brandId,
+      category: filter.category,
+      provider: filter.provider,
+      days,
+      interval,
+    },
+    resultsAnalyzed: overall.results,
+    truncated,
+    brandShare: brandShare(entities, true),
+    brandMentionShare: brandShare(entities, false),
+    entities,
+    byProvider: breakdown(byProvider),
+    byCategory: breakdown(byCategory),
+    trend: [...byPeriod.entries()].map(([period, tally]) => ({
+      period,
+      results: tally.results,
+      shares: shareMap(entityVoices(tally)),
+    })),
+  };
+}
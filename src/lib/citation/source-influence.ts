@@ -0,0 +1,350 @@
+/**
+ * Source Influence — which third-party domains drive AI answers in a category.
+ *
+ * Tallies every domain cited across stored CitationResults: the structured
+ * CitationSource rows where a provider returned them, and URLs parsed out of
+ * the response text for older rows and providers that return none. For each
+ * domain it compares how often the brand is cited when that domain is a
+ * source against when it is not, which answers "if we get on G2, does
+ * ChatGPT pick us up?".
+ */
+
+import { prisma } from "@/lib/db";
+import {
+  extractUrls,
+  parseCompetitors,
+  toBrandEntity,
+} from "@/lib/citation/detector";
+import type { BrandEntity, Competitor } from "@/lib/citation/detector";
+import {
+  classifySourceDomain,
+  emptyKindCounts,
+  sourceDomain,
+} from "@/lib/citation/sources";
+import type { SourceKind } from "@/lib/citation/sources";
+
+export type TrendInterval = "day" | "week";
+
+// Longest window a report covers, and most results it reads from it
+export const MAX_REPORT_DAYS = 365;
+export const MAX_REPORT_RESULTS = 20_000;
+
+// Response text is read this many rows at a time, and only where needed
+const RESPONSE_BATCH_SIZE = 200;
+
+export interface SourceInfluenceFilter {
+  workspaceId?: string;
+  brandId?: string;
+  category?: string;
+  provider?: string;
+  days?: number;
+  interval?: TrendInterval;
+  limit?: number;
+}
+
+export interface ProviderInfluence {
+  provider: string;
+  results: number; // results from this provider that cited the domain
+  brandCitedRate: number; // % of those results that also cited the brand
+}
+
+export interface DomainInfluence {
+  domain: string;
+  kind: SourceKind;
+  competitor: string | null;
+  results: number; // results that cited the domain at least once
+  share: number; // % of analyzed results
+  brandCitedRate: number; // % of results citing this domain that also cite the brand
+  brandCitedRateWithout: number; // % of the remaining results that cite the brand
+  lift: number; // brandCitedRate - brandCitedRateWithout, in percentage points
+  providers: ProviderInfluence[];
+  categories: Record<string, number>;
+}
+
+export interface SourceTrendPoint {
+  period: string; // YYYY-MM-DD (start of the week for weekly buckets)
+  results: number;
+  kinds: Record<SourceKind, number>;
+}
+
+export interface SourceInfluenceReport {
+  filter: Required<Pick<SourceInfluenceFilter, "days" | "interval">> &
+    Pick<SourceInfluenceFilter, "brandId" | "category" | "provider">;
+  resultsAnalyzed: number;
+  truncated: boolean; // the window held more than MAX_REPORT_RESULTS; the newest were analyzed
+  resultsWithSources: number;
+  brandCitationRate: number;
+  byKind: Record<SourceKind, number>;
+  domains: DomainInfluence[];
+  trend: SourceTrendPoint[];
+}
+
+interface AnalyzedResult {
+  provider: string;
+  category: string;
+  cited: boolean;
+  period: string;
+  domains: Map<string, { kind: SourceKind; competitor: string | null }>;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function rate(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+export function periodKey(date: Date, interval: TrendInterval): string {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  if (interval === "week") {
+    // Weeks start on Monday
+    const offset = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - offset);
+  }
+  return day.toISOString().split("T")[0];
+}
+
+function responseDomains(response: string): string[] {
+  return [
+    ...new Set(
+      extractUrls(response)
+        .map(({ url }) => sourceDomain(url))
+        .filter(Boolean)
+    ),
+  ];
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────
+
+/**
+ * Brand and competitor entities for the brands whose results a report
+ * covers, read once per brand rather than with every result.
+ */
+export async function loadReportEntities(
+  brandIds: string[]
+): Promise<Map<string, { brand: BrandEntity; competitors: Competitor[] }>> {
+  const brands = await prisma.brand.findMany({
+    where: { id: { in: brandIds } },
+    select: {
+      id: true,
+      name: true,
+      domain: true,
+      competitors: true,
+      aliases: true,
+      products: true,
+      handles: true,
+      excludedPhrases: true,
+    },
+  });
+  return new Map(
+    brands.map((brand) => [
+      brand.id,
+      {
+        brand: toBrandEntity(brand),
+        competitors: parseCompetitors(brand.competitors),
+      },
+    ])
+  );
+}
+
+/**
+ * Read the response text of the given results a batch at a time, so a
+ * report never holds more than one batch of full answers in memory.
+ */
+export async function forEachResponse(
+  resultIds: string[],
+  visit: (id: string, response: string) => void
+): Promise<void> {
+  for (let i = 0; i < resultIds.length; i += RESPONSE_BATCH_SIZE) {
+    const batch = await prisma.citationResult.findMany({
+      where: { id: { in: resultIds.slice(i, i + RESPONSE_BATCH_SIZE) } },
+      select: { id: true, response: true },
+    });
+    for (const { id, response } of batch) visit(id, response);
+  }
+}
+
+// ── Report ───────────────────────────────────────────────────────────────
+
+export async function getSourceInfluenceReport(
+  filter: SourceInfluenceFilter = {}
+): Promise<SourceInfluenceReport> {
+  const days = Math.min(filter.days ?? 90, MAX_REPORT_DAYS);
+  const interval = filter.interval ?? "week";
+  const limit = filter.limit ?? 50;
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const rows = await prisma.citationResult.findMany({
+    where: {
+      // Provider failures are stored with model "unknown"
+      model: { not: "unknown" },
+      createdAt: { gte: since },
+      ...(filter.provider ? { provider: filter.provider } : {}),
+      run: {
+        ...(filter.brandId ? { brandId: filter.brandId } : {}),
+        ...(filter.workspaceId
+          ? { brand: { workspaceId: filter.workspaceId } }
+          : {}),
+        ...(filter.category ? { probe: { category: filter.category } } : {}),
+      },
+    },
+    select: {
+      id: true,
+      provider: true,
+      cited: true,
+      createdAt: true,
+      sources: { select: { domain: true } },
+      run: {
+        select: {
+          brandId: true,
+          probe: { select: { category: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_REPORT_RESULTS + 1,
+  });
+  const truncated = rows.length > MAX_REPORT_RESULTS;
+  if (truncated) rows.length = MAX_REPORT_RESULTS;
+  rows.reverse();
+
+  // Own/competitor classification depends on whose probe produced the result
+  const entitiesByBrand = await loadReportEntities([
+    ...new Set(rows.map((row) => row.run.brandId)),
+  ]);
+
+  // Results without structured sources fall back to URLs in their text
+  const parsedDomains = new Map<string, string[]>();
+  await forEachResponse(
+    rows.filter((row) => row.sources.length === 0).map((row) => row.id),
+    (id, response) => parsedDomains.set(id, responseDomains(response))
+  );
+
+  const analyzed: AnalyzedResult[] = rows.map((row) => {
+    // Every result's run belongs to a brand, so its entities were loaded
+    const entities = entitiesByBrand.get(row.run.brandId)!;
+    const resultDomains =
+      row.sources.length > 0
+        ? [...new Set(row.sources.map((s) => s.domain))]
+        : parsedDomains.get(row.id) ?? [];
+
+    const domains = new Map<string, { kind: SourceKind; competitor: string | null }>();
+    for (const domain of resultDomains) {
+      domains.set(
+        domain,
+        classifySourceDomain(domain, entities.brand, entities.competitors)
+      );
+    }
+
+    return {
+      provider: row.provider,
+      category: row.run.probe.category,
+      cited: row.cited,
+      period: periodKey(row.createdAt, interval),
+      domains,
+    };
+  });
+
+  const totalCited = analyzed.filter((r) => r.cited).length;
+  const byKind = emptyKindCounts();
+  const trendMap = new Map<string, SourceTrendPoint>();
+  const domainMap = new Map<
+    string,
+    {
+      kind: SourceKind;
+      competitor: string | null;
+      results: number;
+      cited: number;
+      providers: Map<string, { results: number; cited: number }>;
+      categories: Record<string, number>;
+    }
+  >();
+
+  for (const result of analyzed) {
+    let point = trendMap.get(result.period);
+    if (!point) {
+      point = { period: result.period, results: 0, kinds: emptyKindCounts() };
+      trendMap.set(result.period, point);
+    }
+    point.results++;
+
+    for (const [domain, { kind, competitor }] of result.domains) {
+      byKind[kind]++;
+      point.kinds[kind]++;
+
+      let entry = domainMap.get(domain);
+      if (!entry) {
+        entry = {
+          kind,
+          competitor,
+          results: 0,
+          cited: 0,
+          providers: new Map(),
+          categories: {},
+        };
+        domainMap.set(domain, entry);
+      }
+      entry.results++;
+      if (result.cited) entry.cited++;
+      entry.categories[result.category] =
+        (entry.categories[result.category] ?? 0) + 1;
+
+      const provider = entry.providers.get(result.provider) ?? {
+        results: 0,
+        cited: 0,
+      };
+      provider.results++;
+      if (result.cited) provider.cited++;
+      entry.providers.set(result.provider, provider);
+    }
+  }
+
+  const domains: DomainInfluence[] = [...domainMap.entries()]
+    .map(([domain, entry]) => {
+      const brandCitedRate = rate(entry.cited, entry.results);
+      const brandCitedRateWithout = rate(
+        totalCited - entry.cited,
+        analyzed.length - entry.results
+      );
+      return {
+        domain,
+        kind: entry.kind,
+        competitor: entry.competitor,
+        results: entry.results,
+        share: rate(entry.results, analyzed.length),
+        brandCitedRate,
+        brandCitedRateWithout,
+        lift: Math.round((brandCitedRate - brandCitedRateWithout) * 10) / 10,
+        providers: [...entry.providers.entries()]
+          .map(([provider, stats]) => ({
+            provider,
+            results: stats.results,
+            brandCitedRate: rate(stats.cited, stats.results),
+          }))
+          .sort((a, b) => b.results - a.results),
+        categories: entry.categories,
+      };
+    })
+    .sort((a, b) => b.results - a.results || b.lift - a.lift)
+    .slice(0, limit);
+
+  return {
+    filter: {
+      brandId: filter.brandId,
+      category: filter.category,
+      provider: filter.provider,
+      days,
+      interval,
+    },
+    resultsAnalyzed: analyzed.length,
+    truncated,
+    resultsWithSources: analyzed.filter((r) => r.domains.size > 0).length,
+    brandCitationRate: rate(totalCited, analyzed.length),
+    byKind,
+    domains,
+    trend: [...trendMap.values()],
+  };
+}
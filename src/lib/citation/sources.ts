@@ -0,0 +1,260 @@
+import { prisma } from "@/lib/db";
+import type { LLMSource } from "@/lib/llm";
+import {
+  normalizeDomain,
+  parseCompetitors,
+  toBrandEntity,
+} from "@/lib/citation/detector";
+import type { BrandEntity, Competitor } from "@/lib/citation/detector";
+
+export type SourceKind =
+  | "own"
+  | "competitor"
+  | "review-site"
+  | "forum"
+  | "news"
+  | "wiki"
+  | "third-party";
+
+export const SOURCE_KINDS: SourceKind[] = [
+  "own",
+  "competitor",
+  "review-site",
+  "forum",
+  "news",
+  "wiki",
+  "third-party",
+];
+
+export interface CitedDomain {
+  domain: string;
+  kind: SourceKind;
+  competitor: string | null; // competitor name when kind is "competitor"
+  citations: number; // how many results cited a page on this domain
+  providers: string[];
+  avgRank: number;
+  urls: string[];
+}
+
+export interface CitedDomainsReport {
+  probeId: string;
+  query: string;
+  brandName: string;
+  resultsAnalyzed: number;
+  resultsWithSources: number;
+  byKind: Record<SourceKind, number>;
+  domains: CitedDomain[];
+}
+
+// Review and comparison sites that AI engines lean on for "best X" answers
+export const REVIEW_SITE_DOMAINS = [
+  "g2.com",
+  "capterra.com",
+  "trustradius.com",
+  "getapp.com",
+  "softwareadvice.com",
+  "trustpilot.com",
+  "gartner.com",
+  "producthunt.com",
+  "sourceforge.net",
+  "alternativeto.net",
+  "saasworthy.com",
+  "crozdesk.com",
+  "slashdot.org",
+  "clutch.co",
+  "pcmag.com",
+  "techradar.com",
+  "zapier.com",
+];
+
+export const FORUM_DOMAINS = [
+  "reddit.com",
+  "quora.com",
+  "news.ycombinator.com",
+  "stackoverflow.com",
+  "stackexchange.com",
+  "discord.com",
+  "medium.com",
+  "dev.to",
+  "indiehackers.com",
+];
+
+export const NEWS_DOMAINS = [
+  "techcrunch.com",
+  "forbes.com",
+  "theverge.com",
+  "wired.com",
+  "venturebeat.com",
+  "zdnet.com",
+  "cnbc.com",
+  "businessinsider.com",
+  "reuters.com",
+  "bloomberg.com",
+  "nytimes.com",
+  "wsj.com",
+  "theguardian.com",
+  "bbc.co.uk",
+  "bbc.com",
+];
+
+export const WIKI_DOMAINS = ["wikipedia.org", "wikidata.org", "fandom.com"];
+
+// Known third-party sites, by kind
+const KIND_DOMAIN_LISTS: Array<[SourceKind, string[]]> = [
+  ["forum", FORUM_DOMAINS],
+  ["review-site", REVIEW_SITE_DOMAINS],
+  ["news", NEWS_DOMAINS],
+  ["wiki", WIKI_DOMAINS],
+];
+
+const MAX_URLS_PER_DOMAIN = 5;
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function domainMatches(host: string, domain: string): boolean {
+  return domain !== "" && (host === domain || host.endsWith(`.${domain}`));
+}
+
+export function sourceDomain(url: string): string {
+  try {
+    return normalizeDomain(new URL(url).hostname);
+  } catch {
+    return normalizeDomain(url);
+  }
+}
+
+/**
+ * Decide whose page a cited domain is: the brand's own site, a competitor's,
+ * a known review site, forum, news outlet or wiki, or some other third party.
+ */
+export function classifySourceDomain(
+  domain: string,
+  brand: BrandEntity,
+  competitors: Competitor[]
+): { kind: SourceKind; competitor: string | null } {
+  if (domainMatches(domain, normalizeDomain(brand.domain))) {
+    return { kind: "own", competitor: null };
+  }
+  const competitor = competitors.find((c) =>
+    domainMatches(domain, normalizeDomain(c.domain))
+  );
+  if (competitor) {
+    return { kind: "competitor", competitor: competitor.name };
+  }
+  for (const [kind, sites] of KIND_DOMAIN_LISTS) {
+    if (sites.some((site) => domainMatches(domain, site))) {
+      return { kind, competitor: null };
+    }
+  }
+  return { kind: "third-party", competitor: null };
+}
+
+/**
+ * Nested-create payload for persisting a response's sources with its
+ * CitationResult.
+ */
+export function toSourceRecords(sources: LLMSource[] = []) {
+  return sources.map((source) => ({
+    url: source.url,
+    domain: sourceDomain(source.url),
+    title: source.title,
+    snippet: source.snippet,
+    rank: source.rank,
+  }));
+}
+
+export function emptyKindCounts(): Record<SourceKind, number> {
+  return Object.fromEntries(SOURCE_KINDS.map((kind) => [kind, 0])) as Record<
+    SourceKind,
+    number
+  >;
+}
+
+// ── Report ───────────────────────────────────────────────────────────────
+
+/**
+ * Which domains the engines cited when answering a probe, across its most
+ * recent runs. Each domain counts once per result, however many of its pages
+ * were cited.
+ */
+export async function getCitedDomainsReport(
+  probeId: string,
+  options?: { runs?: number }
+): Promise<CitedDomainsReport> {
+  const probe = await prisma.probe.findUnique({
+    where: { id: probeId },
+    include: {
+      brand: true,
+      citationRuns: {
+        orderBy: { startedAt: "desc" },
+        take: options?.runs ?? 10,
+        include: {
+          results: {
+            where: { model: { not: "unknown" } },
+            include: { sources: { orderBy: { rank: "asc" } } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!probe) {
+    throw new Error(`Probe not found: ${probeId}`);
+  }
+
+  const brand = toBrandEntity(probe.brand);
+  const competitors = parseCompetitors(probe.brand.competitors);
+  const results = probe.citationRuns.flatMap((run) => run.results);
+
+  const byDomain = new Map<
+    string,
+    { citations: number; providers: Set<string>; rankSum: number; urls: Set<string> }
+  >();
+
+  for (const result of results) {
+    const seenInResult = new Set<string>();
+    for (const source of result.sources) {
+      let entry = byDomain.get(source.domain);
+      if (!entry) {
+        entry = { citations: 0, providers: new Set(), rankSum: 0, urls: new Set() };
+        byDomain.set(source.domain, entry);
+      }
+      if (entry.urls.size < MAX_URLS_PER_DOMAIN) entry.urls.add(source.url);
+      if (seenInResult.has(source.domain)) continue;
+
+      // Best-ranked page of the domain in this result
+      seenInResult.add(source.domain);
+      entry.citations++;
+      entry.rankSum += source.rank;
+      entry.providers.add(result.provider);
+    }
+  }
+
+  const byKind = emptyKindCounts();
+
+  const domains: CitedDomain[] = [...byDomain.entries()]
+    .map(([domain, entry]) => {
+      const { kind, competitor } = classifySourceDomain(domain, brand, competitors);
+      byKind[kind] += entry.citations;
+      return {
+        domain,
+        kind,
+        competitor,
+        citations: entry.citations,
+        providers: [...entry.providers].sort(),
+        avgRank: Math.round((entry.rankSum / entry.citations) * 10) / 10,
+        urls: [...entry.urls],
+      };
+    })
+    .sort((a, b) => b.citations - a.citations || a.avgRank - b.avgRank);
+
+  return {
+    probeId: probe.id,
+    query: probe.query,
+    brandName: probe.brand.name,
+    resultsAnalyzed: results.length,
+    resultsWithSources: results.filter((r) => r.sources.length > 0).length,
+    byKind,
+    domains,
+  };
+}
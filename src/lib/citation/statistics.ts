@@ -0,0 +1,315 @@
+/**
+ * Citation Statistics — confidence intervals, significance tests and sample
+ * size planning for citation rates.
+ *
+ * A citation rate is a proportion over a small number of non-deterministic
+ * LLM responses. These helpers say how much it could move by chance alone:
+ * Wilson score intervals for a single rate, Fisher's exact test (small
+ * samples) or a two-proportion z-test for a change between two periods, and
+ * the number of responses needed before a given lift becomes detectable.
+ *
+ * Rates are expressed in percent (0-100) like everywhere else in the app.
+ */
+
+export interface RateCounts {
+  successes: number; // responses that cited the entity
+  trials: number; // responses analyzed
+}
+
+export interface RateEstimate extends RateCounts {
+  rate: number; // %
+  lower: number; // % — lower bound of the confidence interval
+  upper: number; // %
+  confidence: number; // e.g. 0.95
+}
+
+export interface RateComparison {
+  baseline: RateEstimate;
+  current: RateEstimate;
+  difference: number; // current - baseline, in percentage points
+  pValue: number; // two-sided
+  significant: boolean;
+  test: "fisher-exact" | "z-test";
+}
+
+export interface SampleSizePlanInput {
+  baselineRate: number; // %
+  minDetectableLift: number; // percentage points, positive or negative
+  alpha?: number; // two-sided significance level
+  power?: number;
+  probes?: number; // probe x provider pairs per run, when planning runs
+  providers?: number;
+  samplesPerPair?: number;
+}
+
+export interface SampleSizePlan {
+  baselineRate: number;
+  targetRate: number;
+  alpha: number;
+  power: number;
+  samplesPerPeriod: number; // responses needed in each period being compared
+  resultsPerRun: number | null; // probes x providers x samplesPerPair
+  runsPerPeriod: number | null;
+}
+
+export const DEFAULT_CONFIDENCE = 0.95;
+export const DEFAULT_ALPHA = 0.05;
+export const DEFAULT_POWER = 0.8;
+
+// Below this expected cell count the normal approximation is unreliable
+const MIN_EXPECTED_FOR_Z_TEST = 5;
+
+// ── Distributions ────────────────────────────────────────────────────────
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7). */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t *
+    (0.254829592 +
+      t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation). */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`Probability must be between 0 and 1 exclusive, got ${p}`);
+  }
+
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// ── Intervals ────────────────────────────────────────────────────────────
+
+/**
+ * Wilson score interval for a proportion, as fractions (0-1). Unlike the
+ * normal interval it stays inside [0, 1] and behaves at 0/n and n/n.
+ */
+export function wilsonInterval(
+  successes: number,
+  trials: number,
+  confidence: number = DEFAULT_CONFIDENCE
+): { lower: number; upper: number } {
+  if (trials <= 0) return { lower: 0, upper: 1 };
+
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const halfWidth =
+    (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) /
+    denominator;
+
+  return {
+    lower: Math.max(0, center - halfWidth),
+    upper: Math.min(1, center + halfWidth),
+  };
+}
+
+/**
+ * A citation rate with its Wilson confidence interval, in percent.
+ */
+export function estimateRate(
+  successes: number,
+  trials: number,
+  confidence: number = DEFAULT_CONFIDENCE
+): RateEstimate {
+  const { lower, upper } = wilsonInterval(successes, trials, confidence);
+  return {
+    successes,
+    trials,
+    rate: trials > 0 ? round1((successes / trials) * 100) : 0,
+    lower: round1(lower * 100),
+    upper: round1(upper * 100),
+    confidence,
+  };
+}
+
+// ── Significance tests ───────────────────────────────────────────────────
+
+/**
+ * Two-sided Fisher's exact test on the 2x2 table of cited / not cited
+ * responses in two samples.
+ */
+export function fisherExactTest(a: RateCounts, b: RateCounts): number {
+  const row1 = a.trials;
+  const row2 = b.trials;
+  const col1 = a.successes + b.successes;
+  const total = row1 + row2;
+  if (row1 === 0 || row2 === 0 || col1 === 0 || col1 === total) return 1;
+
+  const logFacts = new Float64Array(total + 1);
+  for (let i = 2; i <= total; i++) logFacts[i] = logFacts[i - 1] + Math.log(i);
+
+  const logFixed =
+    logFacts[row1] + logFacts[row2] + logFacts[col1] + logFacts[total - col1] - logFacts[total];
+  const probability = (x: number) =>
+    Math.exp(
+      logFixed -
+        logFacts[x] -
+        logFacts[row1 - x] -
+        logFacts[col1 - x] -
+        logFacts[row2 - col1 + x]
+    );
+
+  const observed = probability(a.successes);
+  const min = Math.max(0, col1 - row2);
+  const max = Math.min(row1, col1);
+
+  let pValue = 0;
+  for (let x = min; x <= max; x++) {
+    const p = probability(x);
+    // Relative tolerance so tables as likely as the observed one are included
+    if (p <= observed * (1 + 1e-7)) pValue += p;
+  }
+  return Math.min(1, pValue);
+}
+
+/**
+ * Two-sided pooled two-proportion z-test.
+ */
+export function twoProportionZTest(a: RateCounts, b: RateCounts): number {
+  if (a.trials === 0 || b.trials === 0) return 1;
+
+  const pooled = (a.successes + b.successes) / (a.trials + b.trials);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.trials + 1 / b.trials));
+  if (se === 0) return 1;
+
+  const z = (b.successes / b.trials - a.successes / a.trials) / se;
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+/**
+ * Is the change from `baseline` to `current` more than sampling noise?
+ * Uses Fisher's exact test when any expected cell count is small, which is
+ * the usual case for per-probe comparisons, and a z-test otherwise.
+ */
+export function compareRates(
+  baseline: RateCounts,
+  current: RateCounts,
+  options?: { alpha?: number; confidence?: number }
+): RateComparison {
+  const alpha = options?.alpha ?? DEFAULT_ALPHA;
+  const confidence = options?.confidence ?? DEFAULT_CONFIDENCE;
+
+  const total = baseline.trials + current.trials;
+  const cited = baseline.successes + current.successes;
+  const expectedCells =
+    total > 0
+      ? [baseline.trials, current.trials].flatMap((n) => [
+          (n * cited) / total,
+          (n * (total - cited)) / total,
+        ])
+      : [0];
+  const small = expectedCells.some((e) => e < MIN_EXPECTED_FOR_Z_TEST);
+
+  const pValue = small
+    ? fisherExactTest(baseline, current)
+    : twoProportionZTest(baseline, current);
+
+  const baselineEstimate = estimateRate(baseline.successes, baseline.trials, confidence);
+  const currentEstimate = estimateRate(current.successes, current.trials, confidence);
+  const rawDifference =
+    (current.trials > 0 ? current.successes / current.trials : 0) -
+    (baseline.trials > 0 ? baseline.successes / baseline.trials : 0);
+
+  return {
+    baseline: baselineEstimate,
+    current: currentEstimate,
+    difference: round1(rawDifference * 100),
+    pValue: Math.round(pValue * 10000) / 10000,
+    significant: baseline.trials > 0 && current.trials > 0 && pValue < alpha,
+    test: small ? "fisher-exact" : "z-test",
+  };
+}
+
+// ── Planning ─────────────────────────────────────────────────────────────
+
+/**
+ * Responses needed in each of two periods to detect a change of
+ * `minDetectableLift` points from `baselineRate` with the given power, using
+ * the normal approximation for a two-sided two-proportion test. With probe,
+ * provider and sample counts it also converts that into runs per period.
+ */
+export function planSampleSize(input: SampleSizePlanInput): SampleSizePlan {
+  const alpha = input.alpha ?? DEFAULT_ALPHA;
+  const power = input.power ?? DEFAULT_POWER;
+
+  if (input.baselineRate < 0 || input.baselineRate > 100) {
+    throw new Error("baselineRate must be between 0 and 100");
+  }
+  if (input.minDetectableLift === 0) {
+    throw new Error("minDetectableLift must be non-zero");
+  }
+
+  const p1 = input.baselineRate / 100;
+  const p2 = Math.min(1, Math.max(0, p1 + input.minDetectableLift / 100));
+  if (p1 === p2) {
+    throw new Error("minDetectableLift moves the rate outside 0-100%");
+  }
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
+  const pBar = (p1 + p2) / 2;
+  const numerator =
+    zAlpha * Math.sqrt(2 * pBar * (1 - pBar)) +
+    zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+  const samplesPerPeriod = Math.ceil((numerator * numerator) / ((p2 - p1) * (p2 - p1)));
+
+  const resultsPerRun =
+    input.probes && input.providers
+      ? input.probes * input.providers * (input.samplesPerPair ?? 1)
+      : null;
+
+  return {
+    baselineRate: input.baselineRate,
+    targetRate: round1(p2 * 100),
+    alpha,
+    power,
+    samplesPerPeriod,
+    resultsPerRun,
+    runsPerPeriod: resultsPerRun ? Math.ceil(samplesPerPeriod / resultsPerRun) : null,
+  };
+}
@@ -1,6 +1,7 @@
 import { queryLLM } from "@/lib/llm";
-import type { LLMProvider } from "@/lib/llm";
+import type { ProviderName } from "@/lib/llm";
 import type { CompetitiveAnalysis } from "@/lib/citation/competitive";
+import type { ProbeCategory } from "@/lib/citation/prompt-builder";
 
 export interface ContentBrief {
   title: string;
@@ -38,7 +39,7 @@ interface ContentBriefLLMResponse {
 
 const VALID_SCHEMA_TYPES = new Set<string>(["Article", "FAQPage", "HowTo"]);
 
-function getModelForProvider(provider: LLMProvider): string {
+function getModelForProvider(provider: ProviderName): string {
   switch (provider) {
     case "openai":
       return "gpt-4o";
@@ -236,13 +237,25 @@ function validateBriefResponse(parsed: Record<string, unknown>): ContentBriefLLM
   };
 }
 
+// Queries the competitive analysis behind a brief on `topic` probes
+export function briefProbeQueries(
+  topic: string
+): Array<{ query: string; category: ProbeCategory }> {
+  return [
+    { query: `best ${topic}`, category: "best-of" },
+    { query: `${topic} vs alternatives comparison`, category: "comparison" },
+    { query: `recommended ${topic} solutions`, category: "recommendation" },
+    { query: `how to choose ${topic}`, category: "how-to" },
+  ];
+}
+
 export async function generateContentBrief(
   brandName: string,
   brandDomain: string,
   topic: string,
   competitiveAnalysis: CompetitiveAnalysis,
   keywords: string[],
-  provider?: LLMProvider
+  provider?: ProviderName
 ): Promise<ContentBrief> {
   const activeProvider = provider ?? "openai";
   const model = getModelForProvider(activeProvider);
@@ -1,5 +1,5 @@
 import { queryLLM } from "@/lib/llm";
-import type { LLMProvider } from "@/lib/llm";
+import type { ProviderName } from "@/lib/llm";
 import {
   generateArticleSchema,
   generateFAQSchema,
@@ -41,7 +41,7 @@ interface StageResult {
   cost: number;
 }
 
-function getModelForProvider(provider: LLMProvider): string {
+function getModelForProvider(provider: ProviderName): string {
   switch (provider) {
     case "openai":
       return "gpt-4o";
@@ -54,7 +54,7 @@ function getModelForProvider(provider: LLMProvider): string {
 
 async function stageResearch(
   request: ContentRequest,
-  provider: LLMProvider,
+  provider: ProviderName,
   model: string
 ): Promise<StageResult> {
   const systemPrompt = "You are an AEO content strategist.";
@@ -88,7 +88,7 @@ Format your response as structured markdown with clear sections.`;
 async function stageDraft(
   request: ContentRequest,
   researchOutput: string,
-  provider: LLMProvider,
+  provider: ProviderName,
   model: string
 ): Promise<StageResult> {
   const systemPrompt =
@@ -136,7 +136,7 @@ Return ONLY the markdown content. Start with a # title.`;
 async function stageSchema(
   request: ContentRequest,
   draft: string,
-  provider: LLMProvider,
+  provider: ProviderName,
   model: string
 ): Promise<StageResult> {
   let schemaMarkup: string;
@@ -304,7 +304,7 @@ function calculateAEOScore(
 
 export async function generateContent(
   request: ContentRequest,
-  provider: LLMProvider = "openai"
+  provider: ProviderName = "openai"
 ): Promise<GeneratedContent> {
   const model = getModelForProvider(provider);
 
@@ -346,7 +346,7 @@ export async function generateContent(
  */
 export async function generateAuthorityContent(
   request: ContentRequest,
-  provider: LLMProvider = "openai"
+  provider: ProviderName = "openai"
 ): Promise<GeneratedContent> {
   const model = getModelForProvider(provider);
 
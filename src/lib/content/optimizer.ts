@@ -1,5 +1,5 @@
 import { queryLLM } from "@/lib/llm";
-import type { LLMProvider } from "@/lib/llm";
+import type { ProviderName } from "@/lib/llm";
 
 export interface OptimizationRequest {
   content: string;
@@ -43,7 +43,7 @@ interface SectionBlock {
   content: string;
 }
 
-function getModelForProvider(provider: LLMProvider): string {
+function getModelForProvider(provider: ProviderName): string {
   switch (provider) {
     case "openai":
       return "gpt-4o";
@@ -233,7 +233,7 @@ function buildCompetitorSection(competitors: CompetitorInsight[]): string {
 
 export async function optimizeContent(
   request: OptimizationRequest,
-  provider: LLMProvider = "openai"
+  provider: ProviderName = "openai"
 ): Promise<OptimizationResult> {
   const model = getModelForProvider(provider);
 
@@ -0,0 +1,63 @@
+/**
+ * Detection Aliases — feeds knowledge-graph aliases back into citation detection.
+ *
+ * Aliases declared or merged in the graph ("HubSpot CRM" → "HubSpot") are
+ * loaded before each detection pass so raw responses that only use a variant
+ * still count as a citation of the canonical entity.
+ */
+
+import { currentWorkspaceId } from "@/lib/auth/context";
+import { getKnowledgeGraph } from "./knowledge-graph";
+import type { BrandEntity, Competitor } from "@/lib/citation/detector";
+
+export interface DetectionAliases {
+  brand: BrandEntity;
+  competitors: Competitor[];
+}
+
+function mergeAliases(
+  entity: BrandEntity,
+  graphAliases: string[]
+): BrandEntity {
+  const configured = entity.aliases ?? [];
+  const seen = new Set(configured.map((alias) => alias.toLowerCase()));
+  return {
+    ...entity,
+    aliases: [
+      ...configured,
+      ...graphAliases.filter((alias) => !seen.has(alias.toLowerCase())),
+    ],
+  };
+}
+
+/**
+ * Add graph aliases to a brand and its competitors, on top of any aliases
+ * configured on the Brand row. Aliases come from the brand's workspace
+ * graph, the current workspace's by default. The graph is an enhancement,
+ * so when it is unavailable detection falls back to the configured surface
+ * forms.
+ */
+export async function loadDetectionAliases(
+  brand: BrandEntity,
+  competitors: Competitor[],
+  workspaceId: string | null = currentWorkspaceId()
+): Promise<DetectionAliases> {
+  if (!workspaceId) return { brand, competitors };
+
+  try {
+    const graph = getKnowledgeGraph(workspaceId);
+    const withAliases: Competitor[] = [];
+    for (const competitor of competitors) {
+      withAliases.push(
+        mergeAliases(competitor, await graph.getAliasNames(competitor.name))
+      );
+    }
+    return {
+      brand: mergeAliases(brand, await graph.getAliasNames(brand.name)),
+      competitors: withAliases,
+    };
+  } catch (error) {
+    console.error("Failed to load graph aliases for detection:", error);
+    return { brand, competitors };
+  }
+}
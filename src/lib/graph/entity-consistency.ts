@@ -14,7 +14,7 @@
  * Uses the KuzuDB knowledge graph to aggregate entity mentions from probe results.
  */
 
-import { getKnowledgeGraph } from "./knowledge-graph";
+import { getWorkspaceGraph } from "./knowledge-graph";
 import { queryLLM } from "@/lib/llm";
 
 // ─── Types ───
@@ -78,7 +78,7 @@ export interface CategoryConsistency {
 async function detectNamingVariations(
   brandName: string
 ): Promise<BrandNameAnalysis> {
-  const graph = getKnowledgeGraph();
+  const graph = getWorkspaceGraph();
 
   // Get all variants from the knowledge graph
   const variants = await graph.getEntityVariants(brandName);
@@ -387,7 +387,7 @@ export async function quickConsistencyScore(brandName: string): Promise<{
   variationCount: number;
   topVariation: string;
 }> {
-  const graph = getKnowledgeGraph();
+  const graph = getWorkspaceGraph();
   const variants = await graph.getEntityVariants(brandName);
 
   if (variants.length === 0) {
@@ -1,11 +1,23 @@
 export {
   KnowledgeGraph,
   getKnowledgeGraph,
+  getWorkspaceGraph,
   type EntityNode,
   type CitationEvent,
   type CitationPath,
   type EntityResolution,
   type CitationTrajectory,
+  type ManagedEntity,
+  type EntityWithAliases,
+  type QueryCoverage,
 } from "./knowledge-graph";
 
-export { ingestCitationResult, ingestCompetitiveAnalysis } from "./ingest";
+export {
+  ingestCitationResult,
+  ingestCompetitiveAnalysis,
+  ingestStoredCitationResult,
+  backfillCitationResults,
+  claimUnscopedGraph,
+} from "./ingest";
+
+export { loadDetectionAliases, type DetectionAliases } from "./aliases";
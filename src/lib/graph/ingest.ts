@@ -8,10 +8,24 @@
  *   Probe → Detect → Ingest → Graph → Analyze → Optimize → Re-probe
  */
 
-import { getKnowledgeGraph } from "./knowledge-graph";
-import type { CitationAnalysis } from "@/lib/citation/detector";
+import { prisma } from "@/lib/db";
+import { slugify } from "@/lib/utils";
+import { getKnowledgeGraph, getWorkspaceGraph } from "./knowledge-graph";
+import { loadDetectionAliases } from "./aliases";
+import type { DetectionAliases } from "./aliases";
+import {
+  detectCompetitorCitations,
+  parseCompetitors,
+  toBrandEntity,
+} from "@/lib/citation/detector";
+import type {
+  BrandEntity,
+  CitationAnalysis,
+  Competitor,
+} from "@/lib/citation/detector";
 
 interface CitationResultInput {
+  workspaceId: string; // the brand's; its graph receives the citations
   brandName: string;
   brandDomain: string;
   provider: string;
@@ -23,19 +37,57 @@ interface CitationResultInput {
     domain: string;
     citation: CitationAnalysis;
   }>;
+  // Stable id of the source record (e.g. CitationResult.id). Replaying the
+  // same key is a no-op, so backfills never double-count.
+  idempotencyKey?: string;
+  timestamp?: Date;
+}
+
+export interface StoredCitationResultInput {
+  id: string;
+  provider: string;
+  response: string;
+  cited: boolean;
+  citationType: string | null;
+  sentiment: string | null;
+  position: number | null;
+  competitorsMentioned: string | null;
+  confidence: number;
+  matchedSurfaceForm: string | null;
+  createdAt: Date;
+}
+
+export interface BackfillResult {
+  scanned: number;
+  ingested: number;
+  skipped: number;
+  failed: number;
+  errors: Array<{ resultId: string; error: string }>;
+}
+
+function entityKey(idempotencyKey: string | undefined, entityName: string) {
+  if (!idempotencyKey) return undefined;
+  // Names without ASCII letters or digits slugify to "", which would collide
+  const suffix = slugify(entityName) || encodeURIComponent(entityName.toLowerCase().trim());
+  return `${idempotencyKey}-${suffix}`;
 }
 
 /**
  * Ingest a single citation result into the knowledge graph.
  * Called after each probe execution completes.
+ * Returns false if the result was already ingested under its idempotency key.
+ *
+ * Each entity's citation is keyed on its own, and competitive edges are
+ * merged, so replaying a result that failed part-way writes what is missing.
  */
 export async function ingestCitationResult(
   result: CitationResultInput
-): Promise<void> {
-  const graph = getKnowledgeGraph();
+): Promise<boolean> {
+  const graph = getKnowledgeGraph(result.workspaceId);
+  const timestamp = result.timestamp?.toISOString();
 
   // Record brand citation
-  await graph.recordCitation({
+  const recorded = await graph.recordCitation({
     entityName: result.brandName,
     entityType: "brand",
     entityDomain: result.brandDomain,
@@ -46,11 +98,16 @@ export async function ingestCitationResult(
     sentiment: result.citation.sentiment ?? "neutral",
     position: result.citation.position ?? 0,
     confidence: result.citation.confidence,
+    idempotencyKey: entityKey(result.idempotencyKey, result.brandName),
+    timestamp,
+    mentionedAs: result.citation.matchedSurfaceForm,
   });
 
+  let recordedAny = recorded;
+
   // Record competitor citations
   for (const competitor of result.competitorsCited) {
-    await graph.recordCitation({
+    const competitorRecorded = await graph.recordCitation({
       entityName: competitor.name,
       entityType: "brand",
       entityDomain: competitor.domain,
@@ -61,7 +118,11 @@ export async function ingestCitationResult(
       sentiment: competitor.citation.sentiment ?? "neutral",
       position: competitor.citation.position ?? 0,
       confidence: competitor.citation.confidence,
+      idempotencyKey: entityKey(result.idempotencyKey, competitor.name),
+      timestamp,
+      mentionedAs: competitor.citation.matchedSurfaceForm,
     });
+    recordedAny ||= competitorRecorded;
 
     // Record competitive relationship
     if (competitor.citation.cited || result.citation.cited) {
@@ -72,10 +133,191 @@ export async function ingestCitationResult(
       );
     }
   }
+
+  return recordedAny;
+}
+
+/**
+ * Ingest a persisted CitationResult row. The brand's citation comes from the
+ * stored columns; competitor citations are re-detected from the response text.
+ * Keyed on the row id, so it is safe to call for rows already in the graph.
+ */
+export async function ingestStoredCitationResult(
+  result: StoredCitationResultInput,
+  context: {
+    workspaceId: string | null; // the brand's
+    brand: BrandEntity;
+    competitors: Competitor[];
+    query: string;
+    queryCategory: string;
+  }
+): Promise<boolean> {
+  if (!context.workspaceId) {
+    throw new Error(`Brand ${context.brand.name} belongs to no workspace`);
+  }
+
+  let competitorsMentioned: string[] = [];
+  if (result.competitorsMentioned) {
+    try {
+      competitorsMentioned = JSON.parse(result.competitorsMentioned);
+    } catch {
+      competitorsMentioned = [];
+    }
+  }
+
+  const competitorCitations = detectCompetitorCitations(
+    result.response,
+    context.brand,
+    context.competitors
+  );
+
+  return ingestCitationResult({
+    workspaceId: context.workspaceId,
+    brandName: context.brand.name,
+    brandDomain: context.brand.domain,
+    provider: result.provider,
+    query: context.query,
+    queryCategory: context.queryCategory,
+    citation: {
+      cited: result.cited,
+      citationType: result.citationType as CitationAnalysis["citationType"],
+      sentiment: result.sentiment as CitationAnalysis["sentiment"],
+      position: result.position,
+      competitorsMentioned,
+      confidence: result.confidence,
+      matchedSurfaceForm: result.matchedSurfaceForm,
+    },
+    competitorsCited: context.competitors.flatMap((competitor) => {
+      const citation = competitorCitations.get(competitor.name);
+      return citation
+        ? [{ name: competitor.name, domain: competitor.domain, citation }]
+        : [];
+    }),
+    idempotencyKey: result.id,
+    timestamp: result.createdAt,
+  });
+}
+
+/**
+ * Replay historical CitationResult rows into the graph, oldest first.
+ * Rows already ingested are skipped, so the backfill can be re-run safely.
+ * With a workspaceId only that workspace's brands are replayed.
+ */
+export async function backfillCitationResults(options?: {
+  workspaceId?: string;
+  brandId?: string;
+  since?: Date;
+  batchSize?: number;
+}): Promise<BackfillResult> {
+  const batchSize = options?.batchSize ?? 200;
+  const summary: BackfillResult = {
+    scanned: 0,
+    ingested: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  let cursor: string | undefined;
+  const aliasesByBrand = new Map<string, DetectionAliases>();
+
+  for (;;) {
+    const rows = await prisma.citationResult.findMany({
+      where: {
+        // Provider failures from the probe route are stored with model "unknown"
+        model: { not: "unknown" },
+        ...(options?.since ? { createdAt: { gte: options.since } } : {}),
+        run: {
+          ...(options?.brandId ? { brandId: options.brandId } : {}),
+          ...(options?.workspaceId ? { brand: { workspaceId: options.workspaceId } } : {}),
+        },
+      },
+      include: {
+        run: {
+          select: {
+            probe: { select: { query: true, category: true } },
+            brand: {
+              select: {
+                name: true,
+                domain: true,
+                competitors: true,
+                aliases: true,
+                products: true,
+                handles: true,
+                excludedPhrases: true,
+                workspaceId: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      summary.scanned++;
+      try {
+        const brand = row.run.brand;
+        const aliasKey = `${brand.workspaceId}:${brand.name}`;
+        if (!aliasesByBrand.has(aliasKey)) {
+          aliasesByBrand.set(
+            aliasKey,
+            await loadDetectionAliases(
+              toBrandEntity(brand),
+              parseCompetitors(brand.competitors),
+              brand.workspaceId
+            )
+          );
+        }
+        const detection = aliasesByBrand.get(aliasKey)!;
+
+        const recorded = await ingestStoredCitationResult(row, {
+          workspaceId: brand.workspaceId,
+          brand: detection.brand,
+          competitors: detection.competitors,
+          query: row.run.probe.query,
+          queryCategory: row.run.probe.category,
+        });
+        if (recorded) {
+          summary.ingested++;
+        } else {
+          summary.skipped++;
+        }
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push({
+          resultId: row.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+  }
+
+  return summary;
 }
 
 /**
- * Ingest a full competitive analysis into the graph.
+ * Hand graph nodes written before the graph was split by workspace to the
+ * first workspace, as createWorkspace does with legacy brands. Run at boot;
+ * a no-op once claimed or while no workspace exists.
+ */
+export async function claimUnscopedGraph(): Promise<number> {
+  const first = await prisma.workspace.findFirst({
+    orderBy: { createdAt: "asc" },
+    select: { id: true },
+  });
+  if (!first) return 0;
+  return getKnowledgeGraph(first.id).claimUnscoped();
+}
+
+/**
+ * Ingest a full competitive analysis into the current workspace's graph.
  * Called after runCompetitiveAnalysis completes.
  */
 export async function ingestCompetitiveAnalysis(
@@ -88,11 +330,16 @@ export async function ingestCompetitiveAnalysis(
     provider: string;
     brandCitation: CitationAnalysis;
     competitorCitations: Map<string, CitationAnalysis>;
-  }>
+  }>,
+  options?: { analysisId?: string }
 ): Promise<void> {
-  const graph = getKnowledgeGraph();
+  const graph = getWorkspaceGraph();
+
+  for (const [index, result] of probeResults.entries()) {
+    const resultKey = options?.analysisId
+      ? `${options.analysisId}-${index}`
+      : undefined;
 
-  for (const result of probeResults) {
     // Ingest brand citation
     await graph.recordCitation({
       entityName: brandName,
@@ -105,9 +352,11 @@ export async function ingestCompetitiveAnalysis(
       sentiment: result.brandCitation.sentiment ?? "neutral",
       position: result.brandCitation.position ?? 0,
       confidence: result.brandCitation.confidence,
+      idempotencyKey: entityKey(resultKey, brandName),
+      mentionedAs: result.brandCitation.matchedSurfaceForm,
     });
 
-    // Ingest each competitor
+    // Ingest each competitor, even when the brand was recorded by an earlier attempt
     for (const competitor of competitors) {
       const citation = result.competitorCitations.get(competitor.name);
       if (!citation) continue;
@@ -123,6 +372,8 @@ export async function ingestCompetitiveAnalysis(
         sentiment: citation.sentiment ?? "neutral",
         position: citation.position ?? 0,
         confidence: citation.confidence,
+        idempotencyKey: entityKey(resultKey, competitor.name),
+        mentionedAs: citation.matchedSurfaceForm,
       });
 
       await graph.recordCompetition(brandName, competitor.name, result.category);
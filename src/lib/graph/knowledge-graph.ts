@@ -5,18 +5,28 @@
  * 1. Entity Resolution: "Salesforce CRM" and "Salesforce Sales Cloud" → same node
  * 2. Citation Path Analysis: Content → citedIn → Response → fromProvider → SearchBackend
  * 3. Temporal Tracking: Citation trajectory over time per entity per provider
+ *
+ * Each workspace has its own view of the graph: entities and citations carry
+ * the workspace id and every lookup is filtered by it. Provider and Query
+ * nodes are shared — they hold no customer data beyond the query text, which
+ * is only reachable through a workspace's own citations.
  */
 
+import { createHash } from "crypto";
+import { currentWorkspaceId } from "@/lib/auth/context";
+
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const kuzu = require("kuzu");
 const { Database, Connection } = kuzu;
 
 // ─── Types ───
 
+export const ENTITY_TYPES = ["brand", "product", "feature", "category"] as const;
+
 export interface EntityNode {
   id: string;
   canonicalName: string;
-  type: "brand" | "product" | "feature" | "category";
+  type: (typeof ENTITY_TYPES)[number];
   domain: string | null;
 }
 
@@ -64,28 +74,78 @@ export interface CitationTrajectory {
   }>;
 }
 
+export interface ManagedEntity {
+  id: string;
+  name: string;
+  type: EntityNode["type"];
+  domain: string | null;
+  aliasOf: string | null; // canonical entity id when this node is an alias
+}
+
+export interface EntityWithAliases extends ManagedEntity {
+  aliases: Array<{ id: string; name: string; source: string }>;
+  citations: number;
+}
+
+export interface QueryCoverage {
+  query: string;
+  category: string;
+  providers: Array<{
+    provider: string;
+    cited: number;
+    total: number;
+    citationRate: number;
+  }>;
+}
+
 // ─── Graph Manager ───
 
-export class KnowledgeGraph {
+// One database and connection per path, shared by every workspace's view
+interface GraphStore {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  db: any;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private db: any;
+  conn: any;
+  initialized: boolean;
+  // Prepared statements by Cypher text; only valid for the current connection
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private conn: any = null;
-  private dbPath: string;
-  private initialized = false;
+  statements: Map<string, any>;
+}
+
+const stores = new Map<string, GraphStore>();
 
-  constructor(dbPath: string) {
-    this.dbPath = dbPath;
-    this.db = new Database(dbPath);
+function openStore(dbPath: string): GraphStore {
+  let store = stores.get(dbPath);
+  if (!store) {
+    store = {
+      db: new Database(dbPath),
+      conn: null,
+      initialized: false,
+      statements: new Map(),
+    };
+    stores.set(dbPath, store);
+  }
+  return store;
+}
+
+export class KnowledgeGraph {
+  private store: GraphStore;
+  readonly workspaceId: string;
+
+  constructor(dbPath: string, workspaceId: string) {
+    this.store = openStore(dbPath);
+    this.workspaceId = workspaceId;
   }
 
   async init(): Promise<void> {
-    if (this.initialized) return;
+    if (this.store.initialized) return;
 
-    this.conn = new Connection(this.db);
+    this.store.conn = new Connection(this.store.db);
+    this.store.statements.clear();
+    const conn = this.store.conn;
 
     // Create schema
-    await this.conn.query(`
+    await conn.query(`
       CREATE NODE TABLE IF NOT EXISTS Entity(
         id STRING PRIMARY KEY,
         canonicalName STRING,
@@ -94,21 +154,21 @@ export class KnowledgeGraph {
       )
     `);
 
-    await this.conn.query(`
+    await conn.query(`
       CREATE NODE TABLE IF NOT EXISTS Provider(
         name STRING PRIMARY KEY,
         searchBackend STRING
       )
     `);
 
-    await this.conn.query(`
+    await conn.query(`
       CREATE NODE TABLE IF NOT EXISTS Query(
         text STRING PRIMARY KEY,
         category STRING
       )
     `);
 
-    await this.conn.query(`
+    await conn.query(`
       CREATE NODE TABLE IF NOT EXISTS Citation(
         id STRING PRIMARY KEY,
         cited BOOLEAN,
@@ -119,32 +179,47 @@ export class KnowledgeGraph {
       )
     `);
 
-    await this.conn.query(`
+    // Surface form the entity was ingested under; lets a split alias take its
+    // citations back. Added separately so existing databases pick it up.
+    await conn.query(
+      "ALTER TABLE Citation ADD IF NOT EXISTS mentionedAs STRING DEFAULT ''"
+    );
+
+    // Owning workspace. Nodes written before the graph was split by workspace
+    // have '' until claimUnscoped hands them to one.
+    await conn.query(
+      "ALTER TABLE Entity ADD IF NOT EXISTS workspaceId STRING DEFAULT ''"
+    );
+    await conn.query(
+      "ALTER TABLE Citation ADD IF NOT EXISTS workspaceId STRING DEFAULT ''"
+    );
+
+    await conn.query(`
       CREATE REL TABLE IF NOT EXISTS ALIAS_OF(
         FROM Entity TO Entity,
         source STRING
       )
     `);
 
-    await this.conn.query(`
+    await conn.query(`
       CREATE REL TABLE IF NOT EXISTS CITED_IN(
         FROM Entity TO Citation
       )
     `);
 
-    await this.conn.query(`
+    await conn.query(`
       CREATE REL TABLE IF NOT EXISTS FROM_PROVIDER(
         FROM Citation TO Provider
       )
     `);
 
-    await this.conn.query(`
+    await conn.query(`
       CREATE REL TABLE IF NOT EXISTS FOR_QUERY(
         FROM Citation TO Query
       )
     `);
 
-    await this.conn.query(`
+    await conn.query(`
       CREATE REL TABLE IF NOT EXISTS COMPETES_WITH(
         FROM Entity TO Entity,
         category STRING
@@ -161,12 +236,35 @@ export class KnowledgeGraph {
     ];
 
     for (const p of providers) {
-      await this.conn.query(
-        `MERGE (p:Provider {name: '${p.name}'}) SET p.searchBackend = '${p.searchBackend}'`
+      await this.run(
+        "MERGE (p:Provider {name: $name}) SET p.searchBackend = $searchBackend",
+        p
       );
     }
 
-    this.initialized = true;
+    this.store.initialized = true;
+  }
+
+  /**
+   * Hand the nodes written before the graph was split by workspace to this
+   * workspace, as legacy brands go to the first one. Returns how many
+   * entities were claimed.
+   */
+  async claimUnscoped(): Promise<number> {
+    await this.init();
+
+    const rows = await this.run(`
+      MATCH (e:Entity)
+      WHERE e.workspaceId = ''
+      SET e.workspaceId = $workspaceId
+      RETURN COUNT(e) AS count
+    `);
+    await this.run(`
+      MATCH (c:Citation)
+      WHERE c.workspaceId = ''
+      SET c.workspaceId = $workspaceId
+    `);
+    return this.num(rows[0]?.count);
   }
 
   // ─── Entity Resolution ───
@@ -184,33 +282,50 @@ export class KnowledgeGraph {
     await this.init();
 
     // Check if this name matches an existing entity (fuzzy)
-    const existing = await this.resolveEntity(name);
-    if (existing) {
+    const canonical = await this.resolveCanonical(name);
+    if (canonical) {
+      const existing = await this.buildResolution(canonical.id);
+      const normalized = name.toLowerCase().trim();
+
       // Add alias edge if this is a new variant
-      if (!existing.aliases.includes(name.toLowerCase())) {
+      if (
+        normalized !== canonical.name.toLowerCase() &&
+        !existing.aliases.includes(normalized)
+      ) {
         const aliasId = `alias-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-        await this.conn!.query(`
-          MERGE (alias:Entity {id: '${aliasId}'})
-          SET alias.canonicalName = '${this.escape(name)}',
-              alias.type = '${type}',
-              alias.domain = '${domain ?? ""}'
-        `);
-        await this.conn!.query(`
-          MATCH (alias:Entity {id: '${aliasId}'}), (canonical:Entity {id: '${existing.canonicalName}'})
-          CREATE (alias)-[:ALIAS_OF {source: '${source}'}]->(canonical)
-        `);
+        await this.run(
+          `
+          MERGE (alias:Entity {id: $aliasId})
+          SET alias.canonicalName = $name,
+              alias.type = $type,
+              alias.domain = $domain,
+              alias.workspaceId = $workspaceId
+        `,
+          { aliasId, name, type, domain: domain ?? "" }
+        );
+        await this.run(
+          `
+          MATCH (alias:Entity {id: $aliasId}), (canonical:Entity {id: $canonicalId})
+          CREATE (alias)-[:ALIAS_OF {source: $source}]->(canonical)
+        `,
+          { aliasId, canonicalId: existing.canonicalName, source }
+        );
       }
       return existing.canonicalName;
     }
 
     // New entity
-    const id = `entity-${this.slugify(name)}`;
-    await this.conn!.query(`
-      MERGE (e:Entity {id: '${id}'})
-      SET e.canonicalName = '${this.escape(name)}',
-          e.type = '${type}',
-          e.domain = '${domain ?? ""}'
-    `);
+    const id = this.entityId(name);
+    await this.run(
+      `
+      MERGE (e:Entity {id: $id})
+      SET e.canonicalName = $name,
+          e.type = $type,
+          e.domain = $domain,
+          e.workspaceId = $workspaceId
+    `,
+      { id, name, type, domain: domain ?? "" }
+    );
 
     return id;
   }
@@ -222,51 +337,80 @@ export class KnowledgeGraph {
   async resolveEntity(name: string): Promise<EntityResolution | null> {
     await this.init();
 
+    const canonical = await this.resolveCanonical(name);
+    return canonical ? this.buildResolution(canonical.id) : null;
+  }
+
+  /**
+   * Find the canonical node for a name. Matches on alias nodes are followed
+   * through their ALIAS_OF edge so variants never become citation targets.
+   */
+  private async resolveCanonical(
+    name: string
+  ): Promise<{ id: string; name: string } | null> {
     const normalized = name.toLowerCase().trim();
 
     // Exact match first
-    const exactResult = await this.conn!.query(`
+    const exactRows = await this.run(
+      `
       MATCH (e:Entity)
-      WHERE toLower(e.canonicalName) = '${this.escape(normalized)}'
-      RETURN e.id AS id, e.canonicalName AS name
-    `);
-    const exactRows = await exactResult.getAll();
+      WHERE e.workspaceId = $workspaceId AND toLower(e.canonicalName) = $name
+      OPTIONAL MATCH (e)-[:ALIAS_OF]->(c:Entity)
+      RETURN e.id AS id, e.canonicalName AS name, c.id AS canonicalId, c.canonicalName AS canonicalName
+    `,
+      { name: normalized }
+    );
 
     if (exactRows.length > 0) {
-      return this.buildResolution(exactRows[0].id);
+      return this.canonicalFromRow(exactRows[0]);
     }
 
     // Substring match (e.g., "Salesforce CRM" contains "Salesforce")
-    const substringResult = await this.conn!.query(`
+    const substringRows = await this.run(
+      `
       MATCH (e:Entity)
-      WHERE toLower('${this.escape(normalized)}') CONTAINS toLower(e.canonicalName)
-         OR toLower(e.canonicalName) CONTAINS toLower('${this.escape(normalized)}')
-      RETURN e.id AS id, e.canonicalName AS name
+      WHERE e.workspaceId = $workspaceId
+        AND ($name CONTAINS toLower(e.canonicalName)
+          OR toLower(e.canonicalName) CONTAINS $name)
+      OPTIONAL MATCH (e)-[:ALIAS_OF]->(c:Entity)
+      RETURN e.id AS id, e.canonicalName AS name, c.id AS canonicalId, c.canonicalName AS canonicalName
       LIMIT 1
-    `);
-    const substringRows = await substringResult.getAll();
+    `,
+      { name: normalized }
+    );
 
     if (substringRows.length > 0) {
-      return this.buildResolution(substringRows[0].id);
+      return this.canonicalFromRow(substringRows[0]);
     }
 
     return null;
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private canonicalFromRow(row: any): { id: string; name: string } {
+    return row.canonicalId
+      ? { id: row.canonicalId, name: row.canonicalName }
+      : { id: row.id, name: row.name };
+  }
+
   private async buildResolution(entityId: string): Promise<EntityResolution> {
     // Get all aliases
-    const aliasResult = await this.conn!.query(`
-      MATCH (alias:Entity)-[:ALIAS_OF]->(canonical:Entity {id: '${entityId}'})
+    const aliasRows = await this.run(
+      `
+      MATCH (alias:Entity)-[:ALIAS_OF]->(canonical:Entity {id: $entityId})
       RETURN alias.canonicalName AS alias
-    `);
-    const aliasRows = await aliasResult.getAll();
+    `,
+      { entityId }
+    );
 
     // Get providers that have cited this entity
-    const providerResult = await this.conn!.query(`
-      MATCH (e:Entity {id: '${entityId}'})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
+    const providerRows = await this.run(
+      `
+      MATCH (e:Entity {id: $entityId})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
       RETURN DISTINCT p.name AS provider
-    `);
-    const providerRows = await providerResult.getAll();
+    `,
+      { entityId }
+    );
 
     return {
       canonicalName: entityId,
@@ -280,6 +424,13 @@ export class KnowledgeGraph {
   /**
    * Record a citation event from a probe result.
    * Creates Citation node + edges to Entity, Provider, and Query.
+   *
+   * When an idempotencyKey is given it becomes the Citation id, and an event
+   * that was already recorded under that key is skipped. Returns false if skipped.
+   * The Citation node is created together with its edges in one statement,
+   * so an event that failed part-way is never taken as recorded.
+   * mentionedAs is the surface form the response used (alias, product name,
+   * handle); it defaults to the entity name.
    */
   async recordCitation(event: {
     entityName: string;
@@ -292,9 +443,24 @@ export class KnowledgeGraph {
     sentiment: string;
     position: number;
     confidence: number;
-  }): Promise<void> {
+    idempotencyKey?: string;
+    timestamp?: string;
+    mentionedAs?: string | null;
+  }): Promise<boolean> {
     await this.init();
 
+    const citationId = event.idempotencyKey
+      ? `cit-${event.idempotencyKey}`
+      : `cit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    if (event.idempotencyKey) {
+      const existingRows = await this.run(
+        "MATCH (c:Citation {id: $citationId}) RETURN c.id AS id",
+        { citationId }
+      );
+      if (existingRows.length > 0) return false;
+    }
+
     // Resolve or create entity
     const entityId = await this.upsertEntity(
       event.entityName,
@@ -304,41 +470,51 @@ export class KnowledgeGraph {
     );
 
     // Ensure query exists
-    await this.conn!.query(`
-      MERGE (q:Query {text: '${this.escape(event.query)}'})
-      SET q.category = '${this.escape(event.queryCategory)}'
-    `);
+    await this.run(
+      "MERGE (q:Query {text: $text}) SET q.category = $category",
+      { text: event.query, category: event.queryCategory }
+    );
 
-    // Create citation node
-    const citationId = `cit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    const timestamp = new Date().toISOString();
+    // Custom OpenAI-compatible providers are not seeded at init
+    await this.run("MERGE (p:Provider {name: $provider})", {
+      provider: event.provider,
+    });
 
-    await this.conn!.query(`
-      CREATE (c:Citation {
-        id: '${citationId}',
-        cited: ${event.cited},
-        sentiment: '${event.sentiment}',
-        position: ${event.position},
-        confidence: ${event.confidence},
-        timestamp: '${timestamp}'
-      })
-    `);
+    // Citation node and edges
+    const timestamp = event.timestamp ?? new Date().toISOString();
 
-    // Create edges
-    await this.conn!.query(`
-      MATCH (e:Entity {id: '${entityId}'}), (c:Citation {id: '${citationId}'})
-      CREATE (e)-[:CITED_IN]->(c)
-    `);
-
-    await this.conn!.query(`
-      MATCH (c:Citation {id: '${citationId}'}), (p:Provider {name: '${event.provider}'})
-      CREATE (c)-[:FROM_PROVIDER]->(p)
-    `);
+    await this.run(
+      `
+      MATCH (e:Entity {id: $entityId}), (p:Provider {name: $provider}), (q:Query {text: $text})
+      CREATE (c:Citation {
+        id: $citationId,
+        cited: $cited,
+        sentiment: $sentiment,
+        position: $position,
+        confidence: $confidence,
+        timestamp: $timestamp,
+        mentionedAs: $mentionedAs,
+        workspaceId: $workspaceId
+      }),
+      (e)-[:CITED_IN]->(c),
+      (c)-[:FROM_PROVIDER]->(p),
+      (c)-[:FOR_QUERY]->(q)
+    `,
+      {
+        entityId,
+        provider: event.provider,
+        text: event.query,
+        citationId,
+        cited: event.cited,
+        sentiment: event.sentiment,
+        position: Math.round(event.position),
+        confidence: event.confidence,
+        timestamp,
+        mentionedAs: event.mentionedAs || event.entityName,
+      }
+    );
 
-    await this.conn!.query(`
-      MATCH (c:Citation {id: '${citationId}'}), (q:Query {text: '${this.escape(event.query)}'})
-      CREATE (c)-[:FOR_QUERY]->(q)
-    `);
+    return true;
   }
 
   /**
@@ -351,13 +527,336 @@ export class KnowledgeGraph {
   ): Promise<void> {
     await this.init();
 
-    const brandId = `entity-${this.slugify(brandName)}`;
-    const competitorId = `entity-${this.slugify(competitorName)}`;
+    // Resolve through aliases so merged entities keep a single edge set
+    const brand = await this.resolveCanonical(brandName);
+    const competitor = await this.resolveCanonical(competitorName);
+    const brandId = brand?.id ?? this.entityId(brandName);
+    const competitorId = competitor?.id ?? this.entityId(competitorName);
+    if (brandId === competitorId) return;
+
+    await this.run(
+      `
+      MATCH (a:Entity {id: $brandId}), (b:Entity {id: $competitorId})
+      MERGE (a)-[:COMPETES_WITH {category: $category}]->(b)
+    `,
+      { brandId, competitorId, category }
+    );
+  }
+
+  // ─── Alias Management ───
+
+  /**
+   * List canonical entities with their aliases and citation counts.
+   */
+  async listEntities(): Promise<EntityWithAliases[]> {
+    await this.init();
+
+    const entityRows = await this.run(`
+      MATCH (e:Entity)
+      WHERE e.workspaceId = $workspaceId
+        AND NOT EXISTS { MATCH (e)-[:ALIAS_OF]->(:Entity) }
+      OPTIONAL MATCH (e)-[:CITED_IN]->(c:Citation)
+      RETURN e.id AS id, e.canonicalName AS name, e.type AS type, e.domain AS domain,
+             COUNT(c) AS citations
+      ORDER BY citations DESC, name
+    `);
 
-    await this.conn!.query(`
-      MATCH (a:Entity {id: '${brandId}'}), (b:Entity {id: '${competitorId}'})
-      MERGE (a)-[:COMPETES_WITH {category: '${this.escape(category)}'}]->(b)
+    const aliasRows = await this.run(`
+      MATCH (a:Entity)-[r:ALIAS_OF]->(e:Entity)
+      WHERE e.workspaceId = $workspaceId
+      RETURN a.id AS id, a.canonicalName AS name, r.source AS source, e.id AS entityId
+      ORDER BY name
     `);
+
+    const aliasesByEntity = new Map<string, EntityWithAliases["aliases"]>();
+    for (const row of aliasRows) {
+      if (!aliasesByEntity.has(row.entityId)) aliasesByEntity.set(row.entityId, []);
+      aliasesByEntity.get(row.entityId)!.push({
+        id: row.id,
+        name: row.name,
+        source: row.source ?? "",
+      });
+    }
+
+    return entityRows.map((r: any) => ({
+      id: r.id,
+      name: r.name,
+      type: r.type,
+      domain: r.domain || null,
+      aliasOf: null,
+      aliases: aliasesByEntity.get(r.id) ?? [],
+      citations: this.num(r.citations),
+    }));
+  }
+
+  /**
+   * An entity of this workspace; null for unknown ids and for ids that
+   * belong to another workspace.
+   */
+  async getEntity(id: string): Promise<ManagedEntity | null> {
+    await this.init();
+
+    const rows = await this.run(
+      `
+      MATCH (e:Entity {id: $id})
+      WHERE e.workspaceId = $workspaceId
+      OPTIONAL MATCH (e)-[:ALIAS_OF]->(c:Entity)
+      RETURN e.id AS id, e.canonicalName AS name, e.type AS type, e.domain AS domain,
+             c.id AS aliasOf
+    `,
+      { id }
+    );
+    if (rows.length === 0) return null;
+
+    return {
+      id: rows[0].id,
+      name: rows[0].name,
+      type: rows[0].type,
+      domain: rows[0].domain || null,
+      aliasOf: rows[0].aliasOf ?? null,
+    };
+  }
+
+  /**
+   * All alternative names for an entity, for use by the citation detector.
+   * Exact name match only — fuzzy resolution would leak unrelated variants.
+   */
+  async getAliasNames(name: string): Promise<string[]> {
+    await this.init();
+
+    const rows = await this.run(
+      `
+      MATCH (e:Entity)
+      WHERE e.workspaceId = $workspaceId AND toLower(e.canonicalName) = $name
+      OPTIONAL MATCH (e)-[:ALIAS_OF]->(c:Entity)
+      RETURN e.id AS id, e.canonicalName AS name, c.id AS canonicalId, c.canonicalName AS canonicalName
+    `,
+      { name: name.toLowerCase().trim() }
+    );
+    if (rows.length === 0) return [];
+
+    const canonical = this.canonicalFromRow(rows[0]);
+    const aliasRows = await this.run(
+      `
+      MATCH (a:Entity)-[:ALIAS_OF]->(e:Entity {id: $entityId})
+      RETURN a.canonicalName AS name
+    `,
+      { entityId: canonical.id }
+    );
+
+    const lower = name.toLowerCase().trim();
+    return [canonical.name, ...aliasRows.map((r: any) => r.name as string)].filter(
+      (alias, i, all) =>
+        alias.toLowerCase() !== lower &&
+        all.findIndex((a) => a.toLowerCase() === alias.toLowerCase()) === i
+    );
+  }
+
+  /**
+   * Declare `alias` as another name for an entity. If the alias already exists
+   * as its own entity it is merged in; if it aliases another entity it is moved.
+   */
+  async addAlias(
+    entityId: string,
+    alias: string,
+    source: string = "manual"
+  ): Promise<void> {
+    await this.init();
+
+    const entity = await this.getEntity(entityId);
+    if (!entity) throw new Error(`Entity not found: ${entityId}`);
+    const canonicalId = entity.aliasOf ?? entity.id;
+
+    const existingRows = await this.run(
+      `
+      MATCH (e:Entity)
+      WHERE e.workspaceId = $workspaceId AND toLower(e.canonicalName) = $name
+      RETURN e.id AS id
+    `,
+      { name: alias.toLowerCase().trim() }
+    );
+
+    if (existingRows.length > 0) {
+      const existing = (await this.getEntity(existingRows[0].id))!;
+      if (existing.id === canonicalId || existing.aliasOf === canonicalId) return;
+
+      if (existing.aliasOf) {
+        // Moving an alias between entities takes its citations along
+        await this.splitAlias(existing.id);
+      }
+      await this.mergeEntities(existing.id, canonicalId, source);
+      return;
+    }
+
+    const target = (await this.getEntity(canonicalId))!;
+    const aliasId = `alias-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    await this.run(
+      `
+      CREATE (alias:Entity {
+        id: $aliasId,
+        canonicalName: $name,
+        type: $type,
+        domain: $domain,
+        workspaceId: $workspaceId
+      })
+    `,
+      {
+        aliasId,
+        name: alias.trim(),
+        type: target.type,
+        domain: target.domain ?? "",
+      }
+    );
+    await this.run(
+      `
+      MATCH (alias:Entity {id: $aliasId}), (canonical:Entity {id: $canonicalId})
+      CREATE (alias)-[:ALIAS_OF {source: $source}]->(canonical)
+    `,
+      { aliasId, canonicalId, source }
+    );
+  }
+
+  /**
+   * Merge `sourceId` into `targetId`: citations, competitive edges and aliases
+   * are re-pointed to the target, and the source becomes one of its aliases.
+   */
+  async mergeEntities(
+    sourceId: string,
+    targetId: string,
+    source: string = "manual"
+  ): Promise<void> {
+    await this.init();
+
+    const from = await this.getEntity(sourceId);
+    const to = await this.getEntity(targetId);
+    if (!from) throw new Error(`Entity not found: ${sourceId}`);
+    if (!to) throw new Error(`Entity not found: ${targetId}`);
+    if (from.aliasOf || to.aliasOf) {
+      throw new Error("Only canonical entities can be merged; split the alias first");
+    }
+    if (from.id === to.id) throw new Error("Cannot merge an entity into itself");
+
+    const ids = { s: from.id, t: to.id };
+
+    await this.run(
+      `
+      MATCH (s:Entity {id: $s})-[r:CITED_IN]->(c:Citation), (t:Entity {id: $t})
+      CREATE (t)-[:CITED_IN]->(c)
+      DELETE r
+    `,
+      ids
+    );
+
+    // Competitive edges: re-point both directions, dropping any that would
+    // become a self-loop on the target
+    await this.run(
+      `
+      MATCH (s:Entity {id: $s})-[r:COMPETES_WITH]->(x:Entity), (t:Entity {id: $t})
+      WHERE x.id <> $t
+      MERGE (t)-[:COMPETES_WITH {category: r.category}]->(x)
+    `,
+      ids
+    );
+    await this.run(
+      `
+      MATCH (x:Entity)-[r:COMPETES_WITH]->(s:Entity {id: $s}), (t:Entity {id: $t})
+      WHERE x.id <> $t
+      MERGE (x)-[:COMPETES_WITH {category: r.category}]->(t)
+    `,
+      ids
+    );
+    await this.run(
+      `
+      MATCH (s:Entity {id: $s})-[r:COMPETES_WITH]->(:Entity)
+      DELETE r
+    `,
+      { s: from.id }
+    );
+    await this.run(
+      `
+      MATCH (:Entity)-[r:COMPETES_WITH]->(s:Entity {id: $s})
+      DELETE r
+    `,
+      { s: from.id }
+    );
+
+    await this.run(
+      `
+      MATCH (a:Entity)-[r:ALIAS_OF]->(s:Entity {id: $s}), (t:Entity {id: $t})
+      CREATE (a)-[:ALIAS_OF {source: r.source}]->(t)
+      DELETE r
+    `,
+      ids
+    );
+
+    await this.run(
+      `
+      MATCH (s:Entity {id: $s}), (t:Entity {id: $t})
+      SET s.type = t.type
+      CREATE (s)-[:ALIAS_OF {source: $source}]->(t)
+    `,
+      { ...ids, source }
+    );
+  }
+
+  /**
+   * Detach a wrongly merged alias into its own entity. Citations recorded
+   * under that surface form move with it.
+   */
+  async splitAlias(aliasId: string): Promise<void> {
+    await this.init();
+
+    const alias = await this.getEntity(aliasId);
+    if (!alias) throw new Error(`Entity not found: ${aliasId}`);
+    if (!alias.aliasOf) throw new Error(`Entity is not an alias: ${alias.name}`);
+
+    await this.run(
+      `
+      MATCH (a:Entity {id: $aliasId})-[r:ALIAS_OF]->(:Entity)
+      DELETE r
+    `,
+      { aliasId: alias.id }
+    );
+
+    await this.run(
+      `
+      MATCH (canonical:Entity {id: $canonicalId})-[r:CITED_IN]->(cit:Citation), (a:Entity {id: $aliasId})
+      WHERE toLower(cit.mentionedAs) = $name
+      CREATE (a)-[:CITED_IN]->(cit)
+      DELETE r
+    `,
+      {
+        canonicalId: alias.aliasOf,
+        aliasId: alias.id,
+        name: alias.name.toLowerCase(),
+      }
+    );
+  }
+
+  /**
+   * Set the entity type on a canonical entity and all of its aliases.
+   */
+  async setEntityType(entityId: string, type: EntityNode["type"]): Promise<void> {
+    await this.init();
+
+    const entity = await this.getEntity(entityId);
+    if (!entity) throw new Error(`Entity not found: ${entityId}`);
+    const params = { canonicalId: entity.aliasOf ?? entity.id, type };
+
+    await this.run(
+      `
+      MATCH (e:Entity {id: $canonicalId})
+      SET e.type = $type
+    `,
+      params
+    );
+    await this.run(
+      `
+      MATCH (a:Entity)-[:ALIAS_OF]->(e:Entity {id: $canonicalId})
+      SET a.type = $type
+    `,
+      params
+    );
   }
 
   // ─── Citation Path Analysis ───
@@ -373,8 +872,9 @@ export class KnowledgeGraph {
     const entity = await this.resolveEntity(entityName);
     if (!entity) return [];
 
-    const result = await this.conn!.query(`
-      MATCH (e:Entity {id: '${entity.canonicalName}'})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider),
+    const rows = await this.run(
+      `
+      MATCH (e:Entity {id: $entityId})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider),
             (c)-[:FOR_QUERY]->(q:Query)
       RETURN e.canonicalName AS entity,
              p.name AS provider,
@@ -383,9 +883,9 @@ export class KnowledgeGraph {
              c.sentiment AS sentiment,
              c.position AS position
       ORDER BY c.timestamp DESC
-    `);
-
-    const rows = await result.getAll();
+    `,
+      { entityId: entity.canonicalName }
+    );
     return rows.map((r: any) => ({
       entity: r.entity,
       provider: r.provider,
@@ -407,15 +907,16 @@ export class KnowledgeGraph {
     const entity = await this.resolveEntity(entityName);
     if (!entity) return [];
 
-    const result = await this.conn!.query(`
-      MATCH (e:Entity {id: '${entity.canonicalName}'})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
+    const rows = await this.run(
+      `
+      MATCH (e:Entity {id: $entityId})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
       WITH p.name AS provider, p.searchBackend AS backend,
            COUNT(c) AS total, SUM(CASE WHEN c.cited THEN 1 ELSE 0 END) AS cited
       RETURN provider, backend, cited, total
       ORDER BY cited DESC
-    `);
-
-    const rows = await result.getAll();
+    `,
+      { entityId: entity.canonicalName }
+    );
     return rows.map((r: any) => ({
       backend: r.backend,
       provider: r.provider,
@@ -441,20 +942,24 @@ export class KnowledgeGraph {
 
     const cutoff = new Date(Date.now() - days * 86400000).toISOString();
 
-    const result = await this.conn!.query(`
-      MATCH (e:Entity {id: '${entity.canonicalName}'})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
-      WHERE c.timestamp > '${cutoff}'
+    // Group by provider + day only; sentiment and position are aggregated so
+    // each day yields exactly one data point per provider
+    const rows = await this.run(
+      `
+      MATCH (e:Entity {id: $entityId})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
+      WHERE c.timestamp > $cutoff
       WITH p.name AS provider,
-           substring(c.timestamp, 0, 10) AS date,
+           substring(c.timestamp, 1, 10) AS date,
            COUNT(c) AS total,
            SUM(CASE WHEN c.cited THEN 1 ELSE 0 END) AS cited,
-           c.sentiment AS sentiment,
-           c.position AS position
-      RETURN provider, date, total, cited, sentiment, position
+           collect(c.sentiment) AS sentiments,
+           SUM(CASE WHEN c.position > 0 THEN c.position ELSE 0 END) AS positionSum,
+           SUM(CASE WHEN c.position > 0 THEN 1 ELSE 0 END) AS positioned
+      RETURN provider, date, total, cited, sentiments, positionSum, positioned
       ORDER BY provider, date
-    `);
-
-    const rows = await result.getAll();
+    `,
+      { entityId: entity.canonicalName, cutoff }
+    );
 
     // Group by provider
     const byProvider = new Map<string, Array<any>>();
@@ -472,8 +977,10 @@ export class KnowledgeGraph {
         dataPoints: data.map((d: any) => ({
           date: d.date,
           citationRate: this.num(d.total) > 0 ? Math.round((this.num(d.cited) / this.num(d.total)) * 100) : 0,
-          avgSentiment: d.sentiment ?? "neutral",
-          avgPosition: this.num(d.position),
+          avgSentiment: this.dominantSentiment(d.sentiments ?? []),
+          avgPosition: this.num(d.positioned) > 0
+            ? Math.round((this.num(d.positionSum) / this.num(d.positioned)) * 10) / 10
+            : 0,
         })),
       });
     }
@@ -481,6 +988,57 @@ export class KnowledgeGraph {
     return trajectories;
   }
 
+  /**
+   * Per-query citation coverage for an entity, broken down by provider.
+   * With citedBy/notCitedBy, answers: "which queries cite us via Perplexity
+   * but not via OpenAI?"
+   */
+  async getQueryCoverage(
+    entityName: string,
+    filter?: { citedBy?: string; notCitedBy?: string }
+  ): Promise<QueryCoverage[]> {
+    await this.init();
+
+    const entity = await this.resolveEntity(entityName);
+    if (!entity) return [];
+
+    const rows = await this.run(
+      `
+      MATCH (e:Entity {id: $entityId})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider),
+            (c)-[:FOR_QUERY]->(q:Query)
+      WITH q.text AS query, q.category AS category, p.name AS provider,
+           COUNT(c) AS total, SUM(CASE WHEN c.cited THEN 1 ELSE 0 END) AS cited
+      RETURN query, category, provider, total, cited
+      ORDER BY query, provider
+    `,
+      { entityId: entity.canonicalName }
+    );
+
+    const byQuery = new Map<string, QueryCoverage>();
+    for (const row of rows) {
+      if (!byQuery.has(row.query)) {
+        byQuery.set(row.query, { query: row.query, category: row.category ?? "", providers: [] });
+      }
+      const total = this.num(row.total);
+      const cited = this.num(row.cited);
+      byQuery.get(row.query)!.providers.push({
+        provider: row.provider,
+        cited,
+        total,
+        citationRate: total > 0 ? Math.round((cited / total) * 100) : 0,
+      });
+    }
+
+    const citedCount = (coverage: QueryCoverage, provider: string) =>
+      coverage.providers.find((p) => p.provider === provider)?.cited ?? 0;
+
+    return [...byQuery.values()].filter(
+      (coverage) =>
+        (!filter?.citedBy || citedCount(coverage, filter.citedBy) > 0) &&
+        (!filter?.notCitedBy || citedCount(coverage, filter.notCitedBy) === 0)
+    );
+  }
+
   // ─── Cross-Provider Entity Resolution ───
 
   /**
@@ -495,19 +1053,43 @@ export class KnowledgeGraph {
     const entity = await this.resolveEntity(entityName);
     if (!entity) return [];
 
-    const result = await this.conn!.query(`
-      MATCH (alias:Entity)-[:ALIAS_OF]->(canonical:Entity {id: '${entity.canonicalName}'})
+    // Surface forms recorded on the entity's own citations that differ from its name
+    const surfaceRows = await this.run(
+      `
+      MATCH (e:Entity {id: $entityId})-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
+      WHERE c.cited AND c.mentionedAs <> '' AND toLower(c.mentionedAs) <> toLower(e.canonicalName)
+      RETURN c.mentionedAs AS variant, p.name AS provider, COUNT(c) AS frequency
+    `,
+      { entityId: entity.canonicalName }
+    );
+
+    // Citations still attached to alias nodes (recorded before they were merged)
+    const aliasRows = await this.run(
+      `
+      MATCH (alias:Entity)-[:ALIAS_OF]->(canonical:Entity {id: $entityId})
       MATCH (alias)-[:CITED_IN]->(c:Citation)-[:FROM_PROVIDER]->(p:Provider)
       RETURN alias.canonicalName AS variant, p.name AS provider, COUNT(c) AS frequency
-      ORDER BY frequency DESC
-    `);
+    `,
+      { entityId: entity.canonicalName }
+    );
 
-    const rows = await result.getAll();
-    return rows.map((r: any) => ({
-      variant: r.variant,
-      provider: r.provider,
-      frequency: this.num(r.frequency),
-    }));
+    const counts = new Map<string, { variant: string; provider: string; frequency: number }>();
+    const rows = [...surfaceRows, ...aliasRows];
+    for (const r of rows as any[]) {
+      const key = `${String(r.variant).toLowerCase()}|${r.provider}`;
+      const existing = counts.get(key);
+      if (existing) {
+        existing.frequency += this.num(r.frequency);
+      } else {
+        counts.set(key, {
+          variant: r.variant,
+          provider: r.provider,
+          frequency: this.num(r.frequency),
+        });
+      }
+    }
+
+    return [...counts.values()].sort((a, b) => b.frequency - a.frequency);
   }
 
   /**
@@ -518,8 +1100,9 @@ export class KnowledgeGraph {
   > {
     await this.init();
 
-    const result = await this.conn!.query(`
+    const rows = await this.run(`
       MATCH (a:Entity)-[r:COMPETES_WITH]->(b:Entity)
+      WHERE a.workspaceId = $workspaceId
       OPTIONAL MATCH (a)-[:CITED_IN]->(ca:Citation)
       OPTIONAL MATCH (b)-[:CITED_IN]->(cb:Citation)
       WITH a.canonicalName AS brand, b.canonicalName AS competitor, r.category AS category,
@@ -527,7 +1110,6 @@ export class KnowledgeGraph {
       RETURN brand, competitor, category, brandCitations, competitorCitations
     `);
 
-    const rows = await result.getAll();
     return rows.map((r: any) => ({
       brand: r.brand,
       competitor: r.competitor,
@@ -547,21 +1129,55 @@ export class KnowledgeGraph {
   }> {
     await this.init();
 
-    const entityResult = await this.conn!.query("MATCH (e:Entity) RETURN COUNT(e) AS count");
-    const citationResult = await this.conn!.query("MATCH (c:Citation) RETURN COUNT(c) AS count");
-    const queryResult = await this.conn!.query("MATCH (q:Query) RETURN COUNT(q) AS count");
-    const aliasResult = await this.conn!.query("MATCH ()-[a:ALIAS_OF]->() RETURN COUNT(a) AS count");
+    const count = async (statement: string) =>
+      this.num((await this.run(statement))[0]?.count);
 
-    const entities = this.num((await entityResult.getAll())[0]?.count);
-    const citations = this.num((await citationResult.getAll())[0]?.count);
-    const queries = this.num((await queryResult.getAll())[0]?.count);
-    const aliases = this.num((await aliasResult.getAll())[0]?.count);
+    const entities = await count(
+      "MATCH (e:Entity) WHERE e.workspaceId = $workspaceId RETURN COUNT(e) AS count"
+    );
+    const citations = await count(
+      "MATCH (c:Citation) WHERE c.workspaceId = $workspaceId RETURN COUNT(c) AS count"
+    );
+    // Query nodes are shared; count the ones this workspace's citations reach
+    const queries = await count(`
+      MATCH (c:Citation)-[:FOR_QUERY]->(q:Query)
+      WHERE c.workspaceId = $workspaceId
+      RETURN COUNT(DISTINCT q) AS count
+    `);
+    const aliases = await count(
+      "MATCH (e:Entity)-[a:ALIAS_OF]->() WHERE e.workspaceId = $workspaceId RETURN COUNT(a) AS count"
+    );
 
     return { entities, citations, queries, aliases };
   }
 
   // ─── Helpers ───
 
+  /**
+   * Run a Cypher statement with values bound as KuzuDB parameters ($name).
+   * Values never become part of the query text, so quotes, backslashes and
+   * Cypher fragments in entity names or probe queries are stored verbatim.
+   * Statements that mention $workspaceId get this graph's workspace bound.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async run(statement: string, params: Record<string, unknown> = {}): Promise<any[]> {
+    if (statement.includes("$workspaceId")) {
+      params = { ...params, workspaceId: this.workspaceId };
+    }
+
+    let prepared = this.store.statements.get(statement);
+    if (!prepared) {
+      prepared = await this.store.conn!.prepare(statement);
+      if (!prepared.isSuccess()) {
+        throw new Error(`Graph query failed to prepare: ${prepared.getErrorMessage()}`);
+      }
+      this.store.statements.set(statement, prepared);
+    }
+
+    const result = await this.store.conn!.execute(prepared, params);
+    return result.getAll();
+  }
+
   /** Convert BigInt (from KuzuDB COUNT/SUM) to Number safely */
   private num(val: unknown): number {
     if (typeof val === "bigint") return Number(val);
@@ -569,8 +1185,34 @@ export class KnowledgeGraph {
     return 0;
   }
 
-  private escape(str: string): string {
-    return str.replace(/'/g, "\\'").replace(/\\/g, "\\\\");
+  private dominantSentiment(sentiments: Array<string | null>): string {
+    const counts = new Map<string, number>();
+    for (const sentiment of sentiments) {
+      if (!sentiment) continue;
+      counts.set(sentiment, (counts.get(sentiment) ?? 0) + 1);
+    }
+    let dominant = "neutral";
+    let max = 0;
+    for (const [sentiment, count] of counts) {
+      if (count > max) {
+        dominant = sentiment;
+        max = count;
+      }
+    }
+    return dominant;
+  }
+
+  /**
+   * Node id for a new canonical entity, qualified by workspace so two
+   * workspaces tracking the same company get separate nodes. Names with no
+   * ASCII letters or digits (non-Latin scripts, punctuation) would all
+   * slugify to the same id, so those fall back to a hash of the name.
+   */
+  private entityId(name: string): string {
+    const slug = this.slugify(name);
+    if (slug) return `entity-${this.workspaceId}-${slug}`;
+    const hash = createHash("sha256").update(name.toLowerCase().trim()).digest("hex");
+    return `entity-${this.workspaceId}-${hash.slice(0, 12)}`;
   }
 
   private slugify(str: string): string {
@@ -582,18 +1224,37 @@ export class KnowledgeGraph {
 
   async close(): Promise<void> {
     // KuzuDB handles cleanup on GC
-    this.initialized = false;
+    this.store.initialized = false;
   }
 }
 
 // ─── Singleton ───
 
-let graphInstance: KnowledgeGraph | null = null;
+const graphInstances = new Map<string, KnowledgeGraph>();
+
+// The graph as seen by one workspace
+export function getKnowledgeGraph(
+  workspaceId: string,
+  dbPath: string = "./data/aeo-graph"
+): KnowledgeGraph {
+  const key = `${dbPath}\0${workspaceId}`;
+  let graph = graphInstances.get(key);
+  if (!graph) {
+    graph = new KnowledgeGraph(dbPath, workspaceId);
+    graphInstances.set(key, graph);
+  }
+  return graph;
+}
 
-export function getKnowledgeGraph(dbPath?: string): KnowledgeGraph {
-  if (!graphInstance) {
-    const path = dbPath ?? "./data/aeo-graph";
-    graphInstance = new KnowledgeGraph(path);
+/**
+ * The graph of the workspace the current operation runs for (see
+ * runInWorkspace). Throws outside a workspace rather than reading across
+ * all of them.
+ */
+export function getWorkspaceGraph(): KnowledgeGraph {
+  const workspaceId = currentWorkspaceId();
+  if (!workspaceId) {
+    throw new Error("Knowledge graph used outside a workspace");
   }
-  return graphInstance;
+  return getKnowledgeGraph(workspaceId);
 }
@@ -0,0 +1,96 @@
+import type { JobEvent, JobSummary } from "./index";
+
+/**
+ * Browser helpers for background jobs (see ./index). Routes that queue a job
+ * answer 202 with its JobSummary; followJob then streams its events.
+ */
+
+export type { JobEvent, JobProgress, JobSummary } from "./index";
+
+const JOB_EVENT_TYPES: JobEvent["type"][] = [
+  "progress",
+  "error",
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+/**
+ * Follow a job over Server-Sent Events until it finishes. Resolves with its
+ * result; rejects with its last error if it was dead-lettered, or
+ * "Cancelled" if it was cancelled. Failed attempts that will be retried
+ * arrive as progress messages.
+ * EventSource reconnects on its own and only missed events are resent.
+ */
+export function followJob<T>(
+  jobId: string,
+  onEvent?: (event: JobEvent) => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    const handle = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      onEvent?.(event);
+      if (event.type === "completed") {
+        source.close();
+        resolve(event.result as T);
+      } else if (event.type === "failed") {
+        source.close();
+        reject(new Error(event.error));
+      } else if (event.type === "cancelled") {
+        source.close();
+        reject(new Error("Cancelled"));
+      }
+    };
+
+    for (const type of JOB_EVENT_TYPES) {
+      source.addEventListener(type, handle as EventListener);
+    }
+    source.onerror = () => {
+      // CLOSED means the server refused the stream (job gone or not ours)
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost track of the job"));
+      }
+    };
+  });
+}
+
+/**
+ * POST to a route that queues a job, then follow the job to its result.
+ */
+export async function runJob<T>(
+  url: string,
+  body: unknown,
+  onEvent?: (event: JobEvent, job: JobSummary) => void
+): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error ?? "Failed to start job");
+  }
+  const job: JobSummary = await res.json();
+  return followJob<T>(job.id, onEvent && ((event) => onEvent(event, job)));
+}
+
+export async function cancelJob(jobId: string): Promise<void> {
+  const res = await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error ?? "Failed to cancel job");
+  }
+}
+
+// Queue a dead-lettered job again
+export async function retryJob(jobId: string): Promise<JobSummary> {
+  const res = await fetch(`/api/jobs/${jobId}/retry`, { method: "POST" });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error ?? "Failed to retry job");
+  }
+  return res.json();
+}
@@ -0,0 +1,495 @@
+import { prisma } from "@/lib/db";
+import { runForBrand } from "@/lib/auth/context";
+import type { ProviderName } from "@/lib/llm";
+import { LLMError } from "@/lib/llm/resilience";
+import { buildProbePrompt } from "@/lib/citation/prompt-builder";
+import type { ProbeCategory } from "@/lib/citation/prompt-builder";
+import {
+  detectCitation,
+  parseCompetitors,
+  toBrandEntity,
+} from "@/lib/citation/detector";
+import { toSourceRecords } from "@/lib/citation/sources";
+import { runCompetitiveAnalysis } from "@/lib/citation/competitive";
+import { queryLLMCached } from "@/lib/monitoring/cache";
+import { runOrResumeBatch } from "@/lib/monitoring/batch-runner";
+import type { BatchRunOptions } from "@/lib/monitoring/batch-runner";
+import { executeSchedule } from "@/lib/monitoring/schedules";
+import { ingestStoredCitationResult } from "@/lib/graph/ingest";
+import { loadDetectionAliases } from "@/lib/graph/aliases";
+import { checkEntityConsistency } from "@/lib/graph/entity-consistency";
+import { generateContent } from "@/lib/content/generator";
+import type { ContentRequest } from "@/lib/content/generator";
+import { briefProbeQueries, generateContentBrief } from "@/lib/content/content-brief";
+import { scoreContent } from "@/lib/scoring/aeo-scorer";
+import { checkCitationContinuity } from "@/lib/scoring/continuity";
+import {
+  runContinuityMonitoring,
+  saveContinuityScore,
+} from "@/lib/monitoring/continuity-monitor";
+import { runAccuracyCheck } from "@/lib/scoring/accuracy";
+import { hasOnboardingProviderKey, updateSettings } from "@/lib/settings/config";
+import { throwIfCancelled } from "./index";
+import type { JobContext, JobHandler, JobType } from "./index";
+
+/**
+ * What each job type runs. Handlers get the job's payload and run inside its
+ * workspace (see ./worker); what they return is the job's result. A handler
+ * may run more than once for one job, so work that is costly to repeat
+ * checkpoints how far it got.
+ */
+
+async function loadBrand(brandId: string) {
+  const brand = await prisma.brand.findUnique({ where: { id: brandId } });
+  if (!brand) {
+    throw new Error(`Brand ${brandId} no longer exists`);
+  }
+  return brand;
+}
+
+/**
+ * Batch progress as job progress, one step per probe/provider pair. The
+ * batch's id is checkpointed so a retry resumes it instead of starting over.
+ */
+function batchJobOptions(
+  context: JobContext<{ batchRunId?: string }>
+): Pick<BatchRunOptions, "onProgress" | "signal"> {
+  return {
+    signal: context.signal,
+    onProgress: (event) => {
+      if (event.type === "started") {
+        context.progress({ total: event.totalPairs, completed: event.completedPairs });
+        void context.checkpoint({ batchRunId: event.batchRunId }).catch((error) =>
+          console.error(`Failed to checkpoint job ${context.jobId}:`, error)
+        );
+      } else if (event.type === "pair") {
+        if (event.error) {
+          context.reportError(
+            event.provider,
+            new LLMError(event.provider, event.error.kind, event.error.message)
+          );
+        }
+        context.progress({
+          completed: 1,
+          cost: event.cost,
+          message: `${event.provider}: "${event.query}" ${event.reason ? `skipped (${event.reason})` : event.status}`,
+        });
+      }
+    },
+  };
+}
+
+// ── Citation runs ────────────────────────────────────────────────────────
+
+const competitiveAnalysis: JobHandler<"competitive-analysis"> = async (
+  { brandId, queries, forceRefresh },
+  context
+) => {
+  const brand = await loadBrand(brandId);
+  return runForBrand(brand, () =>
+    runCompetitiveAnalysis(
+      toBrandEntity(brand),
+      parseCompetitors(brand.competitors),
+      queries as Array<{ query: string; category: ProbeCategory }>,
+      undefined,
+      {
+        forceRefresh,
+        signal: context.signal,
+        onProgress: ({ query, provider, cited, error, cost }) =>
+          context.progress({
+            completed: 1,
+            cost,
+            message: error
+              ? `${provider}: "${query}" failed (${error})`
+              : `${provider}: "${query}" ${cited ? "cites" : "does not cite"} ${brand.name}`,
+          }),
+      }
+    )
+  );
+};
+
+// One probe against each provider; the result is the completed run with its results
+const probeRun: JobHandler<"probe-run"> = async (
+  { probeId, providers, samples, forceRefresh },
+  context
+) => {
+  const probe = await prisma.probe.findUnique({
+    where: { id: probeId },
+    include: { brand: true },
+  });
+  if (!probe) {
+    throw new Error(`Probe ${probeId} no longer exists`);
+  }
+
+  const prompt = buildProbePrompt(
+    probe.query,
+    probe.category as ProbeCategory
+  );
+
+  const { brand, competitors } = await loadDetectionAliases(
+    toBrandEntity(probe.brand),
+    parseCompetitors(probe.brand.competitors),
+    probe.brand.workspaceId
+  );
+
+  const run = await prisma.citationRun.create({
+    data: {
+      probeId: probe.id,
+      brandId: probe.brandId,
+      status: "running",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    for (const provider of providers as ProviderName[]) {
+      for (let sample = 0; sample < samples; sample++) {
+        throwIfCancelled(context.signal);
+        try {
+          const response = await runForBrand(probe.brand, () =>
+            queryLLMCached({ provider, prompt }, { forceRefresh })
+          );
+
+          const citation = detectCitation(response.text, brand, competitors);
+
+          const result = await prisma.citationResult.create({
+            data: {
+              runId: run.id,
+              provider,
+              model: response.model,
+              response: response.text,
+              cited: citation.cited,
+              citationType: citation.citationType,
+              sentiment: citation.sentiment,
+              position: citation.position,
+              competitorsMentioned: JSON.stringify(citation.competitorsMentioned),
+              confidence: citation.confidence,
+              matchedSurfaceForm: citation.matchedSurfaceForm,
+              latencyMs: response.latencyMs,
+              tokensUsed: response.tokensIn + response.tokensOut,
+              cost: response.cost,
+              searches: response.searches ?? 0,
+              cached: response.cached,
+              sources: { create: toSourceRecords(response.sources) },
+            },
+            include: { sources: true },
+          });
+
+          await ingestStoredCitationResult(result, {
+            workspaceId: probe.brand.workspaceId,
+            brand,
+            competitors,
+            query: probe.query,
+            queryCategory: probe.category,
+          }).catch((ingestError: unknown) =>
+            console.error("Graph ingestion failed:", ingestError)
+          );
+
+          context.progress({
+            completed: 1,
+            cost: response.cached ? 0 : response.cost,
+            message: `${provider}: ${citation.cited ? "cited" : "not cited"}`,
+          });
+        } catch (providerError) {
+          console.error(`Provider ${provider} failed:`, providerError);
+          context.reportError(provider, providerError);
+
+          await prisma.citationResult.create({
+            data: {
+              runId: run.id,
+              provider,
+              model: "unknown",
+              response:
+                providerError instanceof Error
+                  ? providerError.message
+                  : "Unknown error",
+              cited: false,
+              confidence: 0,
+            },
+          });
+
+          // Further samples from a failing provider would fail the same way
+          context.progress({ completed: samples - sample });
+          break;
+        }
+      }
+    }
+
+    return await prisma.citationRun.update({
+      where: { id: run.id },
+      data: {
+        status: "completed",
+        endedAt: new Date(),
+      },
+      include: {
+        results: true,
+      },
+    });
+  } catch (error) {
+    await prisma.citationRun
+      .update({
+        where: { id: run.id },
+        data: {
+          status: "failed",
+          endedAt: new Date(),
+        },
+      })
+      .catch((updateErr: unknown) =>
+        console.error("Failed to update run status:", updateErr)
+      );
+    throw error;
+  }
+};
+
+// The onboarding wizard's first batch, then whether setup is now complete
+const firstRun: JobHandler<"first-run"> = async (
+  { brandId, probeIds, batchRunId },
+  context
+) => {
+  const brand = await loadBrand(brandId);
+  const workspaceId = brand.workspaceId;
+  const run = await runOrResumeBatch(batchRunId, brandId, probeIds, undefined, {
+    workspaceId: workspaceId ?? undefined,
+    ...batchJobOptions(context),
+  });
+
+  const inWorkspace = workspaceId ? { workspaceId } : {};
+  const [brandCount, probeCount, citationCount, results] = await Promise.all([
+    prisma.brand.count({ where: inWorkspace }),
+    prisma.probe.count({ where: { brand: inWorkspace } }),
+    prisma.citationResult.count({
+      where: { run: { brand: inWorkspace } },
+    }),
+    prisma.citationResult.findMany({
+      where: { run: { batchRunId: run.batchRunId ?? "" } },
+      select: { cited: true },
+    }),
+  ]);
+
+  const allComplete =
+    brandCount > 0 && hasOnboardingProviderKey() && probeCount > 0 && citationCount > 0;
+
+  if (allComplete) {
+    // Only the flag: the timezone decides when every schedule fires
+    await updateSettings({ general: { setupComplete: true } });
+  }
+
+  const citationsFound = results.filter((result) => result.cited).length;
+  return {
+    message: "First citation run completed",
+    setupComplete: allComplete,
+    result: {
+      probesRun: run.completed,
+      citationsFound,
+      citationRate: results.length > 0 ? (citationsFound / results.length) * 100 : 0,
+    },
+  };
+};
+
+const batchRun: JobHandler<"batch-run"> = (payload, context) =>
+  runOrResumeBatch(
+    payload.batchRunId,
+    payload.brandId,
+    payload.probeIds,
+    payload.providers as ProviderName[] | undefined,
+    {
+      forceRefresh: payload.forceRefresh,
+      samples: payload.samples,
+      ...batchJobOptions(context),
+    }
+  );
+
+const scheduledRun: JobHandler<"scheduled-run"> = async (
+  { scheduleId, batchRunId },
+  context
+) => {
+  await executeSchedule(scheduleId, batchRunId, batchJobOptions(context));
+  return null;
+};
+
+// ── Content ──────────────────────────────────────────────────────────────
+
+// Generate a draft and save it; the result is the new Content row
+const contentGeneration: JobHandler<"content-generation"> = async (
+  { brandId, topic, contentType, provider },
+  context
+) => {
+  const brand = await loadBrand(brandId);
+  const keywords: string[] = JSON.parse(brand.keywords);
+
+  const generated = await runForBrand(brand, () =>
+    generateContent(
+      {
+        brandName: brand.name,
+        brandDomain: brand.domain,
+        keywords,
+        contentType: contentType as ContentRequest["contentType"],
+        topic,
+      },
+      provider as ProviderName
+    )
+  );
+
+  const content = await prisma.content.create({
+    data: {
+      brandId,
+      title: generated.title,
+      body: generated.body,
+      contentType,
+      status: "draft",
+      targetKeywords: brand.keywords,
+      schemaMarkup: generated.schemaMarkup,
+      aeoScore: generated.aeoScore,
+    },
+  });
+  context.progress({ completed: 1 });
+  return content;
+};
+
+// AEO score, probing providers to validate citability unless skipped
+const contentScoring: JobHandler<"content-scoring"> = async (
+  { contentId, skipCitationTest },
+  context
+) => {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    include: { brand: true },
+  });
+  if (!content) {
+    throw new Error(`Content ${contentId} no longer exists`);
+  }
+
+  const keywords: string[] = content.brand.keywords
+    ? JSON.parse(content.brand.keywords)
+    : [];
+  const competitors: Array<{ name: string; domain: string }> =
+    content.brand.competitors
+      ? JSON.parse(content.brand.competitors)
+      : [];
+
+  const aeoScore = await runForBrand(content.brand, () =>
+    scoreContent(
+      content.body,
+      content.schemaMarkup ?? "",
+      content.brand.name,
+      content.brand.domain,
+      keywords,
+      competitors,
+      skipCitationTest
+    )
+  );
+
+  await prisma.content.update({
+    where: { id: contentId },
+    data: { aeoScore: aeoScore.overall },
+  });
+  context.progress({ completed: 1 });
+  return aeoScore;
+};
+
+// A competitive analysis of the topic, turned into a content brief
+const contentBrief: JobHandler<"content-brief"> = async (
+  { brandId, topic, keywords },
+  context
+) => {
+  const brand = await loadBrand(brandId);
+
+  return runForBrand(brand, async () => {
+    const competitiveData = await runCompetitiveAnalysis(
+      toBrandEntity(brand),
+      parseCompetitors(brand.competitors),
+      briefProbeQueries(topic),
+      undefined,
+      {
+        signal: context.signal,
+        onProgress: ({ query, provider, cost }) =>
+          context.progress({ completed: 1, cost, message: `${provider}: "${query}"` }),
+      }
+    );
+
+    return generateContentBrief(
+      brand.name,
+      brand.domain,
+      topic,
+      competitiveData,
+      keywords
+    );
+  });
+};
+
+const entityConsistency: JobHandler<"entity-consistency"> = async (
+  { brandName, probeResponses, productNames },
+  context
+) => {
+  const report = await checkEntityConsistency(brandName, probeResponses, productNames);
+  context.progress({ completed: 1 });
+  return report;
+};
+
+// Fetch the landing page a citation pointed to and score its continuity
+const continuityCheck: JobHandler<"continuity-check"> = async (
+  { citationResultId, url, forceRefresh },
+  context
+) => {
+  const check = await checkCitationContinuity(citationResultId, { url, forceRefresh });
+  await saveContinuityScore(check);
+  context.progress({ completed: 1 });
+  return check;
+};
+
+const continuityMonitor: JobHandler<"continuity-monitor"> = (
+  { batchRunId },
+  context
+) =>
+  runContinuityMonitoring(batchRunId, {
+    signal: context.signal,
+    onProgress: (event) => {
+      if (event.type === "started") {
+        context.progress({ total: event.total });
+      } else {
+        context.progress({
+          completed: 1,
+          message: event.overallScore !== null
+            ? `${event.provider}: ${event.url} scored ${event.overallScore}`
+            : `${event.provider}: ${event.url || "no link"} skipped (${event.error})`,
+        });
+      }
+    },
+  });
+
+const accuracyCheck: JobHandler<"accuracy-check"> = (
+  { brandId, days, limit },
+  context
+) =>
+  runAccuracyCheck(brandId, {
+    days,
+    limit,
+    signal: context.signal,
+    onProgress: (event) => {
+      if (event.type === "started") {
+        context.progress({ total: event.total });
+      } else {
+        context.progress({
+          completed: 1,
+          message: event.counts
+            ? `${event.provider}: ${event.counts.wrong} wrong, ${event.counts.outdated} outdated (${event.query})`
+            : `${event.provider}: failed (${event.error})`,
+        });
+      }
+    },
+  });
+
+export const jobHandlers: { [K in JobType]: JobHandler<K> } = {
+  "competitive-analysis": competitiveAnalysis,
+  "probe-run": probeRun,
+  "first-run": firstRun,
+  "batch-run": batchRun,
+  "scheduled-run": scheduledRun,
+  "content-generation": contentGeneration,
+  "content-scoring": contentScoring,
+  "content-brief": contentBrief,
+  "entity-consistency": entityConsistency,
+  "continuity-check": continuityCheck,
+  "continuity-monitor": continuityMonitor,
+  "accuracy-check": accuracyCheck,
+};
@@ -0,0 +1,438 @@
+import { prisma } from "@/lib/db";
+import type { Job as JobRow } from "@prisma/client";
+import type { LLMErrorKind } from "@/lib/llm/resilience";
+
+/**
+ * Durable job queue for operations that outlive an HTTP request: batch and
+ * scheduled runs, competitive analyses, probe runs, content generation and
+ * scoring, briefs, entity checks and landing page continuity checks. A route validates its input, enqueues a
+ * job and answers with it straight away; the job worker (./worker) claims it
+ * under a lease, runs its handler (./handlers) and retries it with backoff
+ * when it throws. A job that fails every attempt is dead-lettered: it stays
+ * in the table with its last error until retried from the Jobs page.
+ *
+ * Jobs are rows in the Job table, so they survive restarts: a job whose
+ * worker died is claimed again once its lease expires. Clients follow a job
+ * over Server-Sent Events (GET /api/jobs/:id/events) or poll GET /api/jobs/:id.
+ */
+
+// What each job type needs to run, stored as the job's payload
+export interface JobPayloads {
+  "competitive-analysis": {
+    brandId: string;
+    queries: Array<{ query: string; category: string }>;
+    forceRefresh?: boolean;
+  };
+  "probe-run": {
+    probeId: string;
+    providers: string[];
+    samples: number;
+    forceRefresh: boolean;
+  };
+  "first-run": { brandId: string; probeIds: string[]; batchRunId?: string };
+  // A new batch from its scope, or the rest of `batchRunId`
+  "batch-run": {
+    batchRunId?: string;
+    brandId?: string;
+    probeIds?: string[];
+    providers?: string[];
+    forceRefresh?: boolean;
+    samples?: number;
+  };
+  "scheduled-run": { scheduleId: string; batchRunId?: string };
+  "content-generation": {
+    brandId: string;
+    topic: string;
+    contentType: string;
+    provider: string;
+  };
+  "content-scoring": { contentId: string; skipCitationTest: boolean };
+  "content-brief": { brandId: string; topic: string; keywords: string[] };
+  "entity-consistency": {
+    brandName: string;
+    probeResponses: Array<{ provider: string; response: string }>;
+    productNames: string[];
+  };
+  "continuity-check": {
+    citationResultId: string;
+    url?: string; // the page to check, when not the one the response linked to
+    forceRefresh?: boolean;
+  };
+  // Every linked citation in a finished batch run
+  "continuity-monitor": { batchRunId: string };
+  // A brand's recent responses, against its fact sheet
+  "accuracy-check": { brandId: string; days: number; limit: number };
+}
+
+export type JobType = keyof JobPayloads;
+// "dead": every attempt failed; kept until retried
+export type JobStatus = "queued" | "running" | "completed" | "cancelled" | "dead";
+
+export interface JobProgress {
+  completed: number; // steps done in this attempt, e.g. probe/provider pairs
+  total: number;
+  cost: number; // USD spent so far, over all attempts
+}
+
+export interface JobError {
+  provider: string;
+  kind: LLMErrorKind;
+  message: string;
+}
+
+export type JobEvent =
+  | { type: "progress"; progress: JobProgress; message?: string }
+  | { type: "error"; error: JobError }
+  | { type: "completed"; result: unknown }
+  | { type: "failed"; error: string } // dead-lettered
+  | { type: "cancelled" };
+
+// What a job's handler sees while it runs
+export interface JobContext<P = unknown> {
+  jobId: string;
+  attempt: number; // from 1
+  signal: AbortSignal; // aborted when the job is cancelled or its lease is lost
+  // Move the progress on: `completed` and `cost` are added, `total` replaces
+  progress(update: { completed?: number; total?: number; cost?: number; message?: string }): void;
+  // A provider call that failed without failing the job
+  reportError(provider: string, error: unknown): void;
+  // Merge into the stored payload, so a retry can pick up where this attempt got to
+  checkpoint(update: Partial<P>): Promise<void>;
+}
+
+export type JobHandler<K extends JobType> = (
+  payload: JobPayloads[K],
+  context: JobContext<JobPayloads[K]>
+) => Promise<unknown>;
+
+export interface JobSummary {
+  id: string;
+  type: JobType;
+  label: string;
+  workspaceId: string | null;
+  status: JobStatus;
+  progress: JobProgress;
+  errors: JobError[];
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // next attempt, for a queued job
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export type JobListener = (event: JobEvent, sequence: number) => void;
+
+// Events of the jobs this process runs, replayed to late subscribers
+interface LiveJob {
+  events: Array<{ sequence: number; event: JobEvent }>;
+  lastSequence: number;
+  listeners: Set<JobListener>;
+  finishedAt: number | null;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const ACTIVE_STATUSES: JobStatus[] = ["queued", "running"];
+// Events kept per job for replay; progress beyond this is still in `progress`
+const MAX_REPLAY_EVENTS = 500;
+const LIVE_RETENTION_MS = 10 * 60_000;
+// How often a watcher with no live events re-reads the job
+const WATCH_POLL_MS = 1000;
+
+const globalForJobs = globalThis as unknown as {
+  liveJobs?: Map<string, LiveJob>;
+  // Set by the worker running in this process
+  jobWorker?: { wake(): void; abort(jobId: string): void };
+};
+const liveJobs = (globalForJobs.liveJobs ??= new Map<string, LiveJob>());
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function toJobSummary(row: JobRow): JobSummary {
+  return {
+    id: row.id,
+    type: row.type as JobType,
+    label: row.label,
+    workspaceId: row.workspaceId,
+    status: row.status as JobStatus,
+    progress: { completed: 0, total: 0, cost: 0, ...parseJson<Partial<JobProgress>>(row.progress, {}) },
+    errors: parseJson<JobError[]>(row.errors, []),
+    error: row.error,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    runAt: row.runAt,
+    createdAt: row.createdAt,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt,
+  };
+}
+
+// The final event for a job that has finished, from its row
+function finalEvent(row: JobRow): JobEvent | null {
+  switch (row.status) {
+    case "completed":
+      return { type: "completed", result: parseJson<unknown>(row.result, null) };
+    case "dead":
+      return { type: "failed", error: row.error ?? "Job failed" };
+    case "cancelled":
+      return { type: "cancelled" };
+    default:
+      return null;
+  }
+}
+
+function isFinal(event: JobEvent): boolean {
+  return event.type === "completed" || event.type === "failed" || event.type === "cancelled";
+}
+
+// ── Queue ────────────────────────────────────────────────────────────────
+
+/**
+ * Queue a job for the worker. With a `key`, a queued or running job with
+ * the same key is returned instead of adding another.
+ */
+export async function enqueueJob<K extends JobType>(
+  type: K,
+  payload: JobPayloads[K],
+  meta: {
+    workspaceId: string | null;
+    label: string;
+    total?: number;
+    key?: string;
+    maxAttempts?: number;
+  }
+): Promise<JobSummary> {
+  if (meta.key) {
+    const existing = await findActiveJob(meta.key);
+    if (existing) return existing;
+  }
+
+  const row = await prisma.job.create({
+    data: {
+      type,
+      workspaceId: meta.workspaceId,
+      label: meta.label,
+      key: meta.key ?? null,
+      payload: JSON.stringify(payload),
+      maxAttempts: meta.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      progress: JSON.stringify({ completed: 0, total: meta.total ?? 0, cost: 0 }),
+    },
+  });
+  globalForJobs.jobWorker?.wake();
+  return toJobSummary(row);
+}
+
+export async function getJob(id: string): Promise<(JobSummary & { result: unknown }) | null> {
+  const row = await prisma.job.findUnique({ where: { id } });
+  return row ? { ...toJobSummary(row), result: parseJson<unknown>(row.result, null) } : null;
+}
+
+export async function listJobs(
+  workspaceId: string,
+  options?: { status?: JobStatus; limit?: number }
+): Promise<JobSummary[]> {
+  const rows = await prisma.job.findMany({
+    where: { workspaceId, ...(options?.status ? { status: options.status } : {}) },
+    orderBy: { createdAt: "desc" },
+    take: options?.limit ?? 50,
+  });
+  return rows.map(toJobSummary);
+}
+
+// The queued or running job with this key, if any
+export async function findActiveJob(key: string): Promise<JobSummary | null> {
+  const row = await prisma.job.findFirst({
+    where: { key, status: { in: ACTIVE_STATUSES } },
+    orderBy: { createdAt: "desc" },
+  });
+  return row ? toJobSummary(row) : null;
+}
+
+// Keys among `keys` that have a queued or running job
+export async function activeJobKeys(keys: string[]): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+  const rows = await prisma.job.findMany({
+    where: { key: { in: keys }, status: { in: ACTIVE_STATUSES } },
+    select: { key: true },
+  });
+  return new Set(rows.map((row) => row.key as string));
+}
+
+/**
+ * Stop a job. A queued one is cancelled at once; a running one stops
+ * starting new work (calls already sent finish and are kept) and ends
+ * cancelled. Returns false if the job is not queued or running.
+ */
+export async function cancelJob(id: string): Promise<boolean> {
+  const queued = await prisma.job.updateMany({
+    where: { id, status: "queued" },
+    data: { status: "cancelled", finishedAt: new Date() },
+  });
+  if (queued.count > 0) return true;
+
+  const running = await prisma.job.updateMany({
+    where: { id, status: "running" },
+    data: { cancelRequested: true },
+  });
+  if (running.count === 0) return false;
+  // The worker holding it stops here, or at its next lease renewal if it
+  // runs in another process
+  globalForJobs.jobWorker?.abort(id);
+  return true;
+}
+
+/**
+ * Queue a dead-lettered job again with a fresh set of attempts. Returns
+ * null if the job is not dead.
+ */
+export async function retryJob(id: string): Promise<JobSummary | null> {
+  const requeued = await prisma.job.updateMany({
+    where: { id, status: "dead" },
+    data: {
+      status: "queued",
+      attempts: 0,
+      runAt: new Date(),
+      error: null,
+      finishedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+  if (requeued.count === 0) return null;
+  liveJobs.delete(id);
+  globalForJobs.jobWorker?.wake();
+  return toJobSummary(await prisma.job.findUniqueOrThrow({ where: { id } }));
+}
+
+// Throw JobCancelledError if the job was cancelled; for work between steps
+export function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) throw new JobCancelledError();
+}
+
+// ── Live events ──────────────────────────────────────────────────────────
+
+function sweepLiveJobs(): void {
+  const cutoff = Date.now() - LIVE_RETENTION_MS;
+  for (const [id, live] of liveJobs) {
+    if (live.finishedAt !== null && live.finishedAt < cutoff) liveJobs.delete(id);
+  }
+}
+
+/**
+ * Send an event to the job's watchers in this process. Used by the worker.
+ * Sequence numbers follow the clock, so they keep increasing when another
+ * process takes the job over and a reconnecting client's Last-Event-ID
+ * still means "after this".
+ */
+export function publishJobEvent(jobId: string, event: JobEvent): void {
+  let live = liveJobs.get(jobId);
+  if (!live) {
+    sweepLiveJobs();
+    live = { events: [], lastSequence: 0, listeners: new Set(), finishedAt: null };
+    liveJobs.set(jobId, live);
+  }
+  if (live.finishedAt !== null) return;
+
+  const sequence = (live.lastSequence = Math.max(live.lastSequence + 1, Date.now()));
+  live.events.push({ sequence, event });
+  if (live.events.length > MAX_REPLAY_EVENTS) {
+    // Keep the first event and the latest ones
+    live.events.splice(1, live.events.length - MAX_REPLAY_EVENTS);
+  }
+  for (const listener of live.listeners) {
+    try {
+      listener(event, sequence);
+    } catch (error) {
+      console.error(`Job ${jobId} listener failed:`, error);
+    }
+  }
+  if (isFinal(event)) {
+    live.finishedAt = Date.now();
+    live.listeners.clear();
+  }
+}
+
+/**
+ * Replay a job's events numbered after `afterSequence` to `listener` and
+ * follow new ones until it finishes. While the job is queued, or runs in
+ * another process, its row is read every second instead: `listener` gets
+ * its progress as it changes and its final event. Returns the function
+ * that stops listening.
+ */
+export function watchJob(id: string, listener: JobListener, afterSequence = 0): () => void {
+  let stopped = false;
+  let lastSequence = afterSequence;
+  // Polled events don't move this, so live events that came before them still replay
+  let replayAfter = afterSequence;
+  let lastProgress = "";
+  let unsubscribe = () => {};
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const deliver: JobListener = (event, sequence) => {
+    lastSequence = Math.max(lastSequence, sequence);
+    listener(event, sequence);
+  };
+
+  const attach = (): boolean => {
+    const live = liveJobs.get(id);
+    if (!live) return false;
+    const fromLive: JobListener = (event, sequence) => {
+      replayAfter = sequence;
+      deliver(event, sequence);
+    };
+    for (const { sequence, event } of live.events) {
+      if (sequence > replayAfter) fromLive(event, sequence);
+    }
+    if (live.finishedAt === null) {
+      live.listeners.add(fromLive);
+      unsubscribe = () => {
+        live.listeners.delete(fromLive);
+      };
+    }
+    return true;
+  };
+
+  const poll = async () => {
+    if (stopped || attach()) return;
+
+    const row = await prisma.job.findUnique({ where: { id } }).catch(() => null);
+    if (stopped) return;
+    const sequence = Math.max(lastSequence + 1, Date.now());
+    if (!row) {
+      deliver({ type: "failed", error: "Job no longer exists" }, sequence);
+      return;
+    }
+    const final = finalEvent(row);
+    if (final) {
+      deliver(final, sequence);
+      return;
+    }
+    if (row.progress !== lastProgress) {
+      lastProgress = row.progress;
+      deliver({ type: "progress", progress: toJobSummary(row).progress }, sequence);
+    }
+    timer = setTimeout(() => void poll(), WATCH_POLL_MS);
+  };
+
+  void poll();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    unsubscribe();
+  };
+}
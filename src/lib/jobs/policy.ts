@@ -0,0 +1,73 @@
+import { LLMError } from "@/lib/llm/resilience";
+
+/**
+ * What the job worker (./worker) decides about a job: whether it can be
+ * claimed, what becomes of one whose lease ran out, and whether a failed
+ * attempt is retried or dead-lettered. Kept apart from the worker so the
+ * rules can be checked without a database.
+ */
+
+export const LEASE_MS = 3 * 60_000; // longer than a batch run's stale window, so a retry resumes it
+const BASE_RETRY_MS = 30_000;
+const MAX_RETRY_MS = 15 * 60_000;
+
+// The fields of a Job row the rules look at
+export interface JobState {
+  status: string;
+  runAt: Date;
+  leaseExpiresAt: Date | null;
+  attempts: number; // attempts claimed so far, including a running one
+  maxAttempts: number;
+  cancelRequested: boolean;
+}
+
+export type FailureOutcome =
+  | { status: "queued"; runAt: Date; delayMs: number }
+  | { status: "dead" };
+
+export function leaseExpiry(now: Date): Date {
+  return new Date(now.getTime() + LEASE_MS);
+}
+
+// 30s after the first attempt, doubling each time, at most 15 minutes
+export function retryDelayMs(attempt: number): number {
+  return Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempt - 1));
+}
+
+// Provider errors that would fail the same way again (auth, quota, bad request) are not
+export function isRetryable(error: unknown): boolean {
+  return error instanceof LLMError ? error.retryable : true;
+}
+
+/**
+ * A job is due when it is queued and its backoff is over, or running under
+ * a lease that ran out because its worker died.
+ */
+export function isClaimable(job: JobState, now: Date): boolean {
+  if (job.status === "queued") return job.runAt <= now;
+  if (job.status === "running") return !!job.leaseExpiresAt && job.leaseExpiresAt < now;
+  return false;
+}
+
+/**
+ * What becomes of a job whose worker died: cancelled if that was asked
+ * for, dead if the lost attempt was its last, otherwise claimed again as
+ * its next attempt.
+ */
+export function expiredLeaseOutcome(job: JobState): "cancelled" | "dead" | "retry" {
+  if (job.cancelRequested) return "cancelled";
+  return job.attempts >= job.maxAttempts ? "dead" : "retry";
+}
+
+/**
+ * What becomes of a job whose handler threw on attempt `job.attempts`:
+ * queued again after a backoff while attempts remain and the error may
+ * pass, otherwise dead-lettered.
+ */
+export function failureOutcome(job: JobState, error: unknown, now: Date): FailureOutcome {
+  if (job.attempts < job.maxAttempts && isRetryable(error)) {
+    const delayMs = retryDelayMs(job.attempts);
+    return { status: "queued", runAt: new Date(now.getTime() + delayMs), delayMs };
+  }
+  return { status: "dead" };
+}
@@ -0,0 +1,321 @@
+import { randomUUID } from "crypto";
+import { prisma } from "@/lib/db";
+import type { Job as JobRow } from "@prisma/client";
+import { runInWorkspace } from "@/lib/auth/context";
+import { classifyError } from "@/lib/llm/resilience";
+import { JobCancelledError, publishJobEvent, toJobSummary } from "./index";
+import type { JobContext, JobHandler, JobType } from "./index";
+import { jobHandlers } from "./handlers";
+import { expiredLeaseOutcome, failureOutcome, isClaimable, leaseExpiry } from "./policy";
+
+/**
+ * The job worker: claims queued jobs from the Job table and runs their
+ * handlers, JOB_CONCURRENCY at a time. Started once per server process from
+ * instrumentation; several processes can share the table.
+ *
+ * Claiming a job takes a lease (LEASE_MS), renewed while the handler runs.
+ * A job whose lease ran out belonged to a worker that died, and is claimed
+ * again as its next attempt. A handler that throws is retried after a
+ * backoff that doubles each attempt, unless the error is a provider error
+ * that would fail the same way (auth, quota, bad request); once out of
+ * attempts the job is dead-lettered. The rules are in ./policy.
+ */
+
+const JOB_CONCURRENCY = 2;
+const POLL_MS = 2000;
+const LEASE_RENEW_MS = 30_000;
+// Progress is written to the row at most this often (live events are immediate)
+const PROGRESS_FLUSH_MS = 2000;
+// Finished jobs are deleted after these; dead letters are kept longer
+const FINISHED_RETENTION_MS = 7 * 24 * 60 * 60_000;
+const DEAD_RETENTION_MS = 30 * 24 * 60 * 60_000;
+const PURGE_EVERY_MS = 60 * 60_000;
+
+interface WorkerState {
+  id: string; // lease owner
+  running: Map<string, AbortController>;
+  claiming: boolean;
+  wakeAgain: boolean;
+  lastPurge: number;
+}
+
+const globalForWorker = globalThis as unknown as {
+  jobWorkerState?: WorkerState;
+  jobWorker?: { wake(): void; abort(jobId: string): void };
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Start this process's worker. Safe to call again.
+ */
+export function startJobWorker(): void {
+  if (globalForWorker.jobWorkerState) return;
+
+  const state: WorkerState = {
+    id: randomUUID(),
+    running: new Map(),
+    claiming: false,
+    wakeAgain: false,
+    lastPurge: 0,
+  };
+  globalForWorker.jobWorkerState = state;
+  globalForWorker.jobWorker = {
+    wake: () => void poll(state),
+    abort: (jobId) => state.running.get(jobId)?.abort(new JobCancelledError()),
+  };
+
+  setInterval(() => void poll(state), POLL_MS).unref();
+  void poll(state);
+}
+
+async function poll(state: WorkerState): Promise<void> {
+  if (state.claiming) {
+    state.wakeAgain = true;
+    return;
+  }
+  state.claiming = true;
+  try {
+    do {
+      state.wakeAgain = false;
+      while (state.running.size < JOB_CONCURRENCY) {
+        const row = await claimNext(state);
+        if (!row) break;
+        void execute(state, row);
+      }
+    } while (state.wakeAgain && state.running.size < JOB_CONCURRENCY);
+
+    if (Date.now() - state.lastPurge > PURGE_EVERY_MS) {
+      state.lastPurge = Date.now();
+      await purgeFinishedJobs();
+    }
+  } catch (error) {
+    console.error("Job worker poll failed:", error);
+  } finally {
+    state.claiming = false;
+  }
+}
+
+/**
+ * Take the next due job: a queued one whose backoff is over, or a running
+ * one whose worker's lease ran out. Claims are conditional on the row not
+ * having changed since it was read, so two workers cannot take one job.
+ */
+async function claimNext(state: WorkerState): Promise<JobRow | null> {
+  const now = new Date();
+  const candidates = await prisma.job.findMany({
+    where: {
+      OR: [
+        { status: "queued", runAt: { lte: now } },
+        { status: "running", leaseExpiresAt: { lt: now } },
+      ],
+    },
+    orderBy: { runAt: "asc" },
+    take: 10,
+  });
+
+  for (const candidate of candidates) {
+    if (state.running.has(candidate.id) || !isClaimable(candidate, now)) continue;
+    const unchanged = { id: candidate.id, status: candidate.status, updatedAt: candidate.updatedAt };
+
+    // Its worker died: end it if it was cancelled or that was its last attempt
+    const outcome = candidate.status === "running" ? expiredLeaseOutcome(candidate) : "retry";
+    if (outcome !== "retry") {
+      const error = candidate.error ?? "The worker running the job stopped";
+      const ended = await prisma.job.updateMany({
+        where: unchanged,
+        data:
+          outcome === "cancelled"
+            ? { status: "cancelled", finishedAt: now, leaseOwner: null, leaseExpiresAt: null }
+            : { status: "dead", error, finishedAt: now, leaseOwner: null, leaseExpiresAt: null },
+      });
+      if (ended.count > 0) {
+        publishJobEvent(
+          candidate.id,
+          outcome === "cancelled" ? { type: "cancelled" } : { type: "failed", error }
+        );
+      }
+      continue;
+    }
+
+    const claimed = await prisma.job.updateMany({
+      where: unchanged,
+      data: {
+        status: "running",
+        leaseOwner: state.id,
+        leaseExpiresAt: leaseExpiry(now),
+        attempts: { increment: 1 },
+        startedAt: candidate.startedAt ?? now,
+      },
+    });
+    if (claimed.count > 0) {
+      return prisma.job.findUnique({ where: { id: candidate.id } });
+    }
+  }
+  return null;
+}
+
+async function execute(state: WorkerState, row: JobRow): Promise<void> {
+  const controller = new AbortController();
+  state.running.set(row.id, controller);
+
+  const summary = toJobSummary(row);
+  // `completed` counts this attempt's steps; cost carries over
+  const progress = { ...summary.progress, completed: 0 };
+  const errors = summary.errors;
+  let payload = JSON.parse(row.payload) as Record<string, unknown>;
+  let lostLease = false;
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const owned = { id: row.id, leaseOwner: state.id };
+  const progressData = () => ({
+    progress: JSON.stringify(progress),
+    errors: JSON.stringify(errors),
+  });
+  const flushSoon = () => {
+    flushTimer ??= setTimeout(() => {
+      flushTimer = undefined;
+      void prisma.job
+        .updateMany({ where: owned, data: progressData() })
+        .catch((error) => console.error(`Failed to save job ${row.id} progress:`, error));
+    }, PROGRESS_FLUSH_MS);
+  };
+
+  const renewal = setInterval(() => {
+    void (async () => {
+      const renewed = await prisma.job.updateMany({
+        where: { ...owned, status: "running" },
+        data: { leaseExpiresAt: leaseExpiry(new Date()), ...progressData() },
+      });
+      if (renewed.count === 0) {
+        lostLease = true;
+        controller.abort(new Error("The job's lease was lost"));
+        return;
+      }
+      // Cancellation requested through another process
+      const current = await prisma.job.findUnique({
+        where: { id: row.id },
+        select: { cancelRequested: true },
+      });
+      if (current?.cancelRequested) controller.abort(new JobCancelledError());
+    })().catch((error) => console.error(`Failed to renew job ${row.id} lease:`, error));
+  }, LEASE_RENEW_MS);
+
+  const context: JobContext<Record<string, unknown>> = {
+    jobId: row.id,
+    attempt: row.attempts,
+    signal: controller.signal,
+    progress({ completed = 0, total, cost = 0, message }) {
+      progress.completed += completed;
+      progress.cost += cost;
+      if (total !== undefined) progress.total = total;
+      publishJobEvent(row.id, { type: "progress", progress: { ...progress }, message });
+      flushSoon();
+    },
+    reportError(provider, error) {
+      const failure = classifyError(provider, error);
+      const entry = { provider, kind: failure.kind, message: failure.message };
+      errors.push(entry);
+      publishJobEvent(row.id, { type: "error", error: entry });
+      flushSoon();
+    },
+    async checkpoint(update) {
+      payload = { ...payload, ...update };
+      await prisma.job.updateMany({ where: owned, data: { payload: JSON.stringify(payload) } });
+    },
+  };
+
+  publishJobEvent(row.id, {
+    type: "progress",
+    progress: { ...progress },
+    message: row.attempts > 1 ? `Attempt ${row.attempts} of ${row.maxAttempts}` : undefined,
+  });
+
+  try {
+    const handler = jobHandlers[row.type as JobType] as JobHandler<JobType> | undefined;
+    if (!handler) {
+      throw new Error(`Unknown job type: ${row.type}`);
+    }
+    const work = () => handler(payload as never, context as never);
+    const result = await (row.workspaceId ? runInWorkspace(row.workspaceId, work) : work());
+
+    const saved = await prisma.job.updateMany({
+      where: owned,
+      data: {
+        status: "completed",
+        result: JSON.stringify(result ?? null),
+        error: null,
+        finishedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        ...progressData(),
+      },
+    });
+    if (saved.count > 0) {
+      publishJobEvent(row.id, { type: "completed", result });
+    }
+  } catch (error) {
+    // Another worker has the job now; what happens next is up to it
+    if (lostLease) {
+      console.error(`Job ${row.id} lost its lease:`, error);
+      return;
+    }
+
+    const finishedAt = new Date();
+    const released = { leaseOwner: null, leaseExpiresAt: null, ...progressData() };
+
+    if (controller.signal.aborted || error instanceof JobCancelledError) {
+      await prisma.job.updateMany({
+        where: owned,
+        data: { status: "cancelled", finishedAt, ...released },
+      });
+      publishJobEvent(row.id, { type: "cancelled" });
+      return;
+    }
+
+    const message = errorMessage(error);
+    console.error(`Job ${row.id} (${row.type}) attempt ${row.attempts} failed:`, error);
+
+    const outcome = failureOutcome(row, error, finishedAt);
+    if (outcome.status === "queued") {
+      await prisma.job.updateMany({
+        where: owned,
+        data: { status: "queued", runAt: outcome.runAt, error: message, ...released },
+      });
+      publishJobEvent(row.id, {
+        type: "progress",
+        progress: { ...progress },
+        message: `Attempt ${row.attempts} failed (${message}); retrying in ${Math.round(outcome.delayMs / 1000)}s`,
+      });
+      return;
+    }
+
+    await prisma.job.updateMany({
+      where: owned,
+      data: { status: "dead", error: message, finishedAt, ...released },
+    });
+    publishJobEvent(row.id, { type: "failed", error: message });
+  } finally {
+    clearInterval(renewal);
+    clearTimeout(flushTimer);
+    state.running.delete(row.id);
+    void poll(state);
+  }
+}
+
+async function purgeFinishedJobs(): Promise<void> {
+  const now = Date.now();
+  await prisma.job.deleteMany({
+    where: {
+      OR: [
+        {
+          status: { in: ["completed", "cancelled"] },
+          finishedAt: { lt: new Date(now - FINISHED_RETENTION_MS) },
+        },
+        { status: "dead", finishedAt: { lt: new Date(now - DEAD_RETENTION_MS) } },
+      ],
+    },
+  });
+}
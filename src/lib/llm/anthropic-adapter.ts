@@ -4,20 +4,25 @@ import {
   type LLMResponse,
   DEFAULT_MODELS,
   calculateCost,
-  SEARCH_CALL_COST,
+  normalizeSources,
 } from "./index";
+import { LLMError } from "./resilience";
+import { getProviderApiKey } from "@/lib/settings/config";
 
 export async function queryAnthropic(
-  request: LLMRequest
+  request: LLMRequest,
+  apiKeyOverride?: string, // the active workspace's own key
+  signal?: AbortSignal // aborts the call when it times out
 ): Promise<LLMResponse> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
+  const apiKey = apiKeyOverride || getProviderApiKey("anthropic");
   if (!apiKey) {
     throw new Error(
-      "ANTHROPIC_API_KEY is not set. Please add it to your environment variables."
+      "No Anthropic API key configured. Add one in Settings → Providers or set ANTHROPIC_API_KEY."
     );
   }
 
-  const client = new Anthropic({ apiKey });
+  // Retries are handled by the resilience layer around queryLLM
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
   const model = request.model ?? DEFAULT_MODELS.anthropic;
 
   const start = Date.now();
@@ -40,10 +45,14 @@ export async function queryAnthropic(
     ],
   };
 
-  const response = await client.messages.create(createParams);
+  const response = await client.messages.create(createParams, { signal });
 
   const latencyMs = Date.now() - start;
 
+  if ((response.stop_reason as string) === "refusal") {
+    throw new LLMError("anthropic", "content-filter", "Claude declined to answer");
+  }
+
   const tokensIn = response.usage.input_tokens;
   const tokensOut = response.usage.output_tokens;
 
@@ -55,20 +64,37 @@ export async function queryAnthropic(
     .map((block) => (block.type === "text" ? block.text : ""))
     .join("\n");
 
-  // Count search requests for cost calculation
+  // Sources cited inline by text blocks; if Claude searched but cited nothing
+  // inline, fall back to the raw search results it retrieved
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const blocks = response.content as any[];
+  const inlineCitations = blocks
+    .filter((block) => block.type === "text")
+    .flatMap((block) => block.citations ?? [])
+    .filter((c) => c.type === "web_search_result_location")
+    .map((c) => ({ url: c.url, title: c.title, snippet: c.cited_text }));
+  const searchResults = blocks
+    .filter((block) => block.type === "web_search_tool_result")
+    .flatMap((block) => (Array.isArray(block.content) ? block.content : []))
+    .filter((r) => r.type === "web_search_result")
+    .map((r) => ({ url: r.url, title: r.title, snippet: "" }));
+  const sources = normalizeSources(
+    inlineCitations.length > 0 ? inlineCitations : searchResults
+  );
+
+  // Web searches are billed per search on top of tokens
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const usage = response.usage as any;
-  const searchRequests =
-    usage?.server_tool_use?.web_search_requests ?? 0;
-  const searchCost = searchRequests * (SEARCH_CALL_COST["anthropic-web-search"] ?? 0);
-  const tokenCost = calculateCost(model, tokensIn, tokensOut);
+  const searches: number = usage?.server_tool_use?.web_search_requests ?? 0;
 
   return {
     text,
+    sources,
     tokensIn,
     tokensOut,
     latencyMs,
-    cost: tokenCost + searchCost,
+    cost: calculateCost(model, tokensIn, tokensOut, searches),
+    searches,
     model,
     provider: "anthropic",
   };
@@ -4,13 +4,19 @@ import {
   type LLMResponse,
   DEFAULT_MODELS,
   calculateCost,
+  normalizeSources,
 } from "./index";
+import { getProviderApiKey } from "@/lib/settings/config";
 
-export async function queryGoogle(request: LLMRequest): Promise<LLMResponse> {
-  const apiKey = process.env.GOOGLE_API_KEY;
+export async function queryGoogle(
+  request: LLMRequest,
+  apiKeyOverride?: string, // the active workspace's own key
+  signal?: AbortSignal // aborts the call when it times out
+): Promise<LLMResponse> {
+  const apiKey = apiKeyOverride || getProviderApiKey("google");
   if (!apiKey) {
     throw new Error(
-      "GOOGLE_API_KEY is not set. Please add it to your environment variables."
+      "No Google API key configured. Add one in Settings → Providers or set GOOGLE_API_KEY."
     );
   }
 
@@ -42,7 +48,7 @@ export async function queryGoogle(request: LLMRequest): Promise<LLMResponse> {
 
   const start = Date.now();
 
-  const result = await generativeModel.generateContent(request.prompt);
+  const result = await generativeModel.generateContent(request.prompt, { signal });
   const response = result.response;
 
   const latencyMs = Date.now() - start;
@@ -52,8 +58,21 @@ export async function queryGoogle(request: LLMRequest): Promise<LLMResponse> {
   const tokensIn = usageMetadata?.promptTokenCount ?? 0;
   const tokensOut = usageMetadata?.candidatesTokenCount ?? 0;
 
+  // Grounded answers list the retrieved pages as grounding chunks
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const grounding = (response.candidates?.[0] as any)?.groundingMetadata;
+  const sources = normalizeSources(
+    (grounding?.groundingChunks ?? []).map(
+      (chunk: { web?: { uri?: string; title?: string } }) => ({
+        url: chunk.web?.uri,
+        title: chunk.web?.title,
+      })
+    )
+  );
+
   return {
     text,
+    sources,
     tokensIn,
     tokensOut,
     latencyMs,
@@ -3,11 +3,41 @@ import { queryAnthropic } from "./anthropic-adapter";
 import { queryGoogle } from "./google-adapter";
 import { queryPerplexity } from "./perplexity-adapter";
 import { queryTavily } from "./tavily-adapter";
+import { queryOpenAICompatible } from "./openai-compatible-adapter";
+import {
+  getApiKeySource,
+  getCustomProvider,
+  getCustomProviders,
+  getProviderApiKey,
+} from "@/lib/settings/config";
+import { currentBrandId, currentWorkspaceId } from "@/lib/auth/context";
+import { getWorkspaceApiKey, hasWorkspaceApiKey } from "@/lib/auth/workspaces";
+import {
+  acquireCapacity,
+  recordUsage,
+  releaseCapacity,
+} from "@/lib/monitoring/rate-limiter";
+import { loadPricingCatalog, priceCall } from "./pricing";
+import { callProvider } from "./resilience";
+import { z } from "zod";
+import type { UsageScope } from "@/lib/monitoring/rate-limiter";
+import type { CustomProviderName } from "@/lib/settings/config";
 
 export type LLMProvider = "openai" | "anthropic" | "google" | "perplexity" | "tavily";
 
+// A built-in provider or a named OpenAI-compatible instance from settings
+export type ProviderName = LLMProvider | CustomProviderName;
+
+export const BUILT_IN_PROVIDERS: LLMProvider[] = [
+  "openai",
+  "anthropic",
+  "google",
+  "perplexity",
+  "tavily",
+];
+
 export interface LLMRequest {
-  provider: LLMProvider;
+  provider: ProviderName;
   model?: string;
   prompt: string;
   systemPrompt?: string;
@@ -15,14 +45,24 @@ export interface LLMRequest {
   maxTokens?: number;
 }
 
+// A web page the engine retrieved and cited, in the order it was cited (rank 1 first)
+export interface LLMSource {
+  url: string;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
 export interface LLMResponse {
   text: string;
+  sources: LLMSource[];
   tokensIn: number;
   tokensOut: number;
   latencyMs: number;
   cost: number;
+  searches?: number; // web searches billed on top of tokens (Anthropic)
   model: string;
-  provider: LLMProvider;
+  provider: ProviderName;
 }
 
 export const DEFAULT_MODELS: Record<LLMProvider, string> = {
@@ -33,70 +73,183 @@ export const DEFAULT_MODELS: Record<LLMProvider, string> = {
   tavily: "tavily-search",
 };
 
-export const COST_PER_1K_TOKENS: Record<
-  string,
-  { input: number; output: number }
-> = {
-  "gpt-4o-mini": { input: 0.00015, output: 0.0006 },
-  "gpt-4o-mini-search-preview": { input: 0.00015, output: 0.0006 },
-  "gpt-4o-search-preview": { input: 0.0025, output: 0.01 },
-  "claude-3-5-haiku-latest": { input: 0.0008, output: 0.004 },
-  "gemini-2.0-flash": { input: 0.0001, output: 0.0004 },
-  sonar: { input: 0.001, output: 0.001 },
-};
-
-export const COST_PER_QUERY: Record<string, number> = {
-  "tavily-search": 0.008,
-  "tavily-advanced": 0.016,
-};
-
-// Per-call costs for search-enabled models (in addition to token costs)
-export const SEARCH_CALL_COST: Record<string, number> = {
-  "gpt-4o-mini-search-preview": 0.025,
-  "gpt-4o-search-preview": 0.03,
-  "anthropic-web-search": 0.01,
-};
-
+/**
+ * USD for one call to a built-in provider's model, from the pricing catalog
+ * (see ./pricing): tokens, any per-request fee, and `searches` web searches.
+ */
 export function calculateCost(
   model: string,
   tokensIn: number,
-  tokensOut: number
+  tokensOut: number,
+  searches = 0
 ): number {
-  const costs = COST_PER_1K_TOKENS[model];
-  if (!costs) return 0;
-  return (tokensIn / 1000) * costs.input + (tokensOut / 1000) * costs.output;
+  return priceCall(model, { tokensIn, tokensOut, searches });
 }
 
-const PROVIDER_API_KEY_MAP: Record<LLMProvider, string> = {
-  openai: "OPENAI_API_KEY",
-  anthropic: "ANTHROPIC_API_KEY",
-  google: "GOOGLE_API_KEY",
-  perplexity: "PERPLEXITY_API_KEY",
-  tavily: "TAVILY_API_KEY",
-};
+/**
+ * Turn an adapter's raw source list into LLMSource[]: drops entries without an
+ * http(s) URL, de-duplicates by URL (first occurrence wins) and assigns ranks.
+ */
+export function normalizeSources(
+  raw: Array<{ url?: string | null; title?: string | null; snippet?: string | null }>
+): LLMSource[] {
+  const seen = new Set<string>();
+  const sources: LLMSource[] = [];
+
+  for (const entry of raw) {
+    const url = entry.url?.trim();
+    if (!url || !/^https?:\/\//i.test(url) || seen.has(url)) continue;
+    seen.add(url);
+    sources.push({
+      url,
+      title: entry.title?.trim() ?? "",
+      snippet: entry.snippet?.trim() ?? "",
+      rank: sources.length + 1,
+    });
+  }
+
+  return sources;
+}
+
+export function isBuiltInProvider(provider: string): provider is LLMProvider {
+  return (BUILT_IN_PROVIDERS as string[]).includes(provider);
+}
+
+// A provider name from a request body, if it names a built-in provider or a
+// custom one saved in settings
+export function toProviderName(name: string): ProviderName | null {
+  if (isBuiltInProvider(name)) return name;
+  return getCustomProviders().find((provider) => provider.name === name)?.name ?? null;
+}
+
+export const providerNameSchema = z.string().transform((name, ctx) => {
+  const provider = toProviderName(name);
+  if (!provider) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown provider: ${name}`,
+    });
+    return z.NEVER;
+  }
+  return provider;
+});
+
+/**
+ * The model a request will actually run against: the explicit model, the
+ * built-in default, or the model configured on a custom provider.
+ */
+export function resolveModel(request: LLMRequest): string {
+  if (request.model) return request.model;
+  if (isBuiltInProvider(request.provider)) {
+    return DEFAULT_MODELS[request.provider];
+  }
+  return getCustomProvider(request.provider)?.model ?? "unknown";
+}
 
-export function getEnabledProviders(): LLMProvider[] {
-  const providers: LLMProvider[] = ["openai", "anthropic", "google", "perplexity", "tavily"];
-  return providers.filter(
-    (provider) => !!process.env[PROVIDER_API_KEY_MAP[provider]]
+/**
+ * Providers a run can use: built-ins with an instance key or a key set by the
+ * workspace (the current one by default), plus enabled custom providers.
+ */
+export function getEnabledProviders(
+  workspaceId: string | null = currentWorkspaceId()
+): ProviderName[] {
+  const builtIn = BUILT_IN_PROVIDERS.filter(
+    (provider) =>
+      getApiKeySource(provider) !== null ||
+      (workspaceId !== null && hasWorkspaceApiKey(workspaceId, provider))
   );
+  const custom = getCustomProviders()
+    .filter((provider) => provider.enabled)
+    .map((provider) => provider.name);
+  return [...builtIn, ...custom];
 }
 
+/**
+ * Send a request to its provider. Each attempt waits for (or is refused by)
+ * the provider's rate limits and budgets and is cut off after the provider's
+ * timeout; failures that may pass are retried (see ./resilience) and the
+ * final one is thrown as an LLMError. The call uses the key of the workspace
+ * it runs in (see runInWorkspace) when that workspace set its own, and is
+ * logged to ApiUsageLog against the workspace and brand.
+ */
 export async function queryLLM(request: LLMRequest): Promise<LLMResponse> {
+  const scope: UsageScope = {
+    workspaceId: currentWorkspaceId(),
+    brandId: currentBrandId(),
+  };
+  await loadPricingCatalog();
+
+  const apiKey = scope.workspaceId
+    ? getWorkspaceApiKey(scope.workspaceId, request.provider) ?? undefined
+    : undefined;
+  const response = await callProvider(
+    request.provider,
+    (signal) => dispatch(request, apiKey, signal),
+    {
+      beforeAttempt: () => acquireCapacity(request.provider, scope),
+      afterFailedAttempt: () => releaseCapacity(request.provider),
+    }
+  );
+
+  // The call holds its rate limit slot until its usage row counts instead
+  await recordUsage(request.provider, response, scope)
+    .catch((error) => {
+      console.error(`Failed to log ${request.provider} usage:`, error);
+    })
+    .finally(() => releaseCapacity(request.provider));
+  return response;
+}
+
+async function dispatch(
+  request: LLMRequest,
+  apiKey: string | undefined,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
   switch (request.provider) {
     case "openai":
-      return queryOpenAI(request);
+      return queryOpenAI(request, apiKey, signal);
     case "anthropic":
-      return queryAnthropic(request);
+      return queryAnthropic(request, apiKey, signal);
     case "google":
-      return queryGoogle(request);
+      return queryGoogle(request, apiKey, signal);
     case "perplexity":
-      return queryPerplexity(request);
+      return queryPerplexity(request, apiKey, signal);
     case "tavily":
-      return queryTavily(request);
+      return queryTavily(request, apiKey, signal);
     default: {
-      const exhaustiveCheck: never = request.provider;
-      throw new Error(`Unknown provider: ${exhaustiveCheck}`);
+      const config = getCustomProvider(request.provider);
+      if (!config) {
+        throw new Error(`Unknown provider: ${request.provider}`);
+      }
+      return queryOpenAICompatible(
+        request,
+        config,
+        apiKey || getProviderApiKey(request.provider),
+        signal
+      );
     }
   }
 }
+
+/**
+ * Send a one-line prompt to check that a provider answers. With `apiKey`,
+ * that key is tried instead of the stored one, so a key can be checked
+ * before it is saved.
+ */
+export async function testProviderConnection(
+  provider: ProviderName,
+  apiKey?: string
+): Promise<LLMResponse> {
+  const request: LLMRequest = {
+    provider,
+    prompt: "Reply with the single word: ok",
+    maxTokens: 16,
+    temperature: 0,
+  };
+  if (!apiKey) return queryLLM(request);
+  await loadPricingCatalog();
+  // A key being checked gets one attempt: retrying a bad key only slows the answer
+  return callProvider(provider, (signal) => dispatch(request, apiKey, signal), {
+    maxRetries: 0,
+  });
+}
@@ -5,20 +5,27 @@ import {
   type LLMResponse,
   DEFAULT_MODELS,
   calculateCost,
-  SEARCH_CALL_COST,
+  normalizeSources,
 } from "./index";
+import { LLMError } from "./resilience";
+import { getProviderApiKey } from "@/lib/settings/config";
 
 const SEARCH_MODELS = ["gpt-4o-mini-search-preview", "gpt-4o-search-preview", "gpt-5-search-api"];
 
-export async function queryOpenAI(request: LLMRequest): Promise<LLMResponse> {
-  const apiKey = process.env.OPENAI_API_KEY;
+export async function queryOpenAI(
+  request: LLMRequest,
+  apiKeyOverride?: string, // the active workspace's own key
+  signal?: AbortSignal // aborts the call when it times out
+): Promise<LLMResponse> {
+  const apiKey = apiKeyOverride || getProviderApiKey("openai");
   if (!apiKey) {
     throw new Error(
-      "OPENAI_API_KEY is not set. Please add it to your environment variables."
+      "No OpenAI API key configured. Add one in Settings → Providers or set OPENAI_API_KEY."
     );
   }
 
-  const client = new OpenAI({ apiKey });
+  // Retries are handled by the resilience layer around queryLLM
+  const client = new OpenAI({ apiKey, maxRetries: 0 });
   const model = request.model ?? DEFAULT_MODELS.openai;
   const isSearchModel = SEARCH_MODELS.includes(model);
 
@@ -44,7 +51,7 @@ export async function queryOpenAI(request: LLMRequest): Promise<LLMResponse> {
     createParams.web_search_options = {};
   }
 
-  const response = await client.chat.completions.create(createParams);
+  const response = await client.chat.completions.create(createParams, { signal });
 
   const latencyMs = Date.now() - start;
 
@@ -53,17 +60,34 @@ export async function queryOpenAI(request: LLMRequest): Promise<LLMResponse> {
   const tokensIn = res.usage?.prompt_tokens ?? 0;
   const tokensOut = res.usage?.completion_tokens ?? 0;
   const text = res.choices?.[0]?.message?.content ?? "";
+  if (res.choices?.[0]?.finish_reason === "content_filter") {
+    throw new LLMError("openai", "content-filter", "OpenAI filtered the response");
+  }
 
-  // Search models have per-call cost in addition to token cost
-  const tokenCost = calculateCost(model, tokensIn, tokensOut);
-  const searchCost = isSearchModel ? (SEARCH_CALL_COST[model] ?? 0) : 0;
+  // Search models attach url_citation annotations pointing into the text
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const annotations: any[] = res.choices?.[0]?.message?.annotations ?? [];
+  const sources = normalizeSources(
+    annotations
+      .filter((a) => a.type === "url_citation" && a.url_citation)
+      .map((a) => ({
+        url: a.url_citation.url,
+        title: a.url_citation.title,
+        snippet:
+          typeof a.url_citation.start_index === "number"
+            ? text.slice(a.url_citation.start_index, a.url_citation.end_index)
+            : "",
+      }))
+  );
 
+  // Search models' per-call fee is part of their catalog price
   return {
     text,
+    sources,
     tokensIn,
     tokensOut,
     latencyMs,
-    cost: tokenCost + searchCost,
+    cost: calculateCost(model, tokensIn, tokensOut),
     model,
     provider: "openai",
   };
@@ -0,0 +1,94 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { CompatibleProviderSettings } from "@/lib/settings/config";
+import {
+  type LLMRequest,
+  type LLMResponse,
+  normalizeSources,
+} from "./index";
+
+/**
+ * Query any server that implements the OpenAI chat completions API (Ollama,
+ * vLLM, LM Studio, llama.cpp, hosted gateways). Endpoint, model, auth header
+ * and pricing come from the named provider's settings, so a local model can
+ * stand in for the hosted engines offline and in tests.
+ */
+export async function queryOpenAICompatible(
+  request: LLMRequest,
+  config: CompatibleProviderSettings,
+  apiKey?: string,
+  signal?: AbortSignal // aborts the call when it times out
+): Promise<LLMResponse> {
+  if (!config.baseUrl) {
+    throw new Error(
+      `Provider "${request.provider}" has no base URL. Set one in Settings → Providers.`
+    );
+  }
+
+  // The SDK always sends "Authorization: Bearer <apiKey>"; servers that expect
+  // a different header get the raw key there instead
+  const useBearer =
+    !config.authHeader || config.authHeader.toLowerCase() === "authorization";
+  const client = new OpenAI({
+    apiKey: apiKey || "not-needed", // local servers usually ignore it
+    baseURL: config.baseUrl.replace(/\/+$/, ""),
+    defaultHeaders:
+      useBearer || !apiKey
+        ? undefined
+        : { Authorization: null, [config.authHeader]: apiKey },
+    maxRetries: 0,
+  });
+
+  const model = request.model ?? config.model;
+  if (!model) {
+    throw new Error(`Provider "${request.provider}" has no model configured.`);
+  }
+
+  const messages: ChatCompletionMessageParam[] = [];
+  if (request.systemPrompt) {
+    messages.push({ role: "system", content: request.systemPrompt });
+  }
+  messages.push({ role: "user", content: request.prompt });
+
+  const start = Date.now();
+
+  const response = await client.chat.completions.create(
+    {
+      model,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens,
+    },
+    { signal }
+  );
+
+  const latencyMs = Date.now() - start;
+
+  const tokensIn = response.usage?.prompt_tokens ?? 0;
+  const tokensOut = response.usage?.completion_tokens ?? 0;
+  const text = response.choices[0]?.message?.content ?? "";
+
+  // Gateways in front of search models may pass url_citation annotations through
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const annotations: any[] = (response.choices[0]?.message as any)?.annotations ?? [];
+  const sources = normalizeSources(
+    annotations
+      .filter((a) => a.type === "url_citation" && a.url_citation)
+      .map((a) => ({ url: a.url_citation.url, title: a.url_citation.title }))
+  );
+
+  const cost =
+    (tokensIn / 1000) * (config.costPer1kInput ?? 0) +
+    (tokensOut / 1000) * (config.costPer1kOutput ?? 0);
+
+  return {
+    text,
+    sources,
+    tokensIn,
+    tokensOut,
+    latencyMs,
+    cost,
+    model,
+    provider: request.provider,
+  };
+}
@@ -5,21 +5,26 @@ import {
   type LLMResponse,
   DEFAULT_MODELS,
   calculateCost,
+  normalizeSources,
 } from "./index";
+import { getProviderApiKey } from "@/lib/settings/config";
 
 export async function queryPerplexity(
-  request: LLMRequest
+  request: LLMRequest,
+  apiKeyOverride?: string, // the active workspace's own key
+  signal?: AbortSignal // aborts the call when it times out
 ): Promise<LLMResponse> {
-  const apiKey = process.env.PERPLEXITY_API_KEY;
+  const apiKey = apiKeyOverride || getProviderApiKey("perplexity");
   if (!apiKey) {
     throw new Error(
-      "PERPLEXITY_API_KEY is not set. Please add it to your environment variables."
+      "No Perplexity API key configured. Add one in Settings → Providers or set PERPLEXITY_API_KEY."
     );
   }
 
   const client = new OpenAI({
     apiKey,
     baseURL: "https://api.perplexity.ai",
+    maxRetries: 0, // retried by the resilience layer around queryLLM
   });
 
   const model = request.model ?? DEFAULT_MODELS.perplexity;
@@ -32,12 +37,15 @@ export async function queryPerplexity(
 
   const start = Date.now();
 
-  const response = await client.chat.completions.create({
-    model,
-    messages,
-    temperature: request.temperature ?? 0.7,
-    max_tokens: request.maxTokens,
-  });
+  const response = await client.chat.completions.create(
+    {
+      model,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens,
+    },
+    { signal }
+  );
 
   const latencyMs = Date.now() - start;
 
@@ -45,8 +53,25 @@ export async function queryPerplexity(
   const tokensOut = response.usage?.completion_tokens ?? 0;
   const text = response.choices[0]?.message?.content ?? "";
 
+  // Sonar returns its sources outside the OpenAI schema: search_results on
+  // newer API versions, a bare citations URL list on older ones
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const extra = response as any;
+  const sources = normalizeSources(
+    Array.isArray(extra.search_results) && extra.search_results.length > 0
+      ? extra.search_results.map(
+          (r: { url: string; title?: string; snippet?: string }) => ({
+            url: r.url,
+            title: r.title,
+            snippet: r.snippet,
+          })
+        )
+      : (extra.citations ?? []).map((url: string) => ({ url }))
+  );
+
   return {
     text,
+    sources,
     tokensIn,
     tokensOut,
     latencyMs,
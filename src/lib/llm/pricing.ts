@@ -0,0 +1,375 @@
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+
+/**
+ * Versioned price list for every model the app calls. Each entry is the price
+ * of one model from its effectiveFrom date until the model's next entry, so a
+ * price change is a new entry and a correction edits an existing one.
+ *
+ * The built-in list below is the baseline; entries saved from Settings →
+ * Pricing are stored in ModelPrice and win over a built-in entry for the same
+ * model and date. Lookups are synchronous (adapters price their own
+ * responses), so callers load the catalog first with loadPricingCatalog().
+ */
+
+export interface PriceEntry {
+  id: string | null; // null for built-in entries
+  model: string;
+  inputPer1k: number; // USD per 1K input tokens
+  outputPer1k: number; // USD per 1K output tokens
+  perRequest: number; // flat fee per call: search-preview models, Tavily queries
+  perSearch: number; // per web search the model runs (Anthropic's search tool)
+  effectiveFrom: Date;
+  note: string | null;
+  builtIn: boolean;
+}
+
+export interface PriceInput {
+  model: string;
+  inputPer1k: number;
+  outputPer1k: number;
+  perRequest: number;
+  perSearch: number;
+  effectiveFrom: Date;
+  note?: string | null;
+}
+
+export const priceSchema = z.object({
+  model: z.string().trim().min(1),
+  inputPer1k: z.number().min(0).default(0),
+  outputPer1k: z.number().min(0).default(0),
+  perRequest: z.number().min(0).default(0),
+  perSearch: z.number().min(0).default(0),
+  effectiveFrom: z.coerce.date(),
+  note: z.string().max(200).nullish(),
+});
+
+export interface CallUsage {
+  tokensIn: number;
+  tokensOut: number;
+  searches?: number | null; // web searches run during the call
+}
+
+export interface UnpricedModel {
+  model: string;
+  provider: string;
+  calls: number;
+  lastSeen: Date;
+}
+
+export interface RecomputeResult {
+  usageLogs: number; // ApiUsageLog rows whose cost changed
+  citationResults: number; // CitationResult rows whose cost changed
+}
+
+// Older than any call this app has logged
+const CATALOG_START = new Date("2024-01-01T00:00:00Z");
+const RELOAD_AFTER_MS = 60_000;
+
+function builtIn(
+  model: string,
+  prices: Partial<Pick<PriceEntry, "inputPer1k" | "outputPer1k" | "perRequest" | "perSearch">>
+): PriceEntry {
+  return {
+    id: null,
+    model,
+    inputPer1k: prices.inputPer1k ?? 0,
+    outputPer1k: prices.outputPer1k ?? 0,
+    perRequest: prices.perRequest ?? 0,
+    perSearch: prices.perSearch ?? 0,
+    effectiveFrom: CATALOG_START,
+    note: "List price",
+    builtIn: true,
+  };
+}
+
+// Published list prices. Anthropic's web search tool bills $10 / 1K searches on
+// top of tokens; Perplexity adds a request fee (low search context size).
+export const BUILT_IN_PRICES: PriceEntry[] = [
+  // OpenAI
+  builtIn("gpt-4o", { inputPer1k: 0.0025, outputPer1k: 0.01 }),
+  builtIn("gpt-4o-mini", { inputPer1k: 0.00015, outputPer1k: 0.0006 }),
+  builtIn("gpt-4o-mini-search-preview", {
+    inputPer1k: 0.00015,
+    outputPer1k: 0.0006,
+    perRequest: 0.025,
+  }),
+  builtIn("gpt-4o-search-preview", {
+    inputPer1k: 0.0025,
+    outputPer1k: 0.01,
+    perRequest: 0.03,
+  }),
+  builtIn("gpt-5-search-api", {
+    inputPer1k: 0.00125,
+    outputPer1k: 0.01,
+    perRequest: 0.01,
+  }),
+  // Anthropic
+  builtIn("claude-3-5-haiku-latest", {
+    inputPer1k: 0.0008,
+    outputPer1k: 0.004,
+    perSearch: 0.01,
+  }),
+  builtIn("claude-sonnet-4-20250514", {
+    inputPer1k: 0.003,
+    outputPer1k: 0.015,
+    perSearch: 0.01,
+  }),
+  // Google
+  builtIn("gemini-2.0-flash", { inputPer1k: 0.0001, outputPer1k: 0.0004 }),
+  // Perplexity
+  builtIn("sonar", { inputPer1k: 0.001, outputPer1k: 0.001, perRequest: 0.005 }),
+  builtIn("sonar-pro", { inputPer1k: 0.003, outputPer1k: 0.015, perRequest: 0.006 }),
+  builtIn("sonar-reasoning", { inputPer1k: 0.001, outputPer1k: 0.005, perRequest: 0.005 }),
+  builtIn("sonar-reasoning-pro", { inputPer1k: 0.002, outputPer1k: 0.008, perRequest: 0.006 }),
+  // Tavily: the adapter always runs advanced searches (2 credits)
+  builtIn("tavily-search", { perRequest: 0.016 }),
+];
+
+let storedEntries: PriceEntry[] = [];
+let loadedAt = 0;
+const warnedModels = new Set<string>();
+
+function toEntry(row: {
+  id: string;
+  model: string;
+  inputPer1k: number;
+  outputPer1k: number;
+  perRequest: number;
+  perSearch: number;
+  effectiveFrom: Date;
+  note: string | null;
+}): PriceEntry {
+  return { ...row, builtIn: false };
+}
+
+/**
+ * Read saved prices from the database. Cheap to call before every provider
+ * call: the result is reused for a minute unless `force` is set.
+ */
+export async function loadPricingCatalog(force = false): Promise<void> {
+  if (!force && Date.now() - loadedAt < RELOAD_AFTER_MS) return;
+  const rows = await prisma.modelPrice.findMany();
+  storedEntries = rows.map(toEntry);
+  loadedAt = Date.now();
+}
+
+/**
+ * Every entry, saved ones replacing built-in ones for the same model and date,
+ * sorted by model then effective date.
+ */
+export function getPriceCatalog(): PriceEntry[] {
+  const key = (e: PriceEntry) => `${e.model}@${e.effectiveFrom.getTime()}`;
+  const overridden = new Set(storedEntries.map(key));
+  return [
+    ...BUILT_IN_PRICES.filter((e) => !overridden.has(key(e))),
+    ...storedEntries,
+  ].sort(
+    (a, b) =>
+      a.model.localeCompare(b.model) ||
+      a.effectiveFrom.getTime() - b.effectiveFrom.getTime()
+  );
+}
+
+function entriesFor(model: string, catalog = getPriceCatalog()): PriceEntry[] {
+  return catalog.filter((e) => e.model === model);
+}
+
+/**
+ * The price in effect for a model at a moment: its latest entry on or before
+ * `at`, or its earliest entry for calls older than the whole price list.
+ */
+export function findPrice(
+  model: string,
+  at: Date = new Date(),
+  catalog = getPriceCatalog()
+): PriceEntry | null {
+  const entries = entriesFor(model, catalog);
+  if (entries.length === 0) return null;
+  const effective = entries.filter((e) => e.effectiveFrom <= at);
+  return effective.length > 0 ? effective[effective.length - 1] : entries[0];
+}
+
+export function costOf(price: PriceEntry, usage: CallUsage): number {
+  return (
+    (usage.tokensIn / 1000) * price.inputPer1k +
+    (usage.tokensOut / 1000) * price.outputPer1k +
+    price.perRequest +
+    (usage.searches ?? 0) * price.perSearch
+  );
+}
+
+/**
+ * USD for one call. A model without a price costs 0 and is reported once per
+ * process, and on Settings → Pricing, rather than failing the call.
+ */
+export function priceCall(
+  model: string,
+  usage: CallUsage,
+  at: Date = new Date()
+): number {
+  const price = findPrice(model, at);
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(
+        `No price for model "${model}": its calls are logged at $0. Add it in Settings → Pricing.`
+      );
+    }
+    return 0;
+  }
+  return costOf(price, usage);
+}
+
+/**
+ * Models of built-in providers that were called but have no price, so their
+ * logged cost is 0. Custom providers are priced in their own settings.
+ */
+export async function getUnpricedModels(
+  builtInProviders: string[]
+): Promise<UnpricedModel[]> {
+  const used = await prisma.apiUsageLog.groupBy({
+    by: ["model", "provider"],
+    where: { provider: { in: builtInProviders }, model: { not: "unknown" } },
+    _count: { _all: true },
+    _max: { createdAt: true },
+  });
+
+  const catalog = getPriceCatalog();
+  return used
+    .filter((row) => entriesFor(row.model, catalog).length === 0)
+    .map((row) => ({
+      model: row.model,
+      provider: row.provider,
+      calls: row._count._all,
+      lastSeen: row._max.createdAt ?? new Date(0),
+    }));
+}
+
+export async function getStoredPrice(id: string): Promise<PriceEntry | null> {
+  const row = await prisma.modelPrice.findUnique({ where: { id } });
+  return row ? toEntry(row) : null;
+}
+
+export async function findStoredPrice(
+  model: string,
+  effectiveFrom: Date
+): Promise<PriceEntry | null> {
+  const row = await prisma.modelPrice.findUnique({
+    where: { model_effectiveFrom: { model, effectiveFrom } },
+  });
+  return row ? toEntry(row) : null;
+}
+
+export async function createPrice(input: PriceInput): Promise<PriceEntry> {
+  const row = await prisma.modelPrice.create({
+    data: { ...input, note: input.note ?? null },
+  });
+  await loadPricingCatalog(true);
+  return toEntry(row);
+}
+
+export async function updatePrice(
+  id: string,
+  input: Partial<PriceInput>
+): Promise<PriceEntry> {
+  const row = await prisma.modelPrice.update({ where: { id }, data: input });
+  await loadPricingCatalog(true);
+  return toEntry(row);
+}
+
+export async function deletePrice(id: string): Promise<void> {
+  await prisma.modelPrice.delete({ where: { id } });
+  await loadPricingCatalog(true);
+}
+
+// Rows are rewritten in batches so one correction doesn't hold a huge transaction
+const RECOMPUTE_BATCH = 500;
+const COST_EPSILON = 1e-9;
+
+/**
+ * Re-price every logged call of a model with the current catalog, each at the
+ * price in effect when it was made. Run after a price is added, corrected or
+ * removed so reports, budgets and cost per citation reflect the fix.
+ *
+ * ApiUsageLog rows are exact. CitationResult only stores total tokens, so the
+ * input/output split is taken from the model's usage log totals, and rows
+ * logged before search counts were recorded assume one search per call.
+ * Cached results stay at 0: they never reached the provider. Only rows from
+ * `builtInProviders` are touched: custom providers that serve a model of the
+ * same name are priced in their own settings.
+ */
+export async function recomputeCosts(
+  model: string,
+  builtInProviders: string[]
+): Promise<RecomputeResult> {
+  await loadPricingCatalog(true);
+  const catalog = getPriceCatalog();
+  if (entriesFor(model, catalog).length === 0) {
+    return { usageLogs: 0, citationResults: 0 };
+  }
+  const priceAt = (at: Date) => findPrice(model, at, catalog)!;
+  const assumedSearches = (searches: number | null) => searches ?? 1;
+
+  const logs = await prisma.apiUsageLog.findMany({
+    where: { model, provider: { in: builtInProviders } },
+    select: {
+      id: true,
+      tokensIn: true,
+      tokensOut: true,
+      searches: true,
+      cost: true,
+      createdAt: true,
+    },
+  });
+  const logUpdates = logs
+    .map((row) => ({
+      id: row.id,
+      old: row.cost,
+      cost: costOf(priceAt(row.createdAt), {
+        ...row,
+        searches: assumedSearches(row.searches),
+      }),
+    }))
+    .filter((row) => Math.abs(row.cost - row.old) > COST_EPSILON);
+
+  const totalIn = logs.reduce((sum, row) => sum + row.tokensIn, 0);
+  const totalOut = logs.reduce((sum, row) => sum + row.tokensOut, 0);
+  const inputShare = totalIn + totalOut > 0 ? totalIn / (totalIn + totalOut) : 0.3;
+
+  const results = await prisma.citationResult.findMany({
+    where: { model, provider: { in: builtInProviders }, cached: false },
+    select: { id: true, tokensUsed: true, searches: true, cost: true, createdAt: true },
+  });
+  const resultUpdates = results
+    .map((row) => {
+      const tokensIn = Math.round(row.tokensUsed * inputShare);
+      return {
+        id: row.id,
+        old: row.cost,
+        cost: costOf(priceAt(row.createdAt), {
+          tokensIn,
+          tokensOut: row.tokensUsed - tokensIn,
+          searches: assumedSearches(row.searches),
+        }),
+      };
+    })
+    .filter((row) => Math.abs(row.cost - row.old) > COST_EPSILON);
+
+  for (let i = 0; i < logUpdates.length; i += RECOMPUTE_BATCH) {
+    await prisma.$transaction(
+      logUpdates.slice(i, i + RECOMPUTE_BATCH).map((row) =>
+        prisma.apiUsageLog.update({ where: { id: row.id }, data: { cost: row.cost } })
+      )
+    );
+  }
+  for (let i = 0; i < resultUpdates.length; i += RECOMPUTE_BATCH) {
+    await prisma.$transaction(
+      resultUpdates.slice(i, i + RECOMPUTE_BATCH).map((row) =>
+        prisma.citationResult.update({ where: { id: row.id }, data: { cost: row.cost } })
+      )
+    );
+  }
+
+  return { usageLogs: logUpdates.length, citationResults: resultUpdates.length };
+}
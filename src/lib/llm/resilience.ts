@@ -0,0 +1,279 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { getSettings } from "@/lib/settings/config";
+import type { AnyProviderSettings } from "@/lib/settings/config";
+
+/**
+ * Resilience layer for provider calls: a timeout per attempt, retries with
+ * exponential backoff (or the provider's Retry-After) for failures that may
+ * pass, and a circuit breaker that stops calling a provider for the rest of a
+ * run once it keeps failing. Every failure surfaces as an LLMError whose kind
+ * says what went wrong.
+ */
+
+export type LLMErrorKind =
+  | "auth" // key missing, invalid or not allowed to use the model
+  | "quota" // account out of credit or over its plan quota
+  | "rate-limit" // 429 that clears with time
+  | "content-filter" // the provider refused or filtered the prompt or answer
+  | "timeout"
+  | "network" // connection refused, reset, DNS
+  | "server" // 5xx or overloaded
+  | "bad-request" // the request itself is wrong: unknown model, bad parameter
+  | "circuit-open" // not sent: the provider failed too often in this run
+  | "unknown";
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ["rate-limit", "timeout", "network", "server"];
+
+export class LLMError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly kind: LLMErrorKind,
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+// ── Classification ───────────────────────────────────────────────────────
+
+type HeaderBag =
+  | { get(name: string): string | null }
+  | Record<string, string | null | undefined>;
+
+function headerValue(headers: HeaderBag | undefined, name: string): string | null {
+  if (!headers) return null;
+  if (typeof headers.get === "function") {
+    return (headers as { get(name: string): string | null }).get(name);
+  }
+  const record = headers as Record<string, string | null | undefined>;
+  return record[name] ?? record[name.toLowerCase()] ?? null;
+}
+
+/**
+ * Milliseconds a provider asked us to wait, from `retry-after-ms` (OpenAI) or
+ * `Retry-After` in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(headers: HeaderBag | undefined): number | undefined {
+  const ms = Number(headerValue(headers, "retry-after-ms"));
+  if (Number.isFinite(ms) && ms > 0) return ms;
+
+  const value = headerValue(headers, "retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function kindForStatus(status: number, message: string): LLMErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 402) return "quota";
+  if (status === 429) {
+    return /insufficient_quota|quota|credit|billing/i.test(message) ? "quota" : "rate-limit";
+  }
+  if (status === 408) return "timeout";
+  if (status >= 500) return "server";
+  if (status === 400 && /content[ _-]?(policy|filter)|safety|moderation/i.test(message)) {
+    return "content-filter";
+  }
+  if (status >= 400) return "bad-request";
+  return "unknown";
+}
+
+/**
+ * Turn whatever an adapter or SDK threw into an LLMError. SDK errors carry an
+ * HTTP status (and headers for Retry-After); fetch and socket failures are
+ * recognized by name, code or message.
+ */
+export function classifyError(provider: string, error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const e = error as any;
+  const message = error instanceof Error ? error.message : String(error);
+  const status: number | undefined =
+    typeof e?.status === "number" ? e.status : undefined;
+
+  if (status !== undefined) {
+    return new LLMError(
+      provider,
+      kindForStatus(status, message),
+      message,
+      status,
+      parseRetryAfter(e.headers)
+    );
+  }
+
+  const code: string = e?.code ?? e?.cause?.code ?? "";
+  let kind: LLMErrorKind = "unknown";
+  if (e?.name === "AbortError" || e?.name === "TimeoutError" || /timed? ?out/i.test(message)) {
+    kind = "timeout";
+  } else if (
+    /^(ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|EPIPE|UND_ERR_)/.test(code) ||
+    /fetch failed|network|socket hang up|connection error/i.test(message)
+  ) {
+    kind = "network";
+  } else if (/blocked due to|SAFETY|content[ _-]?filter|refus/i.test(message)) {
+    kind = "content-filter";
+  } else if (/no .*api key configured/i.test(message)) {
+    kind = "auth";
+  }
+  return new LLMError(provider, kind, message);
+}
+
+// ── Timeouts ─────────────────────────────────────────────────────────────
+
+export function getProviderTimeoutMs(provider: string): number {
+  const config = getSettings().providers[provider] as
+    | Partial<AnyProviderSettings>
+    | undefined;
+  return Math.max(0, (config?.timeoutSeconds ?? 0) * 1000);
+}
+
+/**
+ * Run one attempt with an abort signal that fires after `ms` (0 = never).
+ * The attempt is abandoned even if the adapter ignores the signal.
+ */
+async function withTimeout<T>(
+  provider: string,
+  ms: number,
+  attempt: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  if (ms <= 0) return attempt(controller.signal);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMError(provider, "timeout", `${provider} did not answer within ${ms / 1000}s`));
+    }, ms);
+  });
+  try {
+    return await Promise.race([attempt(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ── Circuit breaker ──────────────────────────────────────────────────────
+
+/**
+ * Counts consecutive failures per provider. Once a provider reaches the
+ * threshold, or fails in a way retrying cannot fix (auth, quota), the
+ * circuit opens and stays open: calls fail fast with "circuit-open" for the
+ * rest of the run the breaker belongs to.
+ */
+export class CircuitBreaker {
+  private failures = new Map<string, number>();
+  private opened = new Map<string, LLMError>();
+
+  constructor(
+    private readonly threshold = getSettings().monitoring.circuitBreakerThreshold ?? 3
+  ) {}
+
+  isOpen(provider: string): boolean {
+    return this.opened.has(provider);
+  }
+
+  // Why the circuit opened, for run reports
+  reason(provider: string): string | null {
+    const error = this.opened.get(provider);
+    return error ? `${provider} paused for this run after ${error.kind} errors: ${error.message}` : null;
+  }
+
+  recordSuccess(provider: string): void {
+    this.failures.set(provider, 0);
+  }
+
+  recordFailure(error: LLMError): void {
+    // The prompt, not the provider, is at fault
+    if (error.kind === "content-filter" || error.kind === "bad-request") return;
+
+    const count = (this.failures.get(error.provider) ?? 0) + 1;
+    this.failures.set(error.provider, count);
+    const permanent = error.kind === "auth" || error.kind === "quota";
+    if (permanent || (this.threshold > 0 && count >= this.threshold)) {
+      this.opened.set(error.provider, error);
+    }
+  }
+}
+
+const breakerStorage = new AsyncLocalStorage<CircuitBreaker>();
+
+/**
+ * Run `fn` with `breaker` guarding every provider call made inside it,
+ * however deep (see callProvider).
+ */
+export function withCircuitBreaker<T>(breaker: CircuitBreaker, fn: () => Promise<T>): Promise<T> {
+  return breakerStorage.run(breaker, fn);
+}
+
+// ── Retries ──────────────────────────────────────────────────────────────
+
+export interface CallOptions {
+  // Awaited before every attempt, e.g. to wait for rate limit capacity.
+  // Errors it throws are passed through untouched and never retried.
+  beforeAttempt?: () => Promise<void>;
+  // Called when an attempt that beforeAttempt let through fails
+  afterFailedAttempt?: () => void;
+  maxRetries?: number; // defaults to settings.monitoring.maxRetries
+}
+
+function backoffMs(error: LLMError, retry: number): number {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** retry);
+  return exponential / 2 + Math.random() * (exponential / 2); // jitter
+}
+
+/**
+ * Call a provider through the resilience layer. Retryable failures are tried
+ * again up to maxRetries times; a Retry-After longer than the configured
+ * maximum wait fails straight away instead.
+ */
+export async function callProvider<T>(
+  provider: string,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options: CallOptions = {}
+): Promise<T> {
+  const breaker = breakerStorage.getStore();
+  if (breaker?.isOpen(provider)) {
+    throw new LLMError(provider, "circuit-open", breaker.reason(provider)!);
+  }
+
+  const { monitoring } = getSettings();
+  const maxRetries = options.maxRetries ?? monitoring.maxRetries ?? 3;
+  const maxWaitMs = (monitoring.maxRateLimitWaitSeconds ?? 120) * 1000;
+  const timeoutMs = getProviderTimeoutMs(provider);
+
+  for (let retry = 0; ; retry++) {
+    await options.beforeAttempt?.();
+    try {
+      const result = await withTimeout(provider, timeoutMs, attempt);
+      breaker?.recordSuccess(provider);
+      return result;
+    } catch (raw) {
+      options.afterFailedAttempt?.();
+      const error = classifyError(provider, raw);
+      const wait = backoffMs(error, retry);
+      if (!error.retryable || retry >= maxRetries || wait > maxWaitMs) {
+        breaker?.recordFailure(error);
+        throw error;
+      }
+      console.warn(
+        `${provider} ${error.kind} error (attempt ${retry + 1}/${maxRetries + 1}), retrying in ${Math.round(wait / 1000)}s: ${error.message}`
+      );
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
@@ -1,8 +1,11 @@
 import {
   type LLMRequest,
   type LLMResponse,
-  COST_PER_QUERY,
+  calculateCost,
+  normalizeSources,
 } from "./index";
+import { kindForStatus, LLMError, parseRetryAfter } from "./resilience";
+import { getProviderApiKey } from "@/lib/settings/config";
 
 interface TavilyResult {
   title: string;
@@ -22,11 +25,15 @@ interface TavilyResponse {
 // Tavily is a search-native provider: it searches the live web and returns
 // an LLM-generated answer with source citations. Unlike LLM providers that
 // optionally search, Tavily always searches — making it a pure web search baseline.
-export async function queryTavily(request: LLMRequest): Promise<LLMResponse> {
-  const apiKey = process.env.TAVILY_API_KEY;
+export async function queryTavily(
+  request: LLMRequest,
+  apiKeyOverride?: string, // the active workspace's own key
+  signal?: AbortSignal // aborts the call when it times out
+): Promise<LLMResponse> {
+  const apiKey = apiKeyOverride || getProviderApiKey("tavily");
   if (!apiKey) {
     throw new Error(
-      "TAVILY_API_KEY is not set. Please add it to your environment variables."
+      "No Tavily API key configured. Add one in Settings → Providers or set TAVILY_API_KEY."
     );
   }
 
@@ -45,16 +52,32 @@ export async function queryTavily(request: LLMRequest): Promise<LLMResponse> {
       max_results: 10,
       include_raw_content: false,
     }),
+    signal,
   });
 
   if (!response.ok) {
-    throw new Error(`Tavily API error: ${response.status} ${response.statusText}`);
+    throw new LLMError(
+      "tavily",
+      kindForStatus(response.status, response.statusText),
+      `Tavily API error: ${response.status} ${response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers)
+    );
   }
 
   const data: TavilyResponse = await response.json();
   const latencyMs = Date.now() - start;
 
-  // Compose response text: Tavily's LLM answer + source list
+  const sources = normalizeSources(
+    data.results.slice(0, 5).map((r) => ({
+      url: r.url,
+      title: r.title,
+      snippet: r.content,
+    }))
+  );
+
+  // Compose response text: Tavily's LLM answer + source list. The list stays
+  // in the text so URL-based citation detection keeps working
   const sourceList = data.results
     .slice(0, 5)
     .map((r, i) => `[${i + 1}] ${r.title} - ${r.url}\n${r.content}`)
@@ -65,15 +88,17 @@ export async function queryTavily(request: LLMRequest): Promise<LLMResponse> {
     : sourceList;
 
   // Tavily uses per-query pricing, no token-based costs
-  const cost = COST_PER_QUERY["tavily-advanced"] ?? 0.016;
+  const model = "tavily-search";
+  const cost = calculateCost(model, 0, 0);
 
   return {
     text,
+    sources,
     tokensIn: 0,
     tokensOut: 0,
     latencyMs,
     cost,
-    model: "tavily-search",
+    model,
     provider: "tavily",
   };
 }
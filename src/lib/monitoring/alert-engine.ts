@@ -1,5 +1,7 @@
 import { prisma } from "@/lib/db";
 import type { Alert } from "@prisma/client";
+import { compareRates } from "@/lib/citation/statistics";
+import type { RateCounts } from "@/lib/citation/statistics";
 
 export type AlertType =
   | "citation-gained"
@@ -7,13 +9,17 @@ export type AlertType =
   | "competitor-surge"
   | "sentiment-drop"
   | "score-drop"
-  | "cost-spike";
+  | "cost-spike"
+  | "claim-contradicted";
 
 export interface AlertConfig {
   citationLostThreshold: number;
   sentimentDropThreshold: number;
   costSpikeThreshold: number;
   competitorSurgeThreshold: number;
+  // Citation and competitor rate changes only alert when a two-sided test
+  // rejects "no change" at this level
+  significanceLevel: number;
 }
 
 const DEFAULT_CONFIG: AlertConfig = {
@@ -21,6 +27,7 @@ const DEFAULT_CONFIG: AlertConfig = {
   sentimentDropThreshold: 30,
   costSpikeThreshold: 10,
   competitorSurgeThreshold: 20,
+  significanceLevel: 0.05,
 };
 
 // ── Helpers ──────────────────────────────────────────────────────────────
@@ -52,11 +59,21 @@ function daysAgo(days: number): Date {
   return d;
 }
 
+// Pool every response across runs; repeated samples count individually
+function countCited(runs: Array<{ results: Array<{ cited: boolean }> }>): RateCounts {
+  const results = runs.flatMap((run) => run.results);
+  return {
+    successes: results.filter((r) => r.cited).length,
+    trials: results.length,
+  };
+}
+
 // ── Individual checks ────────────────────────────────────────────────────
 
 async function checkCitationLost(
   brandId: string,
-  threshold: number
+  threshold: number,
+  alpha: number
 ): Promise<void> {
   // Get probes for this brand
   const probes = await prisma.probe.findMany({
@@ -65,13 +82,14 @@ async function checkCitationLost(
   });
 
   for (const probe of probes) {
-    // Get the last N runs for this probe, ordered newest first
+    // The last N runs are compared with up to N runs before them
     const recentRuns = await prisma.citationRun.findMany({
       where: { probeId: probe.id, status: "completed" },
       orderBy: { startedAt: "desc" },
-      take: threshold + 1,
+      take: threshold * 2,
       include: {
         results: {
+          where: { model: { not: "unknown" } }, // provider failures are not samples
           select: { cited: true },
         },
       },
@@ -81,21 +99,18 @@ async function checkCitationLost(
       continue; // Not enough history to evaluate
     }
 
-    // Check if the oldest run (index = threshold) had at least one citation
-    const olderRun = recentRuns[threshold];
-    const wasCitedBefore = olderRun.results.some((r) => r.cited);
+    const recent = countCited(recentRuns.slice(0, threshold));
+    const baseline = countCited(recentRuns.slice(threshold));
 
-    if (!wasCitedBefore) {
+    if (baseline.successes === 0) {
       continue; // Was never cited, nothing lost
     }
 
-    // Check if the last `threshold` runs all lack citations
-    const recentRunsSlice = recentRuns.slice(0, threshold);
-    const allMissed = recentRunsSlice.every(
-      (run) => !run.results.some((r) => r.cited)
-    );
+    // Lost means no citations at all in the last `threshold` runs, and a drop
+    // that a handful of unlucky responses could not explain
+    const comparison = compareRates(baseline, recent, { alpha });
 
-    if (allMissed) {
+    if (recent.successes === 0 && comparison.significant) {
       // Check we haven't already alerted for this probe recently (last 24h)
       const existingAlert = await prisma.alert.findFirst({
         where: {
@@ -107,29 +122,36 @@ async function checkCitationLost(
       });
 
       if (!existingAlert) {
-        await createAlert(brandId, "citation-lost", `Citation lost for probe: "${probe.query}" — not cited in last ${threshold} consecutive runs.`, {
+        await createAlert(brandId, "citation-lost", `Citation lost for probe: "${probe.query}" — not cited in last ${threshold} consecutive runs (was ${comparison.baseline.rate}%, p=${comparison.pValue}).`, {
           probeId: probe.id,
           probeQuery: probe.query,
           consecutiveMisses: threshold,
+          comparison,
         });
       }
     }
   }
 }
 
-async function checkCitationGained(brandId: string): Promise<void> {
+async function checkCitationGained(
+  brandId: string,
+  baselineRuns: number,
+  alpha: number
+): Promise<void> {
   const probes = await prisma.probe.findMany({
     where: { brandId, isActive: true },
     select: { id: true, query: true },
   });
 
   for (const probe of probes) {
+    // The latest run against the runs before it
     const recentRuns = await prisma.citationRun.findMany({
       where: { probeId: probe.id, status: "completed" },
       orderBy: { startedAt: "desc" },
-      take: 2,
+      take: baselineRuns + 1,
       include: {
         results: {
+          where: { model: { not: "unknown" } }, // provider failures are not samples
           select: { cited: true },
         },
       },
@@ -139,11 +161,12 @@ async function checkCitationGained(brandId: string): Promise<void> {
       continue;
     }
 
-    const [latestRun, previousRun] = recentRuns;
-    const isCitedNow = latestRun.results.some((r) => r.cited);
-    const wasCitedBefore = previousRun.results.some((r) => r.cited);
+    const current = countCited(recentRuns.slice(0, 1));
+    const baseline = countCited(recentRuns.slice(1));
+    const comparison = compareRates(baseline, current, { alpha });
 
-    if (isCitedNow && !wasCitedBefore) {
+    // A swing such as 1/3 → 2/3 is within noise and does not alert
+    if (comparison.difference > 0 && comparison.significant) {
       const existingAlert = await prisma.alert.findFirst({
         where: {
           brandId,
@@ -154,9 +177,10 @@ async function checkCitationGained(brandId: string): Promise<void> {
       });
 
       if (!existingAlert) {
-        await createAlert(brandId, "citation-gained", `New citation detected for probe: "${probe.query}"`, {
+        await createAlert(brandId, "citation-gained", `Citation rate up for probe: "${probe.query}" — ${comparison.baseline.rate}% → ${comparison.current.rate}% (p=${comparison.pValue}).`, {
           probeId: probe.id,
           probeQuery: probe.query,
+          comparison,
         });
       }
     }
@@ -165,7 +189,8 @@ async function checkCitationGained(brandId: string): Promise<void> {
 
 async function checkCompetitorSurge(
   brandId: string,
-  threshold: number
+  threshold: number,
+  alpha: number
 ): Promise<void> {
   const brand = await prisma.brand.findUnique({
     where: { id: brandId },
@@ -229,8 +254,13 @@ async function checkCompetitorSurge(
     const recentRate = (recentCount / recentResults.length) * 100;
     const previousRate = (previousCount / previousResults.length) * 100;
     const increase = recentRate - previousRate;
+    const comparison = compareRates(
+      { successes: previousCount, trials: previousResults.length },
+      { successes: recentCount, trials: recentResults.length },
+      { alpha }
+    );
 
-    if (increase >= threshold) {
+    if (increase >= threshold && comparison.significant) {
       const existingAlert = await prisma.alert.findFirst({
         where: {
           brandId,
@@ -246,6 +276,7 @@ async function checkCompetitorSurge(
           recentRate: Math.round(recentRate * 10) / 10,
           previousRate: Math.round(previousRate * 10) / 10,
           increasePercent: Math.round(increase * 10) / 10,
+          comparison,
         });
       }
     }
@@ -326,6 +357,59 @@ async function checkCostSpike(
   }
 }
 
+// Claims AI responses made that a cited page of the brand contradicts
+export interface ContradictedClaims {
+  url: string;
+  claims: string[];
+  providers: string[];
+  queries: string[];
+  continuityScoreIds: string[];
+}
+
+/**
+ * Raised by continuity monitoring rather than runAlertChecks: one alert per
+ * page, for claims not already reported for it in the last 7 days.
+ * Returns how many alerts were created.
+ */
+export async function alertContradictedClaims(
+  brandId: string,
+  pages: ContradictedClaims[]
+): Promise<number> {
+  let created = 0;
+
+  for (const page of pages) {
+    const recentAlerts = await prisma.alert.findMany({
+      where: {
+        brandId,
+        type: "claim-contradicted",
+        createdAt: { gte: daysAgo(7) },
+        data: { contains: JSON.stringify(page.url) },
+      },
+      select: { data: true },
+    });
+    const reported = new Set(
+      recentAlerts.flatMap((alert) => {
+        const data = JSON.parse(alert.data ?? "{}") as { url?: string; claims?: string[] };
+        return data.url === page.url ? data.claims ?? [] : [];
+      })
+    );
+
+    const claims = page.claims.filter((claim) => !reported.has(claim));
+    if (claims.length === 0) continue;
+
+    const quoted = claims.slice(0, 3).map((claim) => `"${claim}"`).join(", ");
+    await createAlert(brandId, "claim-contradicted", `${page.url} contradicts ${claims.length} claim(s) from AI responses (${page.providers.join(", ")}): ${quoted}${claims.length > 3 ? ", …" : ""}.`, {
+      url: page.url,
+      claims,
+      providers: page.providers,
+      queries: page.queries,
+      continuityScoreIds: page.continuityScoreIds,
+    });
+    created++;
+  }
+  return created;
+}
+
 // ── Main entry point ─────────────────────────────────────────────────────
 
 export async function runAlertChecks(
@@ -335,9 +419,21 @@ export async function runAlertChecks(
   const mergedConfig: AlertConfig = { ...DEFAULT_CONFIG, ...config };
 
   await Promise.all([
-    checkCitationLost(brandId, mergedConfig.citationLostThreshold),
-    checkCitationGained(brandId),
-    checkCompetitorSurge(brandId, mergedConfig.competitorSurgeThreshold),
+    checkCitationLost(
+      brandId,
+      mergedConfig.citationLostThreshold,
+      mergedConfig.significanceLevel
+    ),
+    checkCitationGained(
+      brandId,
+      mergedConfig.citationLostThreshold,
+      mergedConfig.significanceLevel
+    ),
+    checkCompetitorSurge(
+      brandId,
+      mergedConfig.competitorSurgeThreshold,
+      mergedConfig.significanceLevel
+    ),
     checkSentimentDrop(brandId, mergedConfig.sentimentDropThreshold),
     checkCostSpike(brandId, mergedConfig.costSpikeThreshold),
   ]);
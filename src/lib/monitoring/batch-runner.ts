@@ -1,20 +1,88 @@
 import { prisma } from "@/lib/db";
-import { queryLLM, getEnabledProviders } from "@/lib/llm";
-import type { LLMProvider } from "@/lib/llm";
+import { getEnabledProviders } from "@/lib/llm";
+import type { ProviderName } from "@/lib/llm";
 import { buildProbePrompt } from "@/lib/citation/prompt-builder";
 import type { ProbeCategory } from "@/lib/citation/prompt-builder";
-import { detectCitation } from "@/lib/citation/detector";
-import { canMakeRequest, recordUsage } from "@/lib/monitoring/rate-limiter";
+import {
+  detectCitation,
+  parseCompetitors,
+  toBrandEntity,
+} from "@/lib/citation/detector";
+import { findSpentBudget } from "@/lib/monitoring/rate-limiter";
 import { runAlertChecks } from "@/lib/monitoring/alert-engine";
+import { enqueueContinuityMonitoring } from "@/lib/monitoring/continuity-monitor";
+import { toSourceRecords } from "@/lib/citation/sources";
+import { queryLLMCached } from "@/lib/monitoring/cache";
+import { ingestStoredCitationResult } from "@/lib/graph/ingest";
+import { loadDetectionAliases } from "@/lib/graph/aliases";
+import { currentWorkspaceId, runForBrand, runInWorkspace } from "@/lib/auth/context";
+import {
+  CircuitBreaker,
+  classifyError,
+  withCircuitBreaker,
+} from "@/lib/llm/resilience";
+import type { LLMErrorKind } from "@/lib/llm/resilience";
+import { providerPoolOptions, runPool } from "@/lib/monitoring/worker-pool";
+
+export interface BatchRunOptions {
+  forceRefresh?: boolean; // Bypass the response cache and always query providers
+  // Responses to collect per probe/provider pair in each run. Above 1 the
+  // cache is bypassed, since a cached answer is not an independent sample.
+  samples?: number;
+  // Limits a run across "all brands" to this workspace's brands
+  workspaceId?: string;
+  // Called as the run starts, as each probe/provider pair finishes, and at the end
+  onProgress?: (event: BatchProgressEvent) => void;
+  // Aborting stops the run: calls in flight finish, no new ones start, and
+  // the run is marked cancelled rather than left to resume
+  signal?: AbortSignal;
+}
+
+export type BatchProgressEvent =
+  | { type: "started"; batchRunId: string; totalPairs: number; completedPairs: number }
+  | {
+      type: "pair";
+      batchRunId: string;
+      probeId: string;
+      query: string;
+      provider: string;
+      // "limited": no call made (budget spent or circuit open)
+      status: "completed" | "failed" | "limited";
+      error?: { kind: LLMErrorKind; message: string }; // the pair's last failed call
+      reason?: string; // why a limited pair made no call
+      cost: number;
+      completedPairs: number;
+      totalPairs: number;
+    }
+  | { type: "finished"; batchRunId: string; result: BatchRunResult };
+
+export const MAX_SAMPLES_PER_PAIR = 20;
+
+function sampleCount(options?: BatchRunOptions): number {
+  return Math.min(MAX_SAMPLES_PER_PAIR, Math.max(1, Math.floor(options?.samples ?? 1)));
+}
+
+function sampleOptions(options?: BatchRunOptions): BatchRunOptions {
+  return sampleCount(options) > 1 ? { ...options, forceRefresh: true } : { ...options };
+}
 
 export interface BatchRunResult {
+  batchRunId: string | null; // null when no provider was enabled
   totalProbes: number;
+  totalPairs: number; // probe/provider pairs
+  resumedPairs: number; // pairs a resumed run found already done
   completed: number;
   failed: number;
   skipped: number;
+  cachedResults: number;
   totalCost: number;
   duration: number;
-  errors: Array<{ probeId: string; error: string }>;
+  // Calls that failed after retries; `kind` says why (auth, quota, timeout…)
+  errors: Array<{ probeId: string; provider: string; kind: LLMErrorKind; error: string }>;
+  // Provider calls not made because a budget was spent or the provider's
+  // circuit opened; a probe with every provider limited is counted in
+  // `skipped` and gets no run
+  limited: Array<{ probeId: string; provider: string; reason: string }>;
 }
 
 interface ProbeWithBrand {
@@ -26,36 +94,40 @@ interface ProbeWithBrand {
     name: string;
     domain: string;
     competitors: string;
+    aliases: string;
+    products: string;
+    handles: string;
+    excludedPhrases: string;
+    workspaceId: string | null;
   };
 }
 
 async function executeProbeForProvider(
   probe: ProbeWithBrand,
-  provider: LLMProvider,
-  runId: string
-): Promise<{ cost: number }> {
+  provider: ProviderName,
+  runId: string,
+  options?: BatchRunOptions
+): Promise<{ cost: number; cached: boolean }> {
   const prompt = buildProbePrompt(
     probe.query,
     probe.category as ProbeCategory
   );
 
-  const llmResponse = await queryLLM({
-    provider,
-    prompt,
-  });
-
-  const competitors: Array<{ name: string; domain: string }> = JSON.parse(
-    probe.brand.competitors
+  // queryLLM waits for the provider's rate limit and logs usage against the brand
+  const brandScope = { id: probe.brandId, workspaceId: probe.brand.workspaceId };
+  const llmResponse = await runForBrand(brandScope, () =>
+    queryLLMCached({ provider, prompt }, { forceRefresh: options?.forceRefresh })
   );
 
-  const citation = detectCitation(
-    llmResponse.text,
-    probe.brand.name,
-    probe.brand.domain,
-    competitors
+  const { brand, competitors } = await loadDetectionAliases(
+    toBrandEntity(probe.brand),
+    parseCompetitors(probe.brand.competitors),
+    probe.brand.workspaceId
   );
 
-  await prisma.citationResult.create({
+  const citation = detectCitation(llmResponse.text, brand, competitors);
+
+  const stored = await prisma.citationResult.create({
     data: {
       runId,
       provider,
@@ -67,175 +139,570 @@ async function executeProbeForProvider(
       position: citation.position,
       competitorsMentioned: JSON.stringify(citation.competitorsMentioned),
       confidence: citation.confidence,
+      matchedSurfaceForm: citation.matchedSurfaceForm,
       latencyMs: llmResponse.latencyMs,
       tokensUsed: llmResponse.tokensIn + llmResponse.tokensOut,
       cost: llmResponse.cost,
+      searches: llmResponse.searches ?? 0,
+      cached: llmResponse.cached,
+      sources: { create: toSourceRecords(llmResponse.sources) },
     },
   });
 
-  // Record usage for rate limiting
-  recordUsage(
-    provider,
-    llmResponse.tokensIn + llmResponse.tokensOut,
-    llmResponse.cost
-  );
-
-  // Log to API usage table
-  await prisma.apiUsageLog.create({
-    data: {
-      provider,
-      model: llmResponse.model,
-      endpoint: "chat/completions",
-      tokensIn: llmResponse.tokensIn,
-      tokensOut: llmResponse.tokensOut,
-      cost: llmResponse.cost,
-      latencyMs: llmResponse.latencyMs,
-    },
+  await ingestStoredCitationResult(stored, {
+    workspaceId: probe.brand.workspaceId,
+    brand,
+    competitors,
+    query: probe.query,
+    queryCategory: probe.category,
+  }).catch((error) => {
+    // Graph ingestion failures should not fail the probe; backfill can replay it
+    console.error(`Graph ingestion failed for result ${stored.id}:`, error);
   });
 
-  return { cost: llmResponse.cost };
+  // Cache hits made no API call, so they cost nothing
+  if (llmResponse.cached) {
+    return { cost: 0, cached: true };
+  }
+
+  return { cost: llmResponse.cost, cached: false };
 }
 
-export async function runBatchProbes(
-  brandId?: string,
-  probeIds?: string[],
-  providers?: LLMProvider[]
-): Promise<BatchRunResult> {
-  const startTime = Date.now();
-  const result: BatchRunResult = {
+/**
+ * Providers whose budgets still allow a call for this brand, and the reason
+ * each of the others was left out.
+ */
+async function providersWithBudget(
+  providers: ProviderName[],
+  probe: ProbeWithBrand
+): Promise<{ available: ProviderName[]; limited: Array<{ provider: string; reason: string }> }> {
+  const scope = { workspaceId: probe.brand.workspaceId, brandId: probe.brandId };
+  const available: ProviderName[] = [];
+  const limited: Array<{ provider: string; reason: string }> = [];
+
+  for (const provider of providers) {
+    const reason = await findSpentBudget(provider, scope);
+    if (reason) limited.push({ provider, reason });
+    else available.push(provider);
+  }
+  return { available, limited };
+}
+
+const PROBE_INCLUDE = {
+  brand: {
+    select: {
+      name: true,
+      domain: true,
+      competitors: true,
+      aliases: true,
+      products: true,
+      handles: true,
+      excludedPhrases: true,
+      workspaceId: true,
+    },
+  },
+} as const;
+
+// A running batch touches its row this often; one untouched for
+// STALE_AFTER_MS was cut short by a crash or restart
+const HEARTBEAT_MS = 30_000;
+const STALE_AFTER_MS = 2 * 60_000;
+
+const globalForBatches = globalThis as unknown as { activeBatchRuns?: Set<string> };
+const activeBatchRuns = (globalForBatches.activeBatchRuns ??= new Set<string>());
+
+function parseJsonArray<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function emptyResult(batchRunId: string | null): BatchRunResult {
+  return {
+    batchRunId,
     totalProbes: 0,
+    totalPairs: 0,
+    resumedPairs: 0,
     completed: 0,
     failed: 0,
     skipped: 0,
+    cachedResults: 0,
     totalCost: 0,
     duration: 0,
     errors: [],
+    limited: [],
   };
+}
+
+function emit(options: BatchRunOptions | undefined, event: BatchProgressEvent): void {
+  try {
+    options?.onProgress?.(event);
+  } catch (error) {
+    // A broken listener should not break the run
+    console.error("Batch progress listener failed:", error);
+  }
+}
+
+export async function runBatchProbes(
+  brandId?: string,
+  probeIds?: string[],
+  providers?: ProviderName[],
+  options?: BatchRunOptions
+): Promise<BatchRunResult> {
+  const startTime = Date.now();
 
   // Build filter for probes query
   const whereClause: Record<string, unknown> = { isActive: true };
   if (brandId) {
     whereClause.brandId = brandId;
   }
+  if (options?.workspaceId) {
+    whereClause.brand = { workspaceId: options.workspaceId };
+  }
   if (probeIds && probeIds.length > 0) {
     whereClause.id = { in: probeIds };
   }
 
   const probes = await prisma.probe.findMany({
     where: whereClause,
-    include: {
-      brand: {
-        select: {
-          name: true,
-          domain: true,
-          competitors: true,
-        },
-      },
-    },
+    include: PROBE_INCLUDE,
   });
 
-  result.totalProbes = probes.length;
-
-  const activeProviders = providers ?? getEnabledProviders();
+  const activeProviders =
+    providers ?? getEnabledProviders(options?.workspaceId ?? currentWorkspaceId());
   if (activeProviders.length === 0) {
+    const result = emptyResult(null);
+    result.totalProbes = probes.length;
     result.duration = Date.now() - startTime;
     return result;
   }
 
-  // Track which brands had probes run (for alert checks)
-  const brandIdsProcessed = new Set<string>();
+  const batchRun = await prisma.batchRun.create({
+    data: {
+      // Resuming re-enters this workspace for its keys and budgets
+      workspaceId: options?.workspaceId ?? currentWorkspaceId(),
+      brandId: brandId ?? null,
+      probeIds: JSON.stringify(probes.map((probe) => probe.id)),
+      providers: JSON.stringify(activeProviders),
+      forceRefresh: options?.forceRefresh ?? false,
+      samples: sampleCount(options),
+      totalPairs: probes.length * activeProviders.length,
+    },
+  });
 
-  for (const probe of probes) {
-    // Determine which providers can be used for this probe
-    const availableProviders = activeProviders.filter((p) =>
-      canMakeRequest(p)
-    );
+  return executeBatch(batchRun.id, probes, activeProviders, options, new Map());
+}
 
-    if (availableProviders.length === 0) {
-      result.skipped++;
-      continue;
+/**
+ * Continue a batch run that was cut short: pairs that already have all
+ * their samples are kept, every other pair (unfinished, failed or limited
+ * last time) is run again. Probes deleted since are left out.
+ */
+export async function resumeBatchRun(
+  batchRunId: string,
+  options?: Pick<BatchRunOptions, "onProgress" | "signal">
+): Promise<BatchRunResult> {
+  const batchRun = await prisma.batchRun.findUnique({ where: { id: batchRunId } });
+  if (!batchRun) {
+    throw new Error(`Batch run not found: ${batchRunId}`);
+  }
+  if (!isBatchRunResumable(batchRun)) {
+    throw new Error(`Batch run ${batchRunId} is ${batchRun.status === "running" ? "still running" : batchRun.status}`);
+  }
+
+  // Claim the run so two processes (or two requests) cannot both resume it
+  const claimed = await prisma.batchRun.updateMany({
+    where: { id: batchRunId, status: batchRun.status, updatedAt: batchRun.updatedAt },
+    data: { status: "running" },
+  });
+  if (claimed.count === 0) {
+    throw new Error(`Batch run ${batchRunId} is still running`);
+  }
+
+  const probes = await prisma.probe.findMany({
+    where: { id: { in: parseJsonArray<string>(batchRun.probeIds) } },
+    include: PROBE_INCLUDE,
+  });
+  const providers = parseJsonArray<ProviderName>(batchRun.providers);
+
+  // Samples already collected per probe/provider pair
+  const runs = await prisma.citationRun.findMany({
+    where: { batchRunId },
+    select: { id: true, probeId: true, results: { select: { provider: true } } },
+  });
+  const collected = new Map<string, { runId: string; samples: Map<string, number> }>();
+  for (const run of runs) {
+    const entry = collected.get(run.probeId) ?? { runId: run.id, samples: new Map() };
+    for (const { provider } of run.results) {
+      entry.samples.set(provider, (entry.samples.get(provider) ?? 0) + 1);
     }
+    collected.set(run.probeId, entry);
+  }
 
-    // Create a CitationRun for this probe
-    const citationRun = await prisma.citationRun.create({
-      data: {
-        brandId: probe.brandId,
-        probeId: probe.id,
+  const run = () =>
+    executeBatch(
+      batchRunId,
+      probes,
+      providers,
+      {
+        forceRefresh: batchRun.forceRefresh,
+        samples: batchRun.samples,
+        workspaceId: batchRun.workspaceId ?? undefined,
+        onProgress: options?.onProgress,
+        signal: options?.signal,
+      },
+      collected
+    );
+  // Provider keys and budgets come from the run's workspace
+  return batchRun.workspaceId ? runInWorkspace(batchRun.workspaceId, run) : run();
+}
+
+/**
+ * Continue `batchRunId` if an earlier attempt started it, otherwise start a
+ * new batch. For job retries: a batch that already completed returns its
+ * stored result, and one that is not resumable yet throws.
+ */
+export async function runOrResumeBatch(
+  batchRunId: string | undefined,
+  brandId?: string,
+  probeIds?: string[],
+  providers?: ProviderName[],
+  options?: BatchRunOptions
+): Promise<BatchRunResult> {
+  const batchRun = batchRunId
+    ? await prisma.batchRun.findUnique({ where: { id: batchRunId } })
+    : null;
+  if (!batchRun) {
+    return runBatchProbes(brandId, probeIds, providers, options);
+  }
+  if (batchRun.status === "completed" && batchRun.result) {
+    return JSON.parse(batchRun.result) as BatchRunResult;
+  }
+  return resumeBatchRun(batchRun.id, options);
+}
+
+/**
+ * Whether resumeBatchRun would take the run: it was marked interrupted, or
+ * it still says running but its heartbeat stopped.
+ */
+export function isBatchRunResumable(batchRun: { id: string; status: string; updatedAt: Date }): boolean {
+  if (activeBatchRuns.has(batchRun.id)) return false;
+  if (batchRun.status === "interrupted") return true;
+  return (
+    batchRun.status === "running" &&
+    Date.now() - batchRun.updatedAt.getTime() > STALE_AFTER_MS
+  );
+}
+
+/**
+ * Mark batch runs whose process died as interrupted. The job that started
+ * each one resumes it when its lease runs out (see runOrResumeBatch); others
+ * are resumed through POST /api/batch-runs/:id/resume. Called at server
+ * start from instrumentation with `recheck`, which looks again once the
+ * heartbeat of a run that died just before the restart has gone stale too.
+ */
+export async function markInterruptedBatchRuns(options?: { recheck?: boolean }): Promise<number> {
+  const stale = (
+    await prisma.batchRun.findMany({
+      where: {
         status: "running",
+        updatedAt: { lt: new Date(Date.now() - STALE_AFTER_MS) },
       },
+      select: { id: true },
+    })
+  ).filter(({ id }) => !activeBatchRuns.has(id));
+
+  for (const { id } of stale) {
+    await prisma.batchRun.updateMany({
+      where: { id, status: "running" },
+      data: { status: "interrupted" },
     });
+  }
 
-    let probeSucceeded = false;
+  if (options?.recheck) {
+    setTimeout(() => {
+      void markInterruptedBatchRuns().catch((error) => {
+        console.error("Failed to mark interrupted batch runs:", error);
+      });
+    }, STALE_AFTER_MS + HEARTBEAT_MS).unref();
+  }
+  return stale.length;
+}
 
-    for (const provider of availableProviders) {
-      // Re-check rate limits before each provider call
-      if (!canMakeRequest(provider)) {
-        continue;
-      }
+export interface BatchRunStatus {
+  id: string;
+  brandId: string | null;
+  providers: ProviderName[];
+  samples: number;
+  status: string;
+  totalPairs: number;
+  completedPairs: number;
+  resumable: boolean;
+  result: BatchRunResult | null;
+  startedAt: Date;
+  updatedAt: Date;
+  endedAt: Date | null;
+}
 
-      try {
-        const { cost } = await executeProbeForProvider(
-          probe as ProbeWithBrand,
-          provider,
-          citationRun.id
-        );
-        result.totalCost += cost;
-        probeSucceeded = true;
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        result.errors.push({
-          probeId: probe.id,
-          error: `${provider}: ${errorMessage}`,
-        });
-      }
+export async function listBatchRuns(workspaceId?: string, limit = 20): Promise<BatchRunStatus[]> {
+  const batchRuns = await prisma.batchRun.findMany({
+    where: workspaceId ? { workspaceId } : {},
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+  return batchRuns.map((batchRun) => ({
+    id: batchRun.id,
+    brandId: batchRun.brandId,
+    providers: parseJsonArray<ProviderName>(batchRun.providers),
+    samples: batchRun.samples,
+    status: batchRun.status,
+    totalPairs: batchRun.totalPairs,
+    completedPairs: batchRun.completedPairs,
+    resumable: isBatchRunResumable(batchRun),
+    result: batchRun.result ? (JSON.parse(batchRun.result) as BatchRunResult) : null,
+    startedAt: batchRun.startedAt,
+    updatedAt: batchRun.updatedAt,
+    endedAt: batchRun.endedAt,
+  }));
+}
+
+interface PairTask {
+  probe: ProbeWithBrand;
+  provider: ProviderName;
+  samples: number; // still to collect
+}
+
+/**
+ * Run every unfinished probe/provider pair of a batch through the worker
+ * pool. `collected` holds each probe's existing CitationRun and the samples
+ * it already has per provider (empty for a new run).
+ */
+async function executeBatch(
+  batchRunId: string,
+  probes: ProbeWithBrand[],
+  providers: ProviderName[],
+  options: BatchRunOptions | undefined,
+  collected: Map<string, { runId: string; samples: Map<string, number> }>
+): Promise<BatchRunResult> {
+  const startTime = Date.now();
+  const result = emptyResult(batchRunId);
+  result.totalProbes = probes.length;
+  result.totalPairs = probes.length * providers.length;
+
+  const samples = sampleCount(options);
+  const probeOptions = sampleOptions(options);
+  // A provider that keeps failing is left out for the rest of this run
+  const breaker = new CircuitBreaker();
+
+  const tasks: PairTask[] = [];
+  for (const probe of probes) {
+    for (const provider of providers) {
+      const have = collected.get(probe.id)?.samples.get(provider) ?? 0;
+      if (have >= samples) result.resumedPairs++;
+      else tasks.push({ probe, provider, samples: samples - have });
     }
+  }
+
+  // Per probe: its CitationRun (created by the first pair that makes a call),
+  // pairs still to finish, and whether any sample succeeded
+  const probeState = new Map(
+    probes.map((probe) => {
+      const existing = collected.get(probe.id);
+      return [
+        probe.id,
+        {
+          run: existing ? Promise.resolve(existing.runId) : null,
+          remaining: tasks.filter((task) => task.probe.id === probe.id).length,
+          succeeded: existing !== undefined && existing.samples.size > 0,
+        },
+      ];
+    })
+  ) as Map<string, { run: Promise<string> | null; remaining: number; succeeded: boolean }>;
+
+  const brandIdsProcessed = new Set<string>();
+  let completedPairs = result.resumedPairs;
 
-    // Update run status
+  activeBatchRuns.add(batchRunId);
+  await prisma.batchRun.update({
+    where: { id: batchRunId },
+    data: { status: "running", completedPairs, totalPairs: result.totalPairs, endedAt: null },
+  });
+  const heartbeat = setInterval(() => {
+    prisma.batchRun
+      .update({ where: { id: batchRunId }, data: { updatedAt: new Date() } })
+      .catch(() => {
+        // The next pair or heartbeat will try again
+      });
+  }, HEARTBEAT_MS);
+
+  emit(options, {
+    type: "started",
+    batchRunId,
+    totalPairs: result.totalPairs,
+    completedPairs,
+  });
+
+  const finishProbe = async (probe: ProbeWithBrand) => {
+    const state = probeState.get(probe.id)!;
+    if (--state.remaining > 0) return;
+
+    if (!state.run) {
+      result.skipped++;
+      return;
+    }
     await prisma.citationRun.update({
-      where: { id: citationRun.id },
+      where: { id: await state.run },
       data: {
-        status: probeSucceeded ? "completed" : "failed",
+        status: state.succeeded ? "completed" : "failed",
         endedAt: new Date(),
       },
     });
+    if (state.succeeded) result.completed++;
+    else result.failed++;
+    brandIdsProcessed.add(probe.brandId);
+  };
+
+  const runPair = async ({ probe, provider, samples: remaining }: PairTask) => {
+    const state = probeState.get(probe.id)!;
+    let status: "completed" | "failed" | "limited" = "failed";
+    let pairError: { kind: LLMErrorKind; message: string } | undefined;
+    let pairCost = 0;
+
+    // Budgets are checked before each pair so a spent one does not leave
+    // failed runs behind; per-minute limits are waited out inside queryLLM
+    const { limited } = await providersWithBudget([provider], probe);
+    const reason = limited[0]?.reason ?? breaker.reason(provider);
 
-    if (probeSucceeded) {
-      result.completed++;
+    if (reason) {
+      result.limited.push({ probeId: probe.id, provider, reason });
+      status = "limited";
     } else {
-      result.failed++;
+      state.run ??= prisma.citationRun
+        .create({
+          data: {
+            brandId: probe.brandId,
+            probeId: probe.id,
+            batchRunId,
+            status: "running",
+          },
+        })
+        .then((run) => run.id);
+      const runId = await state.run;
+
+      for (let sample = 0; sample < remaining && !options?.signal?.aborted; sample++) {
+        try {
+          const { cost, cached } = await withCircuitBreaker(breaker, () =>
+            executeProbeForProvider(probe, provider, runId, probeOptions)
+          );
+          result.totalCost += cost;
+          pairCost += cost;
+          if (cached) result.cachedResults++;
+          state.succeeded = true;
+          status = "completed";
+        } catch (error) {
+          const failure = classifyError(provider, error);
+          result.errors.push({
+            probeId: probe.id,
+            provider,
+            kind: failure.kind,
+            error: `${provider}: ${failure.message}`,
+          });
+          pairError = { kind: failure.kind, message: failure.message };
+          if (breaker.isOpen(provider)) break;
+          // A budget spent by this sample would refuse the rest too
+          const { limited: spent } = await providersWithBudget([provider], probe);
+          if (spent.length > 0) break;
+        }
+      }
     }
 
-    brandIdsProcessed.add(probe.brandId);
-  }
+    completedPairs++;
+    await prisma.batchRun
+      .update({ where: { id: batchRunId }, data: { completedPairs } })
+      .catch(() => {
+        // Progress is recounted from stored results on resume
+      });
+    emit(options, {
+      type: "pair",
+      batchRunId,
+      probeId: probe.id,
+      query: probe.query,
+      provider,
+      status,
+      error: pairError,
+      reason: reason ?? undefined,
+      cost: pairCost,
+      completedPairs,
+      totalPairs: result.totalPairs,
+    });
+    await finishProbe(probe);
+  };
 
-  // Run alert checks for all brands that had probes executed
-  const alertPromises = Array.from(brandIdsProcessed).map((bid) =>
-    runAlertChecks(bid).catch(() => {
-      // Alert check failures should not break the batch run
-    })
-  );
-  await Promise.all(alertPromises);
+  try {
+    await runPool(
+      tasks,
+      runPair,
+      providerPoolOptions((task) => task.provider, options?.signal)
+    );
+    // The pool only throws when tasks were still waiting; a cancel that came
+    // after the last one started leaves samples missing all the same
+    options?.signal?.throwIfAborted();
+
+    // Run alert checks for all brands that had probes executed
+    const alertPromises = Array.from(brandIdsProcessed).map((bid) =>
+      runAlertChecks(bid).catch(() => {
+        // Alert check failures should not break the batch run
+      })
+    );
+    await Promise.all(alertPromises);
 
-  result.duration = Date.now() - startTime;
+    // Landing pages are checked in a job of their own, when switched on
+    await enqueueContinuityMonitoring(batchRunId).catch((error: unknown) =>
+      console.error(`Failed to queue continuity monitoring for ${batchRunId}:`, error)
+    );
+
+    result.duration = Date.now() - startTime;
+    await prisma.batchRun.update({
+      where: { id: batchRunId },
+      data: {
+        status: "completed",
+        completedPairs,
+        result: JSON.stringify(result),
+        endedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    // Left resumable unless cancelled: pairs without all their samples are run again
+    const cancelled = options?.signal?.aborted ?? false;
+    await prisma.batchRun
+      .update({
+        where: { id: batchRunId },
+        data: cancelled
+          ? { status: "cancelled", completedPairs, endedAt: new Date() }
+          : { status: "interrupted" },
+      })
+      .catch(() => {});
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+    activeBatchRuns.delete(batchRunId);
+  }
+
+  emit(options, { type: "finished", batchRunId, result });
   return result;
 }
 
 export async function runSingleProbe(
   probeId: string,
-  providers?: LLMProvider[]
+  providers?: ProviderName[],
+  options?: BatchRunOptions
 ): Promise<{ runId: string; results: number; cost: number }> {
   const probe = await prisma.probe.findUnique({
     where: { id: probeId },
-    include: {
-      brand: {
-        select: {
-          name: true,
-          domain: true,
-          competitors: true,
-        },
-      },
-    },
+    include: PROBE_INCLUDE,
   });
 
   if (!probe) {
@@ -258,23 +725,29 @@ export async function runSingleProbe(
   let totalCost = 0;
   let resultCount = 0;
   let hasSuccess = false;
+  const samples = sampleCount(options);
+  const probeOptions = sampleOptions(options);
+  const breaker = new CircuitBreaker();
 
   for (const provider of activeProviders) {
-    if (!canMakeRequest(provider)) {
-      continue;
-    }
-
-    try {
-      const { cost } = await executeProbeForProvider(
-        probe as ProbeWithBrand,
-        provider,
-        citationRun.id
-      );
-      totalCost += cost;
-      resultCount++;
-      hasSuccess = true;
-    } catch {
-      // Individual provider failures are acceptable in single probe runs
+    for (let sample = 0; sample < samples; sample++) {
+      try {
+        const { cost } = await withCircuitBreaker(breaker, () =>
+          executeProbeForProvider(
+            probe as ProbeWithBrand,
+            provider,
+            citationRun.id,
+            probeOptions
+          )
+        );
+        totalCost += cost;
+        resultCount++;
+        hasSuccess = true;
+      } catch {
+        // Individual provider failures are acceptable in single probe runs,
+        // but further samples from a paused provider would fail the same way
+        if (breaker.isOpen(provider)) break;
+      }
     }
   }
 
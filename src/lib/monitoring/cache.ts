@@ -1,17 +1,28 @@
 import { prisma } from "@/lib/db";
 import crypto from "crypto";
+import { queryLLM, resolveModel } from "@/lib/llm";
+import type { LLMRequest, LLMResponse } from "@/lib/llm";
+import { currentWorkspaceId } from "@/lib/auth/context";
+import { getSettings } from "@/lib/settings/config";
+import type { AppSettings } from "@/lib/settings/config";
+import { scheduleJob } from "@/lib/monitoring/scheduler";
 
 const TTL_PROBE_MS = 24 * 60 * 60 * 1000; // 24 hours
 const TTL_CONTENT_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 type CacheType = "probe" | "content";
 
+// Keys made for a workspace never match another workspace's, so one tenant's
+// answers (and its key's spend) are not served to another
 export function getCacheKey(
   provider: string,
   model: string,
-  prompt: string
+  prompt: string,
+  workspaceId?: string | null
 ): string {
-  const raw = `${provider}:${model}:${prompt}`;
+  const raw = workspaceId
+    ? `${workspaceId}:${provider}:${model}:${prompt}`
+    : `${provider}:${model}:${prompt}`;
   return crypto.createHash("sha256").update(raw).digest("hex");
 }
 
@@ -36,9 +47,10 @@ export async function getCached(key: string): Promise<string | null> {
 export async function setCache(
   key: string,
   value: string,
-  type: CacheType
+  type: CacheType,
+  ttlMs?: number
 ): Promise<void> {
-  const ttl = type === "probe" ? TTL_PROBE_MS : TTL_CONTENT_MS;
+  const ttl = ttlMs ?? (type === "probe" ? TTL_PROBE_MS : TTL_CONTENT_MS);
   const expiresAt = new Date(Date.now() + ttl);
 
   await prisma.cacheEntry.upsert({
@@ -68,3 +80,85 @@ export async function clearExpiredCache(): Promise<number> {
 
   return result.count;
 }
+
+// ── Probe response cache ─────────────────────────────────────────────────
+
+export interface CachedLLMResponse extends LLMResponse {
+  cached: boolean;
+}
+
+/**
+ * Probe cache TTL for a provider, from AppSettings.providers[*].cacheTtlHours.
+ * Providers without settings (e.g. tavily) use the default probe TTL.
+ */
+export function getProbeCacheTtlMs(provider: string): number {
+  const settings = getSettings();
+  const providerSettings =
+    settings.providers[provider as keyof AppSettings["providers"]];
+
+  if (providerSettings && typeof providerSettings.cacheTtlHours === "number") {
+    return Math.max(0, providerSettings.cacheTtlHours) * 60 * 60 * 1000;
+  }
+  return TTL_PROBE_MS;
+}
+
+/**
+ * queryLLM with a read-through response cache keyed on the current
+ * workspace (see runInWorkspace), provider, model and prompt. Cache hits cost nothing, so they come back with zero cost and
+ * tokens and `cached: true`; callers should skip usage accounting for them.
+ */
+export async function queryLLMCached(
+  request: LLMRequest,
+  options?: { forceRefresh?: boolean }
+): Promise<CachedLLMResponse> {
+  const ttlMs = getProbeCacheTtlMs(request.provider);
+  if (ttlMs === 0) {
+    return { ...(await queryLLM(request)), cached: false };
+  }
+
+  const model = resolveModel(request);
+  const key = getCacheKey(request.provider, model, request.prompt, currentWorkspaceId());
+
+  if (!options?.forceRefresh) {
+    const start = Date.now();
+    const hit = await getCached(key);
+    if (hit) {
+      try {
+        const stored = JSON.parse(hit) as LLMResponse;
+        return {
+          ...stored,
+          sources: stored.sources ?? [], // entries cached before sources were captured
+          tokensIn: 0,
+          tokensOut: 0,
+          cost: 0,
+          searches: 0,
+          latencyMs: Date.now() - start,
+          cached: true,
+        };
+      } catch {
+        // Corrupt entry — fall through and overwrite it
+      }
+    }
+  }
+
+  const response = await queryLLM(request);
+  await setCache(key, JSON.stringify(response), "probe", ttlMs);
+
+  return { ...response, cached: false };
+}
+
+// ── Periodic sweep ───────────────────────────────────────────────────────
+
+export const CACHE_SWEEP_JOB_ID = "system:cache-sweep";
+
+/**
+ * Register an hourly job that deletes expired cache entries.
+ */
+export function scheduleCacheSweep(cronExpr: string = "0 * * * *"): void {
+  scheduleJob(CACHE_SWEEP_JOB_ID, "Cache sweep", cronExpr, async () => {
+    const removed = await clearExpiredCache();
+    if (removed > 0) {
+      console.log(`Cache sweep removed ${removed} expired entr${removed === 1 ? "y" : "ies"}`);
+    }
+  });
+}
@@ -0,0 +1,165 @@
+import { getSettings } from "@/lib/settings/config";
+import type { AnyProviderSettings } from "@/lib/settings/config";
+
+/**
+ * The decisions behind provider rate limits and budgets: which budget a call
+ * would overrun, how long a full minute window keeps a call waiting, and the
+ * per-provider queue that lets one caller at a time take a free slot. The
+ * spend and window figures come from the caller (./rate-limiter reads them
+ * from ApiUsageLog), so nothing here touches the database.
+ */
+
+export interface ProviderLimits {
+  requestsPerMinute: number; // 0 = unlimited
+  tokensPerMinute: number;
+  dailyBudget: number; // USD; 0 = no cap
+  monthlyBudget: number;
+}
+
+// Calls logged in the last minute
+export interface MinuteWindow {
+  requests: number;
+  tokens: number;
+  oldest: Date | null;
+}
+
+export interface BudgetCheck {
+  budget: number; // USD; 0 = no cap, and spend is not looked up
+  spent: () => Promise<number>;
+  message: string; // shown when the budget is spent
+}
+
+// Where acquireSlot reads what a provider has used
+export interface UsageSource {
+  spentBudget: () => Promise<string | null>;
+  minuteWindow: () => Promise<MinuteWindow>;
+}
+
+// A provider's limits and what to do when its window is full
+export interface CapacityPolicy {
+  limits: ProviderLimits;
+  rateLimitMode: "wait" | "skip";
+  maxRateLimitWaitSeconds: number;
+}
+
+const ONE_MINUTE_MS = 60_000;
+// Slack added to computed waits so the oldest row has left the window
+const WAIT_MARGIN_MS = 250;
+// How often to look again when the window is full of calls still in flight
+const IN_FLIGHT_POLL_MS = 1000;
+
+// Calls this process let through that have not been logged yet. They count
+// against the minute window so concurrent workers cannot all take its last slot.
+const globalForLimiter = globalThis as unknown as { inFlightCalls?: Map<string, number> };
+const inFlight = (globalForLimiter.inFlightCalls ??= new Map<string, number>());
+// Tail of each provider's queue of callers waiting for capacity
+const gates = new Map<string, Promise<void>>();
+
+export function getProviderLimits(provider: string): ProviderLimits {
+  const config = getSettings().providers[provider] as
+    | Partial<AnyProviderSettings>
+    | undefined;
+  return {
+    requestsPerMinute: config?.requestsPerMinute ?? 0,
+    tokensPerMinute: config?.tokensPerMinute ?? 0,
+    dailyBudget: config?.dailyBudget ?? 0,
+    monthlyBudget: config?.monthlyBudget ?? 0,
+  };
+}
+
+/**
+ * The message of the first check whose budget is spent, or null. Checks
+ * run in order and stop at the first spent one; spend is only looked up
+ * for budgets that are set.
+ */
+export async function firstSpentBudget(checks: BudgetCheck[]): Promise<string | null> {
+  for (const check of checks) {
+    if (check.budget <= 0) continue;
+    if ((await check.spent()) >= check.budget) return check.message;
+  }
+  return null;
+}
+
+/**
+ * Milliseconds until a minute window with `inFlightCalls` unlogged calls
+ * has room for another call; 0 if it has room now.
+ */
+export function msUntilWindowFrees(
+  limits: ProviderLimits,
+  window: MinuteWindow,
+  inFlightCalls: number,
+  now = Date.now()
+): number {
+  if (limits.requestsPerMinute <= 0 && limits.tokensPerMinute <= 0) return 0;
+
+  const requests = window.requests + inFlightCalls;
+  const full =
+    (limits.requestsPerMinute > 0 && requests >= limits.requestsPerMinute) ||
+    (limits.tokensPerMinute > 0 && window.tokens >= limits.tokensPerMinute);
+  if (!full) return 0;
+  // Only calls in flight fill the window: look again once some have logged
+  if (!window.oldest) return IN_FLIGHT_POLL_MS;
+
+  return Math.max(0, window.oldest.getTime() + ONE_MINUTE_MS - now + WAIT_MARGIN_MS);
+}
+
+/**
+ * Block until a call for `provider` is allowed. Throws if a budget is spent,
+ * or if the minute window is full and the policy is "skip" (or the wait
+ * would run past maxRateLimitWaitSeconds). A call let through holds a slot
+ * in the window until releaseCapacity.
+ */
+export async function acquireSlot(
+  provider: string,
+  usage: UsageSource,
+  policy: CapacityPolicy
+): Promise<void> {
+  const { limits } = policy;
+  // An unlimited provider's window is not worth reading
+  const unlimited = limits.requestsPerMinute <= 0 && limits.tokensPerMinute <= 0;
+  const deadline = Date.now() + policy.maxRateLimitWaitSeconds * 1000;
+
+  // One caller per provider at a time, so two cannot see the same free slot
+  const previous = gates.get(provider) ?? Promise.resolve();
+  let openGate!: () => void;
+  const gate = new Promise<void>((resolve) => (openGate = resolve));
+  const tail = previous.then(() => gate);
+  gates.set(provider, tail);
+  await previous;
+
+  try {
+    const spent = await usage.spentBudget();
+    if (spent) throw new Error(spent);
+
+    for (;;) {
+      const wait = unlimited
+        ? 0
+        : msUntilWindowFrees(limits, await usage.minuteWindow(), inFlight.get(provider) ?? 0);
+      if (wait === 0) {
+        inFlight.set(provider, (inFlight.get(provider) ?? 0) + 1);
+        return;
+      }
+
+      if (policy.rateLimitMode === "skip" || Date.now() + wait > deadline) {
+        throw new Error(
+          `${provider} rate limit reached (${limits.requestsPerMinute} requests / ` +
+            `${limits.tokensPerMinute} tokens per minute)`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  } finally {
+    openGate();
+    if (gates.get(provider) === tail) gates.delete(provider);
+  }
+}
+
+/**
+ * Give back the slot acquireSlot took, once the call's usage is logged or
+ * the call has failed.
+ */
+export function releaseCapacity(provider: string): void {
+  const count = inFlight.get(provider) ?? 0;
+  if (count <= 1) inFlight.delete(provider);
+  else inFlight.set(provider, count - 1);
+}
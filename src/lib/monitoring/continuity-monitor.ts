@@ -0,0 +1,244 @@
+import { prisma } from "@/lib/db";
+import type { ContinuityScore } from "@prisma/client";
+import { getSettings } from "@/lib/settings/config";
+import {
+  checkCitationContinuity,
+  citedLandingUrl,
+} from "@/lib/scoring/continuity";
+import type { CitationContinuityCheck } from "@/lib/scoring/continuity";
+import { alertContradictedClaims } from "@/lib/monitoring/alert-engine";
+import type { ContradictedClaims } from "@/lib/monitoring/alert-engine";
+import { enqueueJob } from "@/lib/jobs";
+import type { JobSummary } from "@/lib/jobs";
+
+/**
+ * Continuity monitoring: after a batch run, each response that cited the
+ * brand with a link to its site is scored against the page it linked to
+ * (see checkCitationContinuity). Every score is kept as a ContinuityScore,
+ * and claims a page contradicts — an engine quoting last year's pricing,
+ * say — raise a claim-contradicted alert.
+ *
+ * Off unless settings.monitoring.continuityMonitoring is on; each check
+ * costs four LLM calls, so a run checks at most continuityChecksPerRun
+ * responses. Responses already scored are skipped and count against that
+ * limit, so a retried job picks up where it stopped without checking more.
+ */
+
+export type ContinuityMonitorEvent =
+  | { type: "started"; total: number }
+  | {
+      type: "checked";
+      url: string;
+      provider: string;
+      overallScore: number | null; // null when the check failed
+      error?: string;
+    };
+
+export interface ContinuityMonitorResult {
+  batchRunId: string;
+  checked: number;
+  failed: number;
+  skipped: number; // over the per-run limit, or on a page that could not be fetched
+  contradictions: number; // scores in the run with contradicted claims
+  alerts: number;
+}
+
+// Cited with a link to the brand's site, and not scored yet
+function candidatesWhere(batchRunId: string) {
+  return {
+    run: { batchRunId },
+    cited: true,
+    citationType: "url-link",
+    continuityScores: { none: {} },
+  };
+}
+
+// What is left of the per-run limit once the scores a run already saved are counted
+async function remainingChecks(batchRunId: string): Promise<number> {
+  const done = await prisma.continuityScore.count({ where: { batchRunId } });
+  return Math.max(0, getSettings().monitoring.continuityChecksPerRun - done);
+}
+
+export async function saveContinuityScore(
+  check: CitationContinuityCheck,
+  batchRunId?: string
+): Promise<ContinuityScore> {
+  return prisma.continuityScore.create({
+    data: {
+      brandId: check.brandId,
+      citationResultId: check.citationResultId,
+      batchRunId: batchRunId ?? null,
+      provider: check.provider,
+      query: check.query,
+      url: check.page.url,
+      overallScore: Math.round(check.overallScore),
+      claimScore: Math.round(check.claimAlignment.score),
+      messageScore: Math.round(check.messageContinuity.score),
+      intentScore: Math.round(check.intentMatch.score),
+      claimsContradicted: JSON.stringify(check.claimAlignment.claimsContradicted),
+      claimsMissing: JSON.stringify(check.claimAlignment.claimsMissing),
+      result: JSON.stringify(check),
+    },
+  });
+}
+
+/**
+ * Queue continuity monitoring for a finished batch run, when it is switched
+ * on and the run has responses to check. Returns the job, or null.
+ */
+export async function enqueueContinuityMonitoring(
+  batchRunId: string
+): Promise<JobSummary | null> {
+  if (!getSettings().monitoring.continuityMonitoring) return null;
+
+  const [batchRun, candidates, limit] = await Promise.all([
+    prisma.batchRun.findUnique({
+      where: { id: batchRunId },
+      select: { workspaceId: true },
+    }),
+    prisma.citationResult.count({ where: candidatesWhere(batchRunId) }),
+    remainingChecks(batchRunId),
+  ]);
+  if (!batchRun || candidates === 0 || limit === 0) return null;
+
+  return enqueueJob(
+    "continuity-monitor",
+    { batchRunId },
+    {
+      workspaceId: batchRun.workspaceId,
+      label: "Continuity monitoring",
+      total: Math.min(candidates, limit),
+      key: `continuity-monitor:${batchRunId}`,
+    }
+  );
+}
+
+export async function runContinuityMonitoring(
+  batchRunId: string,
+  options?: {
+    signal?: AbortSignal;
+    onProgress?: (event: ContinuityMonitorEvent) => void;
+  }
+): Promise<ContinuityMonitorResult> {
+  const limit = await remainingChecks(batchRunId);
+  const results = await prisma.citationResult.findMany({
+    where: candidatesWhere(batchRunId),
+    include: { sources: true, run: { include: { brand: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const outcome: ContinuityMonitorResult = {
+    batchRunId,
+    checked: 0,
+    failed: 0,
+    skipped: Math.max(0, results.length - limit),
+    contradictions: 0,
+    alerts: 0,
+  };
+  const toCheck = results.slice(0, limit);
+  options?.onProgress?.({ type: "started", total: toCheck.length });
+
+  // A page whose check failed (unreachable, or scoring failed) is not tried again in this run
+  const failedPages = new Map<string, string>();
+
+  for (const result of toCheck) {
+    options?.signal?.throwIfAborted();
+    const url = citedLandingUrl(result.response, result.sources, result.run.brand.domain);
+    const pageError = url ? failedPages.get(url) : "No link to the brand's site";
+    if (!url || pageError) {
+      outcome.skipped++;
+      options?.onProgress?.({
+        type: "checked",
+        url: url ?? "",
+        provider: result.provider,
+        overallScore: null,
+        error: pageError,
+      });
+      continue;
+    }
+
+    try {
+      const check = await checkCitationContinuity(result.id, { url });
+      await saveContinuityScore(check, batchRunId);
+      outcome.checked++;
+
+      options?.onProgress?.({
+        type: "checked",
+        url,
+        provider: result.provider,
+        overallScore: check.overallScore,
+      });
+    } catch (error) {
+      options?.signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Continuity check of ${url} failed:`, error);
+      failedPages.set(url, message);
+      outcome.failed++;
+      options?.onProgress?.({
+        type: "checked",
+        url,
+        provider: result.provider,
+        overallScore: null,
+        error: message,
+      });
+    }
+  }
+
+  // From every score of the run, including those of an earlier attempt
+  const contradicting = await prisma.continuityScore.findMany({
+    where: { batchRunId, claimsContradicted: { not: "[]" } },
+    select: { id: true, brandId: true, url: true, provider: true, query: true, claimsContradicted: true },
+  });
+  outcome.contradictions = contradicting.length;
+
+  const byBrand = new Map<string, Map<string, ContradictedClaims>>();
+  for (const score of contradicting) {
+    const pages = byBrand.get(score.brandId) ?? new Map<string, ContradictedClaims>();
+    const page = pages.get(score.url) ?? {
+      url: score.url,
+      claims: [],
+      providers: [],
+      queries: [],
+      continuityScoreIds: [],
+    };
+    const claims = JSON.parse(score.claimsContradicted) as string[];
+    page.claims = [...new Set([...page.claims, ...claims])];
+    page.providers = [...new Set([...page.providers, score.provider])];
+    page.queries = [...new Set([...page.queries, score.query])];
+    page.continuityScoreIds.push(score.id);
+    pages.set(score.url, page);
+    byBrand.set(score.brandId, pages);
+  }
+  for (const [brandId, pages] of byBrand) {
+    outcome.alerts += await alertContradictedClaims(brandId, [...pages.values()]);
+  }
+
+  // Nothing worked (no OpenAI key, say): fail so the job is retried
+  if (outcome.checked === 0 && outcome.failed > 0) {
+    throw new Error(`Every continuity check failed; first: ${[...failedPages.values()][0]}`);
+  }
+  return outcome;
+}
+
+export type ContinuityScoreSummary = Omit<
+  ContinuityScore,
+  "claimsContradicted" | "claimsMissing" | "result"
+> & { claimsContradicted: string[]; claimsMissing: string[] };
+
+// A brand's continuity scores, newest first, optionally for one page
+export async function listContinuityScores(
+  brandId: string,
+  options?: { url?: string; limit?: number }
+): Promise<ContinuityScoreSummary[]> {
+  const rows = await prisma.continuityScore.findMany({
+    where: { brandId, ...(options?.url ? { url: options.url } : {}) },
+    orderBy: { createdAt: "desc" },
+    take: options?.limit ?? 50,
+    omit: { result: true },
+  });
+  return rows.map((row) => ({
+    ...row,
+    claimsContradicted: JSON.parse(row.claimsContradicted) as string[],
+    claimsMissing: JSON.parse(row.claimsMissing) as string[],
+  }));
+}
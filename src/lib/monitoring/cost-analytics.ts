@@ -0,0 +1,615 @@
+/**
+ * Cost analytics — where the API money went and where it is going.
+ *
+ * Spend reports are built from ApiUsageLog, which holds one row per provider
+ * call (see queryLLM). Cost per citation divides what probe answers cost by
+ * how many of them cited the brand. Forecasts and what-if estimates count the
+ * calls a run would make (probes × providers × samples, or queries ×
+ * providers for a competitive analysis) and price each one at the provider's
+ * average over the last 30 days of uncached probe answers, falling back to
+ * list prices for a typical probe when there is no history. Runs that use
+ * the response cache are discounted by the provider's recent cache hit rate.
+ */
+
+import { prisma } from "@/lib/db";
+import {
+  getEnabledProviders,
+  isBuiltInProvider,
+  resolveModel,
+} from "@/lib/llm";
+import type { ProviderName } from "@/lib/llm";
+import { costOf, findPrice, loadPricingCatalog } from "@/lib/llm/pricing";
+import { getCustomProvider } from "@/lib/settings/config";
+import { computeNextRun } from "@/lib/monitoring/scheduler";
+import { listSchedules } from "@/lib/monitoring/schedules";
+import { MAX_SAMPLES_PER_PAIR } from "@/lib/monitoring/batch-runner";
+import { periodKey } from "@/lib/citation/source-influence";
+import type { TrendInterval } from "@/lib/citation/source-influence";
+
+export interface CostFilter {
+  workspaceId?: string;
+  brandId?: string;
+  provider?: string;
+  days?: number;
+  interval?: TrendInterval;
+}
+
+export interface CostBreakdown {
+  key: string; // provider, model, brand id or endpoint
+  label: string;
+  calls: number;
+  cost: number;
+  tokensIn: number;
+  tokensOut: number;
+  share: number; // % of total cost
+}
+
+export interface CostTrendPoint {
+  period: string; // YYYY-MM-DD (start of the week for weekly buckets)
+  calls: number;
+  cost: number;
+  byProvider: Record<string, number>;
+}
+
+export interface CitationCost {
+  key: string;
+  label: string;
+  results: number; // probe answers, cached ones included
+  citedResults: number;
+  cost: number;
+  costPerCitation: number | null; // null when nothing was cited
+}
+
+export interface CostReport {
+  filter: Required<Pick<CostFilter, "days" | "interval">> &
+    Pick<CostFilter, "brandId" | "provider">;
+  totals: {
+    calls: number;
+    cost: number;
+    tokensIn: number;
+    tokensOut: number;
+    avgCostPerCall: number;
+    avgLatencyMs: number;
+  };
+  byProvider: CostBreakdown[];
+  byModel: CostBreakdown[];
+  byBrand: CostBreakdown[];
+  byEndpoint: CostBreakdown[];
+  trend: CostTrendPoint[];
+  costPerCitation: {
+    overall: CitationCost;
+    byProvider: CitationCost[];
+    byBrand: CitationCost[];
+  };
+}
+
+export interface ProviderPricing {
+  provider: string;
+  costPerCall: number; // USD for one uncached probe answer
+  cacheHitRate: number; // 0–1, share of recent answers served from cache
+  basis: "history" | "list-price";
+  sampleSize: number; // uncached answers the average is taken over
+}
+
+export interface ProviderEstimate extends ProviderPricing {
+  calls: number;
+  billableCalls: number; // calls expected to miss the cache
+  cost: number;
+}
+
+export interface CostEstimate {
+  calls: number;
+  billableCalls: number;
+  cost: number;
+  byProvider: ProviderEstimate[];
+}
+
+export interface ScheduleForecast {
+  scheduleId: string;
+  name: string;
+  cron: string;
+  isActive: boolean;
+  runsPerMonth: number;
+  callsPerRun: number;
+  costPerRun: number;
+  monthlyCost: number; // 0 for paused schedules
+}
+
+export interface SpendForecast {
+  spentToday: number;
+  monthToDate: number;
+  // Month-to-date plus what active schedules will spend before the month ends
+  projectedMonthEnd: number;
+  scheduledMonthlyCost: number; // active schedules over the next 30 days
+  schedules: ScheduleForecast[];
+  pricing: ProviderPricing[];
+}
+
+const UNATTRIBUTED = "unattributed";
+const PRICING_WINDOW_DAYS = 30;
+const FORECAST_DAYS = 30;
+// Beyond this many runs in the window, the count is extrapolated
+const MAX_COUNTED_RUNS = 5000;
+
+// A typical probe: short prompt, list-style answer
+const TYPICAL_PROBE_TOKENS = { in: 300, out: 800 };
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function percent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+function daysAgo(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+}
+
+function startOfToday(): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+interface UsageTally {
+  calls: number;
+  cost: number;
+  tokensIn: number;
+  tokensOut: number;
+}
+
+interface UsageRow {
+  provider: string;
+  model: string;
+  endpoint: string;
+  brandId: string | null;
+  tokensIn: number;
+  tokensOut: number;
+  cost: number;
+}
+
+function addUsage(map: Map<string, UsageTally>, key: string, row: UsageRow) {
+  const tally = map.get(key) ?? { calls: 0, cost: 0, tokensIn: 0, tokensOut: 0 };
+  tally.calls++;
+  tally.cost += row.cost;
+  tally.tokensIn += row.tokensIn;
+  tally.tokensOut += row.tokensOut;
+  map.set(key, tally);
+}
+
+function breakdown(
+  map: Map<string, UsageTally>,
+  total: number,
+  labels: Map<string, string> = new Map()
+): CostBreakdown[] {
+  return [...map.entries()]
+    .map(([key, tally]) => ({
+      key,
+      label: labels.get(key) ?? key,
+      calls: tally.calls,
+      cost: round(tally.cost),
+      tokensIn: tally.tokensIn,
+      tokensOut: tally.tokensOut,
+      share: percent(tally.cost, total),
+    }))
+    .sort((a, b) => b.cost - a.cost);
+}
+
+async function brandNames(ids: string[]): Promise<Map<string, string>> {
+  const brands = await prisma.brand.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, name: true },
+  });
+  const names = new Map(brands.map((b) => [b.id, b.name]));
+  names.set(UNATTRIBUTED, "Not attributed to a brand");
+  return names;
+}
+
+// ── Spend report ─────────────────────────────────────────────────────────
+
+async function citationCosts(
+  filter: CostFilter,
+  since: Date
+): Promise<CostReport["costPerCitation"]> {
+  const rows = await prisma.citationResult.findMany({
+    where: {
+      // Provider failures are stored with model "unknown"
+      model: { not: "unknown" },
+      createdAt: { gte: since },
+      ...(filter.provider ? { provider: filter.provider } : {}),
+      run: {
+        ...(filter.brandId ? { brandId: filter.brandId } : {}),
+        ...(filter.workspaceId
+          ? { brand: { workspaceId: filter.workspaceId } }
+          : {}),
+      },
+    },
+    select: {
+      provider: true,
+      cited: true,
+      cost: true,
+      run: { select: { brandId: true } },
+    },
+  });
+
+  type Tally = { results: number; cited: number; cost: number };
+  const overall: Tally = { results: 0, cited: 0, cost: 0 };
+  const byProvider = new Map<string, Tally>();
+  const byBrand = new Map<string, Tally>();
+
+  const tallyFor = (map: Map<string, Tally>, key: string): Tally => {
+    let tally = map.get(key);
+    if (!tally) {
+      tally = { results: 0, cited: 0, cost: 0 };
+      map.set(key, tally);
+    }
+    return tally;
+  };
+
+  for (const row of rows) {
+    for (const tally of [
+      overall,
+      tallyFor(byProvider, row.provider),
+      tallyFor(byBrand, row.run.brandId),
+    ]) {
+      tally.results++;
+      if (row.cited) tally.cited++;
+      tally.cost += row.cost;
+    }
+  }
+
+  const names = await brandNames([...byBrand.keys()]);
+  const toCost = (key: string, label: string, tally: Tally): CitationCost => ({
+    key,
+    label,
+    results: tally.results,
+    citedResults: tally.cited,
+    cost: round(tally.cost),
+    costPerCitation: tally.cited > 0 ? round(tally.cost / tally.cited) : null,
+  });
+
+  return {
+    overall: toCost("all", "All probes", overall),
+    byProvider: [...byProvider.entries()]
+      .map(([key, tally]) => toCost(key, key, tally))
+      .sort((a, b) => b.cost - a.cost),
+    byBrand: [...byBrand.entries()]
+      .map(([key, tally]) => toCost(key, names.get(key) ?? key, tally))
+      .sort((a, b) => b.cost - a.cost),
+  };
+}
+
+export async function getCostReport(filter: CostFilter = {}): Promise<CostReport> {
+  const days = filter.days ?? 30;
+  const interval = filter.interval ?? "day";
+  const since = daysAgo(days);
+
+  const rows = await prisma.apiUsageLog.findMany({
+    where: {
+      createdAt: { gte: since },
+      ...(filter.workspaceId ? { workspaceId: filter.workspaceId } : {}),
+      ...(filter.brandId ? { brandId: filter.brandId } : {}),
+      ...(filter.provider ? { provider: filter.provider } : {}),
+    },
+    select: {
+      provider: true,
+      model: true,
+      endpoint: true,
+      brandId: true,
+      tokensIn: true,
+      tokensOut: true,
+      cost: true,
+      latencyMs: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const byProvider = new Map<string, UsageTally>();
+  const byModel = new Map<string, UsageTally>();
+  const byBrand = new Map<string, UsageTally>();
+  const byEndpoint = new Map<string, UsageTally>();
+  const byPeriod = new Map<string, CostTrendPoint>();
+  const totals = { calls: 0, cost: 0, tokensIn: 0, tokensOut: 0, latencyMs: 0 };
+
+  for (const row of rows) {
+    totals.calls++;
+    totals.cost += row.cost;
+    totals.tokensIn += row.tokensIn;
+    totals.tokensOut += row.tokensOut;
+    totals.latencyMs += row.latencyMs;
+
+    addUsage(byProvider, row.provider, row);
+    addUsage(byModel, row.model, row);
+    addUsage(byBrand, row.brandId ?? UNATTRIBUTED, row);
+    addUsage(byEndpoint, row.endpoint, row);
+
+    const period = periodKey(row.createdAt, interval);
+    const point = byPeriod.get(period) ?? { period, calls: 0, cost: 0, byProvider: {} };
+    point.calls++;
+    point.cost += row.cost;
+    point.byProvider[row.provider] = (point.byProvider[row.provider] ?? 0) + row.cost;
+    byPeriod.set(period, point);
+  }
+
+  const [names, costPerCitation] = await Promise.all([
+    brandNames([...byBrand.keys()]),
+    citationCosts(filter, since),
+  ]);
+
+  return {
+    filter: { brandId: filter.brandId, provider: filter.provider, days, interval },
+    totals: {
+      calls: totals.calls,
+      cost: round(totals.cost),
+      tokensIn: totals.tokensIn,
+      tokensOut: totals.tokensOut,
+      avgCostPerCall: totals.calls > 0 ? round(totals.cost / totals.calls) : 0,
+      avgLatencyMs: totals.calls > 0 ? Math.round(totals.latencyMs / totals.calls) : 0,
+    },
+    byProvider: breakdown(byProvider, totals.cost),
+    byModel: breakdown(byModel, totals.cost),
+    byBrand: breakdown(byBrand, totals.cost, names),
+    byEndpoint: breakdown(byEndpoint, totals.cost),
+    trend: [...byPeriod.values()].map((point) => ({
+      ...point,
+      cost: round(point.cost),
+      byProvider: Object.fromEntries(
+        Object.entries(point.byProvider).map(([p, cost]) => [p, round(cost)])
+      ),
+    })),
+    costPerCitation,
+  };
+}
+
+// ── Pricing ──────────────────────────────────────────────────────────────
+
+/**
+ * What one typical probe would cost at list price, for providers without
+ * recent history.
+ */
+function listPricePerCall(provider: ProviderName): number {
+  const { in: tokensIn, out: tokensOut } = TYPICAL_PROBE_TOKENS;
+  if (!isBuiltInProvider(provider)) {
+    const config = getCustomProvider(provider);
+    return (
+      (tokensIn / 1000) * (config?.costPer1kInput ?? 0) +
+      (tokensOut / 1000) * (config?.costPer1kOutput ?? 0)
+    );
+  }
+
+  // Models billed per search usually run one per probe
+  const price = findPrice(resolveModel({ provider, prompt: "" }));
+  return price ? costOf(price, { tokensIn, tokensOut, searches: 1 }) : 0;
+}
+
+export async function getProviderPricing(
+  providers: ProviderName[],
+  workspaceId?: string
+): Promise<ProviderPricing[]> {
+  const since = daysAgo(PRICING_WINDOW_DAYS);
+  await loadPricingCatalog();
+
+  return Promise.all(
+    providers.map(async (provider) => {
+      const where = {
+        provider,
+        model: { not: "unknown" },
+        createdAt: { gte: since },
+        ...(workspaceId ? { run: { brand: { workspaceId } } } : {}),
+      };
+      const [uncached, cached] = await Promise.all([
+        prisma.citationResult.aggregate({
+          where: { ...where, cached: false },
+          _avg: { cost: true },
+          _count: true,
+        }),
+        prisma.citationResult.count({ where: { ...where, cached: true } }),
+      ]);
+
+      const answers = uncached._count + cached;
+      const hasHistory = uncached._count > 0;
+      return {
+        provider,
+        costPerCall: round(
+          hasHistory ? uncached._avg.cost ?? 0 : listPricePerCall(provider),
+          5
+        ),
+        cacheHitRate: answers > 0 ? round(cached / answers, 3) : 0,
+        basis: hasHistory ? "history" : "list-price",
+        sampleSize: uncached._count,
+      } satisfies ProviderPricing;
+    })
+  );
+}
+
+function estimate(
+  pricing: ProviderPricing[],
+  callsPerProvider: number,
+  useCache: boolean
+): CostEstimate {
+  const byProvider = pricing.map((p) => {
+    const billableCalls = useCache
+      ? callsPerProvider * (1 - p.cacheHitRate)
+      : callsPerProvider;
+    return {
+      ...p,
+      calls: callsPerProvider,
+      billableCalls: round(billableCalls, 1),
+      cost: round(billableCalls * p.costPerCall),
+    };
+  });
+
+  return {
+    calls: callsPerProvider * pricing.length,
+    billableCalls: round(byProvider.reduce((sum, p) => sum + p.billableCalls, 0), 1),
+    cost: round(byProvider.reduce((sum, p) => sum + p.cost, 0)),
+    byProvider,
+  };
+}
+
+// ── What-if estimates ────────────────────────────────────────────────────
+
+export interface BatchEstimateInput {
+  workspaceId: string;
+  brandId?: string; // all brands in the workspace when omitted
+  probeIds?: string[];
+  providers?: ProviderName[];
+  samples?: number;
+  forceRefresh?: boolean;
+}
+
+/**
+ * Estimate what runBatchProbes would spend with these arguments.
+ */
+export async function estimateBatchCost(
+  input: BatchEstimateInput
+): Promise<CostEstimate & { probes: number; samples: number }> {
+  const samples = Math.min(
+    MAX_SAMPLES_PER_PAIR,
+    Math.max(1, Math.floor(input.samples ?? 1))
+  );
+
+  const probes = await prisma.probe.count({
+    where: {
+      isActive: true,
+      brand: { workspaceId: input.workspaceId },
+      ...(input.brandId ? { brandId: input.brandId } : {}),
+      ...(input.probeIds && input.probeIds.length > 0
+        ? { id: { in: input.probeIds } }
+        : {}),
+    },
+  });
+
+  const providers =
+    input.providers && input.providers.length > 0
+      ? input.providers
+      : getEnabledProviders(input.workspaceId);
+  const pricing = await getProviderPricing(providers, input.workspaceId);
+
+  // Repeated samples always bypass the cache, as in the batch runner
+  const useCache = !input.forceRefresh && samples === 1;
+  return { ...estimate(pricing, probes * samples, useCache), probes, samples };
+}
+
+/**
+ * Estimate what runCompetitiveAnalysis would spend on `queries` queries.
+ */
+export async function estimateCompetitiveCost(input: {
+  workspaceId: string;
+  queries: number;
+  providers?: ProviderName[];
+  forceRefresh?: boolean;
+}): Promise<CostEstimate & { queries: number }> {
+  const providers =
+    input.providers && input.providers.length > 0
+      ? input.providers
+      : getEnabledProviders(input.workspaceId);
+  const pricing = await getProviderPricing(providers, input.workspaceId);
+
+  return {
+    ...estimate(pricing, input.queries, !input.forceRefresh),
+    queries: input.queries,
+  };
+}
+
+// ── Forecast ─────────────────────────────────────────────────────────────
+
+/**
+ * How many times a cron expression fires between now and `until`.
+ */
+export function countRuns(cron: string, timezone: string, until: Date): number {
+  const start = Date.now();
+  let runs = 0;
+  let next = computeNextRun(cron, timezone);
+
+  while (next && next <= until) {
+    runs++;
+    if (runs >= MAX_COUNTED_RUNS) {
+      // Very frequent schedules: extrapolate from the part counted
+      const counted = next.getTime() - start;
+      return Math.round(runs * ((until.getTime() - start) / Math.max(counted, 1)));
+    }
+    next = computeNextRun(cron, timezone, next);
+  }
+  return runs;
+}
+
+export async function forecastMonthlySpend(workspaceId: string): Promise<SpendForecast> {
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const horizon = new Date(now.getTime() + FORECAST_DAYS * 86_400_000);
+
+  const spend = (since: Date) =>
+    prisma.apiUsageLog
+      .aggregate({
+        where: { workspaceId, createdAt: { gte: since } },
+        _sum: { cost: true },
+      })
+      .then((usage) => usage._sum.cost ?? 0);
+
+  const [spentToday, monthToDate, schedules] = await Promise.all([
+    spend(startOfToday()),
+    spend(monthStart),
+    listSchedules(workspaceId),
+  ]);
+
+  const forecasts: ScheduleForecast[] = [];
+  const pricingByProvider = new Map<string, ProviderPricing>();
+  let scheduledMonthlyCost = 0;
+  let restOfMonthCost = 0;
+
+  for (const schedule of schedules) {
+    const perRun = await estimateBatchCost({
+      workspaceId,
+      brandId: schedule.brandId ?? undefined,
+      probeIds: schedule.probeIds,
+      providers: schedule.providers,
+      samples: schedule.samples,
+      forceRefresh: schedule.forceRefresh,
+    });
+    for (const p of perRun.byProvider) pricingByProvider.set(p.provider, p);
+
+    const runsPerMonth = countRuns(schedule.cron, schedule.timezone, horizon);
+    const monthlyCost = schedule.isActive ? perRun.cost * runsPerMonth : 0;
+    scheduledMonthlyCost += monthlyCost;
+    if (schedule.isActive) {
+      restOfMonthCost += perRun.cost * countRuns(schedule.cron, schedule.timezone, monthEnd);
+    }
+
+    forecasts.push({
+      scheduleId: schedule.id,
+      name: schedule.name,
+      cron: schedule.cron,
+      isActive: schedule.isActive,
+      runsPerMonth,
+      callsPerRun: perRun.calls,
+      costPerRun: perRun.cost,
+      monthlyCost: round(monthlyCost),
+    });
+  }
+
+  return {
+    spentToday: round(spentToday),
+    monthToDate: round(monthToDate),
+    projectedMonthEnd: round(monthToDate + restOfMonthCost),
+    scheduledMonthlyCost: round(scheduledMonthlyCost),
+    schedules: forecasts.sort((a, b) => b.monthlyCost - a.monthlyCost),
+    pricing: [...pricingByProvider.values()].map(
+      ({ provider, costPerCall, cacheHitRate, basis, sampleSize }) => ({
+        provider,
+        costPerCall,
+        cacheHitRate,
+        basis,
+        sampleSize,
+      })
+    ),
+  };
+}
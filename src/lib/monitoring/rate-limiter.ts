@@ -1,126 +1,230 @@
-interface RateLimiterConfig {
-  maxTokensPerMinute: number;
-  maxRequestsPerMinute: number;
-  dailyCostCap: number; // USD
+import { prisma } from "@/lib/db";
+import { getWorkspaceSettings } from "@/lib/auth/workspaces";
+import { getSettings } from "@/lib/settings/config";
+import {
+  acquireSlot,
+  firstSpentBudget,
+  getProviderLimits,
+} from "./capacity";
+import type { BudgetCheck, MinuteWindow, ProviderLimits } from "./capacity";
+
+export { getProviderLimits, releaseCapacity } from "./capacity";
+export type { ProviderLimits } from "./capacity";
+
+/**
+ * Rate limits and spend caps for LLM providers, enforced from ApiUsageLog so
+ * every server process and cron job draws on the same budget and nothing
+ * resets on restart.
+ *
+ * Limits come from settings: requests and tokens per minute plus daily and
+ * monthly budgets per provider, daily and monthly budgets per brand, and the
+ * daily budget a workspace sets for itself. Days and months start at local
+ * midnight and on the 1st. A spent budget fails the call straight away; a
+ * full minute window either waits for room or fails, depending on
+ * monitoring.rateLimitMode. The decisions themselves live in ./capacity;
+ * this module feeds them from the log.
+ */
+
+// Who a call is made for; either may be unknown
+export interface UsageScope {
+  workspaceId: string | null;
+  brandId: string | null;
 }
 
-interface UsageWindow {
-  tokens: number;
-  requests: number;
-  windowStart: number; // epoch ms
-}
-
-interface DailyUsage {
+export interface UsageRecord {
+  model: string;
+  tokensIn: number;
+  tokensOut: number;
   cost: number;
-  dayStart: number; // epoch ms
+  searches?: number;
+  latencyMs: number;
 }
 
-const PROVIDER_LIMITS: Record<string, RateLimiterConfig> = {
-  openai: {
-    maxTokensPerMinute: 100_000,
-    maxRequestsPerMinute: 60,
-    dailyCostCap: 5.0,
-  },
-  anthropic: {
-    maxTokensPerMinute: 100_000,
-    maxRequestsPerMinute: 60,
-    dailyCostCap: 5.0,
-  },
-  google: {
-    maxTokensPerMinute: 100_000,
-    maxRequestsPerMinute: 60,
-    dailyCostCap: 5.0,
-  },
-  perplexity: {
-    maxTokensPerMinute: 100_000,
-    maxRequestsPerMinute: 60,
-    dailyCostCap: 5.0,
-  },
-};
+export interface ProviderUsage {
+  provider: string;
+  limits: ProviderLimits;
+  lastMinute: { requests: number; tokens: number };
+  spentToday: number;
+  spentThisMonth: number;
+  // Why a call for this provider would be refused right now, if it would
+  blockedBy: string | null;
+}
 
 const ONE_MINUTE_MS = 60_000;
-const ONE_DAY_MS = 86_400_000;
-
-// In-memory tracking
-const minuteWindows = new Map<string, UsageWindow>();
-const dailyUsage = new Map<string, DailyUsage>();
-
-function getProviderConfig(provider: string): RateLimiterConfig {
-  return (
-    PROVIDER_LIMITS[provider] ?? {
-      maxTokensPerMinute: 100_000,
-      maxRequestsPerMinute: 60,
-      dailyCostCap: 5.0,
-    }
-  );
+
+function startOfToday(): Date {
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  return since;
 }
 
-function getCurrentMinuteWindow(provider: string): UsageWindow {
-  const now = Date.now();
-  const existing = minuteWindows.get(provider);
+function startOfMonth(): Date {
+  const since = startOfToday();
+  since.setDate(1);
+  return since;
+}
 
-  if (existing && now - existing.windowStart < ONE_MINUTE_MS) {
-    return existing;
-  }
+async function spendSince(
+  where: { provider?: string; brandId?: string; workspaceId?: string },
+  since: Date
+): Promise<number> {
+  const usage = await prisma.apiUsageLog.aggregate({
+    where: { ...where, createdAt: { gte: since } },
+    _sum: { cost: true },
+  });
+  return usage._sum.cost ?? 0;
+}
 
-  const fresh: UsageWindow = { tokens: 0, requests: 0, windowStart: now };
-  minuteWindows.set(provider, fresh);
-  return fresh;
+function usd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
 }
 
-function getCurrentDailyUsage(provider: string): DailyUsage {
-  const now = Date.now();
-  const existing = dailyUsage.get(provider);
+/**
+ * The first budget that a call for `provider` would exceed, as a message
+ * ready to show, or null if there is money left everywhere.
+ */
+export async function findSpentBudget(
+  provider: string,
+  scope: UsageScope
+): Promise<string | null> {
+  const limits = getProviderLimits(provider);
+  const checks: BudgetCheck[] = [
+    {
+      budget: limits.dailyBudget,
+      spent: () => spendSince({ provider }, startOfToday()),
+      message: `Daily ${provider} budget of ${usd(limits.dailyBudget)} is spent`,
+    },
+    {
+      budget: limits.monthlyBudget,
+      spent: () => spendSince({ provider }, startOfMonth()),
+      message: `Monthly ${provider} budget of ${usd(limits.monthlyBudget)} is spent`,
+    },
+  ];
+
+  const { brandId, workspaceId } = scope;
+  if (brandId) {
+    const brand = await prisma.brand.findUnique({
+      where: { id: brandId },
+      select: { name: true, dailyBudget: true, monthlyBudget: true },
+    });
+    if (brand) {
+      checks.push(
+        {
+          budget: brand.dailyBudget,
+          spent: () => spendSince({ brandId }, startOfToday()),
+          message: `Daily budget of ${usd(brand.dailyBudget)} for ${brand.name} is spent`,
+        },
+        {
+          budget: brand.monthlyBudget,
+          spent: () => spendSince({ brandId }, startOfMonth()),
+          message: `Monthly budget of ${usd(brand.monthlyBudget)} for ${brand.name} is spent`,
+        }
+      );
+    }
+  }
 
-  if (existing && now - existing.dayStart < ONE_DAY_MS) {
-    return existing;
+  if (workspaceId) {
+    const config = (await getWorkspaceSettings(workspaceId)).providers[provider];
+    const budget = config?.dailyBudget ?? 0;
+    checks.push({
+      budget,
+      spent: () => spendSince({ workspaceId, provider }, startOfToday()),
+      message: `Daily ${provider} budget of ${usd(budget)} for this workspace is spent`,
+    });
   }
 
-  const fresh: DailyUsage = { cost: 0, dayStart: now };
-  dailyUsage.set(provider, fresh);
-  return fresh;
+  return firstSpentBudget(checks);
 }
 
-export function canMakeRequest(provider: string): boolean {
-  const config = getProviderConfig(provider);
-  const window = getCurrentMinuteWindow(provider);
-  const daily = getCurrentDailyUsage(provider);
-
-  if (window.tokens >= config.maxTokensPerMinute) return false;
-  if (window.requests >= config.maxRequestsPerMinute) return false;
-  if (daily.cost >= config.dailyCostCap) return false;
+async function minuteWindow(provider: string): Promise<MinuteWindow> {
+  const rows = await prisma.apiUsageLog.findMany({
+    where: { provider, createdAt: { gte: new Date(Date.now() - ONE_MINUTE_MS) } },
+    select: { createdAt: true, tokensIn: true, tokensOut: true },
+    orderBy: { createdAt: "asc" },
+  });
+  return {
+    requests: rows.length,
+    tokens: rows.reduce((sum, row) => sum + row.tokensIn + row.tokensOut, 0),
+    oldest: rows[0]?.createdAt ?? null,
+  };
+}
 
-  return true;
+/**
+ * Block until a call for `provider` is allowed, drawing on the spend and
+ * minute window in ApiUsageLog (see acquireSlot). A call let through holds
+ * a slot in the window until releaseCapacity.
+ */
+export async function acquireCapacity(
+  provider: string,
+  scope: UsageScope
+): Promise<void> {
+  const { rateLimitMode, maxRateLimitWaitSeconds } = getSettings().monitoring;
+  await acquireSlot(
+    provider,
+    {
+      spentBudget: () => findSpentBudget(provider, scope),
+      minuteWindow: () => minuteWindow(provider),
+    },
+    { limits: getProviderLimits(provider), rateLimitMode, maxRateLimitWaitSeconds }
+  );
 }
 
-export function recordUsage(
+/**
+ * Log a completed provider call. This row is what limits and budgets are
+ * counted from, so every call that reached a provider must be recorded.
+ */
+export async function recordUsage(
   provider: string,
-  tokens: number,
-  cost: number
-): void {
-  const window = getCurrentMinuteWindow(provider);
-  window.tokens += tokens;
-  window.requests += 1;
-
-  const daily = getCurrentDailyUsage(provider);
-  daily.cost += cost;
+  usage: UsageRecord,
+  scope: UsageScope,
+  endpoint = "chat/completions"
+): Promise<void> {
+  await prisma.apiUsageLog.create({
+    data: {
+      workspaceId: scope.workspaceId,
+      brandId: scope.brandId,
+      provider,
+      model: usage.model,
+      endpoint,
+      tokensIn: usage.tokensIn,
+      tokensOut: usage.tokensOut,
+      cost: usage.cost,
+      searches: usage.searches ?? 0,
+      latencyMs: usage.latencyMs,
+    },
+  });
 }
 
-export function getRemainingBudget(provider: string): {
-  tokens: number;
-  requests: number;
-  dailyBudget: number;
-} {
-  const config = getProviderConfig(provider);
-  const window = getCurrentMinuteWindow(provider);
-  const daily = getCurrentDailyUsage(provider);
+export async function getProviderUsage(
+  provider: string,
+  scope: UsageScope
+): Promise<ProviderUsage> {
+  const [window, spentToday, spentThisMonth, blockedBy] = await Promise.all([
+    minuteWindow(provider),
+    spendSince({ provider }, startOfToday()),
+    spendSince({ provider }, startOfMonth()),
+    findSpentBudget(provider, scope),
+  ]);
 
   return {
-    tokens: Math.max(0, config.maxTokensPerMinute - window.tokens),
-    requests: Math.max(0, config.maxRequestsPerMinute - window.requests),
-    dailyBudget: Math.max(0, config.dailyCostCap - daily.cost),
+    provider,
+    limits: getProviderLimits(provider),
+    lastMinute: { requests: window.requests, tokens: window.tokens },
+    spentToday,
+    spentThisMonth,
+    blockedBy,
   };
 }
 
-export { PROVIDER_LIMITS };
-export type { RateLimiterConfig };
+/**
+ * Spend recorded for a brand today and this month, across all providers.
+ */
+export async function getBrandSpend(
+  brandId: string
+): Promise<{ spentToday: number; spentThisMonth: number }> {
+  const [spentToday, spentThisMonth] = await Promise.all([
+    spendSince({ brandId }, startOfToday()),
+    spendSince({ brandId }, startOfMonth()),
+  ]);
+  return { spentToday, spentThisMonth };
+}
@@ -4,8 +4,10 @@ export interface ScheduledJob {
   id: string;
   name: string;
   cron: string;
+  timezone: string;
   handler: () => Promise<void>;
   isRunning: boolean;
+  isPaused: boolean;
   lastRun: Date | null;
   lastError: string | null;
   nextRun: Date | null;
@@ -14,16 +16,208 @@ export interface ScheduledJob {
 interface JobEntry {
   task: cron.ScheduledTask;
   meta: ScheduledJob;
+  run: () => Promise<void>;
 }
 
-// In-memory job registry
-const jobs = new Map<string, JobEntry>();
+// In-memory job registry. Kept on globalThis (like the Prisma client) so the
+// boot-time loader in instrumentation and the route handlers share one registry.
+const globalForScheduler = globalThis as unknown as {
+  scheduledJobs?: Map<string, JobEntry>;
+};
 
-function computeNextRun(cronExpr: string): Date | null {
+const jobs = globalForScheduler.scheduledJobs ?? new Map<string, JobEntry>();
+globalForScheduler.scheduledJobs = jobs;
+
+// ── Next-run computation ─────────────────────────────────────────────────
+// node-cron has no next-run API, so expressions are expanded here and the
+// next matching wall-clock minute is searched in the job's timezone.
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface ParsedCron {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseCronValue(token: string, names: string[] | null, offset: number): number {
+  const lower = token.toLowerCase();
+  if (names) {
+    const idx = names.indexOf(lower.slice(0, 3));
+    if (idx !== -1) return idx + offset;
+  }
+  const value = parseInt(token, 10);
+  if (isNaN(value)) {
+    throw new Error(`Invalid cron value: ${token}`);
+  }
+  return value;
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  nameOffset = 0
+): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart ? parseInt(stepPart, 10) : 1;
+    let start: number;
+    let end: number;
+
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-");
+      start = parseCronValue(a, names, nameOffset);
+      end = parseCronValue(b, names, nameOffset);
+    } else {
+      start = parseCronValue(rangePart, names, nameOffset);
+      end = stepPart ? max : start;
+    }
+
+    for (let v = start; v <= end; v += Math.max(1, step)) {
+      values.add(v);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function parseCron(cronExpr: string): ParsedCron {
+  let fields = cronExpr.trim().split(/\s+/);
+  // node-cron accepts an optional leading seconds field; next-run is minute-resolution
+  if (fields.length === 6) fields = fields.slice(1);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: ${cronExpr}`);
+  }
+
+  const [minute, hour, dom, month, dow] = fields;
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: new Set(parseCronField(dom, 1, 31)),
+    months: new Set(parseCronField(month, 1, 12, MONTH_NAMES, 1)),
+    // 7 is an alias for Sunday
+    daysOfWeek: new Set(parseCronField(dow, 0, 7, DAY_NAMES).map((d) => d % 7)),
+    domRestricted: dom !== "*",
+    dowRestricted: dow !== "*",
+  };
+}
+
+function getZonedParts(date: Date, timeZone: string): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+} {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(date);
+
+  const get = (type: string): number =>
+    parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+  };
+}
+
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  const offsetAt = (instant: number): number => {
+    const p = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - instant;
+  };
+
+  // Re-check the offset once to land on the right side of DST transitions
+  const firstOffset = offsetAt(wallClock);
+  let instant = wallClock - firstOffset;
+  const secondOffset = offsetAt(instant);
+  if (secondOffset !== firstOffset) {
+    instant = wallClock - secondOffset;
+  }
+
+  return new Date(instant);
+}
+
+const MAX_SEARCH_DAYS = 366 * 4; // Covers Feb 29 schedules
+
+export function computeNextRun(
+  cronExpr: string,
+  timezone: string = "UTC",
+  from: Date = new Date()
+): Date | null {
   try {
-    const interval = cron.getTasks();
-    // node-cron doesn't expose next run natively, approximate from expression
-    // Return null as node-cron lacks built-in next-run computation
+    const parsed = parseCron(cronExpr);
+    const now = getZonedParts(from, timezone);
+
+    for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+      const day = new Date(Date.UTC(now.year, now.month - 1, now.day + offset));
+      const month = day.getUTCMonth() + 1;
+      const dom = day.getUTCDate();
+      const dow = day.getUTCDay();
+
+      if (!parsed.months.has(month)) continue;
+
+      // Vixie cron semantics: when both day fields are restricted, either may match
+      const domMatch = parsed.daysOfMonth.has(dom);
+      const dowMatch = parsed.daysOfWeek.has(dow);
+      const dayMatches =
+        parsed.domRestricted && parsed.dowRestricted
+          ? domMatch || dowMatch
+          : domMatch && dowMatch;
+      if (!dayMatches) continue;
+
+      for (const hour of parsed.hours) {
+        for (const minute of parsed.minutes) {
+          if (
+            offset === 0 &&
+            (hour < now.hour || (hour === now.hour && minute <= now.minute))
+          ) {
+            continue;
+          }
+          return zonedTimeToUtc(
+            day.getUTCFullYear(),
+            month,
+            dom,
+            hour,
+            minute,
+            timezone
+          );
+        }
+      }
+    }
+
     return null;
   } catch {
     return null;
@@ -34,12 +228,15 @@ export function scheduleJob(
   id: string,
   name: string,
   cronExpr: string,
-  handler: () => Promise<void>
+  handler: () => Promise<void>,
+  options?: { timezone?: string; paused?: boolean }
 ): ScheduledJob {
   if (!cron.validate(cronExpr)) {
     throw new Error(`Invalid cron expression: ${cronExpr}`);
   }
 
+  const timezone = options?.timezone ?? "UTC";
+
   // Stop existing job with same id if present
   const existing = jobs.get(id);
   if (existing) {
@@ -51,11 +248,13 @@ export function scheduleJob(
     id,
     name,
     cron: cronExpr,
+    timezone,
     handler,
     isRunning: false,
+    isPaused: options?.paused ?? false,
     lastRun: null,
     lastError: null,
-    nextRun: null,
+    nextRun: options?.paused ? null : computeNextRun(cronExpr, timezone),
   };
 
   const wrappedHandler = async (): Promise<void> => {
@@ -74,14 +273,19 @@ export function scheduleJob(
     } finally {
       meta.isRunning = false;
       meta.lastRun = new Date();
+      meta.nextRun = meta.isPaused ? null : computeNextRun(cronExpr, timezone);
     }
   };
 
-  const task = cron.schedule(cronExpr, () => {
-    void wrappedHandler();
-  });
+  const task = cron.schedule(
+    cronExpr,
+    () => {
+      void wrappedHandler();
+    },
+    { timezone, scheduled: !meta.isPaused }
+  );
 
-  jobs.set(id, { task, meta });
+  jobs.set(id, { task, meta, run: wrappedHandler });
 
   return meta;
 }
@@ -97,6 +301,44 @@ export function stopJob(id: string): boolean {
   return true;
 }
 
+export function pauseJob(id: string): ScheduledJob | null {
+  const entry = jobs.get(id);
+  if (!entry) {
+    return null;
+  }
+
+  entry.task.stop();
+  entry.meta.isPaused = true;
+  entry.meta.nextRun = null;
+  return entry.meta;
+}
+
+export function resumeJob(id: string): ScheduledJob | null {
+  const entry = jobs.get(id);
+  if (!entry) {
+    return null;
+  }
+
+  entry.task.start();
+  entry.meta.isPaused = false;
+  entry.meta.nextRun = computeNextRun(entry.meta.cron, entry.meta.timezone);
+  return entry.meta;
+}
+
+/**
+ * Trigger a job outside its schedule. Resolves when the run finishes;
+ * returns false if the job is unknown or already running.
+ */
+export async function runJobNow(id: string): Promise<boolean> {
+  const entry = jobs.get(id);
+  if (!entry || entry.meta.isRunning) {
+    return false;
+  }
+
+  await entry.run();
+  return true;
+}
+
 export function getJob(id: string): ScheduledJob | null {
   const entry = jobs.get(id);
   return entry ? entry.meta : null;
@@ -107,7 +349,7 @@ export function listJobs(): ScheduledJob[] {
 }
 
 export function stopAllJobs(): void {
-  for (const [id, entry] of jobs) {
+  for (const entry of jobs.values()) {
     entry.task.stop();
   }
   jobs.clear();
@@ -0,0 +1,360 @@
+import { prisma } from "@/lib/db";
+import type { MonitoringSchedule } from "@prisma/client";
+import type { ProviderName } from "@/lib/llm";
+import { getSettings } from "@/lib/settings/config";
+import { runOrResumeBatch } from "@/lib/monitoring/batch-runner";
+import type { BatchRunOptions } from "@/lib/monitoring/batch-runner";
+import { runInWorkspace } from "@/lib/auth/context";
+import { activeJobKeys, enqueueJob, findActiveJob } from "@/lib/jobs";
+import {
+  scheduleJob,
+  stopJob,
+  pauseJob,
+  resumeJob,
+  getJob,
+  computeNextRun,
+} from "@/lib/monitoring/scheduler";
+
+export interface ScheduleInput {
+  workspaceId?: string;
+  name: string;
+  cron: string;
+  brandId?: string;
+  probeIds?: string[];
+  providers?: ProviderName[];
+  forceRefresh?: boolean;
+  samples?: number;
+}
+
+export interface ScheduleStatus {
+  id: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  brandId: string | null;
+  probeIds: string[];
+  providers: ProviderName[];
+  forceRefresh: boolean;
+  samples: number;
+  isActive: boolean;
+  isRunning: boolean; // its run is queued or running in the job queue
+  lastRunAt: Date | null;
+  lastError: string | null;
+  nextRunAt: Date | null;
+  createdAt: Date;
+}
+
+const globalForSchedules = globalThis as unknown as {
+  schedulesLoaded?: boolean;
+};
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function getScheduleTimezone(): string {
+  const timezone = getSettings().general.timezone || "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return timezone;
+  } catch {
+    return "UTC";
+  }
+}
+
+function parseJsonArray<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Queue key of a schedule's runs, so a schedule never has two at once
+function runJobKey(scheduleId: string): string {
+  return `schedule:${scheduleId}`;
+}
+
+function toStatus(schedule: MonitoringSchedule, isRunning: boolean): ScheduleStatus {
+  const job = getJob(schedule.id);
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron,
+    timezone: job?.timezone ?? getScheduleTimezone(),
+    brandId: schedule.brandId,
+    probeIds: parseJsonArray<string>(schedule.probeIds),
+    providers: parseJsonArray<ProviderName>(schedule.providers),
+    forceRefresh: schedule.forceRefresh,
+    samples: schedule.samples,
+    isActive: schedule.isActive,
+    isRunning,
+    lastRunAt: schedule.lastRunAt,
+    lastError: schedule.lastError,
+    nextRunAt: schedule.isActive ? schedule.nextRunAt : null,
+    createdAt: schedule.createdAt,
+  };
+}
+
+async function withRunning(schedules: MonitoringSchedule[]): Promise<ScheduleStatus[]> {
+  const running = await activeJobKeys(schedules.map((schedule) => runJobKey(schedule.id)));
+  return schedules.map((schedule) => toStatus(schedule, running.has(runJobKey(schedule.id))));
+}
+
+async function statusOf(schedule: MonitoringSchedule): Promise<ScheduleStatus> {
+  const [status] = await withRunning([schedule]);
+  return status;
+}
+
+// ── Execution ────────────────────────────────────────────────────────────
+
+/**
+ * Queue a run of the schedule. Returns false if its previous run is still
+ * queued or running.
+ */
+async function enqueueScheduledRun(scheduleId: string): Promise<boolean> {
+  const schedule = await prisma.monitoringSchedule.findUnique({
+    where: { id: scheduleId },
+  });
+
+  if (!schedule) {
+    stopJob(scheduleId);
+    return false;
+  }
+
+  const key = runJobKey(scheduleId);
+  if (await findActiveJob(key)) {
+    return false;
+  }
+
+  await enqueueJob(
+    "scheduled-run",
+    { scheduleId },
+    { workspaceId: schedule.workspaceId, label: `Schedule: ${schedule.name}`, key }
+  );
+  return true;
+}
+
+/**
+ * Run one schedule; called by the scheduled-run job. Scope is re-read from
+ * the database on every run so edits to the row take effect without
+ * re-registering the cron job. `batchRunId` is the batch an earlier attempt
+ * of the job started, which is resumed rather than started again.
+ */
+export async function executeSchedule(
+  scheduleId: string,
+  batchRunId: string | undefined,
+  options: Pick<BatchRunOptions, "onProgress" | "signal">
+): Promise<void> {
+  const schedule = await prisma.monitoringSchedule.findUnique({
+    where: { id: scheduleId },
+  });
+
+  if (!schedule) {
+    stopJob(scheduleId);
+    return;
+  }
+
+  const probeIds = parseJsonArray<string>(schedule.probeIds);
+  const providers = parseJsonArray<ProviderName>(schedule.providers);
+  let lastError: string | null = null;
+
+  const run = () =>
+    runOrResumeBatch(
+      batchRunId,
+      schedule.brandId ?? undefined,
+      probeIds.length > 0 ? probeIds : undefined,
+      providers.length > 0 ? providers : undefined,
+      {
+        forceRefresh: schedule.forceRefresh,
+        samples: schedule.samples,
+        workspaceId: schedule.workspaceId ?? undefined,
+        ...options,
+      }
+    );
+
+  try {
+    // Provider keys and budgets come from the schedule's workspace
+    const result = schedule.workspaceId
+      ? await runInWorkspace(schedule.workspaceId, run)
+      : await run();
+
+    const problems: string[] = [];
+    if (result.errors.length > 0) {
+      const kinds = new Map<string, number>();
+      for (const e of result.errors) kinds.set(e.kind, (kinds.get(e.kind) ?? 0) + 1);
+      const byKind = Array.from(kinds, ([kind, count]) => `${count} ${kind}`).join(", ");
+      problems.push(
+        `${result.errors.length} provider error(s) (${byKind}); first: ${result.errors[0].error}`
+      );
+    }
+    if (result.limited.length > 0) {
+      problems.push(
+        `${result.limited.length} call(s) not made: ${result.limited[0].reason}` +
+          (result.skipped > 0 ? ` (${result.skipped} probe(s) skipped)` : "")
+      );
+    }
+    lastError = problems.length > 0 ? problems.join("; ") : null;
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    await prisma.monitoringSchedule
+      .update({
+        where: { id: scheduleId },
+        data: {
+          lastRunAt: new Date(),
+          lastError,
+          nextRunAt: schedule.isActive
+            ? computeNextRun(schedule.cron, getScheduleTimezone())
+            : null,
+        },
+      })
+      .catch(() => {
+        // Schedule may have been deleted mid-run
+      });
+  }
+}
+
+function registerSchedule(schedule: MonitoringSchedule): Date | null {
+  const job = scheduleJob(
+    schedule.id,
+    schedule.name,
+    schedule.cron,
+    async () => {
+      await enqueueScheduledRun(schedule.id);
+    },
+    { timezone: getScheduleTimezone(), paused: !schedule.isActive }
+  );
+  return job.nextRun;
+}
+
+// ── Boot-time loading ────────────────────────────────────────────────────
+
+/**
+ * Rebuild every persisted schedule into the in-memory cron registry.
+ * Called once at server start from instrumentation; safe to call again.
+ */
+export async function loadSchedules(options?: { force?: boolean }): Promise<number> {
+  if (globalForSchedules.schedulesLoaded && !options?.force) {
+    return 0;
+  }
+  globalForSchedules.schedulesLoaded = true;
+
+  const schedules = await prisma.monitoringSchedule.findMany();
+  let loaded = 0;
+
+  for (const schedule of schedules) {
+    try {
+      const nextRunAt = registerSchedule(schedule);
+      await prisma.monitoringSchedule.update({
+        where: { id: schedule.id },
+        data: { nextRunAt },
+      });
+      loaded++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to load schedule ${schedule.id}:`, message);
+      await prisma.monitoringSchedule.update({
+        where: { id: schedule.id },
+        data: { lastError: message, nextRunAt: null },
+      });
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * Re-register all schedules, e.g. after the timezone setting changes.
+ */
+export async function reloadSchedules(): Promise<number> {
+  return loadSchedules({ force: true });
+}
+
+// ── CRUD & controls ──────────────────────────────────────────────────────
+
+export async function listSchedules(workspaceId?: string): Promise<ScheduleStatus[]> {
+  const schedules = await prisma.monitoringSchedule.findMany({
+    where: workspaceId ? { workspaceId } : {},
+    orderBy: { createdAt: "desc" },
+  });
+  return withRunning(schedules);
+}
+
+export async function createSchedule(
+  input: ScheduleInput
+): Promise<ScheduleStatus> {
+  const schedule = await prisma.monitoringSchedule.create({
+    data: {
+      workspaceId: input.workspaceId ?? null,
+      name: input.name,
+      cron: input.cron,
+      brandId: input.brandId ?? null,
+      probeIds: JSON.stringify(input.probeIds ?? []),
+      providers: JSON.stringify(input.providers ?? []),
+      forceRefresh: input.forceRefresh ?? false,
+      samples: input.samples ?? 1,
+      isActive: true,
+    },
+  });
+
+  let nextRunAt: Date | null;
+  try {
+    nextRunAt = registerSchedule(schedule);
+  } catch (error) {
+    await prisma.monitoringSchedule.delete({ where: { id: schedule.id } });
+    throw error;
+  }
+
+  const updated = await prisma.monitoringSchedule.update({
+    where: { id: schedule.id },
+    data: { nextRunAt },
+  });
+
+  return toStatus(updated, false);
+}
+
+export async function deleteSchedule(id: string): Promise<void> {
+  stopJob(id);
+  await prisma.monitoringSchedule.delete({ where: { id } });
+}
+
+export async function pauseSchedule(id: string): Promise<ScheduleStatus> {
+  pauseJob(id);
+  const updated = await prisma.monitoringSchedule.update({
+    where: { id },
+    data: { isActive: false, nextRunAt: null },
+  });
+  return statusOf(updated);
+}
+
+export async function resumeSchedule(id: string): Promise<ScheduleStatus> {
+  const schedule = await prisma.monitoringSchedule.update({
+    where: { id },
+    data: { isActive: true },
+  });
+
+  const job = resumeJob(id);
+  const nextRunAt = job ? job.nextRun : registerSchedule(schedule);
+
+  const updated = await prisma.monitoringSchedule.update({
+    where: { id },
+    data: { nextRunAt },
+  });
+  return statusOf(updated);
+}
+
+/**
+ * Queue a schedule's batch run now without waiting for it to finish.
+ * Returns false if the schedule's last run is still queued or running.
+ */
+export async function runScheduleNow(id: string): Promise<boolean> {
+  if (!getJob(id)) {
+    const schedule = await prisma.monitoringSchedule.findUniqueOrThrow({
+      where: { id },
+    });
+    registerSchedule(schedule);
+  }
+
+  return enqueueScheduledRun(id);
+}
@@ -0,0 +1,91 @@
+import { getSettings } from "@/lib/settings/config";
+import type { AnyProviderSettings } from "@/lib/settings/config";
+
+/**
+ * Bounded worker pool for provider calls. Runs tasks at most `concurrency`
+ * at a time overall and at most `limitFor(key)` at a time per key (the
+ * provider), taking tasks in order but letting a later task start when the
+ * ones ahead of it are waiting on a busy provider.
+ *
+ * The pool only bounds how many calls are open at once; per-minute limits
+ * and budgets are still enforced by the rate limiter inside queryLLM, which
+ * counts calls in flight so concurrent workers cannot overshoot them.
+ */
+
+export interface PoolOptions<T> {
+  concurrency: number; // at least 1
+  keyOf?: (task: T) => string;
+  limitFor?: (key: string) => number; // 0 = only the global limit applies
+  // Once aborted no further tasks start, and the pool throws its reason
+  // after the running ones settle
+  signal?: AbortSignal;
+}
+
+/**
+ * Run `worker` over `tasks`. Once a worker throws, no further tasks start;
+ * the first error is rethrown after the running ones settle. Workers that
+ * should not stop the pool catch their own errors.
+ */
+export async function runPool<T>(
+  tasks: T[],
+  worker: (task: T) => Promise<void>,
+  options: PoolOptions<T>
+): Promise<void> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  const pending = [...tasks];
+  const running = new Set<Promise<void>>();
+  const active = new Map<string, number>();
+  let failure: { error: unknown } | null = null;
+
+  const hasRoom = (key: string | undefined) => {
+    if (key === undefined) return true;
+    const limit = options.limitFor?.(key) ?? 0;
+    return limit <= 0 || (active.get(key) ?? 0) < limit;
+  };
+
+  while (running.size > 0 || (pending.length > 0 && !failure && !options.signal?.aborted)) {
+    while (!failure && !options.signal?.aborted && running.size < concurrency) {
+      const index = pending.findIndex((task) => hasRoom(options.keyOf?.(task)));
+      if (index === -1) break;
+
+      const [task] = pending.splice(index, 1);
+      const key = options.keyOf?.(task);
+      if (key !== undefined) active.set(key, (active.get(key) ?? 0) + 1);
+
+      const run: Promise<void> = worker(task)
+        .catch((error) => {
+          failure ??= { error };
+        })
+        .finally(() => {
+          running.delete(run);
+          if (key !== undefined) active.set(key, (active.get(key) ?? 1) - 1);
+        });
+      running.add(run);
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running);
+  }
+
+  if (failure) throw (failure as { error: unknown }).error;
+  if (options.signal?.aborted && pending.length > 0) throw options.signal.reason;
+}
+
+/**
+ * Pool options for provider calls from settings: monitoring.concurrency
+ * calls at once, and each provider's maxConcurrent.
+ */
+export function providerPoolOptions<T>(
+  providerOf: (task: T) => string,
+  signal?: AbortSignal
+): PoolOptions<T> {
+  const settings = getSettings();
+  return {
+    signal,
+    concurrency: settings.monitoring.concurrency ?? 4,
+    keyOf: providerOf,
+    limitFor: (provider) =>
+      (settings.providers[provider] as Partial<AnyProviderSettings> | undefined)
+        ?.maxConcurrent ?? 0,
+  };
+}
@@ -0,0 +1,473 @@
+/**
+ * HTML to markdown for landing pages. Parses with a small tolerant tree
+ * builder (no DOM in the server runtime), drops scripts, navigation, cookie
+ * banners and other site chrome, and renders what is left — preferring the
+ * page's <main> or single <article> — as markdown an LLM can compare with an
+ * AI answer. JSON-LD blocks are parsed out before the scripts are dropped.
+ */
+
+export interface ExtractedPage {
+  title: string;
+  description: string;
+  markdown: string;
+  jsonLd: unknown[]; // each parsed JSON-LD block; a top-level array is spread
+}
+
+interface ElementNode {
+  type: "element";
+  name: string;
+  attrs: Record<string, string>;
+  children: Node[];
+  parent: ElementNode | null;
+}
+
+interface TextNode {
+  type: "text";
+  text: string;
+}
+
+type Node = ElementNode | TextNode;
+
+// ── Parsing ──────────────────────────────────────────────────────────────
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "source", "track", "wbr",
+]);
+
+// Their content is text up to the closing tag, never markup
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title", "noscript", "xmp"]);
+
+// Opening one of these closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  "address", "article", "aside", "blockquote", "div", "dl", "fieldset", "figure",
+  "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "main",
+  "nav", "ol", "p", "pre", "section", "table", "ul",
+]);
+
+// Formatting left open inside a <p> does not stop a block from closing it
+const INLINE_ELEMENTS = new Set([
+  "a", "abbr", "b", "cite", "code", "em", "font", "i", "mark", "q", "s", "small",
+  "span", "strong", "sub", "sup", "u",
+]);
+
+// Opening the key closes an open sibling of these kinds
+const CLOSES_SIBLING: Record<string, string[]> = {
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr", "td", "th"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  option: ["option"],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", hellip: "…", bull: "•", middot: "·",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", laquo: "«", raquo: "»",
+  copy: "©", reg: "®", trade: "™", times: "×", divide: "÷", deg: "°",
+  euro: "€", pound: "£", yen: "¥", cent: "¢", sect: "§", para: "¶",
+  larr: "←", rarr: "→", uarr: "↑", darr: "↓", check: "✓", shy: "",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);?/gi, (match, body: string) => {
+    if (body[0] === "#") {
+      const code = body[1] === "x" || body[1] === "X"
+        ? parseInt(body.slice(2), 16)
+        : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? match;
+  });
+}
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+
+const ATTRIBUTE_PATTERN = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    }
+  }
+  return attrs;
+}
+
+/**
+ * Build an element tree the way a browser roughly would: unknown and
+ * misnested tags are tolerated, unclosed elements are closed by their
+ * parent's closing tag, and stray closing tags are ignored.
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: "element", name: "#root", attrs: {}, children: [], parent: null };
+  const lowerHtml = html.toLowerCase();
+  let current = root;
+  let index = 0;
+
+  const appendText = (text: string) => {
+    if (text) current.children.push({ type: "text", text });
+  };
+  const isOpen = (name: string) => {
+    for (let node: ElementNode | null = current; node; node = node.parent) {
+      if (node.name === name) return true;
+    }
+    return false;
+  };
+  const closeUpTo = (name: string) => {
+    while (current.parent && current.name !== name) current = current.parent;
+    if (current.parent) current = current.parent;
+  };
+  const inParagraph = () => {
+    let node: ElementNode | null = current;
+    while (node && INLINE_ELEMENTS.has(node.name)) node = node.parent;
+    return node?.name === "p";
+  };
+
+  while (index < html.length) {
+    const lt = html.indexOf("<", index);
+    if (lt === -1) {
+      appendText(html.slice(index));
+      break;
+    }
+    appendText(html.slice(index, lt));
+
+    if (html.startsWith("<!--", lt)) {
+      const end = html.indexOf("-->", lt + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === "!" || html[lt + 1] === "?") {
+      const end = html.indexOf(">", lt);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = lt;
+    const tag = TAG_PATTERN.exec(html);
+    if (!tag) {
+      appendText("<");
+      index = lt + 1;
+      continue;
+    }
+    index = lt + tag[0].length;
+    const name = tag[2].toLowerCase();
+
+    if (tag[1]) {
+      if (isOpen(name)) closeUpTo(name);
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(name) && inParagraph()) closeUpTo("p");
+    const siblings = CLOSES_SIBLING[name];
+    if (siblings?.includes(current.name)) closeUpTo(current.name);
+
+    const element: ElementNode = {
+      type: "element",
+      name,
+      attrs: parseAttributes(tag[3]),
+      children: [],
+      parent: current,
+    };
+    current.children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = lowerHtml.indexOf(`</${name}`, index);
+      const end = close === -1 ? html.length : close;
+      element.children.push({ type: "text", text: html.slice(index, end) });
+      const closeEnd = close === -1 ? -1 : html.indexOf(">", close);
+      index = closeEnd === -1 ? html.length : closeEnd + 1;
+    } else if (!VOID_ELEMENTS.has(name) && !tag[3].trimEnd().endsWith("/")) {
+      current = element;
+    }
+  }
+  return root;
+}
+
+function* walk(node: ElementNode): Generator<ElementNode> {
+  for (const child of node.children) {
+    if (child.type === "element") {
+      yield child;
+      yield* walk(child);
+    }
+  }
+}
+
+function find(node: ElementNode, predicate: (element: ElementNode) => boolean): ElementNode | null {
+  for (const element of walk(node)) {
+    if (predicate(element)) return element;
+  }
+  return null;
+}
+
+function rawText(node: Node): string {
+  return node.type === "text" ? node.text : node.children.map(rawText).join("");
+}
+
+// ── Boilerplate ──────────────────────────────────────────────────────────
+
+const DROPPED_ELEMENTS = new Set([
+  "script", "style", "noscript", "template", "svg", "canvas", "iframe", "object",
+  "embed", "select", "input", "textarea", "dialog",
+  "nav", "aside", "head",
+]);
+
+const CHROME_ROLES = new Set([
+  "navigation", "banner", "contentinfo", "complementary", "search", "dialog", "alertdialog", "menu", "menubar",
+]);
+
+// Words in a class or id that mark site chrome rather than page content
+const CHROME_WORDS = new Set([
+  "nav", "navbar", "navigation", "menu", "breadcrumb", "breadcrumbs", "cookie", "cookies",
+  "consent", "gdpr", "sidebar", "share", "sharing", "social", "newsletter", "subscribe",
+  "popup", "modal", "skip", "advert", "advertisement", "ads", "footer", "masthead",
+]);
+
+function isChrome(element: ElementNode, insideContent: boolean): boolean {
+  const { name, attrs } = element;
+  if (DROPPED_ELEMENTS.has(name)) return true;
+  // A page's own header and footer are chrome; an article's are content
+  if ((name === "header" || name === "footer") && !insideContent) return true;
+  if (CHROME_ROLES.has(attrs.role ?? "")) return true;
+  if ("hidden" in attrs || attrs["aria-hidden"] === "true") return true;
+  if (/display\s*:\s*none|visibility\s*:\s*hidden/i.test(attrs.style ?? "")) return true;
+  if (name === "main" || name === "article" || name === "body" || name === "html") return false;
+
+  const words = `${attrs.class ?? ""} ${attrs.id ?? ""}`.toLowerCase().split(/[\s_-]+/);
+  // Layout wrappers ("page has-sidebar") can hold the content itself
+  return (
+    words.some((word) => CHROME_WORDS.has(word)) &&
+    !find(element, (inner) => inner.name === "main" || inner.name === "article" || inner.name === "h1")
+  );
+}
+
+// ── Markdown ─────────────────────────────────────────────────────────────
+
+// Stand-ins for spaces that must survive whitespace collapsing
+const KEPT_SPACE = "\u0001";
+
+interface RenderContext {
+  baseUrl: URL | null;
+  insideContent: boolean; // within <main> or <article>
+  listDepth: number;
+}
+
+function resolveUrl(href: string, baseUrl: URL | null): string | null {
+  try {
+    const url = new URL(href, baseUrl ?? undefined);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function block(text: string): string {
+  const trimmed = text.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+function inline(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function wrap(marker: string, text: string): string {
+  const trimmed = text.trim();
+  return trimmed ? ` ${marker}${trimmed}${marker} ` : text;
+}
+
+function renderChildren(node: ElementNode, context: RenderContext): string {
+  return node.children.map((child) => render(child, context)).join("");
+}
+
+function renderList(list: ElementNode, context: RenderContext): string {
+  const nested = { ...context, listDepth: context.listDepth + 1 };
+  const indent = KEPT_SPACE.repeat(context.listDepth * 2);
+  let number = Number(list.attrs.start) || 1;
+
+  const items = list.children
+    .filter((child): child is ElementNode => child.type === "element" && child.name === "li")
+    .filter((item) => !isChrome(item, context.insideContent))
+    .map((item) => {
+      const marker = list.name === "ol" ? `${number++}.` : "-";
+      const lines = renderChildren(item, nested)
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean);
+      if (lines.length === 0) return "";
+      // Nested lists come back already indented
+      return [`${indent}${marker} ${lines[0]}`, ...lines.slice(1).map((line) =>
+        line.startsWith(KEPT_SPACE) ? line : `${indent}${KEPT_SPACE.repeat(2)}${line}`
+      )].join("\n");
+    })
+    .filter(Boolean);
+
+  const text = items.join("\n");
+  return context.listDepth > 0 ? `\n${text}\n` : block(text);
+}
+
+function renderTable(table: ElementNode, context: RenderContext): string {
+  const rows: string[][] = [];
+  for (const row of walk(table)) {
+    if (row.name !== "tr") continue;
+    const cells = row.children
+      .filter((cell): cell is ElementNode =>
+        cell.type === "element" && (cell.name === "td" || cell.name === "th")
+      )
+      .map((cell) => inline(renderChildren(cell, context)).replace(/\|/g, "\\|"));
+    if (cells.some(Boolean)) rows.push(cells);
+  }
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  return block(
+    [line(rows[0]), line(Array(width).fill("---")), ...rows.slice(1).map(line)].join("\n")
+  );
+}
+
+function render(node: Node, context: RenderContext): string {
+  if (node.type === "text") return decodeEntities(node.text).replace(/\s+/g, " ");
+  if (isChrome(node, context.insideContent)) return "";
+
+  const { name, attrs } = node;
+  const children = () => renderChildren(node, context);
+
+  switch (name) {
+    case "main":
+    case "article":
+      return block(renderChildren(node, { ...context, insideContent: true }));
+    case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": {
+      const text = inline(children());
+      return text ? block(`${"#".repeat(Number(name[1]))} ${text}`) : "";
+    }
+    case "p": case "div": case "section": case "header": case "footer": case "figure":
+    case "figcaption": case "address": case "details": case "summary": case "dl": case "dt":
+    case "dd": case "center": case "fieldset": case "hgroup":
+      return block(children());
+    case "br":
+      return "\n";
+    case "hr":
+      return block("---");
+    case "ul": case "ol": case "menu":
+      return renderList(node, context);
+    case "li":
+      return block(`- ${children()}`);
+    case "table":
+      return renderTable(node, context);
+    case "blockquote":
+      return block(
+        children().trim().split("\n").map((line) => `> ${line.trim()}`.trimEnd()).join("\n")
+      );
+    case "pre": {
+      const code = decodeEntities(rawText(node)).replace(/^\n/, "").trimEnd();
+      return block(`\`\`\`\n${code.replace(/ /g, KEPT_SPACE)}\n\`\`\``);
+    }
+    case "code": case "kbd": case "samp": {
+      const code = inline(children());
+      return code ? `\`${code}\`` : "";
+    }
+    case "strong": case "b":
+      return wrap("**", children());
+    case "em": case "i":
+      return wrap("_", children());
+    case "a": {
+      const text = inline(children());
+      const href = attrs.href && !attrs.href.startsWith("#") ? resolveUrl(attrs.href, context.baseUrl) : null;
+      return text && href ? ` [${text}](${href}) ` : children();
+    }
+    case "img":
+      return attrs.alt ? ` ${inline(attrs.alt)} ` : "";
+    default:
+      return children();
+  }
+}
+
+function tidy(markdown: string): string {
+  return markdown
+    .split("\n")
+    .map((line) => line.replace(/^[ \t]+|[ \t]+$/g, "").replace(/ {2,}/g, " ").replace(/ ([.,;:!?)])/g, "$1"))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replaceAll(KEPT_SPACE, " ")
+    .trim();
+}
+
+// ── Metadata ─────────────────────────────────────────────────────────────
+
+function metaContent(root: ElementNode, ...keys: string[]): string {
+  for (const key of keys) {
+    const meta = find(root, (element) =>
+      element.name === "meta" && (element.attrs.name ?? element.attrs.property ?? "").toLowerCase() === key
+    );
+    if (meta?.attrs.content) return inline(meta.attrs.content);
+  }
+  return "";
+}
+
+/**
+ * The page's JSON-LD blocks, parsed. Blocks that are not valid JSON are
+ * skipped rather than failing the page.
+ */
+export function extractJsonLd(html: string): unknown[] {
+  return jsonLdBlocks(parseHtml(html));
+}
+
+function jsonLdBlocks(root: ElementNode): unknown[] {
+  const blocks: unknown[] = [];
+  for (const element of walk(root)) {
+    if (element.name !== "script" || !/ld\+json/i.test(element.attrs.type ?? "")) continue;
+    try {
+      // Some CMSes wrap the JSON in a CDATA section or HTML comment
+      const json = rawText(element).trim().replace(/^(<!\[CDATA\[|<!--)|(\]\]>|-->)$/g, "");
+      const parsed: unknown = JSON.parse(json);
+      if (Array.isArray(parsed)) blocks.push(...parsed);
+      else blocks.push(parsed);
+    } catch {
+      // not JSON; ignore
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Extract a page's title, description, JSON-LD and main content as markdown.
+ * `url` is where the HTML came from; relative links are made absolute
+ * against it (or the page's <base href>).
+ */
+export function extractPage(html: string, url?: string): ExtractedPage {
+  const root = parseHtml(html);
+
+  const baseHref = find(root, (element) => element.name === "base" && !!element.attrs.href)?.attrs.href;
+  let baseUrl: URL | null = null;
+  try {
+    baseUrl = url ? new URL(baseHref ?? "", url) : baseHref ? new URL(baseHref) : null;
+  } catch {
+    baseUrl = null;
+  }
+
+  const titleElement = find(root, (element) => element.name === "title");
+  const title =
+    inline(decodeEntities(titleElement ? rawText(titleElement) : "")) ||
+    metaContent(root, "og:title", "twitter:title");
+  const description = metaContent(root, "description", "og:description", "twitter:description");
+
+  const context: RenderContext = { baseUrl, insideContent: false, listDepth: 0 };
+  const main =
+    find(root, (element) => element.name === "main" || element.attrs.role === "main") ??
+    singleArticle(root);
+  const content = main
+    ? render(main, { ...context, insideContent: true })
+    : render(find(root, (element) => element.name === "body") ?? root, context);
+
+  return { title, description, markdown: tidy(content), jsonLd: jsonLdBlocks(root) };
+}
+
+function singleArticle(root: ElementNode): ElementNode | null {
+  const articles = [...walk(root)].filter((element) => element.name === "article");
+  return articles.length === 1 ? articles[0] : null;
+}
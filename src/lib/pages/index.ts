@@ -0,0 +1,251 @@
+import { fetch } from "undici";
+import type { Response } from "undici";
+import { prisma } from "@/lib/db";
+import type { PageSnapshot } from "@prisma/client";
+import { extractPage } from "./extract";
+import { assertPublicHost, publicOnlyAgent } from "./network";
+
+/**
+ * Landing pages for continuity scoring. getLandingPage fetches a URL, strips
+ * it down to its main content as markdown (./extract) and keeps the result
+ * as a PageSnapshot, so checking the same page again within a day costs no
+ * request. Pages that cannot be fetched from here (staging sites, pages
+ * behind a login) can be uploaded as HTML instead and are then used
+ * offline until replaced.
+ *
+ * Only public addresses are fetched: a URL whose host resolves to a private,
+ * loopback or link-local address is refused, redirects included, and the
+ * connection is made to the address that was checked (./network).
+ */
+
+export { extractPage, extractJsonLd } from "./extract";
+export type { ExtractedPage } from "./extract";
+
+const SNAPSHOT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 5;
+const MAX_HTML_BYTES = 2 * 1024 * 1024; // longer pages are cut off here
+const USER_AGENT =
+  "Mozilla/5.0 (compatible; CitabilityEngine/1.0; landing page continuity check)";
+
+export type PageSource = "fetch" | "upload";
+
+export interface LandingPage {
+  id: string;
+  url: string;
+  finalUrl: string;
+  source: PageSource;
+  statusCode: number;
+  title: string;
+  description: string;
+  markdown: string;
+  jsonLd: unknown[];
+  fetchedAt: Date;
+  cached: boolean; // served from a stored snapshot
+}
+
+export type PageSnapshotSummary = Omit<LandingPage, "markdown" | "jsonLd" | "cached">;
+
+function toLandingPage(row: PageSnapshot, cached: boolean): LandingPage {
+  return {
+    id: row.id,
+    url: row.url,
+    finalUrl: row.finalUrl,
+    source: row.source as PageSource,
+    statusCode: row.statusCode,
+    title: row.title,
+    description: row.description,
+    markdown: row.markdown,
+    jsonLd: JSON.parse(row.jsonLd) as unknown[],
+    fetchedAt: row.fetchedAt,
+    cached,
+  };
+}
+
+/**
+ * The URL snapshots are stored under: absolute http(s), no fragment.
+ */
+export function normalizePageUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`Not a valid URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Only http and https pages can be fetched: ${url}`);
+  }
+  parsed.hash = "";
+  return parsed.href;
+}
+
+// ── Fetching ─────────────────────────────────────────────────────────────
+
+async function readBody(response: Response): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return "";
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const bytes = Buffer.concat(chunks).subarray(0, MAX_HTML_BYTES);
+  const charset = /charset=["']?([\w-]+)/i.exec(response.headers.get("content-type") ?? "")?.[1];
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+async function fetchHtml(
+  url: string
+): Promise<{ finalUrl: string; statusCode: number; html: string }> {
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(current);
+    const response = await fetch(current, {
+      dispatcher: publicOnlyAgent,
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.1",
+      },
+    }).catch((error: unknown) => {
+      // undici reports connection failures, such as a private address
+      // refused by the agent, as the cause of a generic "fetch failed"
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      const reason = error instanceof Error && error.name === "TimeoutError"
+        ? `no answer within ${FETCH_TIMEOUT_MS / 1000}s`
+        : cause instanceof Error ? cause.message : String(cause);
+      throw new Error(`Failed to fetch ${current.href}: ${reason}`);
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel().catch(() => undefined);
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`${url} redirected more than ${MAX_REDIRECTS} times`);
+      }
+      current = new URL(normalizePageUrl(new URL(location, current).href));
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(`${current.href} answered ${response.status}`);
+    }
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType && !/html/i.test(contentType)) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(`${current.href} is not an HTML page (${contentType.split(";")[0]})`);
+    }
+
+    return { finalUrl: current.href, statusCode: response.status, html: await readBody(response) };
+  }
+}
+
+// ── Snapshots ────────────────────────────────────────────────────────────
+
+async function saveSnapshot(
+  workspaceId: string,
+  url: string,
+  page: { finalUrl: string; statusCode: number; html: string; source: PageSource }
+): Promise<LandingPage> {
+  const extracted = extractPage(page.html, page.finalUrl);
+  const data = {
+    finalUrl: page.finalUrl,
+    source: page.source,
+    statusCode: page.statusCode,
+    title: extracted.title,
+    description: extracted.description,
+    html: page.html,
+    markdown: extracted.markdown,
+    jsonLd: JSON.stringify(extracted.jsonLd),
+    fetchedAt: new Date(),
+  };
+  const row = await prisma.pageSnapshot.upsert({
+    where: { workspaceId_url: { workspaceId, url } },
+    update: data,
+    create: { workspaceId, url, ...data },
+  });
+  return toLandingPage(row, false);
+}
+
+/**
+ * A landing page's content, from its snapshot when that is fresh (or was
+ * uploaded) and fetched otherwise. `offline` never fetches: it uses the
+ * snapshot however old, and fails when there is none.
+ */
+export async function getLandingPage(
+  url: string,
+  options: { workspaceId: string; forceRefresh?: boolean; offline?: boolean }
+): Promise<LandingPage> {
+  const { workspaceId } = options;
+  const normalized = normalizePageUrl(url);
+  const stored = await prisma.pageSnapshot.findUnique({
+    where: { workspaceId_url: { workspaceId, url: normalized } },
+  });
+
+  if (stored && (options.offline || !options.forceRefresh)) {
+    const fresh =
+      stored.source === "upload" ||
+      Date.now() - stored.fetchedAt.getTime() < SNAPSHOT_TTL_MS;
+    if (fresh || options.offline) return toLandingPage(stored, true);
+  }
+  if (options.offline) {
+    throw new Error(`No stored snapshot of ${normalized}`);
+  }
+
+  const fetched = await fetchHtml(normalized);
+  return saveSnapshot(workspaceId, normalized, { ...fetched, source: "fetch" });
+}
+
+// Store HTML saved from a browser as the page at `url`
+export async function saveUploadedPage(
+  workspaceId: string,
+  url: string,
+  html: string
+): Promise<LandingPage> {
+  const normalized = normalizePageUrl(url);
+  return saveSnapshot(workspaceId, normalized, {
+    finalUrl: normalized,
+    statusCode: 200,
+    html: html.slice(0, MAX_HTML_BYTES),
+    source: "upload",
+  });
+}
+
+export async function listPageSnapshots(workspaceId: string): Promise<PageSnapshotSummary[]> {
+  const rows = await prisma.pageSnapshot.findMany({
+    where: { workspaceId },
+    orderBy: { fetchedAt: "desc" },
+    select: {
+      id: true,
+      url: true,
+      finalUrl: true,
+      source: true,
+      statusCode: true,
+      title: true,
+      description: true,
+      fetchedAt: true,
+    },
+  });
+  return rows.map((row) => ({ ...row, source: row.source as PageSource }));
+}
+
+export async function getPageSnapshot(
+  workspaceId: string,
+  id: string
+): Promise<LandingPage | null> {
+  const row = await prisma.pageSnapshot.findFirst({ where: { id, workspaceId } });
+  return row ? toLandingPage(row, true) : null;
+}
@@ -0,0 +1,124 @@
+import { lookup } from "dns";
+import type { LookupAddress, LookupOptions } from "dns";
+import { lookup as lookupAsync } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { Agent } from "undici";
+
+/**
+ * Guards page fetches against server-side request forgery: a landing page
+ * URL (or a redirect from one) must not reach the instance's own network.
+ */
+
+const privateRanges = new BlockList();
+privateRanges.addSubnet("0.0.0.0", 8, "ipv4");
+privateRanges.addSubnet("10.0.0.0", 8, "ipv4");
+privateRanges.addSubnet("100.64.0.0", 10, "ipv4"); // carrier-grade NAT
+privateRanges.addSubnet("127.0.0.0", 8, "ipv4");
+privateRanges.addSubnet("169.254.0.0", 16, "ipv4");
+privateRanges.addSubnet("172.16.0.0", 12, "ipv4");
+privateRanges.addSubnet("192.168.0.0", 16, "ipv4");
+privateRanges.addSubnet("198.18.0.0", 15, "ipv4");
+privateRanges.addSubnet("224.0.0.0", 3, "ipv4"); // multicast and reserved
+privateRanges.addAddress("::", "ipv6");
+privateRanges.addAddress("::1", "ipv6");
+privateRanges.addSubnet("fc00::", 7, "ipv6"); // unique local
+privateRanges.addSubnet("fe80::", 10, "ipv6"); // link-local
+privateRanges.addSubnet("ff00::", 8, "ipv6"); // multicast
+
+// IPv6 prefixes whose last 32 bits are an IPv4 address the packet ends up at:
+// IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96)
+const EMBEDDED_IPV4_PREFIXES = [
+  [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff],
+  [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  [0, 0x64, 0xff, 0x9b, 0, 0, 0, 0, 0, 0, 0, 0],
+];
+
+// The 16 bytes of an IPv6 address in any textual form
+function ipv6Bytes(address: string): number[] | null {
+  let text = address.replace(/%.*$/, ""); // zone id
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const groups =
+    halves.length === 2
+      ? [...head, ...Array(8 - head.length - tail.length).fill("0"), ...tail]
+      : head;
+  if (groups.length !== 8) return null;
+
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+function embeddedIPv4(address: string): string | null {
+  const bytes = ipv6Bytes(address);
+  if (!bytes) return null;
+  const embeds = EMBEDDED_IPV4_PREFIXES.some((prefix) =>
+    prefix.every((byte, i) => bytes[i] === byte)
+  );
+  return embeds ? bytes.slice(12).join(".") : null;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address.replace(/%.*$/, ""));
+  if (family === 4) return privateRanges.check(address, "ipv4");
+  if (family !== 6) return false;
+
+  const ipv4 = embeddedIPv4(address);
+  if (ipv4) return privateRanges.check(ipv4, "ipv4");
+  return privateRanges.check(address.replace(/%.*$/, ""), "ipv6");
+}
+
+function privateHostError(hostname: string): Error {
+  return new Error(`${hostname} is a private address; upload the page's HTML instead`);
+}
+
+/**
+ * Fail early, with a readable message, when a URL's host is or resolves to
+ * a private address. The connection itself is vetted again by
+ * publicOnlyAgent, since the name may resolve differently a moment later.
+ */
+export async function assertPublicHost(url: URL): Promise<void> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [{ address: hostname }]
+    : await lookupAsync(hostname, { all: true }).catch(() => {
+        throw new Error(`Could not resolve ${hostname}`);
+      });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw privateHostError(hostname);
+  }
+}
+
+// dns.lookup for the agent's sockets: connects only to the addresses it
+// vetted, so a DNS answer that changes after assertPublicHost cannot
+// redirect the request inward
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0) return callback(new Error(`Could not resolve ${hostname}`), []);
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(privateHostError(hostname), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+export const publicOnlyAgent = new Agent({ connect: { lookup: publicLookup } });
@@ -0,0 +1,337 @@
+/**
+ * Publishing Pipeline — pushes approved Content out of the app.
+ *
+ * Each PublishTarget row names a driver (wordpress, markdown, webhook) and
+ * carries a JSON config. Every attempt is recorded as a PublishLog so failed
+ * publishes can be inspected and retried.
+ */
+
+import { prisma } from "@/lib/db";
+import { slugify } from "@/lib/utils";
+import type { PublishLog } from "@prisma/client";
+import { z } from "zod";
+import { publishToWordPress } from "./wordpress-target";
+import {
+  publishToMarkdown,
+  PUBLISH_ROOT_ENV,
+  resolveMarkdownDirectory,
+} from "./markdown-target";
+import { publishToWebhook } from "./webhook-target";
+
+// ─── Types ───
+
+export const PUBLISH_TARGET_TYPES = ["wordpress", "markdown", "webhook"] as const;
+
+export type PublishTargetType = (typeof PUBLISH_TARGET_TYPES)[number];
+
+// Content goes out once approved; published content can go to more targets
+export const PUBLISHABLE_STATUSES = ["approved", "published"];
+
+export interface PublishPayload {
+  contentId: string;
+  title: string;
+  slug: string;
+  body: string;
+  schemaMarkup: string | null;
+  contentType: string;
+  targetKeywords: string[];
+  brand: { name: string; domain: string };
+  createdAt: string;
+}
+
+export interface PublishOutcome {
+  externalUrl: string | null;
+  // Set by drivers that can update what they published before
+  externalId?: string | null;
+}
+
+// ─── Target Config ───
+
+export const wordpressConfigSchema = z.object({
+  url: z.string().url("WordPress site URL must be a valid URL"),
+  username: z.string().min(1, "Username is required"),
+  applicationPassword: z.string().min(1, "Application password is required"),
+  status: z.enum(["draft", "publish"]).default("draft"),
+});
+
+export const markdownConfigSchema = z.object({
+  directory: z
+    .string()
+    .min(1, "Directory is required")
+    .refine(
+      (directory) => {
+        try {
+          resolveMarkdownDirectory(directory);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      `Directory must be inside the markdown publish root (${PUBLISH_ROOT_ENV})`
+    ),
+  baseUrl: z.string().url().optional(),
+});
+
+export const webhookConfigSchema = z.object({
+  url: z.string().url("Webhook URL must be a valid URL"),
+  secret: z.string().min(16, "Signing secret must be at least 16 characters"),
+});
+
+export type WordPressConfig = z.infer<typeof wordpressConfigSchema>;
+export type MarkdownConfig = z.infer<typeof markdownConfigSchema>;
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+
+const CONFIG_SCHEMAS: Record<PublishTargetType, z.ZodTypeAny> = {
+  wordpress: wordpressConfigSchema,
+  markdown: markdownConfigSchema,
+  webhook: webhookConfigSchema,
+};
+
+// Config fields that hold credentials and must never be returned by the API
+const SECRET_CONFIG_FIELDS = ["applicationPassword", "secret", "apiKey"];
+
+// What maskTargetConfig turns a secret into: asterisks and its last 4 characters
+const MASKED_SECRET = /^\*+[^*]{0,4}$/;
+
+export function parseTargetConfig(
+  type: PublishTargetType,
+  config: unknown
+): z.SafeParseReturnType<unknown, Record<string, unknown>> {
+  return CONFIG_SCHEMAS[type].safeParse(config);
+}
+
+export function maskTargetConfig(config: string): Record<string, unknown> {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(config);
+  } catch {
+    return {};
+  }
+
+  const masked = { ...parsed };
+  for (const field of SECRET_CONFIG_FIELDS) {
+    if (typeof masked[field] === "string" && masked[field] !== "") {
+      const value = masked[field] as string;
+      masked[field] = `${"*".repeat(Math.max(0, value.length - 4))}${value.slice(-4)}`;
+    }
+  }
+  return masked;
+}
+
+/**
+ * Remove secret fields that still hold the masked value from a config
+ * update, so a client that saves back what it read keeps the stored secret.
+ */
+export function dropMaskedSecrets(
+  config: Record<string, unknown>
+): Record<string, unknown> {
+  const kept = { ...config };
+  for (const field of SECRET_CONFIG_FIELDS) {
+    if (typeof kept[field] === "string" && MASKED_SECRET.test(kept[field] as string)) {
+      delete kept[field];
+    }
+  }
+  return kept;
+}
+
+// ─── Payload ───
+
+function buildPayload(content: {
+  id: string;
+  title: string;
+  body: string;
+  schemaMarkup: string | null;
+  contentType: string;
+  targetKeywords: string | null;
+  createdAt: Date;
+  brand: { name: string; domain: string };
+}): PublishPayload {
+  let targetKeywords: string[] = [];
+  if (content.targetKeywords) {
+    try {
+      targetKeywords = JSON.parse(content.targetKeywords);
+    } catch {
+      targetKeywords = [];
+    }
+  }
+
+  return {
+    contentId: content.id,
+    title: content.title,
+    slug: slugify(content.title) || content.id,
+    body: content.body,
+    schemaMarkup: content.schemaMarkup,
+    contentType: content.contentType,
+    targetKeywords,
+    brand: { name: content.brand.name, domain: content.brand.domain },
+    createdAt: content.createdAt.toISOString(),
+  };
+}
+
+async function runDriver(
+  type: string,
+  rawConfig: string,
+  payload: PublishPayload,
+  externalId: string | null
+): Promise<PublishOutcome> {
+  const config = JSON.parse(rawConfig);
+
+  switch (type as PublishTargetType) {
+    case "wordpress":
+      return publishToWordPress(wordpressConfigSchema.parse(config), payload, externalId);
+    case "markdown":
+      return publishToMarkdown(markdownConfigSchema.parse(config), payload);
+    case "webhook":
+      return publishToWebhook(webhookConfigSchema.parse(config), payload);
+    default:
+      throw new Error(`Unknown publish target type: ${type}`);
+  }
+}
+
+// ─── Publishing ───
+
+async function executePublish(
+  logId: string,
+  contentId: string,
+  target: { id: string; type: string; config: string }
+): Promise<PublishLog> {
+  const content = await prisma.content.findUnique({
+    where: { id: contentId },
+    include: { brand: { select: { name: true, domain: true } } },
+  });
+
+  if (!content) {
+    throw new Error(`Content not found: ${contentId}`);
+  }
+
+  // Republishing updates what the last publish to this target created
+  const previous = await prisma.publishLog.findFirst({
+    where: {
+      contentId,
+      targetId: target.id,
+      status: "published",
+      externalId: { not: null },
+    },
+    orderBy: { publishedAt: "desc" },
+    select: { externalId: true },
+  });
+
+  try {
+    const outcome = await runDriver(
+      target.type,
+      target.config,
+      buildPayload(content),
+      previous?.externalId ?? null
+    );
+
+    const log = await prisma.publishLog.update({
+      where: { id: logId },
+      data: {
+        status: "published",
+        publishedAt: new Date(),
+        externalUrl: outcome.externalUrl,
+        externalId: outcome.externalId ?? null,
+        error: null,
+      },
+    });
+
+    await prisma.content.update({
+      where: { id: contentId },
+      data: { status: "published" },
+    });
+
+    return log;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return prisma.publishLog.update({
+      where: { id: logId },
+      data: { status: "failed", error: errorMessage },
+    });
+  }
+}
+
+/**
+ * Publish a piece of content to one target. Always records a PublishLog,
+ * whether the driver succeeds or fails.
+ */
+export async function publishContent(
+  contentId: string,
+  targetId: string
+): Promise<PublishLog> {
+  const target = await prisma.publishTarget.findUnique({
+    where: { id: targetId },
+  });
+
+  if (!target) {
+    throw new Error(`Publish target not found: ${targetId}`);
+  }
+  if (!target.isActive) {
+    throw new Error(`Publish target is inactive: ${target.name}`);
+  }
+
+  const log = await prisma.publishLog.create({
+    data: { contentId, targetId, status: "pending" },
+  });
+
+  return executePublish(log.id, contentId, target);
+}
+
+/**
+ * Re-run a failed publish against its original target, updating the same log.
+ */
+export async function retryPublishLog(logId: string): Promise<PublishLog> {
+  const log = await prisma.publishLog.findUnique({
+    where: { id: logId },
+    include: { target: true, content: { select: { status: true } } },
+  });
+
+  if (!log) {
+    throw new Error(`Publish log not found: ${logId}`);
+  }
+  if (log.status !== "failed") {
+    throw new Error(`Only failed publishes can be retried (status: ${log.status})`);
+  }
+  // Content may have gone back to draft or been rejected since it failed
+  if (!PUBLISHABLE_STATUSES.includes(log.content.status)) {
+    throw new Error(`Only approved content can be published (status: ${log.content.status})`);
+  }
+  if (!log.target.isActive) {
+    throw new Error(`Publish target is inactive: ${log.target.name}`);
+  }
+
+  await prisma.publishLog.update({
+    where: { id: logId },
+    data: { status: "pending", error: null },
+  });
+
+  return executePublish(log.id, log.contentId, log.target);
+}
+
+/**
+ * Retry every failed publish log, optionally limited to one content item.
+ * Logs whose content is no longer publishable or whose target is inactive
+ * are left alone.
+ */
+export async function retryFailedPublishes(
+  contentId?: string,
+  workspaceId?: string
+): Promise<PublishLog[]> {
+  const failed = await prisma.publishLog.findMany({
+    where: {
+      status: "failed",
+      ...(contentId ? { contentId } : {}),
+      content: {
+        status: { in: PUBLISHABLE_STATUSES },
+        ...(workspaceId ? { brand: { workspaceId } } : {}),
+      },
+      target: { isActive: true },
+    },
+    select: { id: true },
+  });
+
+  const results: PublishLog[] = [];
+  for (const log of failed) {
+    results.push(await retryPublishLog(log.id));
+  }
+  return results;
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import type {
+  PublishPayload,
+  PublishOutcome,
+  MarkdownConfig,
+} from "./index";
+
+// Markdown targets only write below this directory, so a target cannot be
+// pointed at the app's own files or anywhere else on the server
+export const PUBLISH_ROOT_ENV = "MARKDOWN_PUBLISH_ROOT";
+const DEFAULT_PUBLISH_ROOT = "./published";
+
+// A slug becomes a file name; slugify never yields separators or dots, but
+// check rather than trust the caller
+const SAFE_SLUG = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export function markdownPublishRoot(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env[PUBLISH_ROOT_ENV] || DEFAULT_PUBLISH_ROOT
+  );
+}
+
+function isInside(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return (
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * The absolute directory a target writes to: its configured directory,
+ * relative to the publish root. Throws for directories outside the root.
+ */
+export function resolveMarkdownDirectory(directory: string): string {
+  const root = markdownPublishRoot();
+  const resolved = path.resolve(root, directory);
+  if (!isInside(root, resolved)) {
+    throw new Error(
+      `Markdown directory ${directory} is outside the publish root ${root} (${PUBLISH_ROOT_ENV})`
+    );
+  }
+  return resolved;
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function buildFrontMatter(payload: PublishPayload): string {
+  const lines = [
+    "---",
+    `title: ${yamlString(payload.title)}`,
+    `slug: ${yamlString(payload.slug)}`,
+    `date: ${yamlString(payload.createdAt)}`,
+    `contentType: ${yamlString(payload.contentType)}`,
+    `brand: ${yamlString(payload.brand.name)}`,
+  ];
+
+  if (payload.targetKeywords.length > 0) {
+    lines.push("keywords:");
+    for (const keyword of payload.targetKeywords) {
+      lines.push(`  - ${yamlString(keyword)}`);
+    }
+  }
+
+  if (payload.schemaMarkup) {
+    // Single-line JSON keeps the front matter valid YAML for any SSG parser
+    let schema = payload.schemaMarkup;
+    try {
+      schema = JSON.stringify(JSON.parse(payload.schemaMarkup));
+    } catch {
+      // Keep the raw string if it isn't valid JSON
+    }
+    lines.push(`schema: ${yamlString(schema)}`);
+  }
+
+  lines.push("---");
+  return lines.join("\n");
+}
+
+// Markdown-folder driver for static-site repos (Hugo, Astro, Next, Jekyll).
+// Writes `<slug>.md` with YAML front matter into the configured directory,
+// which must lie inside the publish root.
+export async function publishToMarkdown(
+  config: MarkdownConfig,
+  payload: PublishPayload
+): Promise<PublishOutcome> {
+  if (!SAFE_SLUG.test(payload.slug)) {
+    throw new Error(`Refusing to publish under an unsafe slug: ${payload.slug}`);
+  }
+
+  const directory = resolveMarkdownDirectory(config.directory);
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  // A symlink inside the root could still lead out of it
+  const root = await fs.promises.realpath(markdownPublishRoot());
+  if (!isInside(root, await fs.promises.realpath(directory))) {
+    throw new Error(`Markdown directory ${config.directory} links outside the publish root`);
+  }
+
+  const filePath = path.join(directory, `${payload.slug}.md`);
+  const document = `${buildFrontMatter(payload)}\n\n${payload.body.trim()}\n`;
+
+  await fs.promises.writeFile(filePath, document, "utf-8");
+
+  return {
+    externalUrl: config.baseUrl
+      ? `${config.baseUrl.replace(/\/$/, "")}/${payload.slug}`
+      : `file://${filePath}`,
+  };
+}
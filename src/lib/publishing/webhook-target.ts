@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import type {
+  PublishPayload,
+  PublishOutcome,
+  WebhookConfig,
+} from "./index";
+
+export const SIGNATURE_HEADER = "X-Citability-Signature";
+
+export function signWebhookBody(secret: string, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+// Generic webhook driver. POSTs the full payload as JSON, signed with
+// HMAC-SHA256 so the receiver can verify it came from this instance.
+// If the receiver responds with JSON containing `url`, it becomes the externalUrl.
+export async function publishToWebhook(
+  config: WebhookConfig,
+  payload: PublishPayload
+): Promise<PublishOutcome> {
+  const body = JSON.stringify({
+    event: "content.published",
+    timestamp: new Date().toISOString(),
+    content: payload,
+  });
+
+  const response = await fetch(config.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [SIGNATURE_HEADER]: signWebhookBody(config.secret, body),
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook error: ${response.status} ${response.statusText}`);
+  }
+
+  let externalUrl: string | null = null;
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType.includes("application/json")) {
+    const data = (await response.json().catch(() => null)) as { url?: unknown } | null;
+    if (data && typeof data.url === "string") {
+      externalUrl = data.url;
+    }
+  }
+
+  return { externalUrl };
+}
@@ -0,0 +1,64 @@
+import type {
+  PublishPayload,
+  PublishOutcome,
+  WordPressConfig,
+} from "./index";
+
+interface WordPressPostResponse {
+  id: number;
+  link?: string;
+}
+
+// WordPress REST API driver. Authenticates with an Application Password
+// (Users → Profile → Application Passwords) over HTTP Basic auth and creates
+// a post, or updates `postId` when the content was published here before.
+// JSON-LD is appended as a script block so the schema ships with the body.
+export async function publishToWordPress(
+  config: WordPressConfig,
+  payload: PublishPayload,
+  postId: string | null = null
+): Promise<PublishOutcome> {
+  const endpoint = `${config.url.replace(/\/$/, "")}/wp-json/wp/v2/posts`;
+  const credentials = Buffer.from(
+    `${config.username}:${config.applicationPassword}`
+  ).toString("base64");
+
+  const content = payload.schemaMarkup
+    ? `${payload.body}\n\n<script type="application/ld+json">${payload.schemaMarkup}</script>`
+    : payload.body;
+
+  const send = (url: string) =>
+    fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${credentials}`,
+      },
+      body: JSON.stringify({
+        title: payload.title,
+        slug: payload.slug,
+        content,
+        status: config.status,
+      }),
+    });
+
+  let response = await send(postId ? `${endpoint}/${encodeURIComponent(postId)}` : endpoint);
+  // The post was deleted in WordPress since: publish it afresh
+  if (postId && response.status === 404) {
+    response = await send(endpoint);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(
+      `WordPress API error: ${response.status} ${response.statusText}${detail ? ` — ${detail.slice(0, 200)}` : ""}`
+    );
+  }
+
+  const data: WordPressPostResponse = await response.json();
+
+  return {
+    externalUrl: data.link ?? `${config.url.replace(/\/$/, "")}/?p=${data.id}`,
+    externalId: String(data.id),
+  };
+}
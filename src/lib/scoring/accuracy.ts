@@ -0,0 +1,374 @@
+/**
+ * Factual Accuracy Checker
+ *
+ * Holds what AI engines say about a brand against its fact sheet
+ * (./fact-sheet). The claims in a response are extracted as for continuity
+ * scoring, then each is classified:
+ * - correct: the fact sheet confirms it
+ * - outdated: it matches a former fact (an old price, a retired plan)
+ * - wrong: the fact sheet contradicts it
+ * - unverifiable: the fact sheet does not cover it
+ *
+ * A provider's accuracy score is the share of its verifiable claims that
+ * are correct. Wrong and outdated claims make up the hallucination feed.
+ *
+ * A response is checked once and kept as an AccuracyCheck; it is checked
+ * again only after the fact sheet has changed.
+ */
+
+import { queryLLM } from "@/lib/llm";
+import { prisma } from "@/lib/db";
+import { runForBrand } from "@/lib/auth/context";
+import { extractClaimsFromAIResponse } from "./continuity";
+import { formatFactSheet, getFactSheet, isFactSheetEmpty } from "./fact-sheet";
+import type { FactSheetInput } from "./fact-sheet";
+import { accuracyScore, countVerdicts, readClassification, sumVerdicts } from "./verdicts";
+import type { ClassifiedClaim, VerdictCounts } from "./verdicts";
+
+export type { ClaimVerdict, ClassifiedClaim, VerdictCounts } from "./verdicts";
+
+// ─── Types ───
+
+export interface ResponseAccuracyCheck extends VerdictCounts {
+  id: string;
+  citationResultId: string;
+  brandId: string;
+  provider: string;
+  query: string;
+  claims: ClassifiedClaim[];
+  createdAt: Date;
+}
+
+export interface ProviderAccuracy extends VerdictCounts {
+  provider: string;
+  responses: number;
+  score: number | null; // 0-100; null without verifiable claims
+}
+
+export interface AccuracyReport {
+  brandId: string;
+  days: number;
+  factSheetUpdatedAt: Date | null;
+  overall: ProviderAccuracy; // provider "all"
+  providers: ProviderAccuracy[];
+  staleChecks: number; // checked against an older fact sheet
+}
+
+export interface Hallucination {
+  id: string;
+  claim: string;
+  verdict: "wrong" | "outdated";
+  explanation: string;
+  fact: string | null;
+  provider: string;
+  query: string;
+  citationResultId: string;
+  createdAt: Date;
+}
+
+export type AccuracyCheckEvent =
+  | { type: "started"; total: number }
+  | {
+      type: "checked";
+      provider: string;
+      query: string;
+      counts: VerdictCounts | null; // null when the check failed
+      error?: string;
+    };
+
+export interface AccuracyCheckResult {
+  brandId: string;
+  checked: number;
+  failed: number;
+  skipped: number; // over the limit
+  wrong: number;
+  outdated: number;
+}
+
+// ─── Classification ───
+
+/**
+ * Classify claims about a brand against its fact sheet. Claims the model
+ * leaves out come back unverifiable.
+ */
+export async function classifyClaims(
+  claims: string[],
+  factSheet: FactSheetInput,
+  brandName: string
+): Promise<ClassifiedClaim[]> {
+  if (claims.length === 0) return [];
+
+  const systemPrompt = `You are fact-checking claims an AI assistant made about a brand against the brand's own fact sheet. The fact sheet is the only source of truth; do not use outside knowledge.`;
+
+  const userPrompt = `Check each claim about "${brandName}" against its fact sheet.
+
+Fact sheet:
+---
+${formatFactSheet(factSheet)}
+---
+
+Claims:
+${claims.map((c, i) => `${i + 1}. ${c}`).join("\n")}
+
+For each claim, choose one verdict:
+- "correct": the fact sheet confirms it
+- "outdated": it matches something listed as no longer true, or an earlier version of a fact (an old price, a renamed plan)
+- "wrong": the fact sheet contradicts it (a different price, a founding year, an integration missing from a complete list)
+- "unverifiable": the fact sheet does not cover it
+
+Return a JSON array with one object per claim:
+[{"claim": 1, "verdict": "wrong", "explanation": "Pro costs $12 per seat, not $20", "fact": "Pro: $12 per seat / month"}]
+
+"fact" quotes the fact sheet line the claim was checked against, or null. Return ONLY the JSON array.`;
+
+  const response = await queryLLM({
+    provider: "openai",
+    model: "gpt-4o-mini",
+    systemPrompt,
+    prompt: userPrompt,
+    maxTokens: 2000,
+  });
+
+  return readClassification(claims, response.text);
+}
+
+// ─── From a Citation Result ───
+
+/**
+ * Check the claims a stored citation result made about its brand and keep
+ * the outcome, replacing an earlier check of the same response.
+ */
+export async function checkResponseAccuracy(
+  citationResultId: string
+): Promise<ResponseAccuracyCheck> {
+  const result = await prisma.citationResult.findUnique({
+    where: { id: citationResultId },
+    include: { run: { include: { probe: true, brand: true } } },
+  });
+  if (!result) {
+    throw new Error(`Citation result ${citationResultId} no longer exists`);
+  }
+
+  const { brand, probe } = result.run;
+  const factSheet = await getFactSheet(brand.id);
+  if (isFactSheetEmpty(factSheet)) {
+    throw new Error(`${brand.name} has no fact sheet to check claims against`);
+  }
+
+  const claims = await runForBrand(brand, async () => {
+    const extracted = await extractClaimsFromAIResponse(result.response, brand.name);
+    return classifyClaims(extracted, factSheet, brand.name);
+  });
+
+  const counts = countVerdicts(claims);
+  const claimRows = claims.map((claim) => ({
+    brandId: brand.id,
+    provider: result.provider,
+    ...claim,
+  }));
+  const row = await prisma.accuracyCheck.upsert({
+    where: { citationResultId },
+    update: {
+      ...counts,
+      query: probe.query,
+      createdAt: new Date(),
+      claims: { deleteMany: {}, create: claimRows },
+    },
+    create: {
+      brandId: brand.id,
+      citationResultId,
+      provider: result.provider,
+      query: probe.query,
+      ...counts,
+      claims: { create: claimRows },
+    },
+  });
+
+  return {
+    id: row.id,
+    citationResultId,
+    brandId: brand.id,
+    provider: result.provider,
+    query: probe.query,
+    ...counts,
+    claims,
+    createdAt: row.createdAt,
+  };
+}
+
+// ─── For a Brand ───
+
+/**
+ * Check a brand's recent responses that mentioned it: those never checked,
+ * and those checked before the fact sheet last changed. Newest first, at
+ * most `limit` of them; a retried job skips the ones already done.
+ */
+export async function runAccuracyCheck(
+  brandId: string,
+  options: {
+    days: number;
+    limit: number;
+    signal?: AbortSignal;
+    onProgress?: (event: AccuracyCheckEvent) => void;
+  }
+): Promise<AccuracyCheckResult> {
+  const factSheet = await prisma.brandFactSheet.findUnique({
+    where: { brandId },
+    select: { updatedAt: true },
+  });
+  if (!factSheet) {
+    throw new Error(`Brand ${brandId} has no fact sheet`);
+  }
+
+  const where = {
+    cited: true,
+    run: { brandId },
+    createdAt: { gte: new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) },
+    OR: [
+      { accuracyCheck: { is: null } },
+      { accuracyCheck: { is: { createdAt: { lt: factSheet.updatedAt } } } },
+    ],
+  };
+  const [total, toCheck] = await Promise.all([
+    prisma.citationResult.count({ where }),
+    prisma.citationResult.findMany({
+      where,
+      select: { id: true, provider: true, run: { select: { probe: { select: { query: true } } } } },
+      orderBy: { createdAt: "desc" },
+      take: options.limit,
+    }),
+  ]);
+
+  const outcome: AccuracyCheckResult = {
+    brandId,
+    checked: 0,
+    failed: 0,
+    skipped: total - toCheck.length,
+    wrong: 0,
+    outdated: 0,
+  };
+  options.onProgress?.({ type: "started", total: toCheck.length });
+
+  let firstError: string | undefined;
+  for (const result of toCheck) {
+    options.signal?.throwIfAborted();
+    const query = result.run.probe.query;
+    try {
+      const check = await checkResponseAccuracy(result.id);
+      outcome.checked++;
+      outcome.wrong += check.wrong;
+      outcome.outdated += check.outdated;
+      options.onProgress?.({ type: "checked", provider: result.provider, query, counts: check });
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Accuracy check of citation result ${result.id} failed:`, error);
+      firstError ??= message;
+      outcome.failed++;
+      options.onProgress?.({
+        type: "checked",
+        provider: result.provider,
+        query,
+        counts: null,
+        error: message,
+      });
+    }
+  }
+
+  // Nothing worked (no OpenAI key, say): fail so the job is retried
+  if (outcome.checked === 0 && outcome.failed > 0) {
+    throw new Error(`Every accuracy check failed; first: ${firstError}`);
+  }
+  return outcome;
+}
+
+/**
+ * Accuracy per provider over the responses of the last `days` days that
+ * have been checked.
+ */
+export async function getAccuracyReport(
+  brandId: string,
+  options: { days: number }
+): Promise<AccuracyReport> {
+  const where = {
+    brandId,
+    citationResult: {
+      createdAt: { gte: new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) },
+    },
+  };
+  const [factSheet, groups] = await Promise.all([
+    prisma.brandFactSheet.findUnique({ where: { brandId }, select: { updatedAt: true } }),
+    prisma.accuracyCheck.groupBy({
+      by: ["provider"],
+      where,
+      _count: { _all: true },
+      _sum: { correct: true, outdated: true, wrong: true, unverifiable: true },
+    }),
+  ]);
+  const staleChecks = factSheet
+    ? await prisma.accuracyCheck.count({
+        where: { ...where, createdAt: { lt: factSheet.updatedAt } },
+      })
+    : 0;
+
+  const providers = groups
+    .map((group): ProviderAccuracy => {
+      const counts: VerdictCounts = {
+        correct: group._sum.correct ?? 0,
+        outdated: group._sum.outdated ?? 0,
+        wrong: group._sum.wrong ?? 0,
+        unverifiable: group._sum.unverifiable ?? 0,
+      };
+      return {
+        provider: group.provider,
+        responses: group._count._all,
+        ...counts,
+        score: accuracyScore(counts),
+      };
+    })
+    .sort((a, b) => a.provider.localeCompare(b.provider));
+
+  const overallCounts = sumVerdicts(providers);
+
+  return {
+    brandId,
+    days: options.days,
+    factSheetUpdatedAt: factSheet?.updatedAt ?? null,
+    overall: {
+      provider: "all",
+      responses: providers.reduce((sum, p) => sum + p.responses, 0),
+      ...overallCounts,
+      score: accuracyScore(overallCounts),
+    },
+    providers,
+    staleChecks,
+  };
+}
+
+// Wrong and outdated claims, newest first
+export async function listHallucinations(
+  brandId: string,
+  options?: { provider?: string; limit?: number }
+): Promise<Hallucination[]> {
+  const rows = await prisma.claimCheck.findMany({
+    where: {
+      brandId,
+      verdict: { in: ["wrong", "outdated"] },
+      ...(options?.provider ? { provider: options.provider } : {}),
+    },
+    include: { accuracyCheck: { select: { query: true, citationResultId: true } } },
+    orderBy: { createdAt: "desc" },
+    take: options?.limit ?? 50,
+  });
+  return rows.map((row) => ({
+    id: row.id,
+    claim: row.claim,
+    verdict: row.verdict as Hallucination["verdict"],
+    explanation: row.explanation,
+    fact: row.fact,
+    provider: row.provider,
+    query: row.accuracyCheck.query,
+    citationResultId: row.accuracyCheck.citationResultId,
+    createdAt: row.createdAt,
+  }));
+}
@@ -1,6 +1,9 @@
 import { queryLLM, getEnabledProviders } from "@/lib/llm";
 import type { LLMProvider } from "@/lib/llm";
 import { detectCitation } from "@/lib/citation/detector";
+import { loadDetectionAliases } from "@/lib/graph/aliases";
+import { compareRates, estimateRate } from "@/lib/citation/statistics";
+import type { RateEstimate } from "@/lib/citation/statistics";
 import { extractProbeQueries } from "./query-extractor";
 
 // ---------------------------------------------------------------------------
@@ -50,9 +53,12 @@ export interface CompetitiveGapScore {
   score: number;
   weight: number;
   yourCitationRate: number;
+  yourCitationInterval: RateEstimate;
   avgCompetitorCitationRate: number;
   topCompetitor: string | null;
   topCompetitorRate: number;
+  topCompetitorInterval: RateEstimate | null;
+  gapPValue: number | null; // you vs the top competitor
   gapAnalysis: string;
 }
 
@@ -340,6 +346,12 @@ export async function validateCitability(
     };
   }
 
+  // Graph aliases let the detector count variant names as citations
+  const detection = await loadDetectionAliases(
+    { name: brandName, domain: brandDomain },
+    competitors
+  );
+
   // 2. Select 2-3 providers
   const providers = selectProbeProviders(3);
   if (providers.length === 0) {
@@ -369,9 +381,8 @@ export async function validateCitability(
 
           const citation = detectCitation(
             response.text,
-            brandName,
-            brandDomain,
-            competitors
+            detection.brand,
+            detection.competitors
           );
 
           probeResults.push({
@@ -481,9 +492,12 @@ export async function analyzeCompetitiveGap(
       score: 50,
       weight: 0.3,
       yourCitationRate: 0,
+      yourCitationInterval: estimateRate(0, 0),
       avgCompetitorCitationRate: 0,
       topCompetitor: null,
       topCompetitorRate: 0,
+      topCompetitorInterval: null,
+      gapPValue: null,
       gapAnalysis: "Insufficient data. Run citation validation probes first.",
     };
   }
@@ -508,11 +522,11 @@ export async function analyzeCompetitiveGap(
     }
   }
 
-  const competitorRates: { name: string; rate: number }[] = [];
+  const competitorRates: { name: string; rate: number; count: number }[] = [];
   for (const [name, count] of competitorCiteCounts) {
     const rate =
       Math.round((count / existingResults.length) * 100 * 10) / 10;
-    competitorRates.push({ name, rate });
+    competitorRates.push({ name, rate, count });
   }
 
   competitorRates.sort((a, b) => b.rate - a.rate);
@@ -529,6 +543,14 @@ export async function analyzeCompetitiveGap(
   const topCompetitor =
     competitorRates.length > 0 ? competitorRates[0] : null;
 
+  const yourCitationInterval = estimateRate(yourCitedCount, existingResults.length);
+  const topCompetitorInterval = topCompetitor
+    ? estimateRate(topCompetitor.count, existingResults.length)
+    : null;
+  const gap = topCompetitorInterval
+    ? compareRates(yourCitationInterval, topCompetitorInterval)
+    : null;
+
   // Score: 100 if you're ahead, decreases as gap widens
   let score: number;
   if (avgCompetitorRate <= yourCitationRate) {
@@ -554,13 +576,21 @@ export async function analyzeCompetitiveGap(
     gapAnalysis = `${brandName} trails competitors by ${deficit} percentage points. ${topName} leads at ${topRate}% citation rate. Focus on matching their content depth and direct-answer patterns.`;
   }
 
+  // With a handful of probes a 10-20 point gap is often just sampling noise
+  if (gap && gap.difference !== 0 && !gap.significant) {
+    gapAnalysis += ` The gap to ${topCompetitor!.name} is within sampling noise over ${existingResults.length} responses (p=${gap.pValue}); run more probes or samples before acting on it.`;
+  }
+
   return {
     score,
     weight: 0.3,
     yourCitationRate,
+    yourCitationInterval,
     avgCompetitorCitationRate: avgCompetitorRate,
     topCompetitor: topCompetitor ? topCompetitor.name : null,
     topCompetitorRate: topCompetitor ? topCompetitor.rate : 0,
+    topCompetitorInterval,
+    gapPValue: gap ? gap.pValue : null,
     gapAnalysis,
   };
 }
@@ -11,9 +11,19 @@
  * 1. Claim Alignment: Does the landing page support the claims made by the AI?
  * 2. Message Continuity: Does the page reinforce the same value proposition?
  * 3. Intent Match: Does the CTA align with the user's original question?
+ *
+ * checkCitationContinuity runs the whole check for a stored citation result:
+ * it finds the brand page the response linked to and fetches it (see
+ * @/lib/pages), so nothing has to be pasted in.
  */
 
 import { queryLLM } from "@/lib/llm";
+import { prisma } from "@/lib/db";
+import { runForBrand } from "@/lib/auth/context";
+import { extractUrls, normalizeDomain } from "@/lib/citation/detector";
+import { getLandingPage } from "@/lib/pages";
+import type { LandingPage } from "@/lib/pages";
+import { readClaims } from "./verdicts";
 
 // ─── Types ───
 
@@ -48,13 +58,22 @@ export interface IntentMatchResult {
   suggestedCTA: string;
 }
 
+export interface CitationContinuityCheck extends ContinuityCheck {
+  citationResultId: string;
+  brandId: string;
+  provider: string;
+  query: string;
+  page: Omit<LandingPage, "markdown">; // with the page's JSON-LD
+}
+
 // ─── Claim Extraction ───
 
 /**
  * Extract factual claims about a brand from an AI response.
- * These are the promises the AI made that the landing page must fulfill.
+ * These are the promises the AI made that the landing page must fulfill;
+ * ./accuracy holds the same claims against the brand's fact sheet.
  */
-async function extractClaimsFromAIResponse(
+export async function extractClaimsFromAIResponse(
   aiResponse: string,
   brandName: string
 ): Promise<string[]> {
@@ -83,15 +102,7 @@ Return ONLY the JSON array, no explanation.`;
     maxTokens: 1000,
   });
 
-  try {
-    return JSON.parse(response.text);
-  } catch {
-    // Fallback: extract lines that look like claims
-    return response.text
-      .split("\n")
-      .filter((line) => line.trim().length > 10)
-      .slice(0, 10);
-  }
+  return readClaims(response.text);
 }
 
 /**
@@ -444,3 +455,83 @@ Return ONLY a number 0-100.`;
   const score = parseInt(response.text.trim(), 10);
   return isNaN(score) ? 50 : Math.max(0, Math.min(100, score));
 }
+
+// ─── From a Citation Result ───
+
+/**
+ * The page on the brand's domain that a response sent readers to: the
+ * highest-ranked cited source there, else the first link to it in the text.
+ */
+export function citedLandingUrl(
+  response: string,
+  sources: Array<{ url: string; domain: string; rank: number }>,
+  brandDomain: string
+): string | null {
+  const domain = normalizeDomain(brandDomain);
+  if (!domain) return null;
+  const onBrandDomain = (host: string) => {
+    const normalized = normalizeDomain(host);
+    return normalized === domain || normalized.endsWith(`.${domain}`);
+  };
+
+  const source = [...sources]
+    .sort((a, b) => a.rank - b.rank)
+    .find((s) => onBrandDomain(s.domain));
+  if (source) return source.url;
+
+  const link = extractUrls(response).find(({ url }) => {
+    try {
+      return onBrandDomain(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  });
+  return link?.url ?? null;
+}
+
+/**
+ * Score the landing page a stored citation result pointed to against that
+ * response and its probe query. `url` overrides the page found in the result.
+ */
+export async function checkCitationContinuity(
+  citationResultId: string,
+  options: { url?: string; forceRefresh?: boolean; offline?: boolean } = {}
+): Promise<CitationContinuityCheck> {
+  const result = await prisma.citationResult.findUnique({
+    where: { id: citationResultId },
+    include: { sources: true, run: { include: { probe: true, brand: true } } },
+  });
+  if (!result) {
+    throw new Error(`Citation result ${citationResultId} no longer exists`);
+  }
+
+  const { brand, probe } = result.run;
+  if (!brand.workspaceId) {
+    throw new Error(`Brand ${brand.name} is not in a workspace`);
+  }
+  const url = options.url ?? citedLandingUrl(result.response, result.sources, brand.domain);
+  if (!url) {
+    throw new Error(`The ${result.provider} response does not link to ${brand.domain}`);
+  }
+
+  const { markdown, ...page } = await getLandingPage(url, {
+    workspaceId: brand.workspaceId,
+    forceRefresh: options.forceRefresh,
+    offline: options.offline,
+  });
+  if (!markdown.trim()) {
+    throw new Error(`No readable content found on ${page.finalUrl}`);
+  }
+
+  const check = await runForBrand(brand, () =>
+    scoreFunnelContinuity(result.response, markdown, probe.query, brand.name)
+  );
+  return {
+    ...check,
+    citationResultId,
+    brandId: brand.id,
+    provider: result.provider,
+    query: probe.query,
+    page,
+  };
+}
@@ -0,0 +1,135 @@
+import { prisma } from "@/lib/db";
+import type { BrandFactSheet } from "@prisma/client";
+
+/**
+ * A brand's fact sheet: what is actually true about it — pricing, founding
+ * year, headquarters, integrations, features — kept by the brand's team.
+ * It is the source of truth ./accuracy checks AI engines' claims against,
+ * so former facts (last year's prices, a retired plan) are kept too: a
+ * claim matching one is outdated rather than made up.
+ */
+
+export interface PricingTier {
+  name: string;
+  price: string; // as written, e.g. "$12" or "Contact sales"
+  period?: string; // e.g. "per seat / month"
+  notes?: string;
+}
+
+export interface OtherFact {
+  label: string;
+  value: string;
+}
+
+export interface FactSheetInput {
+  foundedYear: number | null;
+  headquarters: string;
+  pricingTiers: PricingTier[];
+  integrations: string[];
+  features: string[];
+  otherFacts: OtherFact[];
+  formerFacts: string[]; // no longer true
+}
+
+export interface FactSheet extends FactSheetInput {
+  updatedAt: Date | null; // null until first saved
+}
+
+export const EMPTY_FACT_SHEET: FactSheetInput = {
+  foundedYear: null,
+  headquarters: "",
+  pricingTiers: [],
+  integrations: [],
+  features: [],
+  otherFacts: [],
+  formerFacts: [],
+};
+
+function toFactSheet(row: BrandFactSheet): FactSheet {
+  return {
+    foundedYear: row.foundedYear,
+    headquarters: row.headquarters,
+    pricingTiers: JSON.parse(row.pricingTiers) as PricingTier[],
+    integrations: JSON.parse(row.integrations) as string[],
+    features: JSON.parse(row.features) as string[],
+    otherFacts: JSON.parse(row.otherFacts) as OtherFact[],
+    formerFacts: JSON.parse(row.formerFacts) as string[],
+    updatedAt: row.updatedAt,
+  };
+}
+
+// A brand's fact sheet; empty when none was saved yet
+export async function getFactSheet(brandId: string): Promise<FactSheet> {
+  const row = await prisma.brandFactSheet.findUnique({ where: { brandId } });
+  return row ? toFactSheet(row) : { ...EMPTY_FACT_SHEET, updatedAt: null };
+}
+
+export async function saveFactSheet(
+  brandId: string,
+  input: FactSheetInput
+): Promise<FactSheet> {
+  const data = {
+    foundedYear: input.foundedYear,
+    headquarters: input.headquarters,
+    pricingTiers: JSON.stringify(input.pricingTiers),
+    integrations: JSON.stringify(input.integrations),
+    features: JSON.stringify(input.features),
+    otherFacts: JSON.stringify(input.otherFacts),
+    formerFacts: JSON.stringify(input.formerFacts),
+  };
+  const row = await prisma.brandFactSheet.upsert({
+    where: { brandId },
+    update: data,
+    create: { brandId, ...data },
+  });
+  return toFactSheet(row);
+}
+
+// Nothing to check claims against; former facts alone only prove claims outdated
+export function isFactSheetEmpty(sheet: FactSheetInput): boolean {
+  return (
+    sheet.foundedYear === null &&
+    !sheet.headquarters.trim() &&
+    sheet.pricingTiers.length === 0 &&
+    sheet.integrations.length === 0 &&
+    sheet.features.length === 0 &&
+    sheet.otherFacts.length === 0
+  );
+}
+
+/**
+ * The fact sheet as plain text for a prompt. Lists of integrations and
+ * features are stated to be complete, so a claimed integration that is not
+ * listed can be called wrong rather than unverifiable.
+ */
+export function formatFactSheet(sheet: FactSheetInput): string {
+  const lines: string[] = [];
+
+  if (sheet.foundedYear !== null) lines.push(`Founded: ${sheet.foundedYear}`);
+  if (sheet.headquarters.trim()) lines.push(`Headquarters: ${sheet.headquarters.trim()}`);
+
+  if (sheet.pricingTiers.length > 0) {
+    lines.push("Pricing tiers (complete list):");
+    for (const tier of sheet.pricingTiers) {
+      const price = [tier.price, tier.period].filter(Boolean).join(" ");
+      lines.push(`- ${tier.name}: ${price}${tier.notes ? ` (${tier.notes})` : ""}`);
+    }
+  }
+  if (sheet.integrations.length > 0) {
+    lines.push(`Integrations (complete list): ${sheet.integrations.join(", ")}`);
+  }
+  if (sheet.features.length > 0) {
+    lines.push("Features:");
+    lines.push(...sheet.features.map((feature) => `- ${feature}`));
+  }
+  if (sheet.otherFacts.length > 0) {
+    lines.push("Other facts:");
+    lines.push(...sheet.otherFacts.map((fact) => `- ${fact.label}: ${fact.value}`));
+  }
+  if (sheet.formerFacts.length > 0) {
+    lines.push("No longer true (outdated):");
+    lines.push(...sheet.formerFacts.map((fact) => `- ${fact}`));
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,103 @@
+/**
+ * Claim verdicts and the accuracy score built from them, for the factual
+ * accuracy checker (./accuracy). Reading the model's extracted claims and
+ * classification and counting verdicts need no database, so they live here.
+ */
+
+export type ClaimVerdict = "correct" | "outdated" | "wrong" | "unverifiable";
+
+export const CLAIM_VERDICTS: ClaimVerdict[] = ["correct", "outdated", "wrong", "unverifiable"];
+
+export interface ClassifiedClaim {
+  claim: string;
+  verdict: ClaimVerdict;
+  explanation: string;
+  fact: string | null; // the fact sheet entry the claim was held against
+}
+
+export interface VerdictCounts {
+  correct: number;
+  outdated: number;
+  wrong: number;
+  unverifiable: number;
+}
+
+/**
+ * Read the claims the model extracted from a response (`["claim", ...]`),
+ * also when it wraps the array in code fences or prose. An answer with no
+ * readable array throws, so the check is retried rather than storing stray
+ * lines of the answer as claims.
+ */
+export function readClaims(text: string): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(/\[[\s\S]*\]/.exec(text)?.[0] ?? text);
+  } catch {
+    throw new Error("Could not read the extracted claims");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("Could not read the extracted claims");
+  }
+
+  return parsed
+    .filter((claim): claim is string => typeof claim === "string" && claim.trim() !== "")
+    .map((claim) => claim.trim());
+}
+
+/**
+ * Match the model's JSON answer (`[{"claim": 1, "verdict": ...}]`) to the
+ * numbered claims it was given. Claims it leaves out or gives an unknown
+ * verdict come back unverifiable; an answer with no readable array throws,
+ * so the check fails and can be retried rather than stored as unverifiable.
+ */
+export function readClassification(claims: string[], text: string): ClassifiedClaim[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(/\[[\s\S]*\]/.exec(text)?.[0] ?? text);
+  } catch {
+    throw new Error("Could not read the claim classification");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("Could not read the claim classification");
+  }
+
+  const byNumber = new Map<number, Omit<ClassifiedClaim, "claim">>();
+  for (const entry of parsed as Array<Record<string, unknown>>) {
+    const verdict = entry?.verdict as ClaimVerdict;
+    if (typeof entry?.claim !== "number" || !CLAIM_VERDICTS.includes(verdict)) continue;
+    byNumber.set(entry.claim, {
+      verdict,
+      explanation: typeof entry.explanation === "string" ? entry.explanation : "",
+      fact: typeof entry.fact === "string" && entry.fact ? entry.fact : null,
+    });
+  }
+
+  return claims.map((claim, i) => ({
+    claim,
+    ...(byNumber.get(i + 1) ?? {
+      verdict: "unverifiable" as const,
+      explanation: "Not classified",
+      fact: null,
+    }),
+  }));
+}
+
+export function countVerdicts(claims: Array<{ verdict: ClaimVerdict }>): VerdictCounts {
+  const counts: VerdictCounts = { correct: 0, outdated: 0, wrong: 0, unverifiable: 0 };
+  for (const { verdict } of claims) counts[verdict]++;
+  return counts;
+}
+
+export function sumVerdicts(counts: VerdictCounts[]): VerdictCounts {
+  const total: VerdictCounts = { correct: 0, outdated: 0, wrong: 0, unverifiable: 0 };
+  for (const entry of counts) {
+    for (const verdict of CLAIM_VERDICTS) total[verdict] += entry[verdict];
+  }
+  return total;
+}
+
+// Correct claims as a share of those the fact sheet could settle
+export function accuracyScore(counts: VerdictCounts): number | null {
+  const verifiable = counts.correct + counts.outdated + counts.wrong;
+  return verifiable > 0 ? Math.round((counts.correct * 100) / verifiable) : null;
+}
@@ -0,0 +1,242 @@
+import fs from "fs";
+import path from "path";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * Encrypted storage for provider API keys and other credentials.
+ *
+ * Values are sealed with AES-256-GCM under a master key taken from
+ * SECRETS_MASTER_KEY and kept in aeo-secrets.json next to the settings file.
+ * Each entry records the id of the key that sealed it, so the master key can
+ * be rotated: move the old key to SECRETS_MASTER_KEY_PREVIOUS (comma-separated
+ * if there are several), set the new one, and call rotateSecrets().
+ *
+ * Nothing here is ever returned by an API route; routes only report whether
+ * a secret is set.
+ */
+
+export const MASTER_KEY_ENV = "SECRETS_MASTER_KEY";
+export const PREVIOUS_KEYS_ENV = "SECRETS_MASTER_KEY_PREVIOUS";
+
+export const MASTER_KEY_MISSING =
+  `${MASTER_KEY_ENV} is not set, so API keys cannot be stored. ` +
+  "Generate one with `openssl rand -base64 32` and restart the server.";
+
+const SECRETS_PATH = path.join(process.cwd(), "aeo-secrets.json");
+
+interface SealedSecret {
+  keyId: string;
+  iv: string; // base64
+  tag: string; // base64 GCM auth tag
+  data: string; // base64 ciphertext
+  updatedAt: string;
+}
+
+interface SecretsFile {
+  secrets: Record<string, SealedSecret>;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface SecretStoreStatus {
+  configured: boolean;
+  keyId: string | null;
+  secrets: number;
+  // Sealed under a previous master key; rotateSecrets() re-seals them
+  needingRotation: number;
+  // Sealed under a key that is no longer configured at all
+  unreadable: number;
+}
+
+// ── Master keys ──────────────────────────────────────────────────────────
+
+function parseMasterKey(raw: string): MasterKey {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, "hex")
+    : Buffer.from(value, "base64");
+
+  if (key.length !== 32) {
+    throw new Error(
+      `${MASTER_KEY_ENV} must be 32 bytes encoded as base64 or hex (openssl rand -base64 32)`
+    );
+  }
+
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 12);
+  return { id, key };
+}
+
+function currentMasterKey(): MasterKey | null {
+  const raw = process.env[MASTER_KEY_ENV];
+  return raw ? parseMasterKey(raw) : null;
+}
+
+function masterKeys(): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>();
+  const current = currentMasterKey();
+  if (current) keys.set(current.id, current.key);
+
+  for (const raw of (process.env[PREVIOUS_KEYS_ENV] ?? "").split(",")) {
+    if (!raw.trim()) continue;
+    const previous = parseMasterKey(raw);
+    keys.set(previous.id, previous.key);
+  }
+  return keys;
+}
+
+export function isSecretStoreConfigured(): boolean {
+  return !!process.env[MASTER_KEY_ENV];
+}
+
+// ── Sealing ──────────────────────────────────────────────────────────────
+
+function seal(value: string, master: MasterKey): SealedSecret {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", master.key, iv);
+  const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+
+  return {
+    keyId: master.id,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function unseal(name: string, sealed: SealedSecret, keys: Map<string, Buffer>): string {
+  const key = keys.get(sealed.keyId);
+  if (!key) {
+    throw new Error(
+      `Secret "${name}" was encrypted with master key ${sealed.keyId}, which is not configured`
+    );
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(sealed.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(sealed.data, "base64")),
+    decipher.final(),
+  ]).toString("utf-8");
+}
+
+// ── File I/O ─────────────────────────────────────────────────────────────
+
+function readSecretsFile(): SecretsFile {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(SECRETS_PATH, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { secrets: {} };
+    throw error;
+  }
+
+  // A corrupt store must not read as empty: the next write would replace it
+  // and drop every sealed key.
+  let parsed: Partial<SecretsFile>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `${SECRETS_PATH} is not valid JSON (${error instanceof Error ? error.message : String(error)}); ` +
+        "restore it from a backup before changing any secrets"
+    );
+  }
+  return { secrets: parsed.secrets ?? {} };
+}
+
+function writeSecretsFile(file: SecretsFile): void {
+  // Write beside the store and rename over it, so a crash mid-write leaves
+  // the previous file intact rather than a truncated one.
+  const tmpPath = `${SECRETS_PATH}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  fs.renameSync(tmpPath, SECRETS_PATH);
+}
+
+// ── Public API ───────────────────────────────────────────────────────────
+
+/**
+ * Secret name for a provider API key: instance-wide, or owned by a workspace.
+ */
+export function providerSecretName(provider: string, workspaceId?: string): string {
+  return workspaceId
+    ? `workspace/${workspaceId}/provider/${provider}`
+    : `provider/${provider}`;
+}
+
+export function hasSecret(name: string): boolean {
+  return name in readSecretsFile().secrets;
+}
+
+export function getSecret(name: string): string | null {
+  const sealed = readSecretsFile().secrets[name];
+  return sealed ? unseal(name, sealed, masterKeys()) : null;
+}
+
+export function setSecret(name: string, value: string): void {
+  const master = currentMasterKey();
+  if (!master) throw new Error(MASTER_KEY_MISSING);
+
+  const file = readSecretsFile();
+  file.secrets[name] = seal(value, master);
+  writeSecretsFile(file);
+}
+
+export function deleteSecret(name: string): boolean {
+  const file = readSecretsFile();
+  if (!(name in file.secrets)) return false;
+
+  delete file.secrets[name];
+  writeSecretsFile(file);
+  return true;
+}
+
+export function getSecretStoreStatus(): SecretStoreStatus {
+  const { secrets } = readSecretsFile();
+  const current = currentMasterKey();
+  const known = masterKeys();
+  const sealed = Object.values(secrets);
+
+  return {
+    configured: !!current,
+    keyId: current?.id ?? null,
+    secrets: sealed.length,
+    needingRotation: sealed.filter(
+      (s) => s.keyId !== current?.id && known.has(s.keyId)
+    ).length,
+    unreadable: sealed.filter((s) => !known.has(s.keyId)).length,
+  };
+}
+
+/**
+ * Re-seal every secret under the current master key. Secrets whose key is
+ * no longer configured are left as they are and reported by name.
+ */
+export function rotateSecrets(): { rotated: number; failed: string[] } {
+  const master = currentMasterKey();
+  if (!master) throw new Error(MASTER_KEY_MISSING);
+
+  const keys = masterKeys();
+  const file = readSecretsFile();
+  const failed: string[] = [];
+  let rotated = 0;
+
+  for (const [name, sealed] of Object.entries(file.secrets)) {
+    if (sealed.keyId === master.id) continue;
+    try {
+      file.secrets[name] = seal(unseal(name, sealed, keys), master);
+      rotated++;
+    } catch {
+      failed.push(name);
+    }
+  }
+
+  if (rotated > 0) writeSecretsFile(file);
+  return { rotated, failed };
+}
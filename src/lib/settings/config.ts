@@ -1,25 +1,74 @@
 import fs from "fs";
 import path from "path";
+import {
+  deleteSecret,
+  getSecret,
+  hasSecret,
+  providerSecretName,
+  setSecret,
+} from "@/lib/secrets";
 
+// API keys are not part of the settings: they live in the encrypted secret
+// store (see setProviderApiKey / getProviderApiKey)
 export interface ProviderSettings {
   enabled: boolean;
-  apiKey: string;
+  // USD, from local midnight / the 1st of the month; 0 = no cap
   dailyBudget: number;
+  monthlyBudget: number;
+  // Per-minute limits across every server process; 0 = unlimited
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  timeoutSeconds: number; // per attempt; 0 = no timeout
+  maxConcurrent: number; // calls open at once in a batch run; 0 = only the global limit
+  cacheTtlHours: number; // 0 disables response caching for this provider
 }
 
+/**
+ * A named instance of any server that speaks the OpenAI chat completions API:
+ * Ollama, vLLM, LM Studio, llama.cpp, or a hosted gateway.
+ */
+export interface CompatibleProviderSettings extends ProviderSettings {
+  type: "openai-compatible";
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  authHeader: string; // "Authorization" sends "Bearer <apiKey>"; any other header sends the raw key
+  costPer1kInput: number; // USD; 0 for self-hosted models
+  costPer1kOutput: number;
+}
+
+export type AnyProviderSettings = ProviderSettings | CompatibleProviderSettings;
+
 export interface AppSettings {
   providers: {
     openai: ProviderSettings;
     anthropic: ProviderSettings;
     google: ProviderSettings;
     perplexity: ProviderSettings;
+    tavily: ProviderSettings;
+    // Custom OpenAI-compatible instances, keyed by provider name
+    [name: string]: AnyProviderSettings;
   };
   monitoring: {
     defaultCron: string;
     batchSize: number;
+    // Provider calls a batch run or competitive analysis keeps open at once
+    concurrency: number;
     alertsEnabled: boolean;
     emailNotifications: boolean;
     notificationEmail: string;
+    // What a call does when a provider's per-minute limit is reached:
+    // "wait" until the window frees (up to maxRateLimitWaitSeconds), "skip" fails it
+    rateLimitMode: "wait" | "skip";
+    maxRateLimitWaitSeconds: number;
+    // Retries after a timeout, network error, 429 or 5xx, with exponential
+    // backoff (or the provider's Retry-After)
+    maxRetries: number;
+    // Consecutive failures after which a batch run stops calling a provider
+    circuitBreakerThreshold: number;
+    // After each batch run, score the brand pages that responses linked to
+    // against those responses, at most continuityChecksPerRun of them
+    continuityMonitoring: boolean;
+    continuityChecksPerRun: number;
   };
   scoring: {
     structuralWeight: number;
@@ -38,19 +87,36 @@ export interface AppSettings {
 
 const SETTINGS_PATH = path.join(process.cwd(), "aeo-settings.json");
 
+export const DEFAULT_PROVIDER_LIMITS = {
+  dailyBudget: 5,
+  monthlyBudget: 0,
+  requestsPerMinute: 60,
+  tokensPerMinute: 100_000,
+  timeoutSeconds: 60,
+  maxConcurrent: 2,
+};
+
 const DEFAULT_SETTINGS: AppSettings = {
   providers: {
-    openai: { enabled: false, apiKey: "", dailyBudget: 5 },
-    anthropic: { enabled: false, apiKey: "", dailyBudget: 5 },
-    google: { enabled: false, apiKey: "", dailyBudget: 5 },
-    perplexity: { enabled: false, apiKey: "", dailyBudget: 5 },
+    openai: { ...DEFAULT_PROVIDER_LIMITS, enabled: false, cacheTtlHours: 24 },
+    anthropic: { ...DEFAULT_PROVIDER_LIMITS, enabled: false, cacheTtlHours: 24 },
+    google: { ...DEFAULT_PROVIDER_LIMITS, enabled: false, cacheTtlHours: 24 },
+    perplexity: { ...DEFAULT_PROVIDER_LIMITS, enabled: false, cacheTtlHours: 24 },
+    tavily: { ...DEFAULT_PROVIDER_LIMITS, enabled: false, cacheTtlHours: 24 },
   },
   monitoring: {
     defaultCron: "0 9 * * 1",
     batchSize: 20,
+    concurrency: 4,
     alertsEnabled: true,
     emailNotifications: false,
     notificationEmail: "",
+    rateLimitMode: "wait",
+    maxRateLimitWaitSeconds: 120,
+    maxRetries: 3,
+    circuitBreakerThreshold: 3,
+    continuityMonitoring: false,
+    continuityChecksPerRun: 20,
   },
   scoring: {
     structuralWeight: 0.2,
@@ -72,6 +138,24 @@ const ENV_KEY_MAP: Record<string, string> = {
   anthropic: "ANTHROPIC_API_KEY",
   google: "GOOGLE_API_KEY",
   perplexity: "PERPLEXITY_API_KEY",
+  tavily: "TAVILY_API_KEY",
+};
+
+export type ApiKeySource = "settings" | "environment";
+
+/**
+ * A settings update as sent by clients: provider entries may carry an
+ * `apiKey`, which is moved into the secret store instead of the file.
+ * A non-empty string replaces the stored key, null removes it, and an
+ * empty string or no field leaves it as it is. General settings may be
+ * sent one at a time; fields left out keep their value.
+ */
+export type SettingsUpdate = Omit<Partial<AppSettings>, "providers" | "general"> & {
+  general?: Partial<AppSettings["general"]>;
+  providers?: Record<
+    string,
+    Partial<AnyProviderSettings> & { apiKey?: string | null }
+  >;
 };
 
 // ── Deep merge utility ───────────────────────────────────────────────────
@@ -105,22 +189,149 @@ function deepMerge<T extends object>(
 
 // ── File I/O ─────────────────────────────────────────────────────────────
 
-function readSettingsFile(): Partial<AppSettings> {
+function readRawSettingsFile(): Record<string, unknown> {
   try {
     if (!fs.existsSync(SETTINGS_PATH)) {
       return {};
     }
     const raw = fs.readFileSync(SETTINGS_PATH, "utf-8");
-    return JSON.parse(raw) as Partial<AppSettings>;
+    return JSON.parse(raw) as Record<string, unknown>;
   } catch {
     return {};
   }
 }
 
+// Plaintext keys written by versions before the secret store existed
+function legacyPlaintextKeys(stored: Record<string, unknown>): Record<string, string> {
+  const keys: Record<string, string> = {};
+  if (!isPlainObject(stored.providers)) return keys;
+
+  for (const [name, config] of Object.entries(stored.providers)) {
+    if (isPlainObject(config) && typeof config.apiKey === "string" && config.apiKey) {
+      keys[name] = config.apiKey;
+    }
+  }
+  return keys;
+}
+
+function stripApiKeys(stored: Record<string, unknown>): Partial<AppSettings> {
+  if (!isPlainObject(stored.providers)) return stored as Partial<AppSettings>;
+
+  const providers: Record<string, unknown> = {};
+  for (const [name, config] of Object.entries(stored.providers)) {
+    if (isPlainObject(config)) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { apiKey, ...rest } = config;
+      providers[name] = rest;
+    } else {
+      providers[name] = config;
+    }
+  }
+  return { ...stored, providers } as Partial<AppSettings>;
+}
+
+function readSettingsFile(): Partial<AppSettings> {
+  return stripApiKeys(readRawSettingsFile());
+}
+
 function writeSettingsFile(settings: AppSettings): void {
   fs.writeFileSync(SETTINGS_PATH, JSON.stringify(settings, null, 2), "utf-8");
 }
 
+// ── Custom providers ─────────────────────────────────────────────────────
+
+const BUILT_IN_PROVIDER_NAMES = [
+  "openai",
+  "anthropic",
+  "google",
+  "perplexity",
+  "tavily",
+];
+
+const PROVIDER_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+declare const customProviderName: unique symbol;
+
+/**
+ * The name of a custom provider saved in settings. Only names read back
+ * from the settings carry this type, so a provider typed with it (or with
+ * ProviderName from @/lib/llm) is one a request can be routed to.
+ */
+export type CustomProviderName = string & {
+  readonly [customProviderName]: true;
+};
+
+export function isCompatibleProvider(
+  settings: AnyProviderSettings | undefined
+): settings is CompatibleProviderSettings {
+  return (
+    !!settings &&
+    (settings as CompatibleProviderSettings).type === "openai-compatible"
+  );
+}
+
+/**
+ * Returns an error message if the name cannot be used for a custom provider.
+ */
+export function validateProviderName(name: string): string | null {
+  if (!PROVIDER_NAME_PATTERN.test(name)) {
+    return "Provider name must be 1-40 lowercase letters, digits or hyphens";
+  }
+  if (BUILT_IN_PROVIDER_NAMES.includes(name)) {
+    return `"${name}" is a built-in provider`;
+  }
+  return null;
+}
+
+export function getCustomProviders(): Array<
+  CompatibleProviderSettings & { name: CustomProviderName }
+> {
+  const settings = getSettings();
+  return Object.entries(settings.providers)
+    .filter(([, config]) => isCompatibleProvider(config))
+    .map(([name, config]) => ({
+      ...(config as CompatibleProviderSettings),
+      name: name as CustomProviderName,
+    }));
+}
+
+export function getCustomProvider(
+  name: string
+): CompatibleProviderSettings | null {
+  const config = getSettings().providers[name];
+  return isCompatibleProvider(config) ? config : null;
+}
+
+export function saveCustomProvider(
+  name: string,
+  config: Omit<CompatibleProviderSettings, "type">,
+  apiKey?: string
+): CompatibleProviderSettings {
+  const error = validateProviderName(name);
+  if (error) throw new Error(error);
+
+  // Key first: if it cannot be stored, the provider is not half-created
+  if (apiKey) setProviderApiKey(name, apiKey);
+
+  const saved: CompatibleProviderSettings = { ...config, type: "openai-compatible" };
+  updateSettings({ providers: { [name]: saved } });
+  return saved;
+}
+
+/**
+ * Remove a custom provider. Written directly because updateSettings merges
+ * and so can never drop a key.
+ */
+export function deleteCustomProvider(name: string): boolean {
+  const settings = getSettings();
+  if (!isCompatibleProvider(settings.providers[name])) return false;
+
+  delete settings.providers[name];
+  writeSettingsFile(settings);
+  deleteSecret(providerSecretName(name));
+  return true;
+}
+
 // ── Public API ───────────────────────────────────────────────────────────
 
 export function getSettings(): AppSettings {
@@ -128,9 +339,20 @@ export function getSettings(): AppSettings {
   return deepMerge(DEFAULT_SETTINGS, stored) as unknown as AppSettings;
 }
 
-export function updateSettings(partial: Partial<AppSettings>): AppSettings {
+export function updateSettings(partial: SettingsUpdate): AppSettings {
+  for (const [name, config] of Object.entries(partial.providers ?? {})) {
+    if (config?.apiKey === null) {
+      setProviderApiKey(name, null);
+    } else if (config?.apiKey) {
+      setProviderApiKey(name, config.apiKey);
+    }
+  }
+
   const current = getSettings();
-  const updated = deepMerge(current, partial) as unknown as AppSettings;
+  const updated = deepMerge(
+    current,
+    stripApiKeys(partial as Record<string, unknown>)
+  ) as unknown as AppSettings;
   writeSettingsFile(updated);
   return updated;
 }
@@ -140,16 +362,48 @@ export function isSetupComplete(): boolean {
   return settings.general.setupComplete;
 }
 
-export function getProviderApiKey(provider: string): string {
-  const settings = getSettings();
-
-  // Check settings file first
-  const providerKey = provider as keyof AppSettings["providers"];
-  const providerSettings = settings.providers[providerKey];
+/**
+ * Store (or with null, remove) the instance-wide API key for a provider.
+ * Throws if no master key is configured.
+ */
+export function setProviderApiKey(provider: string, apiKey: string | null): void {
+  if (apiKey === null) {
+    deleteSecret(providerSecretName(provider));
+  } else {
+    setSecret(providerSecretName(provider), apiKey);
+  }
+}
 
-  if (providerSettings && providerSettings.apiKey) {
-    return providerSettings.apiKey;
+/**
+ * Where a provider's key would come from, without decrypting it: a key saved
+ * in Settings wins over the provider's environment variable.
+ */
+export function getApiKeySource(provider: string): ApiKeySource | null {
+  if (
+    hasSecret(providerSecretName(provider)) ||
+    legacyPlaintextKeys(readRawSettingsFile())[provider]
+  ) {
+    return "settings";
   }
+  const envVar = ENV_KEY_MAP[provider];
+  return envVar && process.env[envVar] ? "environment" : null;
+}
+
+// Providers the onboarding wizard asks a key for
+const ONBOARDING_PROVIDERS = ["openai", "anthropic", "google", "perplexity"];
+
+// Whether the onboarding "providers" step is done: any of them has a key
+export function hasOnboardingProviderKey(): boolean {
+  return ONBOARDING_PROVIDERS.some((provider) => getApiKeySource(provider) !== null);
+}
+
+export function getProviderApiKey(provider: string): string {
+  const stored = getSecret(providerSecretName(provider));
+  if (stored) return stored;
+
+  // Not yet moved into the secret store by migratePlaintextApiKeys
+  const legacy = legacyPlaintextKeys(readRawSettingsFile())[provider];
+  if (legacy) return legacy;
 
   // Fall back to environment variable
   const envVar = ENV_KEY_MAP[provider];
@@ -159,3 +413,27 @@ export function getProviderApiKey(provider: string): string {
 
   return "";
 }
+
+/**
+ * Move API keys that older versions wrote in plaintext into the secret store
+ * and scrub them from the settings file. Needs the master key; returns the
+ * number of keys moved.
+ */
+export function migratePlaintextApiKeys(): number {
+  const stored = readRawSettingsFile();
+  const keys = legacyPlaintextKeys(stored);
+
+  for (const [provider, apiKey] of Object.entries(keys)) {
+    setProviderApiKey(provider, apiKey);
+  }
+
+  const moved = Object.keys(keys).length;
+  if (moved > 0) {
+    fs.writeFileSync(
+      SETTINGS_PATH,
+      JSON.stringify(stripApiKeys(stored), null, 2),
+      "utf-8"
+    );
+  }
+  return moved;
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Must match SESSION_COOKIE in lib/auth/sessions (not imported: that module
+// pulls in Prisma, which cannot run in the edge middleware)
+const SESSION_COOKIE = "aeo_session";
+
+/**
+ * Cheap gate in front of every page and API route: no session cookie means
+ * pages redirect to /login and API calls get a 401. The cookie is only
+ * validated (and roles checked) by requireAuth inside each route handler.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  if (pathname === "/login" || pathname.startsWith("/api/auth/")) {
+    return NextResponse.next();
+  }
+
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const login = new URL("/login", request.url);
+  if (pathname !== "/") login.searchParams.set("next", pathname);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
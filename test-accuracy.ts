@@ -0,0 +1,175 @@
+/**
+ * Citability Engine Accuracy Test Script
+ * Checks how extracted claims and fact-check answers are read, verdicts counted and accuracy
+ * scored, on made-up model answers — no database or API keys needed.
+ * Run: npx tsx test-accuracy.ts
+ */
+
+import {
+  accuracyScore,
+  countVerdicts,
+  readClaims,
+  readClassification,
+  sumVerdicts,
+} from "./src/lib/scoring/verdicts";
+import type { ClaimVerdict } from "./src/lib/scoring/verdicts";
+
+let failures = 0;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+function verdicts(...list: ClaimVerdict[]) {
+  return list.map((verdict) => ({ verdict }));
+}
+
+function checkCounting() {
+  const counts = countVerdicts(verdicts("correct", "correct", "wrong", "outdated", "unverifiable", "correct"));
+  check(
+    "counts each verdict",
+    counts.correct === 3 && counts.wrong === 1 && counts.outdated === 1 && counts.unverifiable === 1,
+    JSON.stringify(counts)
+  );
+  const none = countVerdicts([]);
+  check(
+    "counts nothing for a response without claims",
+    none.correct + none.outdated + none.wrong + none.unverifiable === 0
+  );
+
+  const total = sumVerdicts([
+    { correct: 2, outdated: 1, wrong: 0, unverifiable: 4 },
+    { correct: 1, outdated: 0, wrong: 3, unverifiable: 0 },
+  ]);
+  check(
+    "adds up counts across providers",
+    total.correct === 3 && total.outdated === 1 && total.wrong === 3 && total.unverifiable === 4,
+    JSON.stringify(total)
+  );
+}
+
+function checkScore() {
+  check(
+    "scores correct claims as a share of verifiable ones",
+    accuracyScore({ correct: 3, outdated: 1, wrong: 0, unverifiable: 10 }) === 75
+  );
+  check(
+    "counts outdated claims against the score",
+    accuracyScore({ correct: 1, outdated: 1, wrong: 0, unverifiable: 0 }) === 50
+  );
+  check(
+    "rounds to a whole percentage",
+    accuracyScore({ correct: 2, outdated: 0, wrong: 1, unverifiable: 0 }) === 67
+  );
+  check(
+    "has no score without verifiable claims",
+    accuracyScore({ correct: 0, outdated: 0, wrong: 0, unverifiable: 5 }) === null
+  );
+  check("scores all-correct as 100", accuracyScore({ correct: 4, outdated: 0, wrong: 0, unverifiable: 1 }) === 100);
+  check("scores all-wrong as 0", accuracyScore({ correct: 0, outdated: 0, wrong: 2, unverifiable: 0 }) === 0);
+}
+
+function checkReading() {
+  const claims = [
+    "Acme Pro costs $20 per seat",
+    "Acme was founded in 2019",
+    "Acme integrates with Slack",
+    "Acme has an office on the moon",
+  ];
+  const answer = `Here is the classification:
+[
+  {"claim": 1, "verdict": "outdated", "explanation": "Pro cost $20 until March 2024", "fact": "Pro cost $20 per seat / month until March 2024"},
+  {"claim": 2, "verdict": "correct", "explanation": "Founded 2019", "fact": "Founded: 2019"},
+  {"claim": 3, "verdict": "made-up", "explanation": "Not a verdict"},
+  {"claim": "4", "verdict": "wrong"}
+]`;
+  const read = readClassification(claims, answer);
+
+  check("keeps every claim in order", read.map((c) => c.claim).join("|") === claims.join("|"));
+  check(
+    "reads verdicts, explanations and facts from the answer",
+    read[0].verdict === "outdated" &&
+      read[0].fact === "Pro cost $20 per seat / month until March 2024" &&
+      read[1].verdict === "correct" &&
+      read[1].explanation === "Founded 2019"
+  );
+  check(
+    "makes claims with an unknown verdict or number unverifiable",
+    read[2].verdict === "unverifiable" &&
+      read[3].verdict === "unverifiable" &&
+      read[3].explanation === "Not classified" &&
+      read[3].fact === null
+  );
+
+  const partial = readClassification(claims.slice(0, 2), `[{"claim": 2, "verdict": "wrong", "fact": ""}]`);
+  check(
+    "makes claims the answer leaves out unverifiable",
+    partial[0].verdict === "unverifiable" && partial[1].verdict === "wrong" && partial[1].fact === null
+  );
+
+  for (const [label, text] of [
+    ["prose", "I could not check these claims."],
+    ["an object", `{"claim": 1, "verdict": "correct"}`],
+    ["broken JSON", `[{"claim": 1, "verdict": "correct"`],
+  ]) {
+    let error: string | null = null;
+    try {
+      readClassification(claims, text);
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+    check(`fails on an answer that is ${label}`, error === "Could not read the claim classification", error ?? "read");
+  }
+
+  const counts = countVerdicts(read);
+  check(
+    "scores what it read",
+    accuracyScore(counts) === 50,
+    `${accuracyScore(counts)}% from ${JSON.stringify(counts)}`
+  );
+}
+
+function checkClaims() {
+  const fenced = '```json\n["integrates with Slack", " offers a free tier ", "", 3]\n```';
+  const claims = readClaims(fenced);
+  check(
+    "reads claims from a fenced answer without quotes or brackets",
+    claims.join("|") === "integrates with Slack|offers a free tier",
+    JSON.stringify(claims)
+  );
+  check("reads a bare array", readClaims(`["rated #1 for small businesses"]`).length === 1);
+  check("reads an answer without claims", readClaims("[]").length === 0);
+
+  for (const [label, text] of [
+    ["prose", "- integrates with Slack\n- offers a free tier"],
+    ["an object", `{"claim": "integrates with Slack"}`],
+    ["broken JSON", `["integrates with Slack",`],
+  ]) {
+    let error: string | null = null;
+    try {
+      readClaims(text);
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+    check(`fails on claims that are ${label}`, error === "Could not read the extracted claims", error ?? "read");
+  }
+}
+
+function main() {
+  console.log("Citability Engine — Accuracy Test");
+
+  try {
+    checkCounting();
+    checkScore();
+    checkReading();
+    checkClaims();
+  } catch (error) {
+    check("runs the accuracy scoring", false, error instanceof Error ? error.message : String(error));
+  }
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
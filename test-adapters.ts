@@ -1,15 +1,17 @@
 /**
  * Citability Engine Adapter Test Script
  * Tests each provider adapter with real API calls where keys are available.
+ * queryLLM checks rate limits and budgets and prices each call from the app
+ * database, so set DATABASE_URL in .env and run `npx prisma db push` first.
  * Run: npx tsx test-adapters.ts
  */
 
 import "dotenv/config";
-import { queryLLM, getEnabledProviders, type LLMProvider, type LLMResponse } from "./src/lib/llm/index";
+import { queryLLM, getEnabledProviders, BUILT_IN_PROVIDERS, type ProviderName, type LLMResponse } from "./src/lib/llm/index";
 
 const TEST_PROMPT = "What are the best open source CRM tools in 2026? List your top 3 with brief descriptions.";
 
-async function testProvider(provider: LLMProvider): Promise<{ provider: string; success: boolean; response?: LLMResponse; error?: string }> {
+async function testProvider(provider: ProviderName): Promise<{ provider: string; success: boolean; response?: LLMResponse; error?: string }> {
   console.log(`\n${"=".repeat(60)}`);
   console.log(`Testing: ${provider.toUpperCase()}`);
   console.log("=".repeat(60));
@@ -35,6 +37,10 @@ async function testProvider(provider: LLMProvider): Promise<{ provider: string;
     const hasCitations = /\[\d+\]|\[source/i.test(response.text);
     console.log(`  Has URLs in response: ${hasUrls}`);
     console.log(`  Has citation markers: ${hasCitations}`);
+    console.log(`  Structured sources: ${response.sources.length}`);
+    for (const source of response.sources.slice(0, 3)) {
+      console.log(`    #${source.rank} ${source.url}`);
+    }
 
     return { provider, success: true, response };
   } catch (error: unknown) {
@@ -48,12 +54,19 @@ async function main() {
   console.log("Citability Engine — Adapter Test Suite");
   console.log(`Test prompt: "${TEST_PROMPT}"`);
 
+  if (!process.env.DATABASE_URL) {
+    console.log("\n⚠ DATABASE_URL is not set. Calls are checked against rate limits and");
+    console.log("  priced from the app database. Set it in .env and create the schema:");
+    console.log('  DATABASE_URL="file:./dev.db"');
+    console.log("  npx prisma db push");
+    process.exit(1);
+  }
+
   // Check which providers are enabled
   const enabled = getEnabledProviders();
   console.log(`\nEnabled providers (API keys found): ${enabled.length > 0 ? enabled.join(", ") : "NONE"}`);
 
-  const allProviders: LLMProvider[] = ["openai", "anthropic", "google", "perplexity", "tavily"];
-  const disabled = allProviders.filter(p => !enabled.includes(p));
+  const disabled = BUILT_IN_PROVIDERS.filter(p => !enabled.includes(p));
   if (disabled.length > 0) {
     console.log(`Disabled providers (no API key): ${disabled.join(", ")}`);
   }
@@ -0,0 +1,261 @@
+/**
+ * Citability Engine — Knowledge Graph Hostile Input Test
+ * Ingests entity names, aliases and probe queries containing quotes,
+ * backslashes, Cypher fragments and non-Latin scripts, and checks they are
+ * stored and read back verbatim without altering the rest of the graph.
+ * Run: npx tsx test-graph-hostile.ts
+ */
+
+import { KnowledgeGraph } from "./src/lib/graph/knowledge-graph";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEST_DB_PATH = "./data/test-aeo-graph-hostile";
+
+const HOSTILE_NAMES = [
+  "O'Brien's CRM",
+  "Back\\slash Tools",
+  "x'}) MATCH (n) DETACH DELETE n //",
+  'Quote"Double',
+  "東京データ",
+  "Ünïcödé Co",
+];
+
+const HOSTILE_QUERIES = [
+  'what\'s the "best" CRM?',
+  "crm \\' OR 1=1 --",
+  "') RETURN 1 UNION MATCH (n) DETACH DELETE n //",
+];
+
+let failures = 0;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`  ${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+function cleanup() {
+  for (const p of [TEST_DB_PATH, `${TEST_DB_PATH}.wal`]) {
+    if (fs.existsSync(p)) fs.rmSync(p, { recursive: true });
+  }
+}
+
+async function main() {
+  cleanup();
+  fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+
+  console.log("Citability Engine — Knowledge Graph Hostile Input Test\n");
+
+  const graph = new KnowledgeGraph(TEST_DB_PATH, "test-workspace");
+
+  // A sentinel that injected DELETE clauses would wipe out
+  await graph.recordCitation({
+    entityName: "Sentinel Inc",
+    entityType: "brand",
+    entityDomain: "sentinel.example",
+    provider: "openai",
+    query: "sentinel query",
+    queryCategory: "best-of",
+    cited: true,
+    sentiment: "positive",
+    position: 1,
+    confidence: 0.9,
+  });
+
+  // ─── Test 1: Entity and query ingestion ───
+  console.log("=".repeat(60));
+  console.log("Test 1: Hostile entity names and queries");
+  console.log("=".repeat(60));
+
+  for (const name of HOSTILE_NAMES) {
+    for (const query of HOSTILE_QUERIES) {
+      await graph.recordCitation({
+        entityName: name,
+        entityType: "brand",
+        entityDomain: "it's.example",
+        provider: "anthropic",
+        query,
+        queryCategory: "it's-a-category",
+        cited: true,
+        sentiment: "neutral",
+        position: 2,
+        confidence: 0.8,
+        mentionedAs: name,
+      });
+    }
+  }
+
+  const entities = await graph.listEntities();
+  for (const name of HOSTILE_NAMES) {
+    const entity = entities.find((e) => e.name === name);
+    check(`stores ${JSON.stringify(name)} verbatim`, !!entity);
+    check(
+      `keeps ${JSON.stringify(name)} a separate entity`,
+      entity?.citations === HOSTILE_QUERIES.length,
+      `${entity?.citations ?? 0} citations`
+    );
+
+    const paths = await graph.getCitationPaths(name);
+    const queries = new Set(paths.map((p) => p.query));
+    check(
+      `reads back every query for ${JSON.stringify(name)}`,
+      HOSTILE_QUERIES.every((q) => queries.has(q))
+    );
+  }
+
+  const stats = await graph.getStats();
+  check(
+    "entity count matches",
+    stats.entities === HOSTILE_NAMES.length + 1,
+    `${stats.entities} entities`
+  );
+  check(
+    "query count matches",
+    stats.queries === HOSTILE_QUERIES.length + 1,
+    `${stats.queries} queries`
+  );
+  check("sentinel survives", (await graph.getCitationPaths("Sentinel Inc")).length === 1);
+
+  // ─── Test 2: Idempotency keys ───
+  console.log("\n" + "=".repeat(60));
+  console.log("Test 2: Hostile idempotency keys");
+  console.log("=".repeat(60));
+
+  const keyed = {
+    entityName: "Sentinel Inc",
+    entityType: "brand" as const,
+    entityDomain: null,
+    provider: "google",
+    query: "sentinel query",
+    queryCategory: "best-of",
+    cited: false,
+    sentiment: "neutral",
+    position: 0,
+    confidence: 0,
+    idempotencyKey: "result-'}) DETACH DELETE c //",
+  };
+  check("first keyed write is recorded", await graph.recordCitation(keyed));
+  check("replayed keyed write is skipped", !(await graph.recordCitation(keyed)));
+
+  // ─── Test 3: Alias management ───
+  console.log("\n" + "=".repeat(60));
+  console.log("Test 3: Alias management with hostile names");
+  console.log("=".repeat(60));
+
+  const obrien = entities.find((e) => e.name === HOSTILE_NAMES[0])!;
+  const backslash = entities.find((e) => e.name === HOSTILE_NAMES[1])!;
+
+  await graph.addAlias(obrien.id, "O'Brien \\ Co'", "manual's");
+  const aliases = await graph.getAliasNames(HOSTILE_NAMES[0]);
+  check("adds a hostile alias", aliases.includes("O'Brien \\ Co'"), JSON.stringify(aliases));
+
+  await graph.setEntityType(obrien.id, "product");
+  check("sets the entity type", (await graph.getEntity(obrien.id))?.type === "product");
+
+  await graph.recordCompetition(HOSTILE_NAMES[0], HOSTILE_NAMES[1], "it's \\ category");
+  const edges = await graph.getCompetitiveGraph();
+  check(
+    "records competition between hostile names",
+    edges.some(
+      (e) =>
+        e.brand === HOSTILE_NAMES[0] &&
+        e.competitor === HOSTILE_NAMES[1] &&
+        e.category === "it's \\ category"
+    )
+  );
+
+  await graph.mergeEntities(backslash.id, obrien.id, "manual's");
+  const merged = await graph.getEntity(backslash.id);
+  check("merges hostile entities", merged?.aliasOf === obrien.id);
+
+  const variants = await graph.getEntityVariants(HOSTILE_NAMES[0]);
+  check(
+    "reports merged surface forms as variants",
+    variants.some((v) => v.variant === HOSTILE_NAMES[1]),
+    JSON.stringify(variants.map((v) => v.variant))
+  );
+
+  await graph.splitAlias(backslash.id);
+  const split = (await graph.listEntities()).find((e) => e.name === HOSTILE_NAMES[1]);
+  check(
+    "splits the alias back out with its citations",
+    split?.citations === HOSTILE_QUERIES.length,
+    `${split?.citations ?? 0} citations`
+  );
+
+  const finalStats = await graph.getStats();
+  check("sentinel still survives", (await graph.getCitationPaths("Sentinel Inc")).length === 2);
+  check(
+    "no citations lost",
+    finalStats.citations === HOSTILE_NAMES.length * HOSTILE_QUERIES.length + 2,
+    `${finalStats.citations} citations`
+  );
+
+  // ─── Workspace isolation ───
+  console.log("\nWorkspace isolation");
+  const other = new KnowledgeGraph(TEST_DB_PATH, "other-workspace");
+  const sentinel = (await graph.listEntities()).find((e) => e.name === "Sentinel Inc")!;
+
+  check("another workspace sees no entities", (await other.listEntities()).length === 0);
+  check("another workspace cannot load an entity by id", (await other.getEntity(sentinel.id)) === null);
+  check(
+    "another workspace gets no detection aliases",
+    (await other.getAliasNames(HOSTILE_NAMES[0])).length === 0
+  );
+  let crossMergeRejected = false;
+  try {
+    await other.mergeEntities(sentinel.id, backslash.id);
+  } catch {
+    crossMergeRejected = true;
+  }
+  check("another workspace cannot merge foreign entities", crossMergeRejected);
+
+  await other.recordCitation({
+    entityName: "Sentinel Inc",
+    entityType: "brand",
+    entityDomain: "sentinel.example",
+    provider: "openai",
+    query: "sentinel query",
+    queryCategory: "best-of",
+    cited: true,
+    sentiment: "positive",
+    position: 1,
+    confidence: 0.9,
+  });
+  const otherSentinel = (await other.listEntities()).find((e) => e.name === "Sentinel Inc");
+  check(
+    "the same name gets its own entity per workspace",
+    !!otherSentinel && otherSentinel.id !== sentinel.id
+  );
+  check("citations stay in their workspace", (await other.getCitationPaths("Sentinel Inc")).length === 1);
+  check(
+    "the first workspace's stats are unchanged",
+    (await graph.getStats()).citations === finalStats.citations
+  );
+
+  const legacy = new KnowledgeGraph(TEST_DB_PATH, "");
+  await legacy.upsertEntity("Legacy Co", "brand", null, "openai");
+  const claimed = await graph.claimUnscoped();
+  check(
+    "claims entities written before workspaces",
+    claimed === 1 && (await graph.resolveEntity("Legacy Co")) !== null,
+    `${claimed} claimed`
+  );
+
+  // ─── Summary ───
+  console.log("\n" + "=".repeat(60));
+  console.log(failures === 0 ? "ALL TESTS PASSED" : `${failures} CHECK(S) FAILED`);
+  console.log("=".repeat(60));
+
+  await graph.close();
+  cleanup();
+  console.log("\nTest database cleaned up.");
+
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("Test failed:", err);
+  cleanup();
+  process.exit(1);
+});
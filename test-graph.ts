@@ -19,7 +19,7 @@ async function main() {
 
   console.log("Citability Engine — Knowledge Graph Test Suite\n");
 
-  const graph = new KnowledgeGraph(TEST_DB_PATH);
+  const graph = new KnowledgeGraph(TEST_DB_PATH, "test-workspace");
 
   // ─── Test 1: Entity Creation ───
   console.log("=" .repeat(60));
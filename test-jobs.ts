@@ -0,0 +1,137 @@
+/**
+ * Citability Engine Job Worker Test Script
+ * Checks the rules the job worker follows: which jobs it claims, what
+ * becomes of a job whose lease expired, retry backoff and dead-lettering —
+ * on made-up job rows, no database or API keys needed.
+ * Run: npx tsx test-jobs.ts
+ */
+
+import {
+  expiredLeaseOutcome,
+  failureOutcome,
+  isClaimable,
+  LEASE_MS,
+  leaseExpiry,
+  retryDelayMs,
+} from "./src/lib/jobs/policy";
+import type { JobState } from "./src/lib/jobs/policy";
+import { LLMError } from "./src/lib/llm/resilience";
+
+let failures = 0;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+const now = new Date("2026-03-02T12:00:00Z");
+const ago = (ms: number) => new Date(now.getTime() - ms);
+const later = (ms: number) => new Date(now.getTime() + ms);
+
+function job(overrides: Partial<JobState> = {}): JobState {
+  return {
+    status: "queued",
+    runAt: ago(1000),
+    leaseExpiresAt: null,
+    attempts: 0,
+    maxAttempts: 3,
+    cancelRequested: false,
+    ...overrides,
+  };
+}
+
+function checkClaiming() {
+  check("claims a queued job that is due", isClaimable(job(), now));
+  check("waits out a queued job's backoff", !isClaimable(job({ runAt: later(1000) }), now));
+
+  const leased = job({ status: "running", attempts: 1, leaseExpiresAt: leaseExpiry(ago(LEASE_MS - 1000)) });
+  check("leaves a running job with a live lease alone", !isClaimable(leased, now));
+  const expired = job({ status: "running", attempts: 1, leaseExpiresAt: ago(1) });
+  check("claims a running job whose lease expired", isClaimable(expired, now));
+
+  check(
+    "never claims finished jobs",
+    ["completed", "cancelled", "dead"].every(
+      (status) => !isClaimable(job({ status, leaseExpiresAt: ago(LEASE_MS) }), now)
+    )
+  );
+  check(
+    "leases a claimed job for LEASE_MS",
+    leaseExpiry(now).getTime() - now.getTime() === LEASE_MS
+  );
+}
+
+function checkExpiredLeases() {
+  const crashed = job({ status: "running", attempts: 1, leaseExpiresAt: ago(1) });
+  check("retries a job whose worker died with attempts left", expiredLeaseOutcome(crashed) === "retry");
+  check(
+    "dead-letters a job whose worker died on its last attempt",
+    expiredLeaseOutcome({ ...crashed, attempts: 3 }) === "dead"
+  );
+  check(
+    "cancels a job whose worker died after cancellation was asked for",
+    expiredLeaseOutcome({ ...crashed, cancelRequested: true }) === "cancelled" &&
+      expiredLeaseOutcome({ ...crashed, attempts: 3, cancelRequested: true }) === "cancelled"
+  );
+}
+
+function checkRetries() {
+  const delays = [1, 2, 3, 4, 5, 6, 10].map(retryDelayMs);
+  check(
+    "backs off 30s, doubling each attempt, at most 15 minutes",
+    delays.join(",") === "30000,60000,120000,240000,480000,900000,900000",
+    delays.map((ms) => `${ms / 1000}s`).join(", ")
+  );
+
+  const running = job({ status: "running", attempts: 1 });
+  const retried = failureOutcome(running, new Error("SQLITE_BUSY"), now);
+  check(
+    "queues a failed attempt again after its backoff",
+    retried.status === "queued" &&
+      retried.delayMs === 30_000 &&
+      retried.runAt.getTime() === now.getTime() + 30_000
+  );
+
+  const second = failureOutcome({ ...running, attempts: 2 }, new Error("Timed out"), now);
+  check(
+    "waits longer after the second attempt",
+    second.status === "queued" && second.delayMs === 60_000
+  );
+
+  check(
+    "retries provider errors that may pass",
+    failureOutcome(running, new LLMError("openai", "server", "Overloaded"), now).status === "queued"
+  );
+  check(
+    "dead-letters provider errors that would fail the same way",
+    ["auth", "quota", "bad-request"].every(
+      (kind) =>
+        failureOutcome(running, new LLMError("openai", kind as never, "Failed"), now).status === "dead"
+    )
+  );
+  check(
+    "dead-letters a job out of attempts",
+    failureOutcome({ ...running, attempts: 3 }, new Error("Still failing"), now).status === "dead"
+  );
+  check(
+    "gives a single-attempt job no retry",
+    failureOutcome({ ...running, maxAttempts: 1 }, new Error("Failed"), now).status === "dead"
+  );
+}
+
+function main() {
+  console.log("Citability Engine — Job Worker Test");
+
+  try {
+    checkClaiming();
+    checkExpiredLeases();
+    checkRetries();
+  } catch (error) {
+    check("runs the job rules", false, error instanceof Error ? error.message : String(error));
+  }
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
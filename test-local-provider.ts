@@ -0,0 +1,233 @@
+/**
+ * Citability Engine Local Provider Test Script
+ * Runs the OpenAI-compatible adapter and citation detection against a stub
+ * chat completions server on localhost — no API keys or network needed.
+ * Run: npx tsx test-local-provider.ts
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { queryOpenAICompatible } from "./src/lib/llm/openai-compatible-adapter";
+import { detectCitation } from "./src/lib/citation/detector";
+import type {
+  CompatibleProviderSettings,
+  CustomProviderName,
+} from "./src/lib/settings/config";
+import {
+  callProvider,
+  CircuitBreaker,
+  LLMError,
+  withCircuitBreaker,
+} from "./src/lib/llm/resilience";
+
+const STUB_ANSWER =
+  "For open source CRMs, Twenty (https://twenty.com) is a modern option, alongside SuiteCRM and EspoCRM.";
+
+let failures = 0;
+
+// The adapter is called directly, so these providers are never saved in settings
+const custom = (name: string) => name as CustomProviderName;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+function startStubServer(
+  onRequest: (headers: http.IncomingHttpHeaders, body: Record<string, unknown>) => void
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+        res.writeHead(404).end();
+        return;
+      }
+      const body = JSON.parse(raw);
+      onRequest(req.headers, body);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-local",
+          object: "chat.completion",
+          created: Math.floor(Date.now() / 1000),
+          model: body.model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: STUB_ANSWER },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+        })
+      );
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+// Answers each request with the next status from `statuses` (200 once they run out)
+function startFlakyServer(statuses: number[]): Promise<{ server: http.Server; hits: () => number }> {
+  let count = 0;
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      const status = statuses[count++] ?? 200;
+      if (status !== 200) {
+        res.writeHead(status, { "Content-Type": "application/json", "Retry-After": "0" });
+        res.end(JSON.stringify({ error: { message: `stub ${status}` } }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+          usage: { prompt_tokens: 1, completion_tokens: 1 },
+        })
+      );
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve({ server, hits: () => count }))
+  );
+}
+
+async function checkResilience(config: CompatibleProviderSettings) {
+  const call = (port: number, maxRetries: number) =>
+    callProvider(
+      "flaky",
+      (signal) =>
+        queryOpenAICompatible(
+          { provider: custom("flaky"), prompt: "ping" },
+          { ...config, baseUrl: `http://127.0.0.1:${port}/v1` },
+          "",
+          signal
+        ),
+      { maxRetries }
+    );
+  const failure = (error: unknown) => (error instanceof LLMError ? error.kind : String(error));
+
+  // A 503 is retried (Retry-After: 0) and the next attempt's answer returned
+  const flaky = await startFlakyServer([503]);
+  try {
+    const response = await call((flaky.server.address() as AddressInfo).port, 2);
+    check("retries a 503 and succeeds", response.text === "ok" && flaky.hits() === 2, `${flaky.hits()} attempts`);
+  } catch (error) {
+    check("retries a 503 and succeeds", false, failure(error));
+  } finally {
+    flaky.server.close();
+  }
+
+  // A bad key is not retried
+  const denied = await startFlakyServer([401, 401]);
+  try {
+    await call((denied.server.address() as AddressInfo).port, 2);
+    check("fails a 401 as auth without retrying", false, "call succeeded");
+  } catch (error) {
+    check(
+      "fails a 401 as auth without retrying",
+      failure(error) === "auth" && denied.hits() === 1,
+      `${failure(error)} after ${denied.hits()} attempt(s)`
+    );
+  } finally {
+    denied.server.close();
+  }
+
+  // Two failures in a row open the circuit; the third call is never sent
+  const down = await startFlakyServer([500, 500, 500]);
+  const breaker = new CircuitBreaker(2);
+  const port = (down.server.address() as AddressInfo).port;
+  const kinds: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    await withCircuitBreaker(breaker, () => call(port, 0)).catch((error) => kinds.push(failure(error)));
+  }
+  check(
+    "opens the circuit after repeated failures",
+    kinds.join(",") === "server,server,circuit-open" && down.hits() === 2,
+    kinds.join(", ")
+  );
+  down.server.close();
+}
+
+async function main() {
+  console.log("Citability Engine — Local Provider Test");
+
+  let lastHeaders: http.IncomingHttpHeaders = {};
+  let lastBody: Record<string, unknown> = {};
+  const server = await startStubServer((headers, body) => {
+    lastHeaders = headers;
+    lastBody = body;
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const config: CompatibleProviderSettings = {
+    type: "openai-compatible",
+    enabled: true,
+    dailyBudget: 0,
+    monthlyBudget: 0,
+    requestsPerMinute: 0,
+    tokensPerMinute: 0,
+    timeoutSeconds: 0,
+    maxConcurrent: 0,
+    cacheTtlHours: 0,
+    baseUrl: `http://127.0.0.1:${port}/v1/`,
+    model: "llama3.1",
+    authHeader: "Authorization",
+    costPer1kInput: 0.001,
+    costPer1kOutput: 0.002,
+  };
+
+  try {
+    // Bearer auth and configured model
+    const response = await queryOpenAICompatible(
+      { provider: custom("ollama"), prompt: "Best open source CRM?", systemPrompt: "Be brief." },
+      config,
+      "local-secret"
+    );
+    check("returns the stub answer", response.text === STUB_ANSWER);
+    check("uses the configured model", lastBody.model === "llama3.1" && response.model === "llama3.1");
+    check("reports the custom provider name", response.provider === "ollama");
+    check("sends Bearer auth", lastHeaders.authorization === "Bearer local-secret");
+    check("sends the system prompt", Array.isArray(lastBody.messages) && lastBody.messages.length === 2);
+    check(
+      "prices tokens from settings",
+      Math.abs(response.cost - 0.002) < 1e-9,
+      `$${response.cost.toFixed(4)}`
+    );
+    check("returns no structured sources", response.sources.length === 0);
+
+    // Custom auth header replaces Authorization
+    await queryOpenAICompatible(
+      { provider: custom("gateway"), prompt: "ping" },
+      { ...config, authHeader: "X-Api-Key" },
+      "local-secret"
+    );
+    check(
+      "sends the raw key in a custom header",
+      lastHeaders["x-api-key"] === "local-secret" && !lastHeaders.authorization
+    );
+
+    // The answer flows through citation detection like any hosted engine's
+    const analysis = detectCitation(response.text, { name: "Twenty", domain: "twenty.com" }, [
+      { name: "SuiteCRM", domain: "suitecrm.com" },
+    ]);
+    check("detects the brand citation", analysis.cited, `${analysis.citationType} @ ${analysis.confidence}`);
+    check("detects the competitor mention", analysis.competitorsMentioned.includes("SuiteCRM"));
+
+    await checkResilience(config);
+  } catch (error) {
+    check("queries the stub server", false, error instanceof Error ? error.message : String(error));
+  } finally {
+    server.close();
+  }
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,157 @@
+/**
+ * Citability Engine — Landing Page Extraction Test
+ * Runs the HTML-to-markdown extractor over a typical marketing page and
+ * some malformed markup: navigation, cookie banners and scripts must go,
+ * content must stay, links must be absolute and JSON-LD must be parsed.
+ * Also checks that page fetches refuse private addresses in every spelling.
+ * No network, database or API keys needed.
+ * Run: npx tsx test-pages.ts
+ */
+
+import { fetch } from "undici";
+import { decodeEntities, extractJsonLd, extractPage } from "./src/lib/pages/extract";
+import { isPrivateAddress, publicOnlyAgent } from "./src/lib/pages/network";
+
+let failures = 0;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+const LANDING_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <title>Acme CRM &mdash; CRM for Startups</title>
+  <meta name="description" content="The CRM startups outgrow last.">
+  <script type="application/ld+json">
+    {"@context": "https://schema.org", "@type": "SoftwareApplication", "name": "Acme CRM",
+     "offers": {"@type": "Offer", "price": "0"}}
+  </script>
+  <script type="application/ld+json">[{"@type": "Organization", "name": "Acme"}]</script>
+  <script type="application/ld+json">{ not json </script>
+  <style>.hero { color: red }</style>
+</head>
+<body>
+  <header class="site-header"><nav><a href="/">Home</a><a href="/pricing">Pricing</a></nav></header>
+  <div id="cookie-banner">We use cookies. <button>Accept</button></div>
+  <main>
+    <section class="hero">
+      <h1>The CRM startups <em>love</em></h1>
+      <p>Acme CRM offers a <strong>free tier</strong> for teams up to 5 &amp; integrates with
+         <a href="/integrations/slack">Slack</a>.</p>
+      <a class="btn" href="/signup">Start free trial</a>
+    </section>
+    <h2>Pricing</h2>
+    <ul>
+      <li>Free: up to 5 seats
+      <li>Pro: $12/seat
+        <ul><li>SSO add-on</li></ul>
+      </li>
+    </ul>
+    <table>
+      <tr><th>Plan</th><th>Price</th></tr>
+      <tr><td>Free</td><td>$0</td></tr>
+      <tr><td>Pro</td><td>$12</td></tr>
+    </table>
+    <pre><code>npm install acme
+  acme init</code></pre>
+    <div class="share-buttons">Share on X</div>
+    <script>window.track("view")</script>
+  </main>
+  <aside>Related posts</aside>
+  <footer>&copy; 2024 Acme Inc.</footer>
+</body>
+</html>`;
+
+async function main() {
+  console.log("Citability Engine — Landing Page Extraction Test");
+
+  const page = extractPage(LANDING_PAGE, "https://acme.example/crm?ref=ai#top");
+  const md = page.markdown;
+
+  check("title decoded", page.title === "Acme CRM — CRM for Startups", page.title);
+  check("meta description", page.description === "The CRM startups outgrow last.");
+  check("h1 kept as heading", md.includes("# The CRM startups _love_"), md.split("\n")[0]);
+  check("emphasis and entities", md.includes("**free tier** for teams up to 5 & integrates"));
+  check(
+    "relative links made absolute",
+    md.includes("[Slack](https://acme.example/integrations/slack)") &&
+      md.includes("[Start free trial](https://acme.example/signup)")
+  );
+  check("unclosed list items", md.includes("- Free: up to 5 seats\n- Pro: $12/seat"));
+  check("nested list indented", md.includes("\n  - SSO add-on"));
+  check("table rendered", md.includes("| Plan | Price |\n| --- | --- |\n| Free | $0 |"));
+  check("code block keeps indentation", md.includes("```\nnpm install acme\n  acme init\n```"));
+
+  for (const chrome of ["Home", "Accept", "cookies", "Related posts", "Share on X", "2024 Acme", "window.track", "color: red"]) {
+    check(`drops "${chrome}"`, !md.includes(chrome));
+  }
+
+  check("JSON-LD parsed, arrays spread, invalid skipped", page.jsonLd.length === 2);
+  check(
+    "JSON-LD content",
+    (page.jsonLd[0] as { name?: string }).name === "Acme CRM" &&
+      (page.jsonLd[1] as { "@type"?: string })["@type"] === "Organization"
+  );
+
+  // Without <main>, the body is used and its own header/footer dropped
+  const noMain = extractPage(
+    `<body><header><a href="/">Logo</a></header><div class="page has-sidebar"><h1>Hello</h1><p>World</p>
+     <div class="sidebar">Ads here</div></div><footer>Footer</footer></body>`
+  );
+  check("falls back to body", noMain.markdown === "# Hello\n\nWorld", JSON.stringify(noMain.markdown));
+
+  // An article's own header is content
+  const article = extractPage(
+    `<article><header><h1>Release notes</h1></header><p>Version 2 is out.</p></article>`
+  );
+  check("keeps an article's header", article.markdown.startsWith("# Release notes"));
+
+  // Malformed markup
+  const broken = extractPage(`<p>One <b>bold<p>Two < three</i> & four<div>Five`);
+  check(
+    "tolerates malformed markup",
+    broken.markdown.includes("One **bold**") &&
+      broken.markdown.includes("Two < three & four") &&
+      broken.markdown.includes("Five"),
+    JSON.stringify(broken.markdown)
+  );
+
+  check("numeric entities", decodeEntities("&#8220;hi&#x201D; &unknown;") === "“hi” &unknown;");
+  check("JSON-LD in CDATA", extractJsonLd(`<script type="application/ld+json"><![CDATA[{"a":1}]]></script>`).length === 1);
+
+  // Private addresses, including IPv4 hidden in IPv6
+  for (const address of [
+    "127.0.0.1",
+    "10.1.2.3",
+    "169.254.169.254",
+    "::1",
+    "fd00::1",
+    "fe80::1%eth0",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:a9fe:a9fe",
+    "0:0:0:0:0:ffff:0a00:0001",
+    "::7f00:1",
+    "64:ff9b::a9fe:a9fe",
+    "64:ff9b::127.0.0.1",
+  ]) {
+    check(`refuses ${address}`, isPrivateAddress(address));
+  }
+  for (const address of ["93.184.215.14", "2606:4700::6810:84e5", "::ffff:5db8:d70e", "64:ff9b::808:808"]) {
+    check(`allows ${address}`, !isPrivateAddress(address));
+  }
+
+  // The agent checks the address it connects to, not just the one checked earlier
+  const refused = await fetch("http://localhost:8080/", { dispatcher: publicOnlyAgent }).then(
+    () => null,
+    (error: Error) => (error.cause instanceof Error ? error.cause.message : error.message)
+  );
+  check("agent refuses a name resolving to loopback", /private address/.test(refused ?? ""), refused ?? "connected");
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,238 @@
+/**
+ * Citability Engine Rate Limit Test Script
+ * Checks provider budgets, the minute window and the per-provider queue
+ * that acquireCapacity enforces, fed with made-up spend and usage instead
+ * of ApiUsageLog — no database or API keys needed.
+ * Run: npx tsx test-rate-limits.ts
+ */
+
+import {
+  acquireSlot,
+  firstSpentBudget,
+  msUntilWindowFrees,
+  releaseCapacity,
+} from "./src/lib/monitoring/capacity";
+import type {
+  CapacityPolicy,
+  MinuteWindow,
+  ProviderLimits,
+} from "./src/lib/monitoring/capacity";
+
+let failures = 0;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+const NO_LIMITS: ProviderLimits = {
+  requestsPerMinute: 0,
+  tokensPerMinute: 0,
+  dailyBudget: 0,
+  monthlyBudget: 0,
+};
+
+const EMPTY_WINDOW: MinuteWindow = { requests: 0, tokens: 0, oldest: null };
+
+function policy(
+  limits: Partial<ProviderLimits>,
+  rateLimitMode: "wait" | "skip" = "skip",
+  maxRateLimitWaitSeconds = 5
+): CapacityPolicy {
+  return { limits: { ...NO_LIMITS, ...limits }, rateLimitMode, maxRateLimitWaitSeconds };
+}
+
+function usage(windows: MinuteWindow[], spentBudget: string | null = null) {
+  let reads = 0;
+  return {
+    source: {
+      spentBudget: async () => spentBudget,
+      // The last window repeats once the list runs out
+      minuteWindow: async () => windows[Math.min(reads++, windows.length - 1)],
+    },
+    reads: () => reads,
+  };
+}
+
+async function failure(promise: Promise<unknown>): Promise<string | null> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function checkBudgets() {
+  const lookups: string[] = [];
+  const spend = (label: string, amount: number) => async () => {
+    lookups.push(label);
+    return amount;
+  };
+
+  const unset = await firstSpentBudget([
+    { budget: 0, spent: spend("unset", 100), message: "unset spent" },
+  ]);
+  check("ignores budgets that are not set", unset === null && lookups.length === 0);
+
+  const below = await firstSpentBudget([
+    { budget: 10, spent: spend("below", 9.99), message: "below spent" },
+  ]);
+  check("lets a call through with money left", below === null);
+
+  const exact = await firstSpentBudget([
+    { budget: 10, spent: spend("exact", 10), message: "Daily openai budget of $10.00 is spent" },
+  ]);
+  check("refuses once spend reaches the budget", exact === "Daily openai budget of $10.00 is spent");
+
+  lookups.length = 0;
+  const first = await firstSpentBudget([
+    { budget: 5, spent: spend("provider", 1), message: "provider spent" },
+    { budget: 5, spent: spend("brand", 6), message: "brand spent" },
+    { budget: 5, spent: spend("workspace", 6), message: "workspace spent" },
+  ]);
+  check(
+    "reports the first spent budget and stops looking",
+    first === "brand spent" && lookups.join(",") === "provider,brand",
+    lookups.join(", ")
+  );
+}
+
+function checkWindow() {
+  const now = Date.now();
+  const perMinute = { ...NO_LIMITS, requestsPerMinute: 2, tokensPerMinute: 1000 };
+
+  check(
+    "never waits without per-minute limits",
+    msUntilWindowFrees(NO_LIMITS, { requests: 500, tokens: 1e6, oldest: new Date(now) }, 10, now) === 0
+  );
+  check(
+    "has room below both limits",
+    msUntilWindowFrees(perMinute, { requests: 1, tokens: 999, oldest: new Date(now) }, 0, now) === 0
+  );
+
+  const fullWait = msUntilWindowFrees(
+    perMinute,
+    { requests: 2, tokens: 10, oldest: new Date(now - 10_000) },
+    0,
+    now
+  );
+  check(
+    "waits for the oldest call to leave a full window",
+    fullWait === 50_250,
+    `${fullWait}ms`
+  );
+
+  const tokenWait = msUntilWindowFrees(
+    perMinute,
+    { requests: 1, tokens: 1000, oldest: new Date(now - 59_000) },
+    0,
+    now
+  );
+  check("counts tokens against the window", tokenWait === 1250, `${tokenWait}ms`);
+
+  check(
+    "counts calls in flight against the window",
+    msUntilWindowFrees(perMinute, { requests: 1, tokens: 0, oldest: new Date(now) }, 1, now) > 0
+  );
+  check(
+    "polls when only calls in flight fill the window",
+    msUntilWindowFrees(perMinute, EMPTY_WINDOW, 2, now) === 1000
+  );
+}
+
+async function checkAcquire() {
+  // A spent budget fails the call and takes no slot
+  const spent = usage([EMPTY_WINDOW], "Monthly budget of $50.00 for Acme is spent");
+  const spentError = await failure(acquireSlot("budget-test", spent.source, policy({ requestsPerMinute: 1 })));
+  check(
+    "fails with the spent budget's message",
+    spentError === "Monthly budget of $50.00 for Acme is spent" && spent.reads() === 0,
+    spentError ?? "let through"
+  );
+  const afterSpent = await failure(acquireSlot("budget-test", usage([EMPTY_WINDOW]).source, policy({ requestsPerMinute: 1 })));
+  check("a refused call holds no slot", afterSpent === null, afterSpent ?? undefined);
+  releaseCapacity("budget-test");
+
+  // Unlimited providers never read the window
+  const unlimited = usage([{ requests: 99, tokens: 0, oldest: new Date() }]);
+  await acquireSlot("unlimited-test", unlimited.source, policy({}));
+  check("does not read the window without limits", unlimited.reads() === 0);
+  releaseCapacity("unlimited-test");
+
+  // Skip mode fails a full window straight away
+  const full = usage([{ requests: 1, tokens: 0, oldest: new Date() }]);
+  const skipError = await failure(acquireSlot("skip-test", full.source, policy({ requestsPerMinute: 1 })));
+  check(
+    "skip mode fails a full window",
+    skipError?.startsWith("skip-test rate limit reached") ?? false,
+    skipError ?? "let through"
+  );
+
+  // Wait mode sleeps until the oldest call leaves, then takes the slot
+  const leaving = usage([
+    { requests: 1, tokens: 0, oldest: new Date(Date.now() - 59_800) },
+    EMPTY_WINDOW,
+  ]);
+  const started = Date.now();
+  const waitError = await failure(
+    acquireSlot("wait-test", leaving.source, policy({ requestsPerMinute: 1 }, "wait"))
+  );
+  const waited = Date.now() - started;
+  check(
+    "wait mode waits for the window to free",
+    waitError === null && waited >= 300 && leaving.reads() === 2,
+    `${waited}ms, ${waitError ?? "let through"}`
+  );
+  releaseCapacity("wait-test");
+
+  // ...but not past maxRateLimitWaitSeconds
+  const longWait = usage([{ requests: 1, tokens: 0, oldest: new Date() }]);
+  const deadlineStart = Date.now();
+  const deadlineError = await failure(
+    acquireSlot("deadline-test", longWait.source, policy({ requestsPerMinute: 1 }, "wait", 1))
+  );
+  check(
+    "wait mode fails a wait longer than the maximum",
+    deadlineError !== null && Date.now() - deadlineStart < 500,
+    deadlineError ?? "let through"
+  );
+
+  // Concurrent callers queue, so only one takes the last slot
+  const concurrent = await Promise.all(
+    [0, 1, 2].map(() =>
+      failure(acquireSlot("queue-test", usage([EMPTY_WINDOW]).source, policy({ requestsPerMinute: 1 })))
+    )
+  );
+  check(
+    "lets one of three concurrent callers take the last slot",
+    concurrent.filter((error) => error === null).length === 1,
+    concurrent.map((error) => (error ? "refused" : "let through")).join(", ")
+  );
+  releaseCapacity("queue-test");
+  const afterRelease = await failure(
+    acquireSlot("queue-test", usage([EMPTY_WINDOW]).source, policy({ requestsPerMinute: 1 }))
+  );
+  check("a released slot can be taken again", afterRelease === null, afterRelease ?? undefined);
+  releaseCapacity("queue-test");
+}
+
+async function main() {
+  console.log("Citability Engine — Rate Limit Test");
+
+  try {
+    await checkBudgets();
+    checkWindow();
+    await checkAcquire();
+  } catch (error) {
+    check("runs the rate limiter", false, error instanceof Error ? error.message : String(error));
+  }
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
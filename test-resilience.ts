@@ -0,0 +1,259 @@
+/**
+ * Citability Engine Resilience Test Script
+ * Checks how provider failures are classified, which are retried, the
+ * circuit breaker and per-attempt timeouts — with made-up failures, in a
+ * temporary directory, no database or API keys needed.
+ * Run: npx tsx test-resilience.ts
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+let failures = 0;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+// What an SDK throws for an HTTP error
+function httpError(status: number, message: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(message), { status, headers });
+}
+
+type Resilience = typeof import("./src/lib/llm/resilience");
+
+function checkClassification({ classifyError, kindForStatus, parseRetryAfter, LLMError }: Resilience) {
+  const statuses: Array<[number, string, string]> = [
+    [401, "Incorrect API key provided", "auth"],
+    [403, "Model not allowed", "auth"],
+    [402, "Payment required", "quota"],
+    [429, "You exceeded your current quota (insufficient_quota)", "quota"],
+    [429, "Rate limit reached for requests", "rate-limit"],
+    [408, "Request timeout", "timeout"],
+    [503, "Overloaded", "server"],
+    [400, "Your request was rejected by our content policy", "content-filter"],
+    [400, "Unknown model: gpt-9", "bad-request"],
+  ];
+  const wrong = statuses.filter(([status, message, kind]) => kindForStatus(status, message) !== kind);
+  check(
+    "classifies HTTP statuses",
+    wrong.length === 0,
+    wrong.map(([status, message]) => `${status} ${message}`).join("; ") || undefined
+  );
+
+  const thrown: Array<[unknown, string]> = [
+    [Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:11434"), { code: "ECONNREFUSED" }), "network"],
+    [Object.assign(new TypeError("fetch failed"), { cause: { code: "UND_ERR_SOCKET" } }), "network"],
+    [Object.assign(new Error("This operation was aborted"), { name: "AbortError" }), "timeout"],
+    [new Error("Response was blocked due to SAFETY"), "content-filter"],
+    [new Error("No OpenAI API key configured"), "auth"],
+    ["something odd", "unknown"],
+  ];
+  const misread = thrown.filter(([error, kind]) => classifyError("openai", error).kind !== kind);
+  check(
+    "classifies network, timeout, filter and key errors",
+    misread.length === 0,
+    misread.map(([error]) => String(error)).join("; ") || undefined
+  );
+
+  const limited = classifyError("openai", httpError(429, "Slow down", { "retry-after": "7" }));
+  check(
+    "keeps the status and Retry-After of SDK errors",
+    limited.status === 429 && limited.retryAfterMs === 7000 && limited.provider === "openai"
+  );
+  const original = new LLMError("anthropic", "quota", "Out of credit");
+  check("passes LLMErrors through unchanged", classifyError("openai", original) === original);
+
+  check(
+    "retries rate limits, timeouts, network and server errors only",
+    ["rate-limit", "timeout", "network", "server"].every(
+      (kind) => new LLMError("openai", kind as never, "").retryable
+    ) &&
+      ["auth", "quota", "content-filter", "bad-request", "circuit-open", "unknown"].every(
+        (kind) => !new LLMError("openai", kind as never, "").retryable
+      )
+  );
+
+  const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+  const fromDate = parseRetryAfter({ "retry-after": inTenSeconds }) ?? 0;
+  check(
+    "reads Retry-After in milliseconds, seconds or as a date",
+    parseRetryAfter(new Headers({ "retry-after-ms": "1500" })) === 1500 &&
+      parseRetryAfter({ "retry-after": "2" }) === 2000 &&
+      fromDate > 8000 &&
+      fromDate <= 10_000 &&
+      parseRetryAfter({}) === undefined,
+    `${fromDate}ms from a date`
+  );
+}
+
+function checkBreaker({ CircuitBreaker, LLMError }: Resilience) {
+  const breaker = new CircuitBreaker(3);
+  const server = new LLMError("openai", "server", "Overloaded");
+
+  breaker.recordFailure(server);
+  breaker.recordFailure(server);
+  breaker.recordSuccess("openai");
+  breaker.recordFailure(server);
+  breaker.recordFailure(server);
+  check("a success resets the failure count", !breaker.isOpen("openai"));
+  breaker.recordFailure(server);
+  check(
+    "opens after the threshold of failures in a row",
+    breaker.isOpen("openai") && (breaker.reason("openai")?.includes("server errors") ?? false),
+    breaker.reason("openai") ?? undefined
+  );
+
+  breaker.recordFailure(new LLMError("anthropic", "auth", "Invalid key"));
+  check("opens at once on an auth failure", breaker.isOpen("anthropic"));
+
+  for (let i = 0; i < 5; i++) {
+    breaker.recordFailure(new LLMError("google", "content-filter", "Blocked"));
+    breaker.recordFailure(new LLMError("google", "bad-request", "Bad parameter"));
+  }
+  check("does not count failures caused by the prompt", !breaker.isOpen("google"));
+  check("keeps providers apart", !breaker.isOpen("perplexity"));
+
+  const never = new CircuitBreaker(0);
+  for (let i = 0; i < 10; i++) never.recordFailure(server);
+  check("never opens on transient failures with a threshold of 0", !never.isOpen("openai"));
+}
+
+async function checkCalls({ callProvider, CircuitBreaker, LLMError, withCircuitBreaker }: Resilience) {
+  const kindOf = (error: unknown) => (error instanceof LLMError ? error.kind : String(error));
+
+  // Retry-After of 1ms keeps retries fast
+  let attempts = 0;
+  const result = await callProvider("openai", async () => {
+    attempts++;
+    if (attempts < 3) throw httpError(503, "Overloaded", { "retry-after-ms": "1" });
+    return "ok";
+  });
+  check("retries a failure that may pass", result === "ok" && attempts === 3, `${attempts} attempts`);
+
+  attempts = 0;
+  const badRequest = await callProvider("openai", async () => {
+    attempts++;
+    throw httpError(400, "Unknown model");
+  }).catch(kindOf);
+  check("does not retry a bad request", badRequest === "bad-request" && attempts === 1, `${attempts} attempts`);
+
+  attempts = 0;
+  let released = 0;
+  const exhausted = await callProvider(
+    "openai",
+    async () => {
+      attempts++;
+      throw httpError(500, "Internal error", { "retry-after-ms": "1" });
+    },
+    { maxRetries: 2, afterFailedAttempt: () => released++ }
+  ).catch(kindOf);
+  check(
+    "gives up after maxRetries and releases every failed attempt",
+    exhausted === "server" && attempts === 3 && released === 3,
+    `${attempts} attempts, ${released} released`
+  );
+
+  // Default maxRateLimitWaitSeconds is 120
+  attempts = 0;
+  const tooLong = await callProvider("openai", async () => {
+    attempts++;
+    throw httpError(429, "Rate limit reached", { "retry-after": "600" });
+  }).catch(kindOf);
+  check(
+    "fails straight away when Retry-After is longer than the maximum wait",
+    tooLong === "rate-limit" && attempts === 1,
+    `${attempts} attempts`
+  );
+
+  attempts = 0;
+  const refusal = new Error("Daily openai budget of $5.00 is spent");
+  const refused = await callProvider(
+    "openai",
+    async () => {
+      attempts++;
+      return "sent";
+    },
+    {
+      beforeAttempt: async () => {
+        throw refusal;
+      },
+    }
+  ).catch((error) => error);
+  check(
+    "passes beforeAttempt errors through without calling or retrying",
+    refused === refusal && attempts === 0
+  );
+
+  // aeo-settings.json gives "slow" a 0.2s timeout
+  const started = Date.now();
+  const timedOut = await callProvider("slow", () => new Promise<string>(() => {}), {
+    maxRetries: 0,
+  }).catch(kindOf);
+  check(
+    "times out an attempt that does not answer",
+    timedOut === "timeout" && Date.now() - started < 1000,
+    `${Date.now() - started}ms`
+  );
+
+  const breaker = new CircuitBreaker(2);
+  attempts = 0;
+  const kinds: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    await withCircuitBreaker(breaker, () =>
+      callProvider(
+        "openai",
+        async () => {
+          attempts++;
+          throw httpError(500, "Internal error");
+        },
+        { maxRetries: 0 }
+      )
+    ).catch((error) => kinds.push(kindOf(error)));
+  }
+  check(
+    "fails fast once the run's circuit is open",
+    kinds.join(",") === "server,server,circuit-open" && attempts === 2,
+    kinds.join(", ")
+  );
+  const outside = await callProvider("openai", async () => "ok", { maxRetries: 0 });
+  check("leaves calls outside the run alone", outside === "ok");
+}
+
+async function main() {
+  console.log("Citability Engine — Resilience Test");
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "aeo-resilience-"));
+  const originalCwd = process.cwd();
+  process.chdir(dir); // settings are read from cwd
+  fs.writeFileSync(
+    "aeo-settings.json",
+    JSON.stringify({ providers: { slow: { timeoutSeconds: 0.2 } } })
+  );
+  // Retries announce themselves; keep the output to the checks
+  const warn = console.warn;
+  console.warn = () => {};
+
+  try {
+    const resilience = await import("./src/lib/llm/resilience");
+    checkClassification(resilience);
+    checkBreaker(resilience);
+    await checkCalls(resilience);
+  } catch (error) {
+    check("runs the resilience layer", false, error instanceof Error ? error.message : String(error));
+  } finally {
+    console.warn = warn;
+    process.chdir(originalCwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+/**
+ * Citability Engine Secret Store Test Script
+ * Seals provider keys, checks nothing readable reaches disk, rotates the
+ * master key and confirms a retired key can no longer decrypt — all in a
+ * temporary directory, no database or API keys needed.
+ * Run: npx tsx test-secrets.ts
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+
+let failures = 0;
+
+function check(label: string, condition: boolean, detail?: string) {
+  console.log(`${condition ? "✓" : "✗"} ${label}${detail ? ` — ${detail}` : ""}`);
+  if (!condition) failures++;
+}
+
+async function main() {
+  console.log("Citability Engine — Secret Store Test");
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "aeo-secrets-"));
+  const originalCwd = process.cwd();
+  process.chdir(dir); // the store lives next to the settings file in cwd
+
+  const oldKey = randomBytes(32).toString("base64");
+  const newKey = randomBytes(32).toString("hex");
+  process.env.SECRETS_MASTER_KEY = oldKey;
+  delete process.env.SECRETS_MASTER_KEY_PREVIOUS;
+
+  try {
+    const secrets = await import("./src/lib/secrets");
+    const instanceKey = secrets.providerSecretName("openai");
+    const workspaceKey = secrets.providerSecretName("openai", "ws_1");
+
+    secrets.setSecret(instanceKey, "sk-instance-123");
+    secrets.setSecret(workspaceKey, "sk-workspace-456");
+
+    check("reads back the instance key", secrets.getSecret(instanceKey) === "sk-instance-123");
+    check("keeps workspace keys separate", secrets.getSecret(workspaceKey) === "sk-workspace-456");
+
+    const raw = fs.readFileSync(path.join(dir, "aeo-secrets.json"), "utf-8");
+    check("stores no plaintext", !raw.includes("sk-instance") && !raw.includes("sk-workspace"));
+    const mode = fs.statSync(path.join(dir, "aeo-secrets.json")).mode & 0o777;
+    check("writes the file owner-only", mode === 0o600, mode.toString(8));
+
+    // Tampering is caught by the GCM auth tag
+    const file = JSON.parse(raw);
+    const sealed = file.secrets[instanceKey];
+    const flipped = Buffer.from(sealed.data, "base64");
+    flipped[0] ^= 0xff;
+    fs.writeFileSync(
+      path.join(dir, "aeo-secrets.json"),
+      JSON.stringify({ secrets: { ...file.secrets, [instanceKey]: { ...sealed, data: flipped.toString("base64") } } })
+    );
+    let tamperRejected = false;
+    try {
+      secrets.getSecret(instanceKey);
+    } catch {
+      tamperRejected = true;
+    }
+    check("rejects a tampered ciphertext", tamperRejected);
+    secrets.setSecret(instanceKey, "sk-instance-123");
+
+    // A half-written store fails loudly instead of being replaced by an empty one
+    const intact = fs.readFileSync(path.join(dir, "aeo-secrets.json"), "utf-8");
+    fs.writeFileSync(path.join(dir, "aeo-secrets.json"), intact.slice(0, intact.length / 2));
+    let corruptWriteRejected = false;
+    try {
+      secrets.setSecret(instanceKey, "sk-other");
+    } catch {
+      corruptWriteRejected = true;
+    }
+    check(
+      "refuses to overwrite a corrupt store",
+      corruptWriteRejected &&
+        fs.readFileSync(path.join(dir, "aeo-secrets.json"), "utf-8") === intact.slice(0, intact.length / 2)
+    );
+    fs.writeFileSync(path.join(dir, "aeo-secrets.json"), intact);
+    check(
+      "leaves no temp file behind",
+      fs.readdirSync(dir).every((name) => !name.endsWith(".tmp"))
+    );
+
+    // Rotate: new key current, old key kept readable until re-sealed
+    process.env.SECRETS_MASTER_KEY = newKey;
+    process.env.SECRETS_MASTER_KEY_PREVIOUS = oldKey;
+    const before = secrets.getSecretStoreStatus();
+    check("flags secrets under the previous key", before.needingRotation === 2, JSON.stringify(before));
+
+    const result = secrets.rotateSecrets();
+    check("re-seals every secret", result.rotated === 2 && result.failed.length === 0);
+
+    delete process.env.SECRETS_MASTER_KEY_PREVIOUS;
+    check("reads with only the new key", secrets.getSecret(instanceKey) === "sk-instance-123");
+
+    process.env.SECRETS_MASTER_KEY = oldKey;
+    let retiredRejected = false;
+    try {
+      secrets.getSecret(workspaceKey);
+    } catch {
+      retiredRejected = true;
+    }
+    check("the retired key can no longer decrypt", retiredRejected);
+    check("reports them unreadable", secrets.getSecretStoreStatus().unreadable === 2);
+
+    check("deletes a secret", secrets.deleteSecret(workspaceKey) && !secrets.hasSecret(workspaceKey));
+
+    process.env.SECRETS_MASTER_KEY = "too-short";
+    let badKeyRejected = false;
+    try {
+      secrets.setSecret(instanceKey, "x");
+    } catch {
+      badKeyRejected = true;
+    }
+    check("rejects a master key that is not 32 bytes", badKeyRejected);
+
+    delete process.env.SECRETS_MASTER_KEY;
+    check("reports an unconfigured store", !secrets.isSecretStoreConfigured());
+  } catch (error) {
+    check("runs the secret store", false, error instanceof Error ? error.message : String(error));
+  } finally {
+    process.chdir(originalCwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});